@@ -8,8 +8,16 @@ export const discussionsyncSourceConfigSchema = z.object({
   webhookUrl: z.string().optional(),
   webhookSecret: z.string().optional(),
   apiToken: z.string().optional(),
+  destinationType: z.string().min(1, 'destinationType is required'),
+  destinationConfig: z.object({}).optional(),
+  destinationToken: z.string().optional(),
+  additionalDestinations: z.array(z.object({
+    destinationType: z.string().min(1, 'destinationType is required'),
+    destinationConfig: z.record(z.string(), z.unknown()).optional(),
+    destinationToken: z.string().optional()
+  })).optional(),
   notionToken: z.string().optional(),
-  notionDatabaseId: z.string().min(1, 'notionDatabaseId is required'),
+  notionDatabaseId: z.string().optional(),
   notionFieldMapping: z.object({}).optional(),
   anthropicApiKey: z.string().optional(),
   aiEnabled: z.boolean(),
@@ -17,9 +25,13 @@ export const discussionsyncSourceConfigSchema = z.object({
   aiTaskPrompt: z.string().optional(),
   autoSync: z.boolean(),
   postConfirmation: z.boolean(),
+  approvalRequired: z.boolean(),
   active: z.boolean(),
   onboardingComplete: z.boolean(),
   sourceMetadata: z.object({}).optional()
+}).refine(data => data.destinationType !== 'notion' || !!data.notionDatabaseId, {
+  message: 'notionDatabaseId is required',
+  path: ['notionDatabaseId'],
 })
 
 export const discussionsyncSourceConfigsColumns = [
@@ -31,6 +43,7 @@ export const discussionsyncSourceConfigsColumns = [
   { accessorKey: 'webhookUrl', header: 'WebhookUrl' },
   { accessorKey: 'webhookSecret', header: 'WebhookSecret' },
   { accessorKey: 'apiToken', header: 'ApiToken' },
+  { accessorKey: 'destinationType', header: 'DestinationType' },
   { accessorKey: 'notionToken', header: 'NotionToken' },
   { accessorKey: 'notionDatabaseId', header: 'NotionDatabaseId' },
   { accessorKey: 'notionFieldMapping', header: 'NotionFieldMapping' },
@@ -40,6 +53,7 @@ export const discussionsyncSourceConfigsColumns = [
   { accessorKey: 'aiTaskPrompt', header: 'AiTaskPrompt' },
   { accessorKey: 'autoSync', header: 'AutoSync' },
   { accessorKey: 'postConfirmation', header: 'PostConfirmation' },
+  { accessorKey: 'approvalRequired', header: 'ApprovalRequired' },
   { accessorKey: 'active', header: 'Active' },
   { accessorKey: 'onboardingComplete', header: 'OnboardingComplete' },
   { accessorKey: 'sourceMetadata', header: 'SourceMetadata' }
@@ -59,6 +73,10 @@ export const discussionsyncSourceConfigsConfig = {
     webhookUrl: '',
     webhookSecret: '',
     apiToken: '',
+    destinationType: 'notion',
+    destinationConfig: {},
+    destinationToken: '',
+    additionalDestinations: [],
     notionToken: '',
     notionDatabaseId: '',
     notionFieldMapping: {},
@@ -68,6 +86,7 @@ export const discussionsyncSourceConfigsConfig = {
     aiTaskPrompt: '',
     autoSync: false,
     postConfirmation: false,
+    approvalRequired: false,
     active: false,
     onboardingComplete: false,
     sourceMetadata: {}
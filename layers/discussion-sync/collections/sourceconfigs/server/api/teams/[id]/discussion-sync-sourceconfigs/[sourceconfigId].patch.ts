@@ -17,6 +17,10 @@ export default defineEventHandler(async (event) => {
     webhookUrl: body.webhookUrl,
     webhookSecret: body.webhookSecret,
     apiToken: body.apiToken,
+    destinationType: body.destinationType,
+    destinationConfig: body.destinationConfig,
+    destinationToken: body.destinationToken,
+    additionalDestinations: body.additionalDestinations,
     notionToken: body.notionToken,
     notionDatabaseId: body.notionDatabaseId,
     notionFieldMapping: body.notionFieldMapping,
@@ -26,6 +30,7 @@ export default defineEventHandler(async (event) => {
     aiTaskPrompt: body.aiTaskPrompt,
     autoSync: body.autoSync,
     postConfirmation: body.postConfirmation,
+    approvalRequired: body.approvalRequired,
     active: body.active,
     onboardingComplete: body.onboardingComplete,
     sourceMetadata: body.sourceMetadata
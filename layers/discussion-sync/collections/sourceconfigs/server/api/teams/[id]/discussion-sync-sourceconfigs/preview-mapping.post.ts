@@ -0,0 +1,19 @@
+import { resolveTeamAndCheckMembership } from '#crouton/team-auth'
+import { applyWebhookMapping } from '../../../../../../../server/utils/webhookMapping'
+
+// Preview how a generic webhook field mapping maps a sample payload
+export default defineEventHandler(async (event) => {
+  await resolveTeamAndCheckMembership(event)
+
+  const body = await readBody<{ payload?: unknown, mapping?: unknown }>(event)
+
+  if (body?.payload === undefined) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Bad Request',
+      message: 'Sample payload is required',
+    })
+  }
+
+  return applyWebhookMapping(body.payload, body.mapping)
+})
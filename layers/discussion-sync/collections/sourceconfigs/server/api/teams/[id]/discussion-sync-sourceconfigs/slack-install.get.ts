@@ -0,0 +1,42 @@
+import { resolveTeamAndCheckMembership } from '#crouton/team-auth'
+import {
+  SLACK_OAUTH_CALLBACK_PATH,
+  buildSlackAuthorizeUrl,
+  createInstallState,
+} from '../../../../../../../server/utils/slackInstall'
+
+// Start the "Add to Slack" OAuth flow for this team
+export default defineEventHandler(async (event) => {
+  const { team, user } = await resolveTeamAndCheckMembership(event)
+  const config = useRuntimeConfig()
+
+  if (!config.slackClientId || !config.slackClientSecret) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: 'Slack OAuth is not configured',
+    })
+  }
+
+  const query = getQuery(event)
+
+  // Only redirect back within the app. Browsers read a backslash as a slash
+  // and drop tabs and newlines, so /\evil.com or /\t/evil.com leave it too
+  const redirect = typeof query.redirect === 'string' ? query.redirect : ''
+  const redirectTo = redirect.startsWith('/') && !redirect.startsWith('//') && !/[\\\u0000-\u001F]/.test(redirect)
+    ? redirect
+    : '/dashboard'
+
+  const state = await createInstallState({
+    teamId: team.id,
+    userId: user.id,
+    sourceConfigId: typeof query.sourceConfigId === 'string' ? query.sourceConfigId : undefined,
+    redirectTo,
+  })
+
+  return sendRedirect(event, buildSlackAuthorizeUrl({
+    clientId: config.slackClientId as string,
+    redirectUri: `${config.public.host}${SLACK_OAUTH_CALLBACK_PATH}`,
+    state,
+  }))
+})
@@ -1,5 +1,5 @@
 import { nanoid } from 'nanoid'
-import { sqliteTable, text, integer, real, customType } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, integer, real, customType, index } from 'drizzle-orm/sqlite-core'
 
 // Custom JSON column that handles NULL values gracefully during LEFT JOINs
 const jsonColumn = customType<any>({
@@ -29,8 +29,14 @@ export const discussionSyncSourceconfigs = sqliteTable('discussion_sync_sourceco
   webhookUrl: text('webhookUrl'),
   webhookSecret: text('webhookSecret'),
   apiToken: text('apiToken'),
+  // Workspace the Slack app is installed in, set by the install flow
+  slackTeamId: text('slackTeamId'),
+  destinationType: text('destinationType').notNull().$default(() => 'notion'),
+  destinationConfig: jsonColumn('destinationConfig').$default(() => ({})),
+  destinationToken: text('destinationToken'),
+  additionalDestinations: jsonColumn('additionalDestinations').$default(() => ([])),
   notionToken: text('notionToken'),
-  notionDatabaseId: text('notionDatabaseId').notNull(),
+  notionDatabaseId: text('notionDatabaseId'),
   notionFieldMapping: jsonColumn('notionFieldMapping').$default(() => ({})),
   anthropicApiKey: text('anthropicApiKey'),
   aiEnabled: integer('aiEnabled', { mode: 'boolean' }).notNull().$default(() => false),
@@ -38,6 +44,7 @@ export const discussionSyncSourceconfigs = sqliteTable('discussion_sync_sourceco
   aiTaskPrompt: text('aiTaskPrompt'),
   autoSync: integer('autoSync', { mode: 'boolean' }).notNull().$default(() => false),
   postConfirmation: integer('postConfirmation', { mode: 'boolean' }).notNull().$default(() => false),
+  approvalRequired: integer('approvalRequired', { mode: 'boolean' }).notNull().$default(() => false),
   active: integer('active', { mode: 'boolean' }).notNull().$default(() => false),
   onboardingComplete: integer('onboardingComplete', { mode: 'boolean' }).notNull().$default(() => false),
   sourceMetadata: jsonColumn('sourceMetadata').$default(() => ({})),
@@ -46,4 +53,7 @@ export const discussionSyncSourceconfigs = sqliteTable('discussion_sync_sourceco
   updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$onUpdate(() => new Date()),
   createdBy: text('createdBy').notNull(),
   updatedBy: text('updatedBy').notNull()
-})
\ No newline at end of file
+}, (table) => ({
+  // Index for resolving the config of a Slack workspace
+  slackTeamIdx: index('idx_sourceconfigs_slack_team').on(table.slackTeamId),
+}))
\ No newline at end of file
@@ -12,8 +12,17 @@ export interface DiscussionSyncSourceConfig {
   webhookUrl?: string
   webhookSecret?: string
   apiToken?: string
+  slackTeamId?: string
+  destinationType: string
+  destinationConfig?: Record<string, any>
+  destinationToken?: string
+  additionalDestinations?: Array<{
+    destinationType: string
+    destinationConfig?: Record<string, any>
+    destinationToken?: string
+  }>
   notionToken?: string
-  notionDatabaseId: string
+  notionDatabaseId?: string
   notionFieldMapping?: Record<string, any>
   anthropicApiKey?: string
   aiEnabled: boolean
@@ -21,6 +30,7 @@ export interface DiscussionSyncSourceConfig {
   aiTaskPrompt?: string
   autoSync: boolean
   postConfirmation: boolean
+  approvalRequired: boolean
   active: boolean
   onboardingComplete: boolean
   sourceMetadata?: Record<string, any>
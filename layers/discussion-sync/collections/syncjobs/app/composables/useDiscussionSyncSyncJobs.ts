@@ -11,8 +11,16 @@ export const discussionsyncSyncJobSchema = z.object({
   errorStack: z.string().optional(),
   startedAt: z.date().optional(),
   completedAt: z.date().optional(),
+  nextAttemptAt: z.date().optional(),
+  leaseExpiresAt: z.date().optional(),
   processingTime: z.number().optional(),
   taskIds: z.array(z.string()).optional(),
+  deliveries: z.array(z.object({
+    destinationType: z.string(),
+    status: z.enum(['completed', 'partial', 'failed']),
+    taskIds: z.array(z.string()),
+    error: z.string().optional()
+  })).optional(),
   metadata: z.object({}).optional()
 })
 
@@ -28,8 +36,11 @@ export const discussionsyncSyncJobsColumns = [
   { accessorKey: 'errorStack', header: 'ErrorStack' },
   { accessorKey: 'startedAt', header: 'StartedAt' },
   { accessorKey: 'completedAt', header: 'CompletedAt' },
+  { accessorKey: 'nextAttemptAt', header: 'NextAttemptAt' },
+  { accessorKey: 'leaseExpiresAt', header: 'LeaseExpiresAt' },
   { accessorKey: 'processingTime', header: 'ProcessingTime' },
   { accessorKey: 'taskIds', header: 'TaskIds' },
+  { accessorKey: 'deliveries', header: 'Deliveries' },
   { accessorKey: 'metadata', header: 'Metadata' }
 ]
 
@@ -50,8 +61,11 @@ export const discussionsyncSyncJobsConfig = {
     errorStack: '',
     startedAt: null,
     completedAt: null,
+    nextAttemptAt: null,
+    leaseExpiresAt: null,
     processingTime: 0,
     taskIds: [],
+    deliveries: [],
     metadata: {}
   },
   columns: discussionsyncSyncJobsColumns,
@@ -20,8 +20,11 @@ export default defineEventHandler(async (event) => {
     errorStack: body.errorStack,
     startedAt: body.startedAt ? new Date(body.startedAt) : body.startedAt,
     completedAt: body.completedAt ? new Date(body.completedAt) : body.completedAt,
+    nextAttemptAt: body.nextAttemptAt ? new Date(body.nextAttemptAt) : body.nextAttemptAt,
+    leaseExpiresAt: body.leaseExpiresAt ? new Date(body.leaseExpiresAt) : body.leaseExpiresAt,
     processingTime: body.processingTime,
     taskIds: body.taskIds,
+    deliveries: body.deliveries,
     metadata: body.metadata
   })
 })
\ No newline at end of file
@@ -17,6 +17,14 @@ export default defineEventHandler(async (event) => {
   if (dataWithoutId.completedAt) {
     dataWithoutId.completedAt = new Date(dataWithoutId.completedAt)
   }
+  // Convert date string to Date object
+  if (dataWithoutId.nextAttemptAt) {
+    dataWithoutId.nextAttemptAt = new Date(dataWithoutId.nextAttemptAt)
+  }
+  // Convert date string to Date object
+  if (dataWithoutId.leaseExpiresAt) {
+    dataWithoutId.leaseExpiresAt = new Date(dataWithoutId.leaseExpiresAt)
+  }
   return await createDiscussionSyncSyncJob({
     ...dataWithoutId,
     teamId: team.id,
@@ -32,8 +32,11 @@ export const discussionSyncSyncjobs = sqliteTable('discussion_sync_syncjobs', {
   errorStack: text('errorStack'),
   startedAt: integer('startedAt', { mode: 'timestamp' }).$default(() => new Date()),
   completedAt: integer('completedAt', { mode: 'timestamp' }).$default(() => new Date()),
+  nextAttemptAt: integer('nextAttemptAt', { mode: 'timestamp' }).$default(() => new Date()),
+  leaseExpiresAt: integer('leaseExpiresAt', { mode: 'timestamp' }),
   processingTime: integer('processingTime'),
   taskIds: jsonColumn('taskIds').$default(() => (null)),
+  deliveries: jsonColumn('deliveries').$default(() => (null)),
   metadata: jsonColumn('metadata').$default(() => ({})),
 
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
@@ -43,6 +46,8 @@ export const discussionSyncSyncjobs = sqliteTable('discussion_sync_syncjobs', {
 }, (table) => ({
   // Composite index for filtering jobs by status and stage
   statusStageIdx: index('idx_jobs_status_stage').on(table.status, table.stage),
+  // Index for claiming due jobs from the queue
+  queueIdx: index('idx_jobs_queue').on(table.status, table.nextAttemptAt),
   // Index for looking up jobs by discussion ID
   discussionIdx: index('idx_jobs_discussion').on(table.discussionId),
   // Index for filtering by team
@@ -15,8 +15,16 @@ export interface DiscussionSyncSyncJob {
   errorStack?: string
   startedAt?: Date | null
   completedAt?: Date | null
+  nextAttemptAt?: Date | null
+  leaseExpiresAt?: Date | null
   processingTime?: number
   taskIds?: string[]
+  deliveries?: Array<{
+    destinationType: string
+    status: 'completed' | 'partial' | 'failed'
+    taskIds: string[]
+    error?: string
+  }>
   metadata?: Record<string, any>
   createdAt: Date
   updatedAt: Date
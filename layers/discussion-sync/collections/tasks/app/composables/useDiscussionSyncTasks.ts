@@ -4,8 +4,11 @@ export const discussionsyncTaskSchema = z.object({
   discussionId: z.string().min(1, 'discussionId is required'),
   threadId: z.string().optional(),
   syncJobId: z.string().min(1, 'syncJobId is required'),
-  notionPageId: z.string().min(1, 'notionPageId is required'),
-  notionPageUrl: z.string().min(1, 'notionPageUrl is required'),
+  destinationType: z.string().min(1, 'destinationType is required'),
+  externalId: z.string().optional(),
+  externalUrl: z.string().optional(),
+  notionPageId: z.string().optional(),
+  notionPageUrl: z.string().optional(),
   title: z.string().min(1, 'title is required'),
   description: z.string().optional(),
   status: z.string().min(1, 'status is required'),
@@ -23,6 +26,9 @@ export const discussionsyncTasksColumns = [
   { accessorKey: 'discussionId', header: 'DiscussionId' },
   { accessorKey: 'threadId', header: 'ThreadId' },
   { accessorKey: 'syncJobId', header: 'SyncJobId' },
+  { accessorKey: 'destinationType', header: 'DestinationType' },
+  { accessorKey: 'externalId', header: 'ExternalId' },
+  { accessorKey: 'externalUrl', header: 'ExternalUrl' },
   { accessorKey: 'notionPageId', header: 'NotionPageId' },
   { accessorKey: 'notionPageUrl', header: 'NotionPageUrl' },
   { accessorKey: 'title', header: 'Title' },
@@ -47,11 +53,14 @@ export const discussionsyncTasksConfig = {
     discussionId: '',
     threadId: '',
     syncJobId: '',
+    destinationType: 'notion',
+    externalId: '',
+    externalUrl: '',
     notionPageId: '',
     notionPageUrl: '',
     title: '',
     description: '',
-    status: '',
+    status: 'todo',
     priority: '',
     assignee: '',
     summary: '',
@@ -13,6 +13,9 @@ export default defineEventHandler(async (event) => {
     discussionId: body.discussionId,
     threadId: body.threadId,
     syncJobId: body.syncJobId,
+    destinationType: body.destinationType,
+    externalId: body.externalId,
+    externalUrl: body.externalUrl,
     notionPageId: body.notionPageId,
     notionPageUrl: body.notionPageUrl,
     title: body.title,
@@ -0,0 +1,18 @@
+import { z } from 'zod'
+import { updateDiscussionSyncTaskStatus } from '../../../../../database/queries'
+import { resolveTeamAndCheckMembership } from '#crouton/team-auth'
+import { validateBody } from '@@/server/utils/bodyValidation'
+import { discussionsyncTaskStatuses } from '../../../../../../types'
+
+const statusSchema = z.object({
+  status: z.enum(discussionsyncTaskStatuses)
+})
+
+export default defineEventHandler(async (event) => {
+  const { taskId } = getRouterParams(event)
+  const { team, user } = await resolveTeamAndCheckMembership(event)
+
+  const { status } = await validateBody(event, statusSchema)
+
+  return await updateDiscussionSyncTaskStatus(taskId, team.id, user.id, status)
+})
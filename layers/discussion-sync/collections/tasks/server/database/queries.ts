@@ -5,7 +5,7 @@ import * as tables from './schema'
 import type { DiscussionSyncTask, NewDiscussionSyncTask } from './types'
 import * as discussionsSchema from '../../../discussions/server/database/schema'
 import * as threadsSchema from '../../../threads/server/database/schema'
-import * as syncJobsSchema from '../../../syncJobs/server/database/schema'
+import * as syncJobsSchema from '../../../syncjobs/server/database/schema'
 import { users } from '~~/server/database/schema'
 
 export async function getAllDiscussionSyncTasks(teamId: string) {
@@ -20,7 +20,7 @@ export async function getAllDiscussionSyncTasks(teamId: string) {
       ...tables.discussionSyncTasks,
       discussionIdData: discussionsSchema.discussionSyncDiscussions,
       threadIdData: threadsSchema.discussionSyncThreads,
-      syncJobIdData: syncJobsSchema.discussionSyncSyncJobs,
+      syncJobIdData: syncJobsSchema.discussionSyncSyncjobs,
       ownerUser: {
         id: ownerUsers.id,
         name: ownerUsers.name,
@@ -43,7 +43,7 @@ export async function getAllDiscussionSyncTasks(teamId: string) {
     .from(tables.discussionSyncTasks)
     .leftJoin(discussionsSchema.discussionSyncDiscussions, eq(tables.discussionSyncTasks.discussionId, discussionsSchema.discussionSyncDiscussions.id))
     .leftJoin(threadsSchema.discussionSyncThreads, eq(tables.discussionSyncTasks.threadId, threadsSchema.discussionSyncThreads.id))
-    .leftJoin(syncJobsSchema.discussionSyncSyncJobs, eq(tables.discussionSyncTasks.syncJobId, syncJobsSchema.discussionSyncSyncJobs.id))
+    .leftJoin(syncJobsSchema.discussionSyncSyncjobs, eq(tables.discussionSyncTasks.syncJobId, syncJobsSchema.discussionSyncSyncjobs.id))
     .leftJoin(ownerUsers, eq(tables.discussionSyncTasks.owner, ownerUsers.id))
     .leftJoin(createdByUsers, eq(tables.discussionSyncTasks.createdBy, createdByUsers.id))
     .leftJoin(updatedByUsers, eq(tables.discussionSyncTasks.updatedBy, updatedByUsers.id))
@@ -65,7 +65,7 @@ export async function getDiscussionSyncTasksByIds(teamId: string, taskIds: strin
       ...tables.discussionSyncTasks,
       discussionIdData: discussionsSchema.discussionSyncDiscussions,
       threadIdData: threadsSchema.discussionSyncThreads,
-      syncJobIdData: syncJobsSchema.discussionSyncSyncJobs,
+      syncJobIdData: syncJobsSchema.discussionSyncSyncjobs,
       ownerUser: {
         id: ownerUsers.id,
         name: ownerUsers.name,
@@ -88,7 +88,7 @@ export async function getDiscussionSyncTasksByIds(teamId: string, taskIds: strin
     .from(tables.discussionSyncTasks)
     .leftJoin(discussionsSchema.discussionSyncDiscussions, eq(tables.discussionSyncTasks.discussionId, discussionsSchema.discussionSyncDiscussions.id))
     .leftJoin(threadsSchema.discussionSyncThreads, eq(tables.discussionSyncTasks.threadId, threadsSchema.discussionSyncThreads.id))
-    .leftJoin(syncJobsSchema.discussionSyncSyncJobs, eq(tables.discussionSyncTasks.syncJobId, syncJobsSchema.discussionSyncSyncJobs.id))
+    .leftJoin(syncJobsSchema.discussionSyncSyncjobs, eq(tables.discussionSyncTasks.syncJobId, syncJobsSchema.discussionSyncSyncjobs.id))
     .leftJoin(ownerUsers, eq(tables.discussionSyncTasks.owner, ownerUsers.id))
     .leftJoin(createdByUsers, eq(tables.discussionSyncTasks.createdBy, createdByUsers.id))
     .leftJoin(updatedByUsers, eq(tables.discussionSyncTasks.updatedBy, updatedByUsers.id))
@@ -147,6 +147,42 @@ export async function updateDiscussionSyncTask(
   return task
 }
 
+/**
+ * Move a task on the task board. Unlike other updates, any team member
+ * may do this, tasks created by processing are owned by the discussion's owner.
+ */
+export async function updateDiscussionSyncTaskStatus(
+  recordId: string,
+  teamId: string,
+  userId: string,
+  status: string
+) {
+  const db = useDB()
+
+  const [task] = await db
+    .update(tables.discussionSyncTasks)
+    .set({
+      status,
+      updatedBy: userId
+    })
+    .where(
+      and(
+        eq(tables.discussionSyncTasks.id, recordId),
+        eq(tables.discussionSyncTasks.teamId, teamId)
+      )
+    )
+    .returning()
+
+  if (!task) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'DiscussionSyncTask not found'
+    })
+  }
+
+  return task
+}
+
 export async function deleteDiscussionSyncTask(
   recordId: string,
   teamId: string,
@@ -25,8 +25,11 @@ export const discussionSyncTasks = sqliteTable('discussion_sync_tasks', {
   discussionId: text('discussionId').notNull(),
   threadId: text('threadId'),
   syncJobId: text('syncJobId').notNull(),
-  notionPageId: text('notionPageId').notNull(),
-  notionPageUrl: text('notionPageUrl').notNull(),
+  destinationType: text('destinationType').notNull().$default(() => 'notion'),
+  externalId: text('externalId'),
+  externalUrl: text('externalUrl'),
+  notionPageId: text('notionPageId'),
+  notionPageUrl: text('notionPageUrl'),
   title: text('title').notNull(),
   description: text('description'),
   status: text('status').notNull(),
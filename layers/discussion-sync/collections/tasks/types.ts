@@ -1,6 +1,9 @@
 import type { z } from 'zod'
 import type { discussionsyncTaskSchema } from './app/composables/useDiscussionSyncTasks'
 
+// Columns of the task board, new tasks start in 'todo'
+export const discussionsyncTaskStatuses = ['todo', 'in_progress', 'done'] as const
+
 export interface DiscussionSyncTask {
   id: string
   teamId: string
@@ -8,8 +11,11 @@ export interface DiscussionSyncTask {
   discussionId: string
   threadId?: string
   syncJobId: string
-  notionPageId: string
-  notionPageUrl: string
+  destinationType: string
+  externalId?: string
+  externalUrl?: string
+  notionPageId?: string
+  notionPageUrl?: string
   title: string
   description?: string
   status: string
@@ -19,5 +19,11 @@ export default defineNuxtConfig({
     './collections/syncjobs',
     './collections/tasks',
     './collections/sourceconfigs'
-  ]
+  ],
+  nitro: {
+    scheduledTasks: {
+      // Discussion processing queue, see server/utils/jobQueue.ts
+      '* * * * *': ['discussion-sync:process-jobs']
+    }
+  }
 })
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { DiscordAdapter } from '../discord'
+import type { SourceConfig } from '../base'
+import commandFixture from './fixtures/discord/message-command.interaction.json'
+import mentionFixture from './fixtures/discord/message-create.mention.json'
+
+// Mock the DiscordService (keep the real thread ID helpers)
+const mockBuildThread = vi.fn()
+const mockCreateMessage = vi.fn()
+const mockAddReaction = vi.fn()
+const mockRemoveOwnReaction = vi.fn()
+const mockTestConnection = vi.fn()
+
+vi.mock('../../services/discord', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/discord')>()
+  return {
+    ...actual,
+    DiscordService: class MockDiscordService {
+      buildThread = mockBuildThread
+      createMessage = mockCreateMessage
+      addReaction = mockAddReaction
+      removeOwnReaction = mockRemoveOwnReaction
+      testConnection = mockTestConnection
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedApiToken: vi.fn().mockResolvedValue('discord-bot-token'),
+  }
+})
+
+describe('DiscordAdapter', () => {
+  let adapter: DiscordAdapter
+
+  const GUILD_ID = '1102934785120358400'
+  const THREAD_CHANNEL_ID = '1306229901364936704'
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'discord',
+    name: 'Community Discord',
+    apiToken: 'discord-bot-token',
+    notionToken: 'secret_notion_token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+    metadata: {
+      guildId: GUILD_ID,
+    },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    adapter = new DiscordAdapter()
+  })
+
+  describe('parseIncoming', () => {
+    it('should parse "Send to Notion" command in a forum thread', async () => {
+      const result = await adapter.parseIncoming(commandFixture as any)
+
+      expect(result).toMatchObject({
+        sourceType: 'discord',
+        sourceThreadId: THREAD_CHANNEL_ID,
+        sourceUrl: `https://discord.com/channels/${GUILD_ID}/${THREAD_CHANNEL_ID}/1306230987724894218`,
+        teamId: GUILD_ID,
+        authorHandle: 'Lotte',
+        title: 'Discord thread: Export to CSV drops unicode characters',
+      })
+
+      expect(result.content).toContain('turns into ? in the exported file')
+      expect(result.participants).toEqual(['Lotte', 'Kai'])
+      expect(result.metadata).toMatchObject({
+        trigger: 'message_command',
+        messageId: '1306230987724894218',
+        isThread: true,
+        triggeredBy: '884512306245107722',
+      })
+    })
+
+    it('should scope command in a regular channel to the target message', async () => {
+      const interaction = {
+        ...commandFixture,
+        channel: { ...commandFixture.channel, type: 0, name: 'bug-reports' },
+      }
+
+      const result = await adapter.parseIncoming(interaction as any)
+
+      expect(result.sourceThreadId).toBe(`${THREAD_CHANNEL_ID}:1306230987724894218`)
+      expect(result.title).toBe('Discord message from Lotte')
+      expect(result.metadata.isThread).toBe(false)
+    })
+
+    it('should parse forwarded mention message', async () => {
+      const result = await adapter.parseIncoming(mentionFixture as any)
+
+      expect(result).toMatchObject({
+        sourceThreadId: THREAD_CHANNEL_ID,
+        teamId: GUILD_ID,
+        authorHandle: 'Lotte',
+        content: 'please file this one, we have three reports now',
+      })
+      expect(result.timestamp).toEqual(new Date('2025-11-12T15:27:57.304Z'))
+      expect(result.metadata).toMatchObject({
+        trigger: 'mention',
+        messageId: '1306232745311748106',
+      })
+    })
+
+    it('should throw when target message is missing', async () => {
+      const interaction = {
+        ...commandFixture,
+        data: { ...commandFixture.data, resolved: {} },
+      }
+
+      await expect(adapter.parseIncoming(interaction as any)).rejects.toThrow('Missing target message')
+    })
+
+    it('should throw for unsupported payloads', async () => {
+      await expect(adapter.parseIncoming({ type: 1 } as any)).rejects.toThrow('Unsupported payload')
+    })
+  })
+
+  describe('fetchThread', () => {
+    it('should read the thread channel history', async () => {
+      const mockThread = { id: THREAD_CHANNEL_ID, rootMessage: { content: 'Export bug' }, replies: [], participants: [], metadata: {} }
+      mockBuildThread.mockResolvedValueOnce(mockThread)
+
+      const result = await adapter.fetchThread(THREAD_CHANNEL_ID, mockConfig)
+
+      expect(mockBuildThread).toHaveBeenCalledWith({ channelId: THREAD_CHANNEL_ID, messageId: undefined })
+      expect(result).toBe(mockThread)
+    })
+
+    it('should reject invalid thread IDs', async () => {
+      await expect(adapter.fetchThread('not-a-thread', mockConfig)).rejects.toThrow('Invalid thread ID')
+    })
+  })
+
+  describe('postReply', () => {
+    it('should post in the thread channel', async () => {
+      mockCreateMessage.mockResolvedValueOnce('reply-1')
+
+      const result = await adapter.postReply(THREAD_CHANNEL_ID, 'Created task', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockCreateMessage).toHaveBeenCalledWith(THREAD_CHANNEL_ID, 'Created task', undefined)
+    })
+
+    it('should reply to the root message outside threads', async () => {
+      await adapter.postReply(`${THREAD_CHANNEL_ID}:1306230987724894218`, 'Created task', mockConfig)
+
+      expect(mockCreateMessage).toHaveBeenCalledWith(THREAD_CHANNEL_ID, 'Created task', '1306230987724894218')
+    })
+
+    it('should skip when post confirmation is disabled', async () => {
+      const result = await adapter.postReply(THREAD_CHANNEL_ID, 'Created task', {
+        ...mockConfig,
+        postConfirmation: false,
+      })
+
+      expect(result).toBe(false)
+      expect(mockCreateMessage).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateStatus', () => {
+    it('should use the same emoji set as Slack', async () => {
+      const config = { ...mockConfig, metadata: { messageId: '1306232745311748106' } }
+
+      await adapter.updateStatus(THREAD_CHANNEL_ID, 'pending', config)
+      await adapter.updateStatus(THREAD_CHANNEL_ID, 'processing', config)
+      await adapter.updateStatus(THREAD_CHANNEL_ID, 'completed', config)
+      await adapter.updateStatus(THREAD_CHANNEL_ID, 'failed', config)
+
+      expect(mockAddReaction.mock.calls.map(call => call[2])).toEqual(['🕐', '⏳', '✅', '❌'])
+      expect(mockAddReaction).toHaveBeenCalledWith(THREAD_CHANNEL_ID, '1306232745311748106', '✅')
+    })
+
+    it('should remove previous status reactions', async () => {
+      await adapter.updateStatus(THREAD_CHANNEL_ID, 'completed', mockConfig)
+
+      expect(mockRemoveOwnReaction).toHaveBeenCalledTimes(3)
+      expect(mockRemoveOwnReaction).not.toHaveBeenCalledWith(expect.anything(), expect.anything(), '✅')
+    })
+
+    it('should fall back to the thread starter message', async () => {
+      await adapter.updateStatus(THREAD_CHANNEL_ID, 'completed', mockConfig)
+
+      expect(mockAddReaction).toHaveBeenCalledWith(THREAD_CHANNEL_ID, THREAD_CHANNEL_ID, '✅')
+    })
+
+    it('should ignore errors when removing reactions', async () => {
+      mockRemoveOwnReaction.mockRejectedValue(new Error('Unknown Emoji'))
+
+      const result = await adapter.updateStatus(THREAD_CHANNEL_ID, 'failed', mockConfig)
+
+      expect(result).toBe(true)
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should validate complete config', async () => {
+      mockTestConnection.mockResolvedValueOnce(true)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(true)
+    })
+
+    it('should require bot token and guild', async () => {
+      const result = await adapter.validateConfig({
+        ...mockConfig,
+        apiToken: undefined,
+        metadata: {},
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Discord bot token is required')
+      expect(result.errors).toContain('Discord server (guild) ID is required')
+    })
+
+    it('should report failed connection test', async () => {
+      mockTestConnection.mockResolvedValueOnce(false)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.errors[0]).toContain('Failed to connect to Discord API')
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { EmailAdapter } from '../email'
+import type { SourceConfig } from '../base'
+import forwardedConversationFixture from './fixtures/email/forwarded-conversation.mailgun.json'
+
+// Mock the discussion lookup used to rebuild threads
+const mockFindSourceConfigDiscussion = vi.fn()
+
+vi.mock('../../utils/discussionIngestion', () => {
+  return {
+    findSourceConfigDiscussion: (...args: unknown[]) => mockFindSourceConfigDiscussion(...args),
+  }
+})
+
+describe('EmailAdapter', () => {
+  let adapter: EmailAdapter
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'email',
+    name: 'Client feedback inbox',
+    notionToken: 'secret_notion_token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    adapter = new EmailAdapter()
+  })
+
+  describe('parseIncoming', () => {
+    it('should parse a forwarded conversation', async () => {
+      const result = await adapter.parseIncoming(forwardedConversationFixture)
+
+      expect(result).toMatchObject({
+        sourceType: 'email',
+        sourceThreadId: 'CAJ=root-1180@mail.northwind.example',
+        sourceUrl: '',
+        teamId: 'feedback@in.discubot.example',
+        authorHandle: 'Jordan Reyes',
+        title: 'CSV export issue',
+        content: 'Hi Sam,\n\nWhen we export a report with more than 100 rows the CSV is missing the final row.',
+        participants: ['Jordan Reyes', 'Sam Okafor'],
+      })
+      expect(result.metadata).toMatchObject({
+        messageId: 'CAF=fwd-7731@mail.acme.com',
+        subject: 'Fwd: Re: CSV export issue',
+        parseStrategies: ['ForwardedMessage', 'AttributionLine'],
+        attachmentCount: 2,
+      })
+    })
+
+    it('should attach files to the newest message', async () => {
+      const result = await adapter.parseIncoming(forwardedConversationFixture)
+      const messages = result.metadata.messages as Array<{ id: string, attachments: unknown[] }>
+
+      expect(messages).toHaveLength(4)
+      expect(messages[3]?.id).toBe('CAF=fwd-7731@mail.acme.com#4')
+      expect(messages[3]?.attachments).toEqual([
+        {
+          id: 'attachment-1',
+          type: 'file',
+          url: 'https://storage.eu.mailgun.net/v3/domains/in.discubot.example/messages/AgEF/attachments/0',
+          name: 'report-export.csv',
+          mimeType: 'text/csv',
+        },
+        expect.objectContaining({ id: 'attachment-2', type: 'image', name: 'screenshot.png' }),
+      ])
+      expect(messages[0]?.attachments).toEqual([])
+    })
+
+    it('should use the Message-Id as thread ID for new conversations', async () => {
+      const result = await adapter.parseIncoming({
+        from: 'Jordan Reyes <jordan@northwind.example>',
+        recipient: 'feedback@in.discubot.example',
+        subject: 'Export bug',
+        'body-plain': 'The CSV export drops the last row.',
+        'Message-Id': '<CAJ=new-1@mail.northwind.example>',
+        timestamp: '1762942500',
+      })
+
+      expect(result.sourceThreadId).toBe('CAJ=new-1@mail.northwind.example')
+      expect(result.timestamp).toEqual(new Date(1762942500 * 1000))
+      expect(result.metadata.messages).toHaveLength(1)
+    })
+
+    it('should throw when required fields are missing', async () => {
+      await expect(adapter.parseIncoming({ 'body-plain': 'Hello', 'Message-Id': '<a@b.c>' })).rejects.toThrow('No sender found')
+      await expect(adapter.parseIncoming({ from: 'a@b.c', 'Message-Id': '<a@b.c>' })).rejects.toThrow('No body found')
+      await expect(adapter.parseIncoming({ from: 'a@b.c', 'body-plain': 'Hello' })).rejects.toThrow('No Message-Id found')
+    })
+  })
+
+  describe('fetchThread', () => {
+    it('should rebuild the thread from the stored messages', async () => {
+      const parsed = await adapter.parseIncoming(forwardedConversationFixture)
+      mockFindSourceConfigDiscussion.mockResolvedValueOnce({
+        title: parsed.title,
+        content: parsed.content,
+        authorHandle: parsed.authorHandle,
+        participants: parsed.participants,
+        createdAt: new Date('2025-11-12T10:15:05Z'),
+        metadata: JSON.parse(JSON.stringify(parsed.metadata)),
+      })
+
+      const thread = await adapter.fetchThread(parsed.sourceThreadId, mockConfig)
+
+      expect(mockFindSourceConfigDiscussion).toHaveBeenCalledWith('config-1', 'email', 'CAJ=root-1180@mail.northwind.example')
+      expect(thread.rootMessage).toMatchObject({ authorHandle: 'Jordan Reyes', content: parsed.content })
+      expect(thread.replies.map(reply => reply.authorHandle)).toEqual(['Sam Okafor', 'Jordan Reyes', 'Sam Okafor'])
+      expect(thread.replies[2]?.attachments).toHaveLength(2)
+      expect(thread.replies[2]?.timestamp).toEqual(new Date('2025-11-12T10:15:00Z'))
+      expect(thread.metadata).not.toHaveProperty('messages')
+    })
+
+    it('should throw when the discussion does not exist', async () => {
+      mockFindSourceConfigDiscussion.mockResolvedValueOnce(undefined)
+
+      await expect(adapter.fetchThread('missing', mockConfig)).rejects.toThrow('No discussion found for thread: missing')
+    })
+  })
+
+  describe('postReply and updateStatus', () => {
+    it('should not be supported', async () => {
+      expect(await adapter.postReply('thread', 'Created Notion task', mockConfig)).toBe(false)
+      expect(await adapter.updateStatus('thread', 'completed', mockConfig)).toBe(false)
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should leave destination settings to validateDestinations', async () => {
+      expect(await adapter.validateConfig({ ...mockConfig, notionToken: '' })).toEqual({ valid: true, errors: [] })
+    })
+  })
+})
@@ -1,26 +1,40 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { FigmaAdapter } from '../figma'
+import { FigmaService } from '../../services/figma'
+import { EmailParser } from '../../utils/emailParser'
 import type { SourceConfig, DiscussionThread, ThreadMessage } from '../base'
+import fileCommentFixture from './fixtures/figma/file-comment.webhook.json'
 
 // Mock the FigmaService
 vi.mock('../../services/figma', () => {
   return {
-    FigmaService: vi.fn().mockImplementation(() => {
+    FigmaService: vi.fn(function () {
       return {
         buildThread: vi.fn(),
         postComment: vi.fn(),
         addReaction: vi.fn(),
         updateReaction: vi.fn(),
         testConnection: vi.fn(),
+        getNodeContext: vi.fn(),
+        getNodeImageUrl: vi.fn(),
       }
     }),
   }
 })
 
+// Mock blob storage, screenshots are stored as-is
+vi.mock('../../utils/attachmentStorage', () => {
+  return {
+    downloadPublicAttachment: vi.fn(),
+    storeAttachment: vi.fn(async (attachment: unknown) => attachment),
+    storeAttachments: vi.fn(async (attachments: unknown) => attachments),
+  }
+})
+
 // Mock the EmailParser
 vi.mock('../../utils/emailParser', () => {
   return {
-    EmailParser: vi.fn().mockImplementation(() => {
+    EmailParser: vi.fn(function () {
       return {
         parse: vi.fn(),
       }
@@ -33,15 +47,19 @@ describe('FigmaAdapter', () => {
   let mockFigmaService: any
   let mockEmailParser: any
 
+  // The adapter creates a FigmaService per call, hand it the mocked one
+  function injectMockService() {
+    vi.mocked(FigmaService).mockImplementationOnce(function () {
+      return mockFigmaService
+    })
+  }
+
   beforeEach(() => {
     vi.clearAllMocks()
     adapter = new FigmaAdapter()
 
     // Get the mocked instances
-    const { FigmaService } = require('../../services/figma')
-    const { EmailParser } = require('../../utils/emailParser')
-
-    mockFigmaService = new FigmaService()
+    mockFigmaService = new FigmaService('figma-token')
     mockEmailParser = new EmailParser()
 
     // Replace the adapter's parser with our mock
@@ -152,7 +170,7 @@ describe('FigmaAdapter', () => {
       ).rejects.toThrow('Failed to parse email')
     })
 
-    it('should use file key as thread ID if comment ID is missing', async () => {
+    it('should throw error if comment ID is missing', async () => {
       mockEmailParser.parse.mockResolvedValueOnce({
         success: true,
         data: {
@@ -161,9 +179,9 @@ describe('FigmaAdapter', () => {
         },
       })
 
-      const result = await adapter.parseIncoming(mockMailgunPayload)
-
-      expect(result.sourceThreadId).toBe('abc123xyz')
+      await expect(
+        adapter.parseIncoming(mockMailgunPayload)
+      ).rejects.toThrow('No comment ID found in email')
     })
 
     it('should generate default title if subject is missing', async () => {
@@ -181,6 +199,47 @@ describe('FigmaAdapter', () => {
     })
   })
 
+  describe('parseIncoming (FILE_COMMENT webhook)', () => {
+    it('should parse webhook event without the email parser', async () => {
+      const result = await adapter.parseIncoming(fileCommentFixture)
+
+      expect(mockEmailParser.parse).not.toHaveBeenCalled()
+      expect(result).toMatchObject({
+        sourceType: 'figma',
+        sourceThreadId: '1350209954',
+        sourceUrl: 'https://www.figma.com/file/zH0JiShjP6N6mxWrXqWvL0#1350209954',
+        authorHandle: 'Lotte',
+        title: 'Comment on Checkout redesign',
+        content: '@Discubot can we turn this into a task? The promo code field overlaps the total on mobile.',
+      })
+      expect(result.timestamp).toEqual(new Date('2025-11-12T15:42:09Z'))
+      expect(result.metadata).toMatchObject({
+        trigger: 'webhook',
+        fileKey: 'zH0JiShjP6N6mxWrXqWvL0',
+        commentId: '1350211876',
+        parentId: '1350209954',
+        triggeredBy: '998877665544',
+        mentions: [{ id: '1278533947812098', handle: 'Discubot' }],
+      })
+    })
+
+    it('should use the comment ID for top-level comments', async () => {
+      const result = await adapter.parseIncoming({
+        ...fileCommentFixture,
+        parent_id: '',
+      })
+
+      expect(result.sourceThreadId).toBe('1350211876')
+      expect(result.metadata.parentId).toBeUndefined()
+    })
+
+    it('should throw error if comment ID is missing', async () => {
+      await expect(
+        adapter.parseIncoming({ ...fileCommentFixture, comment_id: '' })
+      ).rejects.toThrow('Missing file key or comment ID')
+    })
+  })
+
   describe('fetchThread', () => {
     const mockConfig: SourceConfig = {
       id: 'config-1',
@@ -222,8 +281,7 @@ describe('FigmaAdapter', () => {
       mockFigmaService.buildThread.mockResolvedValueOnce(mockThread)
 
       // Inject mock service
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.fetchThread('root-comment', mockConfig)
 
@@ -234,6 +292,51 @@ describe('FigmaAdapter', () => {
       )
     })
 
+    it('should render the top-level frame of a pinned comment', async () => {
+      mockFigmaService.buildThread.mockResolvedValueOnce({
+        ...mockThread,
+        rootMessage: { ...mockThread.rootMessage, attachments: [] },
+        metadata: { nodeId: '2:5' },
+      })
+      mockFigmaService.getNodeContext.mockResolvedValueOnce({
+        nodeId: '2:5',
+        nodeName: 'Pay button',
+        frameId: '2:1',
+        frameName: 'Checkout',
+        pageName: 'Mobile',
+      })
+      mockFigmaService.getNodeImageUrl.mockResolvedValueOnce('https://figma-images.example.com/2-1.png')
+
+      injectMockService()
+
+      const result = await adapter.fetchThread('root-comment', mockConfig)
+
+      expect(mockFigmaService.getNodeImageUrl).toHaveBeenCalledWith('abc123xyz', '2:1')
+      expect(result.metadata).toMatchObject({ frameName: 'Checkout', pageName: 'Mobile' })
+      expect(result.rootMessage.attachments?.[0]).toMatchObject({
+        id: 'node-2:1',
+        url: 'https://figma-images.example.com/2-1.png',
+        name: 'Checkout.png',
+      })
+    })
+
+    it('should render the pinned node when its context is unavailable', async () => {
+      mockFigmaService.buildThread.mockResolvedValueOnce({
+        ...mockThread,
+        rootMessage: { ...mockThread.rootMessage, attachments: [] },
+        metadata: { nodeId: '2:5' },
+      })
+      mockFigmaService.getNodeContext.mockRejectedValueOnce(new Error('Rate limited'))
+      mockFigmaService.getNodeImageUrl.mockResolvedValueOnce('https://figma-images.example.com/2-5.png')
+
+      injectMockService()
+
+      const result = await adapter.fetchThread('root-comment', mockConfig)
+
+      expect(mockFigmaService.getNodeImageUrl).toHaveBeenCalledWith('abc123xyz', '2:5')
+      expect(result.rootMessage.attachments?.[0]).toMatchObject({ id: 'node-2:5' })
+    })
+
     it('should throw error if file key not in metadata', async () => {
       const configWithoutFileKey: SourceConfig = {
         ...mockConfig,
@@ -250,8 +353,7 @@ describe('FigmaAdapter', () => {
         new Error('Comment not found')
       )
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       await expect(
         adapter.fetchThread('nonexistent', mockConfig)
@@ -279,8 +381,7 @@ describe('FigmaAdapter', () => {
     it('should post reply successfully', async () => {
       mockFigmaService.postComment.mockResolvedValueOnce('new-comment-id')
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.postReply(
         'thread-123',
@@ -317,8 +418,7 @@ describe('FigmaAdapter', () => {
         new Error('API error')
       )
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.postReply(
         'thread-123',
@@ -350,8 +450,7 @@ describe('FigmaAdapter', () => {
     it('should add reaction for pending status', async () => {
       mockFigmaService.addReaction.mockResolvedValueOnce(true)
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.updateStatus('comment-1', 'pending', mockConfig)
 
@@ -366,8 +465,7 @@ describe('FigmaAdapter', () => {
     it('should update reaction for completed status', async () => {
       mockFigmaService.updateReaction.mockResolvedValueOnce(true)
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.updateStatus('comment-1', 'completed', mockConfig)
 
@@ -383,8 +481,7 @@ describe('FigmaAdapter', () => {
     it('should use correct emoji for failed status', async () => {
       mockFigmaService.updateReaction.mockResolvedValueOnce(true)
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.updateStatus('comment-1', 'failed', mockConfig)
 
@@ -417,8 +514,7 @@ describe('FigmaAdapter', () => {
         new Error('API error')
       )
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.updateStatus('comment-1', 'pending', mockConfig)
 
@@ -430,8 +526,7 @@ describe('FigmaAdapter', () => {
     it('should validate a complete config successfully', async () => {
       mockFigmaService.testConnection.mockResolvedValueOnce(true)
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const config: SourceConfig = {
         id: 'config-1',
@@ -473,33 +568,13 @@ describe('FigmaAdapter', () => {
       expect(result.errors).toContain('Figma API token is required')
     })
 
-    it('should fail validation if Notion token missing', async () => {
+    it('should leave destination settings to validateDestinations', async () => {
       const config: SourceConfig = {
         id: 'config-1',
         sourceId: 'source-1',
         name: 'Figma Config',
         apiToken: 'figma-token-123',
         notionToken: '',
-        notionDatabaseId: 'db-123',
-        aiEnabled: true,
-        autoSync: true,
-        postConfirmation: true,
-        active: true,
-      }
-
-      const result = await adapter.validateConfig(config)
-
-      expect(result.valid).toBe(false)
-      expect(result.errors).toContain('Notion API token is required')
-    })
-
-    it('should fail validation if Notion database ID missing', async () => {
-      const config: SourceConfig = {
-        id: 'config-1',
-        sourceId: 'source-1',
-        name: 'Figma Config',
-        apiToken: 'figma-token-123',
-        notionToken: 'notion-token-123',
         notionDatabaseId: '',
         aiEnabled: true,
         autoSync: true,
@@ -509,15 +584,14 @@ describe('FigmaAdapter', () => {
 
       const result = await adapter.validateConfig(config)
 
-      expect(result.valid).toBe(false)
-      expect(result.errors).toContain('Notion database ID is required')
+      expect(result.errors).not.toContain('Notion API token is required')
+      expect(result.errors).not.toContain('Notion database ID is required')
     })
 
     it('should fail validation if connection test fails', async () => {
       mockFigmaService.testConnection.mockResolvedValueOnce(false)
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const config: SourceConfig = {
         id: 'config-1',
@@ -543,8 +617,7 @@ describe('FigmaAdapter', () => {
         new Error('Invalid API key')
       )
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const config: SourceConfig = {
         id: 'config-1',
@@ -583,8 +656,7 @@ describe('FigmaAdapter', () => {
     it('should return true for successful connection', async () => {
       mockFigmaService.testConnection.mockResolvedValueOnce(true)
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.testConnection(mockConfig)
 
@@ -594,8 +666,7 @@ describe('FigmaAdapter', () => {
     it('should return false for failed connection', async () => {
       mockFigmaService.testConnection.mockResolvedValueOnce(false)
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.testConnection(mockConfig)
 
@@ -607,8 +678,7 @@ describe('FigmaAdapter', () => {
         new Error('Network error')
       )
 
-      const { FigmaService } = require('../../services/figma')
-      FigmaService.mockImplementationOnce(() => mockFigmaService)
+      injectMockService()
 
       const result = await adapter.testConnection(mockConfig)
 
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GenericWebhookAdapter } from '../genericWebhook'
+import type { SourceConfig } from '../base'
+import formSubmissionFixture from './fixtures/generic-webhook/form-submission.json'
+
+// Mock the discussion lookup used to rebuild threads
+const mockFindSourceConfigDiscussion = vi.fn()
+
+vi.mock('../../utils/discussionIngestion', () => {
+  return {
+    findSourceConfigDiscussion: (...args: unknown[]) => mockFindSourceConfigDiscussion(...args),
+  }
+})
+
+describe('GenericWebhookAdapter', () => {
+  let adapter: GenericWebhookAdapter
+
+  const mapping = {
+    sourceThreadId: '$.submission.id',
+    content: '$.submission.answers.details',
+    title: '$.submission.answers.summary',
+    authorHandle: '$.submission.respondent.name',
+    sourceUrl: '$.submission.url',
+    timestamp: '$.submission.submitted_at',
+    replies: { path: '$.comments[*]', id: 'id', authorHandle: 'author', content: 'body', timestamp: 'created_at' },
+    metadata: { formId: '$.form.id' },
+  }
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'generic-webhook',
+    name: 'Feedback form',
+    notionToken: 'secret_notion_token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+    metadata: { mapping },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    adapter = new GenericWebhookAdapter()
+  })
+
+  describe('parseIncoming', () => {
+    it('should map payload with the source config mapping', async () => {
+      const result = await adapter.parseIncoming({
+        sourceConfigId: 'config-1',
+        mapping,
+        payload: formSubmissionFixture,
+      })
+
+      expect(result).toMatchObject({
+        sourceType: 'generic-webhook',
+        sourceThreadId: 'sub_8f3k2',
+        sourceUrl: 'https://forms.acme.internal/frm_feedback/submissions/sub_8f3k2',
+        teamId: 'config-1',
+        authorHandle: 'Jordan Reyes',
+        title: 'Export to CSV drops the last row',
+        participants: ['Jordan Reyes', 'Sam Okafor'],
+      })
+      expect(result.metadata).toMatchObject({
+        formId: 'frm_feedback',
+        sourceConfigId: 'config-1',
+        postedAt: '2025-11-12T15:20:00.000Z',
+      })
+      expect(result.metadata.replies).toHaveLength(1)
+    })
+
+    it('should throw when the payload does not match the mapping', async () => {
+      await expect(adapter.parseIncoming({
+        sourceConfigId: 'config-1',
+        mapping,
+        payload: { event: 'ping' },
+      })).rejects.toThrow('Payload does not match field mapping: No value found for "sourceThreadId"')
+    })
+
+    it('should throw when the source config ID is missing', async () => {
+      await expect(adapter.parseIncoming({
+        sourceConfigId: '',
+        mapping,
+        payload: formSubmissionFixture,
+      })).rejects.toThrow('Missing source config ID')
+    })
+  })
+
+  describe('fetchThread', () => {
+    it('should rebuild the thread from the stored discussion', async () => {
+      mockFindSourceConfigDiscussion.mockResolvedValueOnce({
+        title: 'Export to CSV drops the last row',
+        content: 'The CSV is missing the final row.',
+        authorHandle: 'Jordan Reyes',
+        sourceUrl: 'https://forms.acme.internal/frm_feedback/submissions/sub_8f3k2',
+        participants: ['Jordan Reyes', 'Sam Okafor'],
+        createdAt: new Date('2025-11-12T16:00:00Z'),
+        metadata: {
+          formId: 'frm_feedback',
+          postedAt: '2025-11-12T15:20:00.000Z',
+          replies: [{ id: 'c1', authorHandle: 'Sam Okafor', content: 'Reproduced.', timestamp: '2025-11-12T16:05:20.000Z' }],
+        },
+      })
+
+      const thread = await adapter.fetchThread('sub_8f3k2', mockConfig)
+
+      expect(mockFindSourceConfigDiscussion).toHaveBeenCalledWith('config-1', 'generic-webhook', 'sub_8f3k2')
+      expect(thread.rootMessage).toEqual({
+        id: 'sub_8f3k2',
+        authorHandle: 'Jordan Reyes',
+        content: 'The CSV is missing the final row.',
+        timestamp: new Date('2025-11-12T15:20:00.000Z'),
+      })
+      expect(thread.replies).toEqual([
+        { id: 'c1', authorHandle: 'Sam Okafor', content: 'Reproduced.', timestamp: new Date('2025-11-12T16:05:20.000Z') },
+      ])
+      expect(thread.participants).toEqual(['Jordan Reyes', 'Sam Okafor'])
+      expect(thread.metadata).toMatchObject({ formId: 'frm_feedback', title: 'Export to CSV drops the last row' })
+      expect(thread.metadata).not.toHaveProperty('replies')
+    })
+
+    it('should throw when the discussion does not exist', async () => {
+      mockFindSourceConfigDiscussion.mockResolvedValueOnce(undefined)
+
+      await expect(adapter.fetchThread('missing', mockConfig)).rejects.toThrow('No discussion found for thread: missing')
+    })
+  })
+
+  describe('postReply and updateStatus', () => {
+    it('should not be supported', async () => {
+      expect(await adapter.postReply('sub_8f3k2', 'Created Notion task', mockConfig)).toBe(false)
+      expect(await adapter.updateStatus('sub_8f3k2', 'completed', mockConfig)).toBe(false)
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should validate complete config', async () => {
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result).toEqual({ valid: true, errors: [] })
+    })
+
+    it('should require a field mapping', async () => {
+      const result = await adapter.validateConfig({ ...mockConfig, metadata: {} })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Field mapping is required')
+    })
+
+    it('should report mapping problems', async () => {
+      const result = await adapter.validateConfig({
+        ...mockConfig,
+        metadata: { mapping: { sourceThreadId: '$..id' } },
+      })
+
+      expect(result.errors).toContain('Invalid path for "sourceThreadId": $..id')
+      expect(result.errors).toContain('Field mapping for "content" is required')
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should succeed when the mapping is usable', async () => {
+      expect(await adapter.testConnection(mockConfig)).toBe(true)
+      expect(await adapter.testConnection({ ...mockConfig, metadata: {} })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GitHubAdapter } from '../github'
+import type { SourceConfig } from '../base'
+import issueCommentFixture from './fixtures/github/issue-comment.created.json'
+import reviewCommentFixture from './fixtures/github/pull-request-review-comment.created.json'
+
+// Mock the GitHubService (keep the real thread ID helpers)
+const mockBuildThread = vi.fn()
+const mockCreateIssueComment = vi.fn()
+const mockReplyToReviewComment = vi.fn()
+const mockAddReaction = vi.fn()
+const mockRemoveOwnReactions = vi.fn()
+const mockTestConnection = vi.fn()
+
+vi.mock('../../services/github', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/github')>()
+  return {
+    ...actual,
+    GitHubService: class MockGitHubService {
+      buildThread = mockBuildThread
+      createIssueComment = mockCreateIssueComment
+      replyToReviewComment = mockReplyToReviewComment
+      addReaction = mockAddReaction
+      removeOwnReactions = mockRemoveOwnReactions
+      testConnection = mockTestConnection
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedApiToken: vi.fn().mockResolvedValue('ghp_test_token_123'),
+  }
+})
+
+describe('GitHubAdapter', () => {
+  let adapter: GitHubAdapter
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'github',
+    name: 'Design System Repo',
+    apiToken: 'ghp_test_token_123',
+    notionToken: 'secret_notion_token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+    metadata: {
+      repository: 'acme/design-system',
+    },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    adapter = new GitHubAdapter()
+  })
+
+  describe('parseIncoming', () => {
+    it('should parse issue_comment webhook', async () => {
+      const result = await adapter.parseIncoming(issueCommentFixture as any)
+
+      expect(result).toMatchObject({
+        sourceType: 'github',
+        sourceThreadId: 'acme/design-system#42',
+        sourceUrl: 'https://github.com/acme/design-system/issues/42#issuecomment-2455011234',
+        teamId: 'acme',
+        authorHandle: 'pm-lena',
+        title: 'Issue #42: Button focus ring is clipped inside cards',
+      })
+
+      expect(result.content).toContain('switch to an outline offset')
+      expect(result.participants).toEqual(['pm-lena'])
+      expect(result.timestamp).toEqual(new Date('2025-11-04T14:02:10Z'))
+      expect(result.metadata).toMatchObject({
+        repositoryFullName: 'acme/design-system',
+        number: 42,
+        isPullRequest: false,
+        commentId: 2455011234,
+        commentType: 'issue_comment',
+        installationId: 51234987,
+      })
+    })
+
+    it('should mark issue comments on pull requests as PR', async () => {
+      const payload = {
+        ...issueCommentFixture,
+        issue: {
+          ...issueCommentFixture.issue,
+          pull_request: { url: 'https://api.github.com/repos/acme/design-system/pulls/42' },
+        },
+      }
+
+      const result = await adapter.parseIncoming(payload as any)
+
+      expect(result.title).toBe('PR #42: Button focus ring is clipped inside cards')
+      expect(result.metadata.isPullRequest).toBe(true)
+      expect(result.sourceThreadId).toBe('acme/design-system#42')
+    })
+
+    it('should parse pull_request_review_comment webhook into review thread', async () => {
+      const result = await adapter.parseIncoming(reviewCommentFixture as any)
+
+      // Thread is rooted at the comment being replied to
+      expect(result.sourceThreadId).toBe('acme/design-system#57:review-1832199001')
+      expect(result.title).toBe('PR #57: Bump default border radius')
+      expect(result.authorHandle).toBe('octodesigner')
+      expect(result.metadata).toMatchObject({
+        commentId: 1832200457,
+        commentType: 'review_comment',
+        isPullRequest: true,
+        path: 'src/tokens/radius.ts',
+      })
+    })
+
+    it('should root a new review comment thread at itself', async () => {
+      const payload = {
+        ...reviewCommentFixture,
+        comment: { ...reviewCommentFixture.comment, in_reply_to_id: undefined },
+      }
+
+      const result = await adapter.parseIncoming(payload as any)
+
+      expect(result.sourceThreadId).toBe('acme/design-system#57:review-1832200457')
+    })
+
+    it('should throw for payload without comment', async () => {
+      const { comment, ...payload } = issueCommentFixture
+
+      await expect(adapter.parseIncoming(payload as any)).rejects.toThrow(
+        'Missing comment or repository',
+      )
+    })
+
+    it('should throw for unsupported payload', async () => {
+      const { issue, ...payload } = issueCommentFixture
+
+      await expect(adapter.parseIncoming(payload as any)).rejects.toThrow(
+        'Unsupported payload',
+      )
+    })
+  })
+
+  describe('fetchThread', () => {
+    it('should build thread from parsed thread ID', async () => {
+      const mockThread = {
+        id: 'acme/design-system#42',
+        rootMessage: {
+          id: 'issue-42',
+          authorHandle: 'octodesigner',
+          content: 'Button focus ring is clipped inside cards',
+          timestamp: new Date(),
+        },
+        replies: [],
+        participants: ['octodesigner'],
+        metadata: {},
+      }
+      mockBuildThread.mockResolvedValueOnce(mockThread)
+
+      const result = await adapter.fetchThread('acme/design-system#42', mockConfig)
+
+      expect(mockBuildThread).toHaveBeenCalledWith({
+        owner: 'acme',
+        repo: 'design-system',
+        number: 42,
+        reviewCommentId: undefined,
+      })
+      expect(result).toBe(mockThread)
+    })
+
+    it('should reject invalid thread IDs', async () => {
+      await expect(adapter.fetchThread('not-a-thread', mockConfig)).rejects.toThrow(
+        'Invalid thread ID',
+      )
+    })
+  })
+
+  describe('postReply', () => {
+    it('should post issue comment for issue threads', async () => {
+      mockCreateIssueComment.mockResolvedValueOnce(1)
+
+      const result = await adapter.postReply('acme/design-system#42', 'Created task', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockCreateIssueComment).toHaveBeenCalledWith('acme', 'design-system', 42, 'Created task')
+      expect(mockReplyToReviewComment).not.toHaveBeenCalled()
+    })
+
+    it('should reply in review thread for review threads', async () => {
+      mockReplyToReviewComment.mockResolvedValueOnce(2)
+
+      await adapter.postReply('acme/design-system#57:review-1832199001', 'Created task', mockConfig)
+
+      expect(mockReplyToReviewComment).toHaveBeenCalledWith(
+        'acme', 'design-system', 57, 1832199001, 'Created task',
+      )
+    })
+
+    it('should skip when post confirmation is disabled', async () => {
+      const result = await adapter.postReply('acme/design-system#42', 'Created task', {
+        ...mockConfig,
+        postConfirmation: false,
+      })
+
+      expect(result).toBe(false)
+      expect(mockCreateIssueComment).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateStatus', () => {
+    it('should react on the triggering issue comment', async () => {
+      const config = {
+        ...mockConfig,
+        metadata: { commentId: 2455011234, commentType: 'issue_comment' },
+      }
+
+      const result = await adapter.updateStatus('acme/design-system#42', 'completed', config)
+
+      expect(result).toBe(true)
+      expect(mockAddReaction).toHaveBeenCalledWith(
+        { kind: 'issue_comment', owner: 'acme', repo: 'design-system', commentId: 2455011234 },
+        'rocket',
+      )
+      expect(mockRemoveOwnReactions).toHaveBeenCalledWith(expect.anything(), 'eyes')
+      expect(mockRemoveOwnReactions).toHaveBeenCalledWith(expect.anything(), 'confused')
+    })
+
+    it('should react on review comments', async () => {
+      const config = {
+        ...mockConfig,
+        metadata: { commentId: 1832200457, commentType: 'review_comment' },
+      }
+
+      await adapter.updateStatus('acme/design-system#57:review-1832199001', 'processing', config)
+
+      expect(mockAddReaction).toHaveBeenCalledWith(
+        { kind: 'review_comment', owner: 'acme', repo: 'design-system', commentId: 1832200457 },
+        'eyes',
+      )
+    })
+
+    it('should fall back to reacting on the issue', async () => {
+      await adapter.updateStatus('acme/design-system#42', 'failed', mockConfig)
+
+      expect(mockAddReaction).toHaveBeenCalledWith(
+        { kind: 'issue', owner: 'acme', repo: 'design-system', number: 42 },
+        'confused',
+      )
+    })
+
+    it('should ignore errors when removing previous reactions', async () => {
+      mockRemoveOwnReactions.mockRejectedValue(new Error('Not found'))
+
+      const result = await adapter.updateStatus('acme/design-system#42', 'completed', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockAddReaction).toHaveBeenCalled()
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should validate complete config', async () => {
+      mockTestConnection.mockResolvedValueOnce(true)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(true)
+      expect(result.errors).toEqual([])
+    })
+
+    it('should require API token, not destination settings', async () => {
+      const result = await adapter.validateConfig({
+        ...mockConfig,
+        apiToken: undefined,
+        notionToken: '',
+        notionDatabaseId: '',
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual(['GitHub API token is required'])
+    })
+
+    it('should reject malformed repository', async () => {
+      const result = await adapter.validateConfig({
+        ...mockConfig,
+        metadata: { repository: 'design-system' },
+      })
+
+      expect(result.errors).toContain('Repository must be in owner/name format')
+    })
+
+    it('should report failed connection test', async () => {
+      mockTestConnection.mockResolvedValueOnce(false)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]).toContain('Failed to connect to GitHub API')
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return false when service throws', async () => {
+      mockTestConnection.mockRejectedValueOnce(new Error('boom'))
+
+      expect(await adapter.testConnection(mockConfig)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LinearAdapter } from '../linear'
+import type { SourceConfig } from '../base'
+import commentFixture from './fixtures/linear/comment.create.json'
+
+// Mock the LinearService
+const mockBuildThread = vi.fn()
+const mockGetCommentIssue = vi.fn()
+const mockCreateComment = vi.fn()
+const mockAddReaction = vi.fn()
+const mockRemoveOwnReaction = vi.fn()
+const mockTestConnection = vi.fn()
+
+vi.mock('../../services/linear', () => {
+  return {
+    LinearService: class MockLinearService {
+      buildThread = mockBuildThread
+      getCommentIssue = mockGetCommentIssue
+      createComment = mockCreateComment
+      addReaction = mockAddReaction
+      removeOwnReaction = mockRemoveOwnReaction
+      testConnection = mockTestConnection
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedApiToken: vi.fn().mockResolvedValue('lin_api_test_key_123'),
+  }
+})
+
+describe('LinearAdapter', () => {
+  let adapter: LinearAdapter
+
+  const ROOT_COMMENT_ID = '7b5d3f1e-9a2c-4e8b-b6d4-0c1e3a5f7b92'
+  const ISSUE_ID = '4e2b8c6a-1d3f-4a5b-9c7e-2f8a6d4b1c3e'
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'linear',
+    name: 'Acme Linear',
+    apiToken: 'lin_api_test_key_123',
+    notionToken: 'secret_notion_token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    adapter = new LinearAdapter()
+  })
+
+  describe('parseIncoming', () => {
+    it('should parse Comment create webhook', async () => {
+      const result = await adapter.parseIncoming(commentFixture as any)
+
+      expect(result).toMatchObject({
+        sourceType: 'linear',
+        sourceThreadId: ROOT_COMMENT_ID,
+        sourceUrl: commentFixture.url,
+        teamId: commentFixture.organizationId,
+        authorHandle: 'Priya Natarajan',
+        title: 'DES-214: Redesign onboarding checklist',
+      })
+
+      expect(result.content).toContain('update the empty state copy')
+      expect(result.participants).toEqual(['Priya Natarajan'])
+      expect(result.timestamp).toEqual(new Date('2025-11-06T09:41:27.512Z'))
+      expect(result.metadata).toMatchObject({
+        issueId: ISSUE_ID,
+        issueIdentifier: 'DES-214',
+        commentId: commentFixture.data.id,
+        parentId: ROOT_COMMENT_ID,
+      })
+    })
+
+    it('should use comment ID as thread ID for root comments', async () => {
+      const payload = {
+        ...commentFixture,
+        data: { ...commentFixture.data, parentId: null },
+      }
+
+      const result = await adapter.parseIncoming(payload as any)
+
+      expect(result.sourceThreadId).toBe(commentFixture.data.id)
+    })
+
+    it('should fall back to issue title without identifier', async () => {
+      const payload = {
+        ...commentFixture,
+        data: {
+          ...commentFixture.data,
+          issue: { id: ISSUE_ID, title: 'Redesign onboarding checklist' },
+        },
+      }
+
+      const result = await adapter.parseIncoming(payload as any)
+
+      expect(result.title).toBe('Redesign onboarding checklist')
+    })
+
+    it('should throw for non-comment payloads', async () => {
+      await expect(
+        adapter.parseIncoming({ ...commentFixture, type: 'Issue' } as any),
+      ).rejects.toThrow('Unsupported payload type')
+    })
+
+    it('should throw for payload without comment data', async () => {
+      const { data, ...payload } = commentFixture
+
+      await expect(adapter.parseIncoming(payload as any)).rejects.toThrow(
+        'Missing comment data',
+      )
+    })
+  })
+
+  describe('fetchThread', () => {
+    it('should build thread from root comment', async () => {
+      const mockThread = {
+        id: ROOT_COMMENT_ID,
+        rootMessage: {
+          id: ROOT_COMMENT_ID,
+          authorHandle: 'Marco',
+          content: 'Proposal for the checklist',
+          timestamp: new Date(),
+        },
+        replies: [],
+        participants: ['Marco'],
+        metadata: {},
+      }
+      mockBuildThread.mockResolvedValueOnce(mockThread)
+
+      const result = await adapter.fetchThread(ROOT_COMMENT_ID, mockConfig)
+
+      expect(mockBuildThread).toHaveBeenCalledWith(ROOT_COMMENT_ID)
+      expect(result).toBe(mockThread)
+    })
+
+    it('should propagate service errors', async () => {
+      mockBuildThread.mockRejectedValueOnce(new Error('Comment not found'))
+
+      await expect(adapter.fetchThread('missing', mockConfig)).rejects.toThrow('Comment not found')
+    })
+  })
+
+  describe('postReply', () => {
+    it('should reply in thread using issue ID from metadata', async () => {
+      mockCreateComment.mockResolvedValueOnce('reply-1')
+
+      const result = await adapter.postReply(ROOT_COMMENT_ID, 'Created task', {
+        ...mockConfig,
+        metadata: { issueId: ISSUE_ID },
+      })
+
+      expect(result).toBe(true)
+      expect(mockGetCommentIssue).not.toHaveBeenCalled()
+      expect(mockCreateComment).toHaveBeenCalledWith(ISSUE_ID, 'Created task', ROOT_COMMENT_ID)
+    })
+
+    it('should look up the issue when metadata is missing', async () => {
+      mockGetCommentIssue.mockResolvedValueOnce({ id: ISSUE_ID })
+      mockCreateComment.mockResolvedValueOnce('reply-1')
+
+      await adapter.postReply(ROOT_COMMENT_ID, 'Created task', mockConfig)
+
+      expect(mockGetCommentIssue).toHaveBeenCalledWith(ROOT_COMMENT_ID)
+      expect(mockCreateComment).toHaveBeenCalledWith(ISSUE_ID, 'Created task', ROOT_COMMENT_ID)
+    })
+
+    it('should skip when post confirmation is disabled', async () => {
+      const result = await adapter.postReply(ROOT_COMMENT_ID, 'Created task', {
+        ...mockConfig,
+        postConfirmation: false,
+      })
+
+      expect(result).toBe(false)
+      expect(mockCreateComment).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateStatus', () => {
+    it('should react on the triggering comment', async () => {
+      const result = await adapter.updateStatus(ROOT_COMMENT_ID, 'completed', {
+        ...mockConfig,
+        metadata: { commentId: commentFixture.data.id },
+      })
+
+      expect(result).toBe(true)
+      expect(mockAddReaction).toHaveBeenCalledWith(commentFixture.data.id, '✅')
+      expect(mockRemoveOwnReaction).toHaveBeenCalledTimes(3)
+      expect(mockRemoveOwnReaction).not.toHaveBeenCalledWith(expect.anything(), '✅')
+    })
+
+    it('should fall back to reacting on the root comment', async () => {
+      await adapter.updateStatus(ROOT_COMMENT_ID, 'processing', mockConfig)
+
+      expect(mockAddReaction).toHaveBeenCalledWith(ROOT_COMMENT_ID, '⏳')
+    })
+
+    it('should ignore errors when removing previous reactions', async () => {
+      mockRemoveOwnReaction.mockRejectedValue(new Error('Not found'))
+
+      const result = await adapter.updateStatus(ROOT_COMMENT_ID, 'failed', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockAddReaction).toHaveBeenCalledWith(ROOT_COMMENT_ID, '❌')
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should validate complete config', async () => {
+      mockTestConnection.mockResolvedValueOnce(true)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(true)
+      expect(result.errors).toEqual([])
+    })
+
+    it('should require API key, not destination settings', async () => {
+      const result = await adapter.validateConfig({
+        ...mockConfig,
+        apiToken: undefined,
+        notionToken: '',
+        notionDatabaseId: '',
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual(['Linear API key is required'])
+    })
+
+    it('should report failed connection test', async () => {
+      mockTestConnection.mockResolvedValueOnce(false)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]).toContain('Failed to connect to Linear API')
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return false when service throws', async () => {
+      mockTestConnection.mockRejectedValueOnce(new Error('boom'))
+
+      expect(await adapter.testConnection(mockConfig)).toBe(false)
+    })
+  })
+})
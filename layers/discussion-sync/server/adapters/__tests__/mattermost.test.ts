@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MattermostAdapter } from '../mattermost'
+import type { SourceConfig } from '../base'
+import outgoingWebhookFixture from './fixtures/mattermost/outgoing-webhook.json'
+import postedEventFixture from './fixtures/mattermost/posted-event.mention.json'
+
+// Mock the MattermostService (keep the real URL helpers)
+const mockBuildThread = vi.fn()
+const mockGetPost = vi.fn()
+const mockCreatePost = vi.fn()
+const mockAddReaction = vi.fn()
+const mockRemoveReaction = vi.fn()
+const mockTestConnection = vi.fn()
+
+vi.mock('../../services/mattermost', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/mattermost')>()
+  return {
+    ...actual,
+    MattermostService: class MockMattermostService {
+      buildThread = mockBuildThread
+      getPost = mockGetPost
+      createPost = mockCreatePost
+      addReaction = mockAddReaction
+      removeReaction = mockRemoveReaction
+      testConnection = mockTestConnection
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedApiToken: vi.fn().mockResolvedValue('mattermost-bot-token'),
+  }
+})
+
+describe('MattermostAdapter', () => {
+  let adapter: MattermostAdapter
+
+  const SERVER_URL = 'https://chat.acme.internal'
+  const ROOT_POST_ID = 'u1ox6ybtmtgn5ea4jmz4jdzh1h'
+  const POST_ID = 'kmdqymcwujfxt8e3xf3e5bo1yw'
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'mattermost',
+    name: 'Acme Mattermost',
+    apiToken: 'mattermost-bot-token',
+    notionToken: 'secret_notion_token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+    metadata: {
+      serverUrl: SERVER_URL,
+    },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    adapter = new MattermostAdapter()
+  })
+
+  describe('parseIncoming', () => {
+    it('should parse outgoing webhook reply into its thread', async () => {
+      const result = await adapter.parseIncoming({
+        ...outgoingWebhookFixture,
+        server_url: SERVER_URL,
+        root_id: ROOT_POST_ID,
+      })
+
+      expect(result).toMatchObject({
+        sourceType: 'mattermost',
+        sourceThreadId: ROOT_POST_ID,
+        sourceUrl: `${SERVER_URL}/acme/pl/${POST_ID}`,
+        teamId: 'fq7d3h8r1bdp7ktbm5pjqzs5ae',
+        authorHandle: 'lotte',
+        title: 'Mattermost message from lotte in ~checkout-squad',
+        content: 'let\'s track this, the promo code field overlaps the total on mobile',
+      })
+      expect(result.timestamp).toEqual(new Date(1762962130412))
+      expect(result.metadata).toMatchObject({
+        trigger: 'outgoing_webhook',
+        postId: POST_ID,
+        rootId: ROOT_POST_ID,
+        triggerWord: '@discubot',
+      })
+    })
+
+    it('should use the post as thread root for top-level posts', async () => {
+      const result = await adapter.parseIncoming({
+        ...outgoingWebhookFixture,
+        server_url: SERVER_URL,
+        root_id: '',
+      })
+
+      expect(result.sourceThreadId).toBe(POST_ID)
+    })
+
+    it('should parse forwarded mention event', async () => {
+      const result = await adapter.parseIncoming({
+        ...postedEventFixture,
+        server_url: SERVER_URL,
+      } as any)
+
+      expect(result).toMatchObject({
+        sourceThreadId: ROOT_POST_ID,
+        sourceUrl: `${SERVER_URL}/_redirect/pl/${POST_ID}`,
+        authorHandle: 'lotte',
+        title: 'Mattermost message from lotte in ~checkout-squad',
+      })
+      expect(result.metadata).toMatchObject({
+        trigger: 'mention',
+        channelType: 'P',
+        postId: POST_ID,
+      })
+    })
+
+    it('should throw without server URL', async () => {
+      await expect(adapter.parseIncoming(outgoingWebhookFixture)).rejects.toThrow('Missing server URL')
+    })
+
+    it('should throw for unsupported payloads', async () => {
+      await expect(adapter.parseIncoming({ token: 'x', server_url: SERVER_URL } as any)).rejects.toThrow('Unsupported payload')
+    })
+  })
+
+  describe('fetchThread', () => {
+    it('should build thread from the root post', async () => {
+      const mockThread = { id: ROOT_POST_ID, rootMessage: { content: 'Promo code' }, replies: [], participants: [], metadata: {} }
+      mockBuildThread.mockResolvedValueOnce(mockThread)
+
+      const result = await adapter.fetchThread(ROOT_POST_ID, mockConfig)
+
+      expect(mockBuildThread).toHaveBeenCalledWith(ROOT_POST_ID)
+      expect(result).toBe(mockThread)
+    })
+
+    it('should require server URL', async () => {
+      await expect(adapter.fetchThread(ROOT_POST_ID, { ...mockConfig, metadata: {} })).rejects.toThrow('Server URL not found')
+    })
+  })
+
+  describe('postReply', () => {
+    it('should reply in the thread channel', async () => {
+      mockGetPost.mockResolvedValueOnce({ id: ROOT_POST_ID, root_id: '', channel_id: 'channel-1' })
+      mockCreatePost.mockResolvedValueOnce('reply-1')
+
+      const result = await adapter.postReply(ROOT_POST_ID, 'Created task', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockCreatePost).toHaveBeenCalledWith('channel-1', 'Created task', ROOT_POST_ID)
+    })
+
+    it('should skip when post confirmation is disabled', async () => {
+      const result = await adapter.postReply(ROOT_POST_ID, 'Created task', {
+        ...mockConfig,
+        postConfirmation: false,
+      })
+
+      expect(result).toBe(false)
+      expect(mockCreatePost).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateStatus', () => {
+    it('should use the same emoji set as Slack', async () => {
+      await adapter.updateStatus(ROOT_POST_ID, 'pending', mockConfig)
+      await adapter.updateStatus(ROOT_POST_ID, 'processing', mockConfig)
+      await adapter.updateStatus(ROOT_POST_ID, 'completed', mockConfig)
+      await adapter.updateStatus(ROOT_POST_ID, 'failed', mockConfig)
+
+      expect(mockAddReaction.mock.calls.map(call => call[1])).toEqual([
+        'clock1',
+        'hourglass_flowing_sand',
+        'white_check_mark',
+        'x',
+      ])
+    })
+
+    it('should react on the triggering post when known', async () => {
+      await adapter.updateStatus(ROOT_POST_ID, 'completed', {
+        ...mockConfig,
+        metadata: { ...mockConfig.metadata, postId: POST_ID },
+      })
+
+      expect(mockAddReaction).toHaveBeenCalledWith(POST_ID, 'white_check_mark')
+    })
+
+    it('should ignore errors when removing reactions', async () => {
+      mockRemoveReaction.mockRejectedValue(new Error('not found'))
+
+      const result = await adapter.updateStatus(ROOT_POST_ID, 'failed', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockRemoveReaction).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should validate complete config', async () => {
+      mockTestConnection.mockResolvedValueOnce(true)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(true)
+    })
+
+    it('should require bot token and server URL', async () => {
+      const result = await adapter.validateConfig({
+        ...mockConfig,
+        apiToken: undefined,
+        metadata: {},
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Mattermost bot access token is required')
+      expect(result.errors).toContain('Mattermost server URL is required')
+    })
+
+    it('should report failed connection test', async () => {
+      mockTestConnection.mockResolvedValueOnce(false)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.errors[0]).toContain('Failed to connect to Mattermost API')
+    })
+  })
+})
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { SlackAdapter } from '../slack'
+import { clearSlackNameCache } from '../../utils/slackText'
 import type { SourceConfig } from '../base'
+import reactionAddedFixture from './fixtures/slack/reaction-added.event.json'
+import messageActionFixture from './fixtures/slack/send-to-notion.message-action.json'
 
 // Mock the SlackService
 const mockGetThread = vi.fn()
@@ -8,6 +11,13 @@ const mockPostMessage = vi.fn()
 const mockAddReaction = vi.fn()
 const mockRemoveReaction = vi.fn()
 const mockTestConnection = vi.fn()
+const mockGetUserInfo = vi.fn()
+const mockGetChannelInfo = vi.fn()
+const mockDownloadFile = vi.fn()
+const mockBlobPut = vi.fn()
+
+vi.stubGlobal('hubBlob', () => ({ put: mockBlobPut }))
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { host: 'https://app.example.com' } }))
 
 vi.mock('../../services/slack', () => {
   return {
@@ -17,6 +27,9 @@ vi.mock('../../services/slack', () => {
       addReaction = mockAddReaction
       removeReaction = mockRemoveReaction
       testConnection = mockTestConnection
+      getUserInfo = mockGetUserInfo
+      getChannelInfo = mockGetChannelInfo
+      downloadFile = mockDownloadFile
     },
   }
 })
@@ -33,6 +46,7 @@ describe('SlackAdapter', () => {
 
   beforeEach(() => {
     vi.clearAllMocks()
+    clearSlackNameCache()
     adapter = new SlackAdapter()
   })
 
@@ -42,7 +56,7 @@ describe('SlackAdapter', () => {
       team_id: 'T123ABC',
       api_app_id: 'A123',
       event: {
-        type: 'app_mention',
+        type: 'app_mention' as const,
         user: 'U123USER',
         text: '<@U123BOT> please help with this issue',
         ts: '1234567890.123456',
@@ -165,6 +179,141 @@ describe('SlackAdapter', () => {
     })
   })
 
+  describe('parseIncoming (reaction_added)', () => {
+    const reactedMessage = {
+      type: 'message',
+      user: 'U123AUTHOR',
+      text: 'Should we move the launch to Thursday? <@U999BOT>',
+      ts: '1700000123.000200',
+      thread_ts: '1700000100.000100',
+    }
+
+    const reactionPayload = (message?: Record<string, unknown>) => ({
+      ...reactionAddedFixture,
+      event: { ...reactionAddedFixture.event, message },
+    }) as any
+
+    it('should create a discussion for the thread of the reacted message', async () => {
+      const result = await adapter.parseIncoming(reactionPayload(reactedMessage))
+
+      expect(result).toMatchObject({
+        sourceType: 'slack',
+        sourceThreadId: '1700000100.000100',
+        teamId: 'T123ABC',
+        authorHandle: 'U123AUTHOR',
+        title: 'Slack message from <@U123AUTHOR>',
+        content: 'Should we move the launch to Thursday?',
+      })
+      expect(result.participants).toEqual(['U123AUTHOR', 'U456REACTOR'])
+      expect(result.sourceUrl).toContain('message=1700000100000100')
+      expect(result.metadata).toMatchObject({
+        channelId: 'C123CHANNEL',
+        messageTs: '1700000123.000200',
+        threadTs: '1700000100.000100',
+        trigger: 'reaction',
+        reaction: 'notion',
+        triggeredBy: 'U456REACTOR',
+      })
+    })
+
+    it('should use the message itself as thread root when not in a thread', async () => {
+      const { thread_ts: _threadTs, ...topLevelMessage } = reactedMessage
+
+      const result = await adapter.parseIncoming(reactionPayload(topLevelMessage))
+
+      expect(result.sourceThreadId).toBe('1700000123.000200')
+      expect(result.metadata.threadTs).toBeUndefined()
+    })
+
+    it('should throw error if the reacted message is missing', async () => {
+      await expect(adapter.parseIncoming(reactionPayload())).rejects.toThrow(
+        'Reacted message not found in payload'
+      )
+    })
+
+    it('should throw error for reactions on non-message items', async () => {
+      const payload = reactionPayload(reactedMessage)
+      payload.event.item = { type: 'file' }
+
+      await expect(adapter.parseIncoming(payload)).rejects.toThrow(
+        'Missing required event fields'
+      )
+    })
+  })
+
+  describe('parseIncoming (message shortcut)', () => {
+    it('should create a discussion for the thread of the shortcut message', async () => {
+      const result = await adapter.parseIncoming(messageActionFixture as any)
+
+      expect(result).toMatchObject({
+        sourceType: 'slack',
+        sourceThreadId: '1700000100.000100',
+        teamId: 'T123ABC',
+        authorHandle: 'U123AUTHOR',
+        content: 'We should add a retry button to the export dialog',
+      })
+      expect(result.participants).toEqual(['U123AUTHOR', 'U456REACTOR'])
+      expect(result.metadata).toMatchObject({
+        channelId: 'C123CHANNEL',
+        messageTs: '1700000123.000200',
+        trigger: 'shortcut',
+        triggeredBy: 'U456REACTOR',
+        callbackId: 'send_to_notion',
+        channelName: 'product',
+      })
+    })
+
+    it('should throw error if the message is missing', async () => {
+      const { message: _message, ...payload } = messageActionFixture
+
+      await expect(adapter.parseIncoming(payload as any)).rejects.toThrow(
+        'Missing required shortcut fields'
+      )
+    })
+  })
+
+  describe('parseIncoming (slash command)', () => {
+    const commandPayload = {
+      command: '/discubot',
+      text: 'summarize https://acme.slack.com/archives/C123CHANNEL/p1700000123000200',
+      team_id: 'T123ABC',
+      channel_id: 'C999OTHER',
+      user_id: 'U456REACTOR',
+      response_url: 'https://hooks.slack.com/commands/T123ABC/1/abc',
+      trigger_id: '123.456.abc',
+    }
+
+    it('should create a discussion for the linked message', async () => {
+      const result = await adapter.parseIncoming({
+        ...commandPayload,
+        message_channel_id: 'C123CHANNEL',
+        message: {
+          type: 'message',
+          user: 'U123AUTHOR',
+          text: 'Top-level message',
+          ts: '1700000123.000200',
+        },
+      })
+
+      expect(result).toMatchObject({
+        sourceThreadId: '1700000123.000200',
+        authorHandle: 'U123AUTHOR',
+        content: 'Top-level message',
+      })
+      expect(result.metadata).toMatchObject({
+        channelId: 'C123CHANNEL',
+        trigger: 'command',
+        command: '/discubot summarize https://acme.slack.com/archives/C123CHANNEL/p1700000123000200',
+      })
+    })
+
+    it('should throw error if the linked message was not resolved', async () => {
+      await expect(adapter.parseIncoming(commandPayload)).rejects.toThrow(
+        'Referenced message not found in slash command payload'
+      )
+    })
+  })
+
   describe('fetchThread', () => {
     const mockConfig: SourceConfig = {
       id: 'config-1',
@@ -217,6 +366,151 @@ describe('SlackAdapter', () => {
       expect(thread.participants).toEqual(['U123', 'U456'])
     })
 
+    it('should resolve authors, mentions and links to readable text', async () => {
+      mockGetThread.mockResolvedValueOnce({
+        channelId: 'C123CHANNEL',
+        threadTs: '1234567890.123456',
+        messages: [
+          {
+            type: 'message',
+            user: 'U123',
+            text: '<@U456> can you check <#C789> and <https://example.com/spec|the spec>?',
+            ts: '1234567890.123456',
+          },
+          {
+            type: 'message',
+            user: 'U456',
+            text: 'On it &amp; will report back',
+            ts: '1234567891.123456',
+          },
+        ],
+        hasMore: false,
+        metadata: {},
+      })
+      mockGetUserInfo.mockImplementation(async (userId: string) => ({
+        id: userId,
+        name: userId.toLowerCase(),
+        real_name: userId === 'U123' ? 'Jane Doe' : 'John Smith',
+        profile: { display_name: '', real_name: userId === 'U123' ? 'Jane Doe' : 'John Smith' },
+      }))
+      mockGetChannelInfo.mockResolvedValue({ id: 'C789', name: 'design' })
+
+      const thread = await adapter.fetchThread('1234567890.123456', mockConfig)
+
+      expect(thread.rootMessage.authorHandle).toBe('Jane Doe')
+      expect(thread.rootMessage.content).toBe('@John Smith can you check #design and [the spec](https://example.com/spec)?')
+      expect(thread.replies[0].content).toBe('On it & will report back')
+      expect(thread.participants).toEqual(['Jane Doe', 'John Smith'])
+
+      // Names are cached per workspace across threads
+      mockGetThread.mockResolvedValueOnce({
+        channelId: 'C123CHANNEL',
+        threadTs: '1234567892.123456',
+        messages: [{ type: 'message', user: 'U123', text: 'Hi', ts: '1234567892.123456' }],
+        hasMore: false,
+        metadata: {},
+      })
+
+      await adapter.fetchThread('1234567892.123456', mockConfig)
+
+      expect(mockGetUserInfo).toHaveBeenCalledTimes(2)
+    })
+
+    it('should pass the configured message limit and report truncation', async () => {
+      mockGetThread.mockResolvedValueOnce({
+        channelId: 'C123CHANNEL',
+        threadTs: '1234567890.123456',
+        messages: [
+          { type: 'message', user: 'U123', text: 'Root', ts: '1234567890.123456' },
+          { type: 'message', user: 'U456', text: 'Latest reply', ts: '1234567899.123456' },
+        ],
+        hasMore: true,
+        metadata: { totalMessages: 250, omittedMessages: 248 },
+      })
+
+      const thread = await adapter.fetchThread('1234567890.123456', {
+        ...mockConfig,
+        metadata: { ...mockConfig.metadata, maxThreadMessages: 2 },
+      })
+
+      expect(mockGetThread).toHaveBeenCalledWith('C123CHANNEL', '1234567890.123456', { maxMessages: 2 })
+      expect(thread.metadata).toMatchObject({ hasMore: true, totalMessages: 250, omittedMessages: 248 })
+    })
+
+    it('should fall back to user IDs when lookups fail', async () => {
+      mockGetThread.mockResolvedValueOnce({
+        channelId: 'C123CHANNEL',
+        threadTs: '1234567890.123456',
+        messages: [{ type: 'message', user: 'U999', text: 'Hello', ts: '1234567890.123456' }],
+        hasMore: false,
+        metadata: {},
+      })
+      mockGetUserInfo.mockRejectedValueOnce(new Error('Failed to fetch user info: user_not_found'))
+
+      const thread = await adapter.fetchThread('1234567890.123456', mockConfig)
+
+      expect(thread.rootMessage.authorHandle).toBe('U999')
+    })
+
+    it('should store shared files as attachments', async () => {
+      mockGetThread.mockResolvedValueOnce({
+        channelId: 'C123CHANNEL',
+        threadTs: '1234567890.123456',
+        messages: [
+          {
+            type: 'message',
+            user: 'U123',
+            text: 'Export is broken, see screenshot',
+            ts: '1234567890.123456',
+            files: [{
+              id: 'F123',
+              name: 'export-error.png',
+              mimetype: 'image/png',
+              url_private_download: 'https://files.slack.com/files-pri/T1-F123/download/export-error.png',
+              permalink: 'https://acme.slack.com/files/U123/F123/export-error.png',
+            }],
+          },
+          {
+            type: 'message',
+            user: 'U456',
+            text: 'Logs attached',
+            ts: '1234567891.123456',
+            files: [{
+              id: 'F456',
+              name: 'export.log',
+              mimetype: 'text/plain',
+              url_private: 'https://files.slack.com/files-pri/T1-F456/export.log',
+              permalink: 'https://acme.slack.com/files/U456/F456/export.log',
+            }],
+          },
+        ],
+        hasMore: false,
+        metadata: {},
+      })
+      mockDownloadFile
+        .mockResolvedValueOnce(new Blob(['png'], { type: 'image/png' }))
+        .mockRejectedValueOnce(new Error('Failed to download file: missing files:read scope'))
+      mockBlobPut.mockResolvedValueOnce({ pathname: 'export-error-x1y2.png' })
+
+      const thread = await adapter.fetchThread('1234567890.123456', mockConfig)
+
+      expect(mockDownloadFile).toHaveBeenCalledWith('https://files.slack.com/files-pri/T1-F123/download/export-error.png')
+      expect(thread.rootMessage.attachments).toEqual([{
+        id: 'F123',
+        type: 'image',
+        url: 'https://app.example.com/images/export-error-x1y2.png',
+        name: 'export-error.png',
+        mimeType: 'image/png',
+      }])
+
+      // Files that can't be downloaded link to Slack instead
+      expect(thread.replies[0].attachments).toEqual([expect.objectContaining({
+        id: 'F456',
+        type: 'link',
+        url: 'https://acme.slack.com/files/U456/F456/export.log',
+      })])
+    })
+
     it('should throw error if channel ID missing', async () => {
       const configWithoutChannel = {
         ...mockConfig,
@@ -412,6 +706,49 @@ describe('SlackAdapter', () => {
     })
   })
 
+  describe('requestApproval', () => {
+    const mockConfig: SourceConfig = {
+      id: 'config-1',
+      sourceId: 'slack',
+      name: 'Test Slack',
+      apiToken: 'encrypted-token',
+      notionToken: 'notion-token',
+      notionDatabaseId: 'db-123',
+      aiEnabled: true,
+      autoSync: true,
+      postConfirmation: true,
+      approvalRequired: true,
+      active: true,
+      metadata: {
+        channelId: 'C123CHANNEL',
+      },
+    }
+
+    it('should post the tasks with approval buttons in the thread', async () => {
+      mockPostMessage.mockResolvedValueOnce('1234567892.123456')
+
+      const result = await adapter.requestApproval('1234567890.123456', {
+        jobId: 'job-1',
+        tasks: [{ title: 'Fix export', description: 'Retry button', priority: 'high' }],
+      }, mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockPostMessage).toHaveBeenCalledWith(
+        'C123CHANNEL',
+        expect.stringContaining('1 task'),
+        '1234567890.123456',
+        { blocks: expect.arrayContaining([expect.objectContaining({ type: 'actions' })]) },
+      )
+    })
+
+    it('should throw error if channel ID missing', async () => {
+      await expect(adapter.requestApproval('1234567890.123456', { jobId: 'job-1', tasks: [] }, {
+        ...mockConfig,
+        metadata: {},
+      })).rejects.toThrow('Channel ID not found')
+    })
+  })
+
   describe('validateConfig', () => {
     const validConfig: SourceConfig = {
       id: 'config-1',
@@ -448,28 +785,15 @@ describe('SlackAdapter', () => {
       expect(result.errors).toContain('Slack bot token is required')
     })
 
-    it('should return error for missing notionToken', async () => {
-      const invalidConfig = {
+    it('should leave destination settings to validateDestinations', async () => {
+      const result = await adapter.validateConfig({
         ...validConfig,
         notionToken: '',
-      }
-
-      const result = await adapter.validateConfig(invalidConfig)
-
-      expect(result.valid).toBe(false)
-      expect(result.errors).toContain('Notion API token is required')
-    })
-
-    it('should return error for missing notionDatabaseId', async () => {
-      const invalidConfig = {
-        ...validConfig,
         notionDatabaseId: '',
-      }
-
-      const result = await adapter.validateConfig(invalidConfig)
+      })
 
-      expect(result.valid).toBe(false)
-      expect(result.errors).toContain('Notion database ID is required')
+      expect(result.errors).not.toContain('Notion API token is required')
+      expect(result.errors).not.toContain('Notion database ID is required')
     })
 
     it('should return error if connection test fails', async () => {
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { TeamsAdapter, isBotMentioned } from '../teams'
+import type { SourceConfig } from '../base'
+import mentionFixture from './fixtures/teams/channel-mention.message.json'
+
+// Mock the TeamsService (keep the real thread ID helpers)
+const mockBuildThread = vi.fn()
+const mockSendActivity = vi.fn()
+const mockUpdateActivity = vi.fn()
+const mockTestConnection = vi.fn()
+
+vi.mock('../../services/teams', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/teams')>()
+  return {
+    ...actual,
+    TeamsService: class MockTeamsService {
+      buildThread = mockBuildThread
+      sendActivity = mockSendActivity
+      updateActivity = mockUpdateActivity
+      testConnection = mockTestConnection
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedApiToken: vi.fn().mockResolvedValue('app-password-123'),
+  }
+})
+
+// Mock NuxtHub KV storage
+const mockKvGet = vi.fn()
+const mockKvSet = vi.fn()
+vi.stubGlobal('hubKV', () => ({ get: mockKvGet, set: mockKvSet }))
+
+describe('TeamsAdapter', () => {
+  let adapter: TeamsAdapter
+
+  const AAD_GROUP_ID = '6a8c0e2f-4b6d-4e8a-9c1e-3f5b7d9a1c2e'
+  const CHANNEL_ID = '19:b7d9f1a3c5e74b6d8f0a2c4e6b8d0f1a@thread.tacv2'
+  const THREAD_ID = `${AAD_GROUP_ID}/${CHANNEL_ID};messageid=1762424000123`
+  const CONVERSATION_ID = `${CHANNEL_ID};messageid=1762424000123`
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'teams',
+    name: 'Acme Teams',
+    apiToken: 'app-password-123',
+    notionToken: 'secret_notion_token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+    metadata: {
+      appId: '8d3f5b7a-1c2e-4f60-9a8b-7c6d5e4f3a21',
+      tenantId: 'f2a4c6e8-0b1d-4f3a-9c5e-7a9b1d3f5c7e',
+      serviceUrl: 'https://smba.trafficmanager.net/emea/',
+    },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    adapter = new TeamsAdapter()
+  })
+
+  describe('isBotMentioned', () => {
+    it('should detect bot mention', () => {
+      expect(isBotMentioned(mentionFixture as any)).toBe(true)
+    })
+
+    it('should ignore mentions of other users', () => {
+      const activity = {
+        ...mentionFixture,
+        entities: [{ type: 'mention', mentioned: { id: '29:someone', name: 'Someone' } }],
+      }
+
+      expect(isBotMentioned(activity as any)).toBe(false)
+    })
+  })
+
+  describe('parseIncoming', () => {
+    it('should parse channel message activity into reply chain', async () => {
+      const result = await adapter.parseIncoming(mentionFixture as any)
+
+      expect(result).toMatchObject({
+        sourceType: 'teams',
+        sourceThreadId: THREAD_ID,
+        teamId: 'f2a4c6e8-0b1d-4f3a-9c5e-7a9b1d3f5c7e',
+        authorHandle: 'Sofie de Vries',
+        title: 'Teams message from Sofie de Vries',
+        content: 'can you log the agreed changes to the invoice PDF layout?',
+      })
+
+      expect(result.sourceUrl).toContain('https://teams.microsoft.com/l/message/')
+      expect(result.sourceUrl).toContain('parentMessageId=1762424000123')
+      expect(result.timestamp).toEqual(new Date('2025-11-06T10:35:10.456Z'))
+      expect(result.metadata).toMatchObject({
+        aadGroupId: AAD_GROUP_ID,
+        channelId: CHANNEL_ID,
+        conversationId: CONVERSATION_ID,
+        rootMessageId: '1762424000123',
+        activityId: '1762425310456',
+        serviceUrl: 'https://smba.trafficmanager.net/emea/',
+      })
+    })
+
+    it('should use activity ID as root for new channel posts', async () => {
+      const activity = {
+        ...mentionFixture,
+        conversation: { ...mentionFixture.conversation, id: CHANNEL_ID },
+      }
+
+      const result = await adapter.parseIncoming(activity as any)
+
+      expect(result.sourceThreadId).toBe(`${AAD_GROUP_ID}/${CHANNEL_ID};messageid=1762425310456`)
+    })
+
+    it('should reject personal conversations', async () => {
+      const activity = {
+        ...mentionFixture,
+        conversation: { ...mentionFixture.conversation, conversationType: 'personal' },
+      }
+
+      await expect(adapter.parseIncoming(activity as any)).rejects.toThrow(
+        'Only channel conversations are supported',
+      )
+    })
+
+    it('should reject non-message activities', async () => {
+      await expect(
+        adapter.parseIncoming({ ...mentionFixture, type: 'conversationUpdate' } as any),
+      ).rejects.toThrow('Invalid activity type')
+    })
+
+    it('should require team information', async () => {
+      const activity = {
+        ...mentionFixture,
+        channelData: { ...mentionFixture.channelData, team: { id: 'x' } },
+      }
+
+      await expect(adapter.parseIncoming(activity as any)).rejects.toThrow(
+        'Missing channel or team information',
+      )
+    })
+  })
+
+  describe('fetchThread', () => {
+    it('should build thread from parsed thread ID', async () => {
+      const mockThread = { id: THREAD_ID, rootMessage: { content: 'Invoice layout' }, replies: [], participants: [], metadata: {} }
+      mockBuildThread.mockResolvedValueOnce(mockThread)
+
+      const result = await adapter.fetchThread(THREAD_ID, mockConfig)
+
+      expect(mockBuildThread).toHaveBeenCalledWith({
+        teamId: AAD_GROUP_ID,
+        channelId: CHANNEL_ID,
+        messageId: '1762424000123',
+      })
+      expect(result).toBe(mockThread)
+    })
+  })
+
+  describe('postReply', () => {
+    it('should reply in the same reply chain', async () => {
+      mockSendActivity.mockResolvedValueOnce('1762425400000')
+
+      const result = await adapter.postReply(THREAD_ID, 'Created task', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockSendActivity).toHaveBeenCalledWith(
+        'https://smba.trafficmanager.net/emea/',
+        CONVERSATION_ID,
+        { type: 'message', text: 'Created task', textFormat: 'markdown' },
+      )
+    })
+
+    it('should skip when post confirmation is disabled', async () => {
+      const result = await adapter.postReply(THREAD_ID, 'Created task', {
+        ...mockConfig,
+        postConfirmation: false,
+      })
+
+      expect(result).toBe(false)
+      expect(mockSendActivity).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateStatus', () => {
+    it('should post a status card and remember its activity ID', async () => {
+      mockKvGet.mockResolvedValueOnce(null)
+      mockSendActivity.mockResolvedValueOnce('card-1')
+
+      const result = await adapter.updateStatus(THREAD_ID, 'processing', mockConfig)
+
+      expect(result).toBe(true)
+      const [, conversationId, activity] = mockSendActivity.mock.calls[0]
+      expect(conversationId).toBe(CONVERSATION_ID)
+      expect(activity.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive')
+      expect(activity.attachments[0].content.body[0].text).toContain('Summarizing')
+      expect(mockKvSet).toHaveBeenCalledWith(expect.stringContaining(THREAD_ID), 'card-1')
+    })
+
+    it('should update the existing status card', async () => {
+      mockKvGet.mockResolvedValueOnce('card-1')
+
+      await adapter.updateStatus(THREAD_ID, 'completed', mockConfig)
+
+      expect(mockUpdateActivity).toHaveBeenCalledWith(
+        'https://smba.trafficmanager.net/emea/',
+        CONVERSATION_ID,
+        'card-1',
+        expect.objectContaining({ type: 'message' }),
+      )
+      expect(mockSendActivity).not.toHaveBeenCalled()
+    })
+
+    it('should post a new card when the update fails', async () => {
+      mockKvGet.mockResolvedValueOnce('card-1')
+      mockUpdateActivity.mockRejectedValueOnce(new Error('Not found'))
+      mockSendActivity.mockResolvedValueOnce('card-2')
+
+      const result = await adapter.updateStatus(THREAD_ID, 'failed', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockKvSet).toHaveBeenCalledWith(expect.any(String), 'card-2')
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should validate complete config', async () => {
+      mockTestConnection.mockResolvedValueOnce(true)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(true)
+      expect(result.errors).toEqual([])
+    })
+
+    it('should require app credentials and tenant', async () => {
+      const result = await adapter.validateConfig({
+        ...mockConfig,
+        apiToken: undefined,
+        metadata: {},
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Microsoft App ID is required')
+      expect(result.errors).toContain('Microsoft App password is required')
+      expect(result.errors).toContain('Microsoft tenant ID is required to read channel messages')
+      expect(mockTestConnection).not.toHaveBeenCalled()
+    })
+
+    it('should report failed authentication', async () => {
+      mockTestConnection.mockResolvedValueOnce(false)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]).toContain('Failed to authenticate with Microsoft')
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return false when credentials are missing', async () => {
+      expect(await adapter.testConnection({ ...mockConfig, metadata: {} })).toBe(false)
+    })
+  })
+})
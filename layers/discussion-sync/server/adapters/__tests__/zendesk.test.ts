@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ZendeskAdapter, ZENDESK_STATUS_TAGS } from '../zendesk'
+import type { SourceConfig } from '../base'
+import ticketCommentFixture from './fixtures/zendesk/ticket-comment.trigger.json'
+
+// Mock the ZendeskService (keep the real URL helpers)
+const mockBuildThread = vi.fn()
+const mockAddInternalNote = vi.fn()
+const mockAddTags = vi.fn()
+const mockRemoveTags = vi.fn()
+const mockTestConnection = vi.fn()
+
+vi.mock('../../services/zendesk', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/zendesk')>()
+  return {
+    ...actual,
+    ZendeskService: class MockZendeskService {
+      buildThread = mockBuildThread
+      addInternalNote = mockAddInternalNote
+      addTags = mockAddTags
+      removeTags = mockRemoveTags
+      testConnection = mockTestConnection
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedApiToken: vi.fn().mockResolvedValue('zendesk-api-token'),
+  }
+})
+
+describe('ZendeskAdapter', () => {
+  let adapter: ZendeskAdapter
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'zendesk',
+    name: 'Acme Support',
+    apiToken: 'zendesk-api-token',
+    notionToken: 'secret_notion_token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+    metadata: {
+      subdomain: 'acme',
+      email: 'discubot@acme.com',
+    },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    adapter = new ZendeskAdapter()
+  })
+
+  describe('parseIncoming', () => {
+    it('should parse ticket comment trigger payload', async () => {
+      const result = await adapter.parseIncoming(ticketCommentFixture)
+
+      expect(result).toMatchObject({
+        sourceType: 'zendesk',
+        sourceThreadId: '4521',
+        sourceUrl: 'https://acme.zendesk.com/agent/tickets/4521',
+        teamId: 'acme',
+        authorHandle: 'Sam Okafor',
+        title: 'Ticket #4521: Promo code rejected at checkout',
+        content: 'Escalating to product: codes with lowercase letters are rejected since the last release.',
+        participants: ['Jordan Reyes', 'Sam Okafor'],
+      })
+      expect(result.timestamp).toEqual(new Date('2025-11-12T16:05:20Z'))
+      expect(result.metadata).toMatchObject({
+        subdomain: 'acme',
+        ticketId: '4521',
+        priority: 'high',
+        tags: ['checkout', 'escalated', 'promo_codes'],
+        commentIsPublic: false,
+      })
+    })
+
+    it('should treat comments as public unless marked otherwise', async () => {
+      const result = await adapter.parseIncoming({
+        ...ticketCommentFixture,
+        comment: { ...ticketCommentFixture.comment, is_public: undefined },
+      })
+
+      expect(result.metadata.commentIsPublic).toBe(true)
+    })
+
+    it('should throw when the ticket URL has no Zendesk subdomain', async () => {
+      await expect(adapter.parseIncoming({
+        ...ticketCommentFixture,
+        ticket_url: 'support.acme.com/tickets/4521',
+      })).rejects.toThrow('Cannot determine subdomain')
+    })
+
+    it('should throw when ticket ID is missing', async () => {
+      await expect(adapter.parseIncoming({
+        ...ticketCommentFixture,
+        ticket_id: '',
+      })).rejects.toThrow('Missing ticket ID or comment')
+    })
+  })
+
+  describe('fetchThread', () => {
+    it('should build thread from the ticket conversation', async () => {
+      const mockThread = { id: '4521', rootMessage: { content: 'Promo code' }, replies: [], participants: [], metadata: {} }
+      mockBuildThread.mockResolvedValueOnce(mockThread)
+
+      const result = await adapter.fetchThread('4521', mockConfig)
+
+      expect(mockBuildThread).toHaveBeenCalledWith('4521')
+      expect(result).toBe(mockThread)
+    })
+
+    it('should require subdomain and agent email', async () => {
+      await expect(adapter.fetchThread('4521', { ...mockConfig, metadata: {} })).rejects.toThrow('Subdomain or agent email not found')
+    })
+  })
+
+  describe('postReply', () => {
+    it('should add an internal note', async () => {
+      const result = await adapter.postReply('4521', 'Created Notion task', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockAddInternalNote).toHaveBeenCalledWith('4521', 'Created Notion task')
+    })
+
+    it('should skip when post confirmation is disabled', async () => {
+      const result = await adapter.postReply('4521', 'Created Notion task', {
+        ...mockConfig,
+        postConfirmation: false,
+      })
+
+      expect(result).toBe(false)
+      expect(mockAddInternalNote).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateStatus', () => {
+    it('should replace previous status tags with the new one', async () => {
+      const result = await adapter.updateStatus('4521', 'completed', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockRemoveTags).toHaveBeenCalledWith('4521', [
+        ZENDESK_STATUS_TAGS.pending,
+        ZENDESK_STATUS_TAGS.processing,
+        ZENDESK_STATUS_TAGS.failed,
+      ])
+      expect(mockAddTags).toHaveBeenCalledWith('4521', ['discubot_synced'])
+    })
+
+    it('should ignore errors when removing tags', async () => {
+      mockRemoveTags.mockRejectedValueOnce(new Error('Zendesk API error: 422'))
+
+      const result = await adapter.updateStatus('4521', 'failed', mockConfig)
+
+      expect(result).toBe(true)
+      expect(mockAddTags).toHaveBeenCalledWith('4521', ['discubot_failed'])
+    })
+
+    it('should propagate errors when adding the tag fails', async () => {
+      mockAddTags.mockRejectedValueOnce(new Error('Zendesk API access denied'))
+
+      await expect(adapter.updateStatus('4521', 'processing', mockConfig)).rejects.toThrow('access denied')
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should validate complete config', async () => {
+      mockTestConnection.mockResolvedValueOnce(true)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.valid).toBe(true)
+    })
+
+    it('should require token, subdomain and agent email', async () => {
+      const result = await adapter.validateConfig({
+        ...mockConfig,
+        apiToken: undefined,
+        metadata: {},
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Zendesk API token is required')
+      expect(result.errors).toContain('Zendesk subdomain is required')
+      expect(result.errors).toContain('Zendesk agent email is required')
+    })
+
+    it('should report failed connection test', async () => {
+      mockTestConnection.mockResolvedValueOnce(false)
+
+      const result = await adapter.validateConfig(mockConfig)
+
+      expect(result.errors[0]).toContain('Failed to connect to Zendesk API')
+    })
+  })
+})
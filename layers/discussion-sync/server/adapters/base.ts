@@ -46,13 +46,27 @@ export interface DiscussionThread {
   metadata: Record<string, unknown>
 }
 
+/**
+ * A task destination with its own settings, see SourceConfig.additionalDestinations
+ */
+export interface DestinationSettings {
+  destinationType: string
+  destinationConfig?: Record<string, unknown>
+  destinationToken?: string
+}
+
 export interface SourceConfig {
   id: string
+  teamId?: string
   sourceId: string
   name: string
   apiToken?: string
-  notionToken: string
-  notionDatabaseId: string
+  destinationType?: string // Where tasks are created, defaults to 'notion'
+  destinationConfig?: Record<string, unknown> // Destination-specific settings
+  destinationToken?: string // API token of non-Notion destinations
+  additionalDestinations?: DestinationSettings[] // Get the same tasks as the main destination
+  notionToken?: string
+  notionDatabaseId?: string
   notionFieldMapping?: Record<string, unknown>
   anthropicApiKey?: string
   aiEnabled: boolean
@@ -60,10 +74,25 @@ export interface SourceConfig {
   aiTaskPrompt?: string
   autoSync: boolean
   postConfirmation: boolean
+  approvalRequired?: boolean // Pause before task creation until approved in the source
   active: boolean
   metadata?: Record<string, unknown>
 }
 
+/**
+ * Tasks detected for a discussion, awaiting human approval
+ */
+export interface ApprovalRequest {
+  jobId: string
+  destination?: string // Display name of the task destination, e.g. 'Notion'
+  summary?: string
+  tasks: Array<{
+    title: string
+    description?: string
+    priority?: string
+  }>
+}
+
 export interface ValidationResult {
   valid: boolean
   errors: string[]
@@ -114,7 +143,8 @@ export interface DiscussionSourceAdapter {
 
   /**
    * Validate source configuration
-   * This is called when a team sets up a new source config
+   * This is called when a team sets up a new source config. Only the
+   * source's settings, destinations are checked by validateDestinations
    */
   validateConfig(config: SourceConfig): Promise<ValidationResult>
 
@@ -123,6 +153,17 @@ export interface DiscussionSourceAdapter {
    * This is called to verify API credentials are valid
    */
   testConnection(config: SourceConfig): Promise<boolean>
+
+  /**
+   * Ask for approval of detected tasks before they are created (optional)
+   * This is called when the source config requires approval; sources
+   * without it create tasks right away
+   */
+  requestApproval?(
+    threadId: string,
+    request: ApprovalRequest,
+    config: SourceConfig
+  ): Promise<boolean>
 }
 
 // ============================================
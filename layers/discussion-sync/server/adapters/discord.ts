@@ -0,0 +1,378 @@
+/**
+ * Discord Adapter - Implements DiscussionSourceAdapter for Discord
+ *
+ * Handles parsing "Send to Notion" message command interactions and @mention
+ * messages (forwarded from the Gateway), fetching thread channel history,
+ * posting replies, and updating status with emoji reactions.
+ */
+
+import {
+  DiscordService,
+  buildDiscordThreadId,
+  isDiscordThreadChannel,
+  parseDiscordThreadId,
+} from '../services/discord'
+import type { DiscordChannel, DiscordMessage, DiscordUser } from '../services/discord'
+import { getDecryptedApiToken } from '../utils/encryptedConfig'
+import type {
+  DiscussionSourceAdapter,
+  ParsedDiscussion,
+  DiscussionThread,
+  DiscussionStatus,
+  SourceConfig,
+  ValidationResult,
+} from './base'
+
+/**
+ * Message context-menu command, registered once per Discord application
+ */
+export const DISCORD_SEND_TO_NOTION_COMMAND = {
+  name: 'Send to Notion',
+  type: 3, // MESSAGE
+} as const
+
+// Interaction: message context-menu command
+export interface DiscordMessageCommandInteraction {
+  type: 2 // APPLICATION_COMMAND
+  id: string
+  application_id: string
+  token: string
+  guild_id?: string
+  channel_id: string
+  channel?: DiscordChannel
+  member?: { user: DiscordUser }
+  user?: DiscordUser
+  data: {
+    type: number
+    name: string
+    target_id: string
+    resolved?: {
+      messages?: Record<string, DiscordMessage>
+    }
+  }
+}
+
+// Gateway MESSAGE_CREATE dispatch forwarded by the relay
+export interface DiscordMessageCreateEvent {
+  t: 'MESSAGE_CREATE'
+  d: DiscordMessage
+}
+
+type DiscordPayload = DiscordMessageCommandInteraction | DiscordMessageCreateEvent
+
+export class DiscordAdapter implements DiscussionSourceAdapter {
+  sourceType = 'discord' as const
+
+  /**
+   * Parse incoming message command interaction or mention message
+   */
+  async parseIncoming(payload: DiscordPayload): Promise<ParsedDiscussion> {
+    console.log('[Discord Adapter] Parsing incoming payload')
+
+    try {
+      if ('t' in payload && payload.t === 'MESSAGE_CREATE') {
+        return this.parseMention(payload.d)
+      }
+
+      if ('type' in payload && payload.type === 2 && payload.data?.type === DISCORD_SEND_TO_NOTION_COMMAND.type) {
+        return this.parseMessageCommand(payload)
+      }
+
+      throw new Error('[Discord Adapter] Unsupported payload, expected message command or MESSAGE_CREATE')
+    }
+    catch (error) {
+      console.error('[Discord Adapter] Failed to parse incoming payload:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch thread channel history from Discord API
+   */
+  async fetchThread(threadId: string, config: SourceConfig): Promise<DiscussionThread> {
+    console.log('[Discord Adapter] Fetching thread:', threadId)
+
+    try {
+      const service = await this.getService(config)
+      const thread = await service.buildThread(parseDiscordThreadId(threadId))
+
+      console.log('[Discord Adapter] Thread fetched successfully:', {
+        id: thread.id,
+        rootMessageContent: thread.rootMessage.content.substring(0, 50),
+        repliesCount: thread.replies.length,
+        participantsCount: thread.participants.length,
+      })
+
+      return thread
+    }
+    catch (error) {
+      console.error('[Discord Adapter] Failed to fetch thread:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Post a reply to the thread channel (or reply to the root message)
+   */
+  async postReply(
+    threadId: string,
+    message: string,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Discord Adapter] Posting reply to thread:', threadId)
+
+    try {
+      if (!config.postConfirmation) {
+        console.log('[Discord Adapter] Post confirmation disabled, skipping reply')
+        return false
+      }
+
+      const service = await this.getService(config)
+      const ref = parseDiscordThreadId(threadId)
+
+      const messageId = await service.createMessage(ref.channelId, message, ref.messageId)
+
+      console.log('[Discord Adapter] Reply posted successfully:', messageId)
+      return true
+    }
+    catch (error) {
+      console.error('[Discord Adapter] Failed to post reply:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update status using emoji reactions (same set as Slack)
+   */
+  async updateStatus(
+    threadId: string,
+    status: DiscussionStatus,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Discord Adapter] Updating status to:', status)
+
+    try {
+      const service = await this.getService(config)
+      const ref = parseDiscordThreadId(threadId)
+
+      // React on the triggering message; forum posts share their ID with the thread
+      const messageId = (config.metadata?.messageId as string | undefined) || ref.messageId || ref.channelId
+
+      // Unicode equivalents of :clock:, :hourglass_flowing_sand:, :white_check_mark: and :x:
+      const statusEmojis: Record<DiscussionStatus, string> = {
+        pending: '🕐',
+        processing: '⏳',
+        completed: '✅',
+        failed: '❌',
+      }
+
+      const emoji = statusEmojis[status]
+
+      if (!emoji) {
+        console.warn('[Discord Adapter] Unknown status:', status)
+        return false
+      }
+
+      // Remove previous status reactions
+      const previousEmojis = Object.values(statusEmojis).filter(e => e !== emoji)
+      for (const prevEmoji of previousEmojis) {
+        try {
+          await service.removeOwnReaction(ref.channelId, messageId, prevEmoji)
+        }
+        catch (error) {
+          // Ignore errors when removing reactions that don't exist
+          console.log('[Discord Adapter] Could not remove reaction:', prevEmoji)
+        }
+      }
+
+      await service.addReaction(ref.channelId, messageId, emoji)
+
+      console.log('[Discord Adapter] Status updated with emoji:', emoji)
+      return true
+    }
+    catch (error) {
+      console.error('[Discord Adapter] Failed to update status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Validate source configuration
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.apiToken) {
+      errors.push('Discord bot token is required')
+    }
+
+    if (!config.metadata?.guildId) {
+      errors.push('Discord server (guild) ID is required')
+    }
+
+    // Test API connection if token is provided
+    if (config.apiToken && errors.length === 0) {
+      try {
+        const service = await this.getService(config)
+        const connected = await service.testConnection()
+
+        if (!connected) {
+          errors.push('Failed to connect to Discord API - check your bot token')
+        }
+      }
+      catch (error) {
+        errors.push(`Discord API connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to Discord API
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[Discord Adapter] Testing connection')
+
+    try {
+      const service = await this.getService(config)
+      const connected = await service.testConnection()
+
+      console.log('[Discord Adapter] Connection test result:', connected)
+      return connected
+    }
+    catch (error) {
+      console.error('[Discord Adapter] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Create Discord service instance
+   */
+  private async getService(config: SourceConfig): Promise<DiscordService> {
+    const botToken = await getDecryptedApiToken(config)
+
+    if (!botToken) {
+      throw new Error('[Discord Adapter] Bot token not found in source config')
+    }
+
+    return new DiscordService(botToken)
+  }
+
+  /**
+   * "Send to Notion" on a message: a thread channel is synced as a whole,
+   * a message in a regular channel together with its replies.
+   */
+  private parseMessageCommand(interaction: DiscordMessageCommandInteraction): ParsedDiscussion {
+    const target = interaction.data.resolved?.messages?.[interaction.data.target_id]
+    const guildId = interaction.guild_id
+
+    if (!target || !guildId) {
+      throw new Error('[Discord Adapter] Missing target message or guild in interaction')
+    }
+
+    const invoker = interaction.member?.user || interaction.user
+    const inThread = isDiscordThreadChannel(interaction.channel?.type)
+    const sourceThreadId = buildDiscordThreadId({
+      channelId: interaction.channel_id,
+      messageId: inThread ? undefined : target.id,
+    })
+
+    const authorHandle = this.displayName(target.author)
+    const invokerHandle = invoker ? this.displayName(invoker) : undefined
+
+    const parsedDiscussion: ParsedDiscussion = {
+      sourceType: 'discord',
+      sourceThreadId,
+      sourceUrl: this.buildDiscordUrl(guildId, interaction.channel_id, target.id),
+      teamId: guildId, // Discord server, resolved to a team by the webhook handler
+      authorHandle,
+      title: inThread && interaction.channel?.name
+        ? `Discord thread: ${interaction.channel.name}`
+        : `Discord message from ${authorHandle}`,
+      content: target.content,
+      participants: Array.from(new Set([authorHandle, invokerHandle].filter(Boolean) as string[])),
+      timestamp: new Date(target.timestamp),
+      metadata: {
+        trigger: 'message_command',
+        guildId,
+        channelId: interaction.channel_id,
+        parentChannelId: interaction.channel?.parent_id,
+        messageId: target.id,
+        isThread: inThread,
+        triggeredBy: invoker?.id,
+        interactionId: interaction.id,
+      },
+    }
+
+    console.log('[Discord Adapter] Created parsed discussion from message command:', {
+      sourceThreadId: parsedDiscussion.sourceThreadId,
+      teamId: parsedDiscussion.teamId,
+    })
+
+    return parsedDiscussion
+  }
+
+  /**
+   * @mention inside a thread: the thread channel is the discussion
+   */
+  private parseMention(message: DiscordMessage): ParsedDiscussion {
+    if (!message.guild_id || !message.channel_id) {
+      throw new Error('[Discord Adapter] Missing guild or channel in message')
+    }
+
+    const authorHandle = this.displayName(message.author)
+
+    const parsedDiscussion: ParsedDiscussion = {
+      sourceType: 'discord',
+      sourceThreadId: buildDiscordThreadId({ channelId: message.channel_id }),
+      sourceUrl: this.buildDiscordUrl(message.guild_id, message.channel_id, message.id),
+      teamId: message.guild_id,
+      authorHandle,
+      title: `Discord message from ${authorHandle}`,
+      content: this.cleanMentionText(message.content),
+      participants: [authorHandle],
+      timestamp: new Date(message.timestamp),
+      metadata: {
+        trigger: 'mention',
+        guildId: message.guild_id,
+        channelId: message.channel_id,
+        messageId: message.id,
+        isThread: true,
+        triggeredBy: message.author.id,
+      },
+    }
+
+    console.log('[Discord Adapter] Created parsed discussion from mention:', {
+      sourceThreadId: parsedDiscussion.sourceThreadId,
+      teamId: parsedDiscussion.teamId,
+    })
+
+    return parsedDiscussion
+  }
+
+  private displayName(user: DiscordUser): string {
+    return user.global_name || user.username
+  }
+
+  private buildDiscordUrl(guildId: string, channelId: string, messageId: string): string {
+    return `https://discord.com/channels/${guildId}/${channelId}/${messageId}`
+  }
+
+  /**
+   * Remove user/role mentions like <@123> or <@!123>
+   */
+  private cleanMentionText(text: string): string {
+    return text
+      .replace(/<@[!&]?\d+>/g, '')
+      .trim()
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Email Adapter - Implements DiscussionSourceAdapter for inbound email
+ *
+ * Treats any forwarded or replied-to email conversation as a discussion:
+ * the quoted reply chain is split into messages (see emailReplyParser.ts),
+ * signatures and disclaimers are stripped, and attachments are kept.
+ *
+ * Emails arrive through a Mailgun inbound route; there is no API to fetch
+ * them again, so the thread is rebuilt from the stored discussion and
+ * replies/status updates are not supported.
+ */
+
+import { EmailReplyParser } from '../utils/emailReplyParser'
+import type { EmailAuthor } from '../utils/emailReplyParser'
+import { findSourceConfigDiscussion } from '../utils/discussionIngestion'
+import type {
+  Attachment,
+  DiscussionSourceAdapter,
+  ParsedDiscussion,
+  DiscussionThread,
+  DiscussionStatus,
+  SourceConfig,
+  ValidationResult,
+} from './base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SUBJECT_PREFIX_PATTERN = /^(?:\s*(?:re|fw|fwd|aw|wg|tr)\s*(?:\[\d+\])?\s*:\s*)+/i
+const MESSAGE_ID_PATTERN = /<[^<>\s]+>/g
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Attachment as listed by Mailgun for stored messages, or as stored by
+ * the inbound webhook handler for attachments posted inline
+ */
+export interface InboundEmailAttachment {
+  url: string
+  name?: string
+  'content-type'?: string
+  size?: number
+}
+
+/**
+ * Parsed inbound email fields posted by a Mailgun route
+ */
+export interface InboundEmailPayload {
+  recipient?: string
+  sender?: string
+  from?: string
+  From?: string
+  subject?: string
+  Subject?: string
+  'body-plain'?: string
+  'body-html'?: string
+  'Message-Id'?: string
+  'In-Reply-To'?: string
+  References?: string
+  Date?: string
+  timestamp?: string
+  attachments?: string | InboundEmailAttachment[]
+}
+
+/**
+ * A message of the reply chain as stored in the discussion metadata
+ */
+export interface StoredEmailMessage {
+  id: string
+  authorName?: string
+  authorEmail?: string
+  date: string
+  body: string
+  attachments: Attachment[]
+}
+
+// ============================================
+// EMAIL ADAPTER
+// ============================================
+
+export class EmailAdapter implements DiscussionSourceAdapter {
+  sourceType = 'email' as const
+
+  private replyParser: EmailReplyParser
+
+  constructor() {
+    this.replyParser = new EmailReplyParser()
+  }
+
+  /**
+   * Parse an inbound email into a discussion
+   */
+  async parseIncoming(payload: InboundEmailPayload): Promise<ParsedDiscussion> {
+    console.log('[Email Adapter] Parsing incoming email payload')
+
+    try {
+      // 1. Extract email fields
+      const from = payload.from || payload.From || payload.sender
+      const subject = payload.subject || payload.Subject || ''
+      const text = payload['body-plain']
+      const html = payload['body-html']
+
+      if (!from) {
+        throw new Error('[Email Adapter] No sender found in email payload')
+      }
+
+      if (!text && !html) {
+        throw new Error('[Email Adapter] No body found in email payload')
+      }
+
+      const messageIds = this.extractMessageIds(payload)
+
+      if (!messageIds.messageId) {
+        throw new Error('[Email Adapter] No Message-Id found in email payload')
+      }
+
+      // 2. Split the reply chain
+      const receivedAt = this.parseReceivedAt(payload)
+      const chain = this.replyParser.parse({ text, html, from, date: receivedAt })
+
+      if (chain.messages.length === 0) {
+        throw new Error('[Email Adapter] No message content found in email')
+      }
+
+      // 3. Attachments belong to the email itself, i.e. the newest message
+      const attachments = this.parseAttachments(payload.attachments)
+      const messages: StoredEmailMessage[] = chain.messages.map((message, index) => ({
+        id: `${messageIds.messageId}#${index + 1}`,
+        authorName: message.author.name,
+        authorEmail: message.author.email,
+        date: (message.date || receivedAt).toISOString(),
+        body: message.body,
+        attachments: index === chain.messages.length - 1 ? attachments : [],
+      }))
+
+      const rootMessage = messages[0]!
+      const participants = Array.from(new Set(chain.messages.map(message => this.toHandle(message.author))))
+
+      // 4. Build parsed discussion
+      const parsedDiscussion: ParsedDiscussion = {
+        sourceType: 'email',
+        sourceThreadId: messageIds.threadId,
+        sourceUrl: '', // Emails have no link to open them in
+        teamId: payload.recipient || '', // Inbound address, resolved to a team by the webhook handler
+        authorHandle: this.toHandle({ name: rootMessage.authorName, email: rootMessage.authorEmail }),
+        title: subject.replace(SUBJECT_PREFIX_PATTERN, '').trim() || this.excerpt(rootMessage.body),
+        content: rootMessage.body,
+        participants,
+        timestamp: new Date(rootMessage.date),
+        metadata: {
+          messageId: messageIds.messageId,
+          subject,
+          from,
+          recipient: payload.recipient,
+          parseStrategies: chain.strategies,
+          attachmentCount: attachments.length,
+          messages,
+        },
+      }
+
+      console.log('[Email Adapter] Created parsed discussion:', {
+        sourceThreadId: parsedDiscussion.sourceThreadId,
+        messagesCount: messages.length,
+        attachmentsCount: attachments.length,
+      })
+
+      return parsedDiscussion
+    }
+    catch (error) {
+      console.error('[Email Adapter] Failed to parse incoming payload:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Rebuild the thread from the stored discussion
+   */
+  async fetchThread(threadId: string, config: SourceConfig): Promise<DiscussionThread> {
+    console.log('[Email Adapter] Loading thread:', threadId)
+
+    try {
+      const discussion = await findSourceConfigDiscussion(config.id, 'email', threadId)
+
+      if (!discussion) {
+        throw new Error(`[Email Adapter] No discussion found for thread: ${threadId}`)
+      }
+
+      const { messages = [], ...metadata } = (discussion.metadata || {}) as {
+        messages?: StoredEmailMessage[]
+        [key: string]: unknown
+      }
+
+      const threadMessages = messages.map(message => ({
+        id: message.id,
+        authorHandle: this.toHandle({ name: message.authorName, email: message.authorEmail }),
+        content: message.body,
+        timestamp: new Date(message.date),
+        attachments: message.attachments,
+      }))
+
+      const [rootMessage, ...replies] = threadMessages.length > 0
+        ? threadMessages
+        : [{
+            id: threadId,
+            authorHandle: discussion.authorHandle,
+            content: discussion.content,
+            timestamp: discussion.createdAt,
+            attachments: [],
+          }]
+
+      const thread: DiscussionThread = {
+        id: threadId,
+        rootMessage: rootMessage!,
+        replies,
+        participants: (discussion.participants as string[] | null) || [discussion.authorHandle],
+        metadata: {
+          ...metadata,
+          title: discussion.title,
+        },
+      }
+
+      console.log('[Email Adapter] Thread loaded successfully:', {
+        id: thread.id,
+        repliesCount: thread.replies.length,
+      })
+
+      return thread
+    }
+    catch (error) {
+      console.error('[Email Adapter] Failed to fetch thread:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Inbound email is one-way, confirmations are not sent back by mail
+   */
+  async postReply(
+    threadId: string,
+    message: string,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Email Adapter] Replies are not supported, skipping reply for thread:', threadId)
+    return false
+  }
+
+  /**
+   * Inbound email is one-way, status is only tracked in discubot
+   */
+  async updateStatus(
+    threadId: string,
+    status: DiscussionStatus,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Email Adapter] Status indicators are not supported, skipping:', status)
+    return false
+  }
+
+  /**
+   * Validate source configuration
+   *
+   * Nothing to check: the inbound address is matched against the source
+   * config's email address or email slug by the webhook handler.
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    return {
+      valid: true,
+      errors: [],
+    }
+  }
+
+  /**
+   * There is no remote API to connect to
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[Email Adapter] Testing connection (nothing to test for inbound email)')
+    return true
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Message-Id of this email and the ID of the thread it belongs to
+   *
+   * The first entry of References is the message that started the
+   * conversation, so every reply in it maps to the same discussion.
+   */
+  private extractMessageIds(payload: InboundEmailPayload): { messageId: string, threadId: string } {
+    const normalize = (value: string) => value.replace(/[<>]/g, '').trim()
+
+    const messageId = normalize(payload['Message-Id'] || '')
+    const references = (payload.References || '').match(MESSAGE_ID_PATTERN) || []
+    const inReplyTo = (payload['In-Reply-To'] || '').match(MESSAGE_ID_PATTERN)?.[0]
+    const root = references[0] || inReplyTo
+
+    return {
+      messageId,
+      threadId: root ? normalize(root) : messageId,
+    }
+  }
+
+  private parseReceivedAt(payload: InboundEmailPayload): Date {
+    const date = payload.Date ? new Date(payload.Date) : null
+
+    if (date && !Number.isNaN(date.getTime())) {
+      return date
+    }
+
+    const timestamp = Number(payload.timestamp)
+    return Number.isFinite(timestamp) && timestamp > 0 ? new Date(timestamp * 1000) : new Date()
+  }
+
+  private parseAttachments(value: InboundEmailPayload['attachments']): Attachment[] {
+    let attachments: InboundEmailAttachment[] = []
+
+    try {
+      attachments = typeof value === 'string' ? JSON.parse(value) : value || []
+    }
+    catch (error) {
+      console.warn('[Email Adapter] Could not parse attachments field')
+    }
+
+    return attachments
+      .filter(attachment => attachment?.url)
+      .map((attachment, index) => ({
+        id: `attachment-${index + 1}`,
+        type: attachment['content-type']?.startsWith('image/') ? 'image' as const : 'file' as const,
+        url: attachment.url,
+        name: attachment.name,
+        mimeType: attachment['content-type'],
+      }))
+  }
+
+  private toHandle(author: EmailAuthor): string {
+    return author.name || author.email || 'Unknown'
+  }
+
+  private excerpt(body: string): string {
+    const firstLine = body.split('\n')[0]!.trim()
+    return firstLine.length > 80 ? `${firstLine.substring(0, 77)}...` : firstLine
+  }
+}
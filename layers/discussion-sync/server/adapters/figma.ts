@@ -1,13 +1,15 @@
 /**
  * Figma Adapter - Implements DiscussionSourceAdapter for Figma
  *
- * Handles parsing Mailgun email payloads, fetching threads from Figma API,
- * posting replies, and updating status with emoji reactions.
+ * Handles parsing Figma Webhooks V2 FILE_COMMENT events and Mailgun email
+ * payloads (fallback), fetching threads from Figma API, posting replies,
+ * and updating status with emoji reactions.
  */
 
 import { FigmaService } from '../services/figma'
 import { EmailParser } from '../utils/emailParser'
 import { getDecryptedApiToken } from '../utils/encryptedConfig'
+import { downloadPublicAttachment, storeAttachment, storeAttachments } from '../utils/attachmentStorage'
 import type {
   DiscussionSourceAdapter,
   ParsedDiscussion,
@@ -17,6 +19,22 @@ import type {
   ValidationResult,
 } from './base'
 
+// Webhooks V2 FILE_COMMENT event
+export interface FigmaFileCommentEvent {
+  event_type: 'FILE_COMMENT'
+  passcode: string
+  timestamp: string
+  webhook_id: string
+  file_key: string
+  file_name: string
+  comment_id: string
+  parent_id?: string | null
+  created_at?: string
+  comment: Array<{ text?: string, mention?: string }>
+  mentions?: Array<{ id: string, handle: string }>
+  triggered_by: { id: string, handle: string }
+}
+
 export class FigmaAdapter implements DiscussionSourceAdapter {
   sourceType = 'figma' as const
 
@@ -28,9 +46,13 @@ export class FigmaAdapter implements DiscussionSourceAdapter {
   }
 
   /**
-   * Parse incoming Mailgun email payload
+   * Parse incoming FILE_COMMENT webhook event or Mailgun email payload
    */
   async parseIncoming(payload: any): Promise<ParsedDiscussion> {
+    if (payload?.event_type === 'FILE_COMMENT') {
+      return this.parseFileCommentEvent(payload)
+    }
+
     console.log('[Figma Adapter] Parsing incoming email payload')
 
     try {
@@ -66,6 +88,10 @@ export class FigmaAdapter implements DiscussionSourceAdapter {
 
       const data = parseResult.data
 
+      if (!data.commentId) {
+        throw new Error('[Figma Adapter] No comment ID found in email')
+      }
+
       console.log('[Figma Adapter] Email parsed successfully:', {
         fileKey: data.fileKey,
         commentId: data.commentId,
@@ -81,7 +107,7 @@ export class FigmaAdapter implements DiscussionSourceAdapter {
       // 4. Build parsed discussion
       const parsedDiscussion: ParsedDiscussion = {
         sourceType: 'figma',
-        sourceThreadId: data.commentId || data.fileKey, // Use commentId if available, else fileKey
+        sourceThreadId: data.commentId,
         sourceUrl: data.figmaUrl,
         teamId: teamSlug, // Will be resolved to actual team ID by webhook handler
         authorHandle: data.authorEmail,
@@ -136,6 +162,22 @@ export class FigmaAdapter implements DiscussionSourceAdapter {
       // threadId might be a comment ID or the root comment ID
       const thread = await service.buildThread(fileKey, threadId)
 
+      // Copy linked images to blob storage, Figma's image URLs expire
+      for (const message of [thread.rootMessage, ...thread.replies]) {
+        if (message.attachments?.length) {
+          message.attachments = await storeAttachments(message.attachments, downloadPublicAttachment, {
+            logPrefix: '[Figma Adapter]',
+            fallback: attachment => ({ ...attachment, type: 'link' }),
+          })
+        }
+      }
+
+      // Comments pinned to a node get its frame and page, and a screenshot
+      const nodeId = thread.metadata.nodeId as string | undefined
+      if (nodeId) {
+        await this.addNodeContext(service, fileKey, nodeId, thread)
+      }
+
       console.log('[Figma Adapter] Thread fetched successfully:', {
         id: thread.id,
         rootMessageContent: thread.rootMessage.content.substring(0, 50),
@@ -241,15 +283,6 @@ export class FigmaAdapter implements DiscussionSourceAdapter {
       errors.push('Figma API token is required')
     }
 
-    // Check for Notion configuration (required for all adapters)
-    if (!config.notionToken) {
-      errors.push('Notion API token is required')
-    }
-
-    if (!config.notionDatabaseId) {
-      errors.push('Notion database ID is required')
-    }
-
     // Test connection if we have a token
     if (config.apiToken) {
       try {
@@ -320,6 +353,129 @@ export class FigmaAdapter implements DiscussionSourceAdapter {
     return new FigmaService(apiToken)
   }
 
+  /**
+   * Add the frame and page of the commented node to the thread metadata,
+   * and a rendered PNG of its top-level frame to the root message
+   *
+   * The pinned node is rendered when its frame isn't known, e.g. when the
+   * node context couldn't be fetched.
+   *
+   * Failures are logged, the thread is still useful without them.
+   */
+  private async addNodeContext(
+    service: FigmaService,
+    fileKey: string,
+    nodeId: string,
+    thread: DiscussionThread
+  ): Promise<void> {
+    let frameName: string | undefined
+    let renderNodeId = nodeId
+
+    try {
+      const context = await service.getNodeContext(fileKey, nodeId)
+
+      if (context) {
+        frameName = context.frameName || context.nodeName
+        renderNodeId = context.frameId || nodeId
+        Object.assign(thread.metadata, {
+          nodeName: context.nodeName,
+          frameName: context.frameName,
+          pageName: context.pageName,
+        })
+      }
+    }
+    catch (error) {
+      console.warn('[Figma Adapter] Could not fetch node context:', nodeId, error)
+    }
+
+    try {
+      const imageUrl = await service.getNodeImageUrl(fileKey, renderNodeId)
+
+      if (!imageUrl) {
+        console.log('[Figma Adapter] Node could not be rendered:', renderNodeId)
+        return
+      }
+
+      // Rendered image URLs expire, keep a copy
+      const screenshot = await storeAttachment({
+        id: `node-${renderNodeId}`,
+        type: 'image',
+        url: imageUrl,
+        name: `${frameName || 'Frame'}.png`,
+        mimeType: 'image/png',
+      }, downloadPublicAttachment)
+
+      thread.rootMessage.attachments = [screenshot, ...(thread.rootMessage.attachments || [])]
+    }
+    catch (error) {
+      console.warn('[Figma Adapter] Could not store node screenshot:', renderNodeId, error)
+    }
+  }
+
+  /**
+   * Parse a FILE_COMMENT webhook event; replies are grouped under their
+   * root comment so every comment in a thread maps to the same discussion.
+   */
+  private parseFileCommentEvent(event: FigmaFileCommentEvent): ParsedDiscussion {
+    console.log('[Figma Adapter] Parsing FILE_COMMENT event')
+
+    if (!event.file_key || !event.comment_id) {
+      throw new Error('[Figma Adapter] Missing file key or comment ID in FILE_COMMENT event')
+    }
+
+    const rootCommentId = event.parent_id || event.comment_id
+    const authorHandle = event.triggered_by?.handle || 'Unknown'
+    const mentions = event.mentions || []
+
+    const parsedDiscussion: ParsedDiscussion = {
+      sourceType: 'figma',
+      sourceThreadId: rootCommentId,
+      sourceUrl: `https://www.figma.com/file/${event.file_key}#${rootCommentId}`,
+      teamId: event.webhook_id, // Figma webhook, resolved to a team by the webhook handler
+      authorHandle,
+      title: `Comment on ${event.file_name}`,
+      content: this.commentFragmentsToText(event.comment, mentions),
+      participants: [authorHandle],
+      timestamp: new Date(event.created_at || event.timestamp),
+      metadata: {
+        trigger: 'webhook',
+        fileKey: event.file_key,
+        fileName: event.file_name,
+        commentId: event.comment_id,
+        parentId: event.parent_id || undefined,
+        mentions,
+        triggeredBy: event.triggered_by?.id,
+        webhookId: event.webhook_id,
+      },
+    }
+
+    console.log('[Figma Adapter] Created parsed discussion from webhook:', {
+      sourceThreadId: parsedDiscussion.sourceThreadId,
+      fileKey: event.file_key,
+    })
+
+    return parsedDiscussion
+  }
+
+  /**
+   * Join comment fragments, rendering mentions as @handle
+   */
+  private commentFragmentsToText(
+    fragments: FigmaFileCommentEvent['comment'],
+    mentions: Array<{ id: string, handle: string }>
+  ): string {
+    return (fragments || [])
+      .map((fragment) => {
+        if (fragment.mention) {
+          const user = mentions.find(m => m.id === fragment.mention)
+          return `@${user?.handle || fragment.mention}`
+        }
+        return fragment.text || ''
+      })
+      .join('')
+      .trim()
+  }
+
   /**
    * Extract team slug from recipient email
    * Format: team-slug@comments.domain.com → team-slug
@@ -0,0 +1,194 @@
+/**
+ * Generic Webhook Adapter - Implements DiscussionSourceAdapter for arbitrary JSON webhooks
+ *
+ * Lets internal tools and form builders send discussions without a dedicated
+ * adapter: payloads are mapped onto discussion fields with the path
+ * expressions stored in the source config's metadata (see webhookMapping.ts).
+ *
+ * There is no remote API behind a generic webhook, so the thread is rebuilt
+ * from the stored discussion and replies/status updates are not supported.
+ */
+
+import { applyWebhookMapping, validateWebhookMapping } from '../utils/webhookMapping'
+import type { MappedWebhookReply } from '../utils/webhookMapping'
+import { findSourceConfigDiscussion } from '../utils/discussionIngestion'
+import type {
+  DiscussionSourceAdapter,
+  ParsedDiscussion,
+  DiscussionThread,
+  DiscussionStatus,
+  SourceConfig,
+  ValidationResult,
+} from './base'
+
+/**
+ * What the webhook handler passes to parseIncoming: the mapping lives on
+ * the source config, which the adapter cannot look up on its own.
+ */
+export interface GenericWebhookEnvelope {
+  sourceConfigId: string
+  mapping: unknown
+  payload: unknown
+}
+
+export class GenericWebhookAdapter implements DiscussionSourceAdapter {
+  sourceType = 'generic-webhook' as const
+
+  /**
+   * Parse incoming payload using the source config's field mapping
+   */
+  async parseIncoming(envelope: GenericWebhookEnvelope): Promise<ParsedDiscussion> {
+    console.log('[Generic Webhook Adapter] Parsing incoming payload')
+
+    try {
+      if (!envelope?.sourceConfigId) {
+        throw new Error('[Generic Webhook Adapter] Missing source config ID')
+      }
+
+      const { mapped, errors } = applyWebhookMapping(envelope.payload, envelope.mapping)
+
+      if (!mapped) {
+        throw new Error(`[Generic Webhook Adapter] Payload does not match field mapping: ${errors.join('; ')}`)
+      }
+
+      const parsedDiscussion: ParsedDiscussion = {
+        sourceType: 'generic-webhook',
+        sourceThreadId: mapped.sourceThreadId,
+        sourceUrl: mapped.sourceUrl,
+        teamId: envelope.sourceConfigId, // Source config, resolved to a team by the webhook handler
+        authorHandle: mapped.authorHandle,
+        title: mapped.title,
+        content: mapped.content,
+        participants: mapped.participants,
+        timestamp: mapped.timestamp,
+        metadata: {
+          ...mapped.metadata,
+          sourceConfigId: envelope.sourceConfigId,
+          postedAt: mapped.timestamp.toISOString(),
+          replies: mapped.replies,
+        },
+      }
+
+      console.log('[Generic Webhook Adapter] Created parsed discussion:', {
+        sourceThreadId: parsedDiscussion.sourceThreadId,
+        repliesCount: mapped.replies.length,
+      })
+
+      return parsedDiscussion
+    }
+    catch (error) {
+      console.error('[Generic Webhook Adapter] Failed to parse incoming payload:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Rebuild the thread from the stored discussion
+   */
+  async fetchThread(threadId: string, config: SourceConfig): Promise<DiscussionThread> {
+    console.log('[Generic Webhook Adapter] Loading thread:', threadId)
+
+    try {
+      const discussion = await findSourceConfigDiscussion(config.id, 'generic-webhook', threadId)
+
+      if (!discussion) {
+        throw new Error(`[Generic Webhook Adapter] No discussion found for thread: ${threadId}`)
+      }
+
+      const { replies = [], postedAt, ...metadata } = (discussion.metadata || {}) as {
+        replies?: MappedWebhookReply[]
+        postedAt?: string
+        [key: string]: unknown
+      }
+
+      const thread: DiscussionThread = {
+        id: threadId,
+        rootMessage: {
+          id: threadId,
+          authorHandle: discussion.authorHandle,
+          content: discussion.content,
+          timestamp: postedAt ? new Date(postedAt) : discussion.createdAt,
+        },
+        replies: replies.map(reply => ({
+          id: reply.id,
+          authorHandle: reply.authorHandle,
+          content: reply.content,
+          timestamp: new Date(reply.timestamp),
+        })),
+        participants: (discussion.participants as string[] | null) || [discussion.authorHandle],
+        metadata: {
+          ...metadata,
+          title: discussion.title,
+          sourceUrl: discussion.sourceUrl,
+        },
+      }
+
+      console.log('[Generic Webhook Adapter] Thread loaded successfully:', {
+        id: thread.id,
+        repliesCount: thread.replies.length,
+      })
+
+      return thread
+    }
+    catch (error) {
+      console.error('[Generic Webhook Adapter] Failed to fetch thread:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Generic webhooks are one-way, there is nowhere to reply to
+   */
+  async postReply(
+    threadId: string,
+    message: string,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Generic Webhook Adapter] Replies are not supported, skipping reply for thread:', threadId)
+    return false
+  }
+
+  /**
+   * Generic webhooks are one-way, status is only tracked in discubot
+   */
+  async updateStatus(
+    threadId: string,
+    status: DiscussionStatus,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Generic Webhook Adapter] Status indicators are not supported, skipping:', status)
+    return false
+  }
+
+  /**
+   * Validate source configuration
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.metadata?.mapping) {
+      errors.push('Field mapping is required')
+    }
+    else {
+      errors.push(...validateWebhookMapping(config.metadata.mapping))
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * There is no remote API; the connection is healthy when the mapping is usable
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[Generic Webhook Adapter] Testing connection')
+
+    const errors = validateWebhookMapping(config.metadata?.mapping)
+    const connected = errors.length === 0
+
+    console.log('[Generic Webhook Adapter] Connection test result:', connected)
+    return connected
+  }
+}
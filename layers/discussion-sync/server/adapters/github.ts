@@ -0,0 +1,353 @@
+/**
+ * GitHub Adapter - Implements DiscussionSourceAdapter for GitHub
+ *
+ * Handles parsing issue_comment and pull_request_review_comment webhook payloads,
+ * fetching issue/PR conversations, posting replies, and updating status with reactions.
+ */
+
+import {
+  GitHubService,
+  buildGitHubThreadId,
+  parseGitHubThreadId,
+} from '../services/github'
+import type { GitHubReactionContent, GitHubReactionTarget } from '../services/github'
+import { getDecryptedApiToken } from '../utils/encryptedConfig'
+import type {
+  DiscussionSourceAdapter,
+  ParsedDiscussion,
+  DiscussionThread,
+  DiscussionStatus,
+  SourceConfig,
+  ValidationResult,
+} from './base'
+
+// GitHub webhook payload (fields we use)
+interface GitHubWebhookUser {
+  login: string
+  type: string
+}
+
+interface GitHubWebhookComment {
+  id: number
+  body: string
+  html_url: string
+  user: GitHubWebhookUser
+  created_at: string
+  in_reply_to_id?: number
+  path?: string
+}
+
+interface GitHubWebhookPayload {
+  action: string
+  comment?: GitHubWebhookComment
+  issue?: {
+    number: number
+    title: string
+    html_url: string
+    pull_request?: unknown
+  }
+  pull_request?: {
+    number: number
+    title: string
+    html_url: string
+  }
+  repository: {
+    name: string
+    full_name: string
+    owner: { login: string }
+  }
+  installation?: { id: number }
+  sender?: GitHubWebhookUser
+}
+
+export class GitHubAdapter implements DiscussionSourceAdapter {
+  sourceType = 'github' as const
+
+  /**
+   * Parse incoming GitHub webhook payload
+   */
+  async parseIncoming(payload: GitHubWebhookPayload): Promise<ParsedDiscussion> {
+    console.log('[GitHub Adapter] Parsing incoming webhook payload')
+
+    try {
+      // 1. Validate payload structure
+      const comment = payload.comment
+
+      if (!comment || !payload.repository) {
+        throw new Error('[GitHub Adapter] Missing comment or repository in payload')
+      }
+
+      const isReviewComment = !!payload.pull_request
+      const target = payload.pull_request || payload.issue
+
+      if (!target) {
+        throw new Error(
+          '[GitHub Adapter] Unsupported payload, expected issue_comment or pull_request_review_comment',
+        )
+      }
+
+      const owner = payload.repository.owner.login
+      const repo = payload.repository.name
+      const isPullRequest = isReviewComment || !!payload.issue?.pull_request
+
+      console.log('[GitHub Adapter] Comment metadata:', {
+        repository: payload.repository.full_name,
+        number: target.number,
+        commentId: comment.id,
+        isReviewComment,
+        user: comment.user.login,
+      })
+
+      // 2. Determine thread ID
+      // Review comments form their own thread rooted at the first comment on the diff line
+      const sourceThreadId = buildGitHubThreadId({
+        owner,
+        repo,
+        number: target.number,
+        reviewCommentId: isReviewComment ? (comment.in_reply_to_id || comment.id) : undefined,
+      })
+
+      // 3. Build parsed discussion
+      const kind = isPullRequest ? 'PR' : 'Issue'
+
+      const parsedDiscussion: ParsedDiscussion = {
+        sourceType: 'github',
+        sourceThreadId,
+        sourceUrl: comment.html_url,
+        teamId: owner, // GitHub account/org, resolved to a team by the webhook handler
+        authorHandle: comment.user.login,
+        title: `${kind} #${target.number}: ${target.title}`,
+        content: comment.body,
+        participants: [comment.user.login],
+        timestamp: new Date(comment.created_at),
+        metadata: {
+          owner,
+          repo,
+          repositoryFullName: payload.repository.full_name,
+          number: target.number,
+          isPullRequest,
+          commentId: comment.id,
+          commentType: isReviewComment ? 'review_comment' : 'issue_comment',
+          path: comment.path,
+          installationId: payload.installation?.id,
+          action: payload.action,
+        },
+      }
+
+      console.log('[GitHub Adapter] Created parsed discussion:', {
+        sourceThreadId: parsedDiscussion.sourceThreadId,
+        teamId: parsedDiscussion.teamId,
+        title: parsedDiscussion.title,
+      })
+
+      return parsedDiscussion
+    }
+    catch (error) {
+      console.error('[GitHub Adapter] Failed to parse incoming payload:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch full issue/PR conversation from GitHub API
+   */
+  async fetchThread(threadId: string, config: SourceConfig): Promise<DiscussionThread> {
+    console.log('[GitHub Adapter] Fetching thread:', threadId)
+
+    try {
+      const service = await this.getService(config)
+      const thread = await service.buildThread(parseGitHubThreadId(threadId))
+
+      console.log('[GitHub Adapter] Thread fetched successfully:', {
+        id: thread.id,
+        rootMessageContent: thread.rootMessage.content.substring(0, 50),
+        repliesCount: thread.replies.length,
+        participantsCount: thread.participants.length,
+      })
+
+      return thread
+    }
+    catch (error) {
+      console.error('[GitHub Adapter] Failed to fetch thread:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Post a reply to the issue timeline or review thread
+   */
+  async postReply(
+    threadId: string,
+    message: string,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[GitHub Adapter] Posting reply to thread:', threadId)
+
+    try {
+      if (!config.postConfirmation) {
+        console.log('[GitHub Adapter] Post confirmation disabled, skipping reply')
+        return false
+      }
+
+      const service = await this.getService(config)
+      const ref = parseGitHubThreadId(threadId)
+
+      const commentId = ref.reviewCommentId
+        ? await service.replyToReviewComment(ref.owner, ref.repo, ref.number, ref.reviewCommentId, message)
+        : await service.createIssueComment(ref.owner, ref.repo, ref.number, message)
+
+      console.log('[GitHub Adapter] Reply posted successfully:', commentId)
+      return true
+    }
+    catch (error) {
+      console.error('[GitHub Adapter] Failed to post reply:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update status using reactions on the triggering comment
+   */
+  async updateStatus(
+    threadId: string,
+    status: DiscussionStatus,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[GitHub Adapter] Updating status to:', status)
+
+    try {
+      const service = await this.getService(config)
+      const target = this.getReactionTarget(threadId, config)
+
+      // GitHub only supports a fixed set of reactions
+      const statusReactions: Record<DiscussionStatus, GitHubReactionContent> = {
+        pending: 'eyes',
+        processing: 'eyes',
+        completed: 'rocket',
+        failed: 'confused',
+      }
+
+      const reaction = statusReactions[status]
+
+      if (!reaction) {
+        console.warn('[GitHub Adapter] Unknown status:', status)
+        return false
+      }
+
+      // Remove previous status reactions
+      const previousReactions = [...new Set(Object.values(statusReactions))].filter(r => r !== reaction)
+      for (const previous of previousReactions) {
+        try {
+          await service.removeOwnReactions(target, previous)
+        }
+        catch (error) {
+          console.log('[GitHub Adapter] Could not remove reaction:', previous, error)
+        }
+      }
+
+      await service.addReaction(target, reaction)
+
+      console.log('[GitHub Adapter] Status updated with reaction:', reaction)
+      return true
+    }
+    catch (error) {
+      console.error('[GitHub Adapter] Failed to update status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Validate source configuration
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.apiToken) {
+      errors.push('GitHub API token is required')
+    }
+
+    const repository = config.metadata?.repository as string | undefined
+    if (repository && !/^[^/\s]+\/[^/\s]+$/.test(repository)) {
+      errors.push('Repository must be in owner/name format')
+    }
+
+    // Test API connection if token is provided
+    if (config.apiToken && errors.length === 0) {
+      try {
+        const service = await this.getService(config)
+        const connected = await service.testConnection()
+
+        if (!connected) {
+          errors.push('Failed to connect to GitHub API - check your token')
+        }
+      }
+      catch (error) {
+        errors.push(`GitHub API connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to GitHub API
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[GitHub Adapter] Testing connection')
+
+    try {
+      const service = await this.getService(config)
+      const connected = await service.testConnection()
+
+      console.log('[GitHub Adapter] Connection test result:', connected)
+      return connected
+    }
+    catch (error) {
+      console.error('[GitHub Adapter] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Create GitHub service instance
+   */
+  private async getService(config: SourceConfig): Promise<GitHubService> {
+    const apiToken = await getDecryptedApiToken(config)
+
+    if (!apiToken) {
+      throw new Error('[GitHub Adapter] API token not found in source config')
+    }
+
+    return new GitHubService(apiToken)
+  }
+
+  /**
+   * React on the comment that triggered the discussion, or on the issue itself
+   */
+  private getReactionTarget(threadId: string, config: SourceConfig): GitHubReactionTarget {
+    const ref = parseGitHubThreadId(threadId)
+    const commentId = config.metadata?.commentId as number | undefined
+    const commentType = config.metadata?.commentType as string | undefined
+
+    if (commentId && commentType === 'review_comment') {
+      return { kind: 'review_comment', owner: ref.owner, repo: ref.repo, commentId }
+    }
+
+    if (commentId) {
+      return { kind: 'issue_comment', owner: ref.owner, repo: ref.repo, commentId }
+    }
+
+    if (ref.reviewCommentId) {
+      return { kind: 'review_comment', owner: ref.owner, repo: ref.repo, commentId: ref.reviewCommentId }
+    }
+
+    return { kind: 'issue', owner: ref.owner, repo: ref.repo, number: ref.number }
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Linear Adapter - Implements DiscussionSourceAdapter for Linear
+ *
+ * Handles parsing Comment webhook payloads, fetching comment threads via the
+ * GraphQL API, posting replies, and updating status with reactions.
+ */
+
+import { LinearService } from '../services/linear'
+import { getDecryptedApiToken } from '../utils/encryptedConfig'
+import type {
+  DiscussionSourceAdapter,
+  ParsedDiscussion,
+  DiscussionThread,
+  DiscussionStatus,
+  SourceConfig,
+  ValidationResult,
+} from './base'
+
+// Linear webhook payload (fields we use)
+interface LinearWebhookComment {
+  id: string
+  body: string
+  createdAt: string
+  issueId: string
+  parentId?: string | null
+  userId?: string | null
+  user?: {
+    id: string
+    name: string
+    email?: string
+  } | null
+  botActor?: { name: string } | null
+  issue?: {
+    id: string
+    title: string
+    identifier?: string
+    teamId?: string
+    url?: string
+  }
+}
+
+interface LinearWebhookPayload {
+  action: 'create' | 'update' | 'remove'
+  type: string
+  data?: LinearWebhookComment
+  actor?: {
+    id: string
+    name: string
+    type?: string
+  }
+  url?: string
+  organizationId: string
+  webhookId?: string
+  webhookTimestamp?: number
+  createdAt?: string
+}
+
+export class LinearAdapter implements DiscussionSourceAdapter {
+  sourceType = 'linear' as const
+
+  /**
+   * Parse incoming Linear Comment webhook payload
+   */
+  async parseIncoming(payload: LinearWebhookPayload): Promise<ParsedDiscussion> {
+    console.log('[Linear Adapter] Parsing incoming webhook payload')
+
+    try {
+      // 1. Validate payload structure
+      if (payload.type !== 'Comment') {
+        throw new Error(`[Linear Adapter] Unsupported payload type: ${payload.type}, expected Comment`)
+      }
+
+      const comment = payload.data
+
+      if (!comment || !comment.issueId) {
+        throw new Error('[Linear Adapter] Missing comment data or issue in payload')
+      }
+
+      console.log('[Linear Adapter] Comment metadata:', {
+        organizationId: payload.organizationId,
+        issueId: comment.issueId,
+        commentId: comment.id,
+        parentId: comment.parentId,
+      })
+
+      // 2. Determine thread ID
+      // Linear threads are one level deep: replies point at the root comment
+      const sourceThreadId = comment.parentId || comment.id
+
+      // 3. Build parsed discussion
+      const authorHandle = comment.user?.name || payload.actor?.name || comment.userId || 'unknown'
+      const issueTitle = comment.issue?.title || 'Linear issue'
+      const title = comment.issue?.identifier
+        ? `${comment.issue.identifier}: ${issueTitle}`
+        : issueTitle
+
+      const parsedDiscussion: ParsedDiscussion = {
+        sourceType: 'linear',
+        sourceThreadId,
+        sourceUrl: payload.url || comment.issue?.url || '',
+        teamId: payload.organizationId, // Linear workspace, resolved to a team by the webhook handler
+        authorHandle,
+        title,
+        content: comment.body,
+        participants: [authorHandle],
+        timestamp: new Date(comment.createdAt),
+        metadata: {
+          organizationId: payload.organizationId,
+          issueId: comment.issueId,
+          issueIdentifier: comment.issue?.identifier,
+          linearTeamId: comment.issue?.teamId,
+          commentId: comment.id,
+          parentId: comment.parentId,
+          userId: comment.userId,
+          webhookId: payload.webhookId,
+          action: payload.action,
+        },
+      }
+
+      console.log('[Linear Adapter] Created parsed discussion:', {
+        sourceThreadId: parsedDiscussion.sourceThreadId,
+        teamId: parsedDiscussion.teamId,
+        title: parsedDiscussion.title,
+      })
+
+      return parsedDiscussion
+    }
+    catch (error) {
+      console.error('[Linear Adapter] Failed to parse incoming payload:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch full comment thread from Linear GraphQL API
+   */
+  async fetchThread(threadId: string, config: SourceConfig): Promise<DiscussionThread> {
+    console.log('[Linear Adapter] Fetching thread:', threadId)
+
+    try {
+      const service = await this.getService(config)
+      const thread = await service.buildThread(threadId)
+
+      console.log('[Linear Adapter] Thread fetched successfully:', {
+        id: thread.id,
+        rootMessageContent: thread.rootMessage.content.substring(0, 50),
+        repliesCount: thread.replies.length,
+        participantsCount: thread.participants.length,
+      })
+
+      return thread
+    }
+    catch (error) {
+      console.error('[Linear Adapter] Failed to fetch thread:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Post a reply to a Linear comment thread
+   */
+  async postReply(
+    threadId: string,
+    message: string,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Linear Adapter] Posting reply to thread:', threadId)
+
+    try {
+      if (!config.postConfirmation) {
+        console.log('[Linear Adapter] Post confirmation disabled, skipping reply')
+        return false
+      }
+
+      const service = await this.getService(config)
+
+      // Replies must be created on the issue the thread belongs to
+      const issueId = (config.metadata?.issueId as string | undefined)
+        || (await service.getCommentIssue(threadId)).id
+
+      const commentId = await service.createComment(issueId, message, threadId)
+
+      console.log('[Linear Adapter] Reply posted successfully:', commentId)
+      return true
+    }
+    catch (error) {
+      console.error('[Linear Adapter] Failed to post reply:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update status using reactions on the triggering comment
+   */
+  async updateStatus(
+    threadId: string,
+    status: DiscussionStatus,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Linear Adapter] Updating status to:', status)
+
+    try {
+      const service = await this.getService(config)
+      const commentId = (config.metadata?.commentId as string | undefined) || threadId
+
+      const statusEmojis: Record<DiscussionStatus, string> = {
+        pending: '👀',
+        processing: '⏳',
+        completed: '✅',
+        failed: '❌',
+      }
+
+      const emoji = statusEmojis[status]
+
+      if (!emoji) {
+        console.warn('[Linear Adapter] Unknown status:', status)
+        return false
+      }
+
+      // Remove previous status reactions
+      for (const previous of Object.values(statusEmojis).filter(e => e !== emoji)) {
+        try {
+          await service.removeOwnReaction(commentId, previous)
+        }
+        catch (error) {
+          console.log('[Linear Adapter] Could not remove reaction:', previous)
+        }
+      }
+
+      await service.addReaction(commentId, emoji)
+
+      console.log('[Linear Adapter] Status updated with reaction:', emoji)
+      return true
+    }
+    catch (error) {
+      console.error('[Linear Adapter] Failed to update status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Validate source configuration
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.apiToken) {
+      errors.push('Linear API key is required')
+    }
+
+    // Test API connection if key is provided
+    if (config.apiToken && errors.length === 0) {
+      try {
+        const service = await this.getService(config)
+        const connected = await service.testConnection()
+
+        if (!connected) {
+          errors.push('Failed to connect to Linear API - check your API key')
+        }
+      }
+      catch (error) {
+        errors.push(`Linear API connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to Linear API
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[Linear Adapter] Testing connection')
+
+    try {
+      const service = await this.getService(config)
+      const connected = await service.testConnection()
+
+      console.log('[Linear Adapter] Connection test result:', connected)
+      return connected
+    }
+    catch (error) {
+      console.error('[Linear Adapter] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Create Linear service instance
+   */
+  private async getService(config: SourceConfig): Promise<LinearService> {
+    const apiKey = await getDecryptedApiToken(config)
+
+    if (!apiKey) {
+      throw new Error('[Linear Adapter] API key not found in source config')
+    }
+
+    return new LinearService(apiKey)
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Mattermost Adapter - Implements DiscussionSourceAdapter for Mattermost
+ *
+ * Handles parsing outgoing webhook payloads and bot @mention events
+ * (forwarded from the WebSocket API), fetching post threads, posting
+ * replies, and updating status with emoji reactions as the bot account.
+ */
+
+import { MattermostService, buildMattermostPermalink } from '../services/mattermost'
+import type { MattermostPost } from '../services/mattermost'
+import { getDecryptedApiToken } from '../utils/encryptedConfig'
+import type {
+  DiscussionSourceAdapter,
+  ParsedDiscussion,
+  DiscussionThread,
+  DiscussionStatus,
+  SourceConfig,
+  ValidationResult,
+} from './base'
+
+// Outgoing webhook request (JSON or form encoded)
+export interface MattermostOutgoingWebhookPayload {
+  token: string
+  team_id: string
+  team_domain: string
+  channel_id: string
+  channel_name: string
+  timestamp: number | string
+  user_id: string
+  user_name: string
+  post_id: string
+  text: string
+  trigger_word: string
+  file_ids?: string
+  // Added by the webhook handler: outgoing webhooks carry neither
+  server_url?: string
+  root_id?: string
+}
+
+// WebSocket "posted" event forwarded by a relay, which adds the token
+export interface MattermostPostedEvent {
+  token: string
+  event: 'posted'
+  data: {
+    post: string // JSON-encoded MattermostPost
+    channel_name?: string
+    channel_type?: string
+    sender_name: string
+    team_id?: string
+    mentions?: string // JSON-encoded array of user IDs
+  }
+  // Added by the webhook handler
+  server_url?: string
+}
+
+export type MattermostPayload = MattermostOutgoingWebhookPayload | MattermostPostedEvent
+
+/**
+ * Whether a payload is a forwarded WebSocket event rather than an outgoing webhook
+ */
+export function isMattermostPostedEvent(payload: MattermostPayload): payload is MattermostPostedEvent {
+  return 'event' in payload && payload.event === 'posted'
+}
+
+export class MattermostAdapter implements DiscussionSourceAdapter {
+  sourceType = 'mattermost' as const
+
+  /**
+   * Parse incoming outgoing webhook payload or forwarded mention event
+   */
+  async parseIncoming(payload: MattermostPayload): Promise<ParsedDiscussion> {
+    console.log('[Mattermost Adapter] Parsing incoming payload')
+
+    try {
+      if (!payload.server_url) {
+        throw new Error('[Mattermost Adapter] Missing server URL in payload')
+      }
+
+      if (isMattermostPostedEvent(payload)) {
+        return this.parsePostedEvent(payload, payload.server_url)
+      }
+
+      if ('post_id' in payload && payload.post_id) {
+        return this.parseOutgoingWebhook(payload, payload.server_url)
+      }
+
+      throw new Error('[Mattermost Adapter] Unsupported payload, expected outgoing webhook or posted event')
+    }
+    catch (error) {
+      console.error('[Mattermost Adapter] Failed to parse incoming payload:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch post thread from Mattermost API
+   */
+  async fetchThread(threadId: string, config: SourceConfig): Promise<DiscussionThread> {
+    console.log('[Mattermost Adapter] Fetching thread:', threadId)
+
+    try {
+      const service = await this.getService(config)
+      const thread = await service.buildThread(threadId)
+
+      console.log('[Mattermost Adapter] Thread fetched successfully:', {
+        id: thread.id,
+        rootMessageContent: thread.rootMessage.content.substring(0, 50),
+        repliesCount: thread.replies.length,
+        participantsCount: thread.participants.length,
+      })
+
+      return thread
+    }
+    catch (error) {
+      console.error('[Mattermost Adapter] Failed to fetch thread:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Post a reply in the thread as the bot account
+   */
+  async postReply(
+    threadId: string,
+    message: string,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Mattermost Adapter] Posting reply to thread:', threadId)
+
+    try {
+      if (!config.postConfirmation) {
+        console.log('[Mattermost Adapter] Post confirmation disabled, skipping reply')
+        return false
+      }
+
+      const service = await this.getService(config)
+      const root = await service.getPost(threadId)
+
+      const postId = await service.createPost(root.channel_id, message, root.root_id || root.id)
+
+      console.log('[Mattermost Adapter] Reply posted successfully:', postId)
+      return true
+    }
+    catch (error) {
+      console.error('[Mattermost Adapter] Failed to post reply:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update status using emoji reactions (same set as Slack)
+   */
+  async updateStatus(
+    threadId: string,
+    status: DiscussionStatus,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Mattermost Adapter] Updating status to:', status)
+
+    try {
+      const service = await this.getService(config)
+
+      // React on the triggering post, falling back to the root post
+      const postId = (config.metadata?.postId as string | undefined) || threadId
+
+      const statusEmojis: Record<DiscussionStatus, string> = {
+        pending: 'clock1',
+        processing: 'hourglass_flowing_sand',
+        completed: 'white_check_mark',
+        failed: 'x',
+      }
+
+      const emoji = statusEmojis[status]
+
+      if (!emoji) {
+        console.warn('[Mattermost Adapter] Unknown status:', status)
+        return false
+      }
+
+      // Remove previous status reactions
+      const previousEmojis = Object.values(statusEmojis).filter(e => e !== emoji)
+      for (const prevEmoji of previousEmojis) {
+        try {
+          await service.removeReaction(postId, prevEmoji)
+        }
+        catch (error) {
+          // Ignore errors when removing reactions that don't exist
+          console.log('[Mattermost Adapter] Could not remove reaction:', prevEmoji)
+        }
+      }
+
+      await service.addReaction(postId, emoji)
+
+      console.log('[Mattermost Adapter] Status updated with emoji:', emoji)
+      return true
+    }
+    catch (error) {
+      console.error('[Mattermost Adapter] Failed to update status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Validate source configuration
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.apiToken) {
+      errors.push('Mattermost bot access token is required')
+    }
+
+    if (!config.metadata?.serverUrl) {
+      errors.push('Mattermost server URL is required')
+    }
+
+    // Test API connection if token is provided
+    if (config.apiToken && errors.length === 0) {
+      try {
+        const service = await this.getService(config)
+        const connected = await service.testConnection()
+
+        if (!connected) {
+          errors.push('Failed to connect to Mattermost API - check your server URL and bot token')
+        }
+      }
+      catch (error) {
+        errors.push(`Mattermost API connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to Mattermost API
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[Mattermost Adapter] Testing connection')
+
+    try {
+      const service = await this.getService(config)
+      const connected = await service.testConnection()
+
+      console.log('[Mattermost Adapter] Connection test result:', connected)
+      return connected
+    }
+    catch (error) {
+      console.error('[Mattermost Adapter] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Create Mattermost service instance
+   */
+  private async getService(config: SourceConfig): Promise<MattermostService> {
+    const token = await getDecryptedApiToken(config)
+    const serverUrl = config.metadata?.serverUrl as string | undefined
+
+    if (!token) {
+      throw new Error('[Mattermost Adapter] Bot access token not found in source config')
+    }
+
+    if (!serverUrl) {
+      throw new Error('[Mattermost Adapter] Server URL not found in source config')
+    }
+
+    return new MattermostService({ serverUrl, token })
+  }
+
+  /**
+   * Outgoing webhook fired by a trigger word such as "@discubot"
+   */
+  private parseOutgoingWebhook(payload: MattermostOutgoingWebhookPayload, serverUrl: string): ParsedDiscussion {
+    const sourceThreadId = payload.root_id || payload.post_id
+
+    const parsedDiscussion: ParsedDiscussion = {
+      sourceType: 'mattermost',
+      sourceThreadId,
+      sourceUrl: buildMattermostPermalink(serverUrl, payload.post_id, payload.team_domain),
+      teamId: payload.team_id, // Mattermost team, resolved to a team by the webhook handler
+      authorHandle: payload.user_name,
+      title: `Mattermost message from ${payload.user_name} in ~${payload.channel_name}`,
+      content: this.stripTriggerWord(payload.text, payload.trigger_word),
+      participants: [payload.user_name],
+      timestamp: new Date(Number(payload.timestamp)),
+      metadata: {
+        trigger: 'outgoing_webhook',
+        serverUrl,
+        mattermostTeamId: payload.team_id,
+        channelId: payload.channel_id,
+        channelName: payload.channel_name,
+        postId: payload.post_id,
+        rootId: payload.root_id || undefined,
+        userId: payload.user_id,
+        triggerWord: payload.trigger_word,
+      },
+    }
+
+    console.log('[Mattermost Adapter] Created parsed discussion from outgoing webhook:', {
+      sourceThreadId: parsedDiscussion.sourceThreadId,
+      teamId: parsedDiscussion.teamId,
+    })
+
+    return parsedDiscussion
+  }
+
+  /**
+   * Bot @mention received over the WebSocket API
+   */
+  private parsePostedEvent(event: MattermostPostedEvent, serverUrl: string): ParsedDiscussion {
+    const post = JSON.parse(event.data.post) as MattermostPost
+    const authorHandle = event.data.sender_name.replace(/^@/, '')
+    const channelName = event.data.channel_name
+
+    const parsedDiscussion: ParsedDiscussion = {
+      sourceType: 'mattermost',
+      sourceThreadId: post.root_id || post.id,
+      sourceUrl: buildMattermostPermalink(serverUrl, post.id),
+      teamId: event.data.team_id || '',
+      authorHandle,
+      title: channelName
+        ? `Mattermost message from ${authorHandle} in ~${channelName}`
+        : `Mattermost message from ${authorHandle}`,
+      content: post.message.trim(),
+      participants: [authorHandle],
+      timestamp: new Date(post.create_at),
+      metadata: {
+        trigger: 'mention',
+        serverUrl,
+        mattermostTeamId: event.data.team_id,
+        channelId: post.channel_id,
+        channelName,
+        channelType: event.data.channel_type,
+        postId: post.id,
+        rootId: post.root_id || undefined,
+        userId: post.user_id,
+      },
+    }
+
+    console.log('[Mattermost Adapter] Created parsed discussion from mention:', {
+      sourceThreadId: parsedDiscussion.sourceThreadId,
+      teamId: parsedDiscussion.teamId,
+    })
+
+    return parsedDiscussion
+  }
+
+  /**
+   * Remove the trigger word the message starts with
+   */
+  private stripTriggerWord(text: string, triggerWord: string): string {
+    const trimmed = text.trim()
+
+    if (triggerWord && trimmed.startsWith(triggerWord)) {
+      return trimmed.substring(triggerWord.length).trim()
+    }
+
+    return trimmed
+  }
+}
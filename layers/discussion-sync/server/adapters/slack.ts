@@ -2,12 +2,25 @@
  * Slack Adapter - Implements DiscussionSourceAdapter for Slack
  *
  * Handles parsing Slack Events API payloads, fetching threads from Slack API,
- * posting replies, and updating status with emoji reactions.
+ * posting replies, and updating status with emoji reactions. Fetched messages
+ * have their mentions and links resolved to readable names, and their files
+ * copied to blob storage.
+ *
+ * Discussions are started by mentioning the bot (app_mention), by reacting
+ * to a message with the configured trigger emoji (reaction_added), with the
+ * "Send to Notion" message shortcut or with `/discubot summarize <link>`.
  */
 
 import { SlackService } from '../services/slack'
+import type { SlackMessage } from '../services/slack'
+import type { SlackReactionAddedEvent } from '../utils/slackReactionTrigger'
 import { getDecryptedApiToken } from '../utils/encryptedConfig'
+import { buildApprovalMessage } from '../utils/slackApproval'
+import { SlackNameResolver, extractSlackReferences, formatSlackText } from '../utils/slackText'
+import { storeAttachments } from '../utils/attachmentStorage'
 import type {
+  ApprovalRequest,
+  Attachment,
   DiscussionSourceAdapter,
   ParsedDiscussion,
   DiscussionThread,
@@ -17,6 +30,14 @@ import type {
   ValidationResult,
 } from './base'
 
+/**
+ * Message shortcut, configured in the Slack app's "Interactivity & Shortcuts"
+ */
+export const SLACK_SEND_TO_NOTION_SHORTCUT = {
+  name: 'Send to Notion',
+  callbackId: 'send_to_notion',
+} as const
+
 // Slack Event Types
 interface SlackAppMentionEvent {
   type: 'app_mention'
@@ -28,16 +49,78 @@ interface SlackAppMentionEvent {
   event_ts: string
 }
 
-interface SlackEventPayload {
+/**
+ * reaction_added event with the reacted message, which the Events API
+ * doesn't include and the events webhook fetches before parsing
+ */
+export interface SlackReactionTriggerEvent extends SlackReactionAddedEvent {
+  message?: SlackMessage
+}
+
+export interface SlackEventPayload {
   token: string
   team_id: string
   api_app_id: string
-  event: SlackAppMentionEvent
+  event: SlackAppMentionEvent | SlackReactionTriggerEvent
   type: 'event_callback'
   event_id: string
   event_time: number
 }
 
+/**
+ * Message shortcut payload sent to the interactivity endpoint
+ */
+export interface SlackMessageActionPayload {
+  type: 'message_action'
+  callback_id: string
+  trigger_id: string
+  response_url: string
+  team: { id: string, domain?: string }
+  user: { id: string, name?: string }
+  channel: { id: string, name?: string }
+  message: SlackMessage
+  message_ts: string
+}
+
+/**
+ * Slash command payload, with the message referenced by the command text
+ * which the commands webhook fetches before parsing
+ */
+export interface SlackSlashCommandPayload {
+  command: string
+  text: string
+  team_id: string
+  channel_id: string
+  user_id: string
+  user_name?: string
+  response_url: string
+  trigger_id: string
+  message?: SlackMessage
+  message_channel_id?: string
+}
+
+export type SlackIncomingPayload = SlackEventPayload | SlackMessageActionPayload | SlackSlashCommandPayload
+
+/**
+ * Discussion started from an existing message rather than a mention
+ */
+interface SlackMessageTrigger {
+  teamId: string
+  channelId: string
+  message: SlackMessage
+  triggeredBy: string
+  trigger: 'reaction' | 'shortcut' | 'command'
+  metadata: Record<string, unknown>
+}
+
+export function isSlackMessageAction(payload: SlackIncomingPayload): payload is SlackMessageActionPayload {
+  return (payload as SlackMessageActionPayload).type === 'message_action'
+}
+
+export function isSlackSlashCommand(payload: SlackIncomingPayload): payload is SlackSlashCommandPayload {
+  return typeof (payload as SlackSlashCommandPayload).command === 'string'
+}
+
 export class SlackAdapter implements DiscussionSourceAdapter {
   sourceType = 'slack' as const
 
@@ -46,11 +129,23 @@ export class SlackAdapter implements DiscussionSourceAdapter {
   /**
    * Parse incoming Slack Events API payload
    */
-  async parseIncoming(payload: SlackEventPayload): Promise<ParsedDiscussion> {
+  async parseIncoming(payload: SlackIncomingPayload): Promise<ParsedDiscussion> {
     console.log('[Slack Adapter] Parsing incoming event payload')
 
     try {
       // 1. Validate payload structure
+      if (isSlackMessageAction(payload)) {
+        return this.parseMessageAction(payload)
+      }
+
+      if (isSlackSlashCommand(payload)) {
+        return this.parseSlashCommand(payload)
+      }
+
+      if (payload.event?.type === 'reaction_added') {
+        return this.parseReactionEvent(payload, payload.event)
+      }
+
       if (!payload.event || payload.event.type !== 'app_mention') {
         throw new Error('[Slack Adapter] Invalid event type, expected app_mention')
       }
@@ -106,6 +201,7 @@ export class SlackAdapter implements DiscussionSourceAdapter {
           threadTs: event.thread_ts,
           workspaceId: teamId,
           eventId: payload.event_id,
+          trigger: 'mention',
           rawEvent: event,
         },
       }
@@ -143,14 +239,28 @@ export class SlackAdapter implements DiscussionSourceAdapter {
       console.log('[Slack Adapter] Using channel:', channelId)
 
       // Fetch thread from Slack
-      const slackThread = await service.getThread(channelId, threadId)
+      const slackThread = await service.getThread(channelId, threadId, {
+        maxMessages: typeof config.metadata?.maxThreadMessages === 'number' ? config.metadata.maxThreadMessages : undefined,
+      })
+
+      // Resolve authors and <@U…>/<#C…> mentions to names
+      const resolver = new SlackNameResolver(service, (config.metadata?.workspaceId as string) || config.id)
+      const references = extractSlackReferences(slackThread.messages.map(msg => msg.text || '').join('\n'))
+      const names = await resolver.resolveNames({
+        userIds: [...new Set([...slackThread.messages.map(msg => msg.user).filter(Boolean), ...references.userIds])],
+        channelIds: references.channelIds,
+      })
+
+      // Copy shared files to blob storage, Notion can't load them from Slack
+      const attachments = await this.storeFiles(service, slackThread.messages)
 
       // Convert to standardized thread format
       const messages: ThreadMessage[] = slackThread.messages.map(msg => ({
         id: msg.ts,
-        authorHandle: msg.user,
-        content: msg.text,
+        authorHandle: names.users[msg.user] || msg.user,
+        content: formatSlackText(msg.text || '', names),
         timestamp: new Date(Number.parseFloat(msg.ts) * 1000),
+        attachments: attachments.get(msg.ts) || [],
       }))
 
       const rootMessage = messages[0]
@@ -173,6 +283,8 @@ export class SlackAdapter implements DiscussionSourceAdapter {
           channelName: slackThread.metadata.channelName,
           channelType: slackThread.metadata.channelType,
           hasMore: slackThread.hasMore,
+          totalMessages: slackThread.metadata.totalMessages,
+          omittedMessages: slackThread.metadata.omittedMessages,
         },
       }
 
@@ -288,6 +400,39 @@ export class SlackAdapter implements DiscussionSourceAdapter {
     }
   }
 
+  /**
+   * Post the detected tasks with Approve / Edit / Discard buttons
+   *
+   * Button clicks are handled by the Slack interactivity endpoint.
+   */
+  async requestApproval(
+    threadId: string,
+    request: ApprovalRequest,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Slack Adapter] Requesting approval for thread:', threadId)
+
+    try {
+      const service = await this.getService(config)
+
+      const channelId = config.metadata?.channelId as string
+
+      if (!channelId) {
+        throw new Error('[Slack Adapter] Channel ID not found in config metadata')
+      }
+
+      const { text, blocks } = buildApprovalMessage(request)
+      const messageTs = await service.postMessage(channelId, text, threadId, { blocks })
+
+      console.log('[Slack Adapter] Approval request posted:', messageTs)
+      return true
+    }
+    catch (error) {
+      console.error('[Slack Adapter] Failed to request approval:', error)
+      throw error
+    }
+  }
+
   /**
    * Validate source configuration
    */
@@ -299,14 +444,6 @@ export class SlackAdapter implements DiscussionSourceAdapter {
       errors.push('Slack bot token is required')
     }
 
-    if (!config.notionToken) {
-      errors.push('Notion API token is required')
-    }
-
-    if (!config.notionDatabaseId) {
-      errors.push('Notion database ID is required')
-    }
-
     // Test API connection if token is provided
     if (config.apiToken && errors.length === 0) {
       try {
@@ -347,6 +484,172 @@ export class SlackAdapter implements DiscussionSourceAdapter {
     }
   }
 
+  /**
+   * Parse a reaction_added event into a discussion for the reacted message's thread
+   */
+  private parseReactionEvent(
+    payload: SlackEventPayload,
+    event: SlackReactionTriggerEvent,
+  ): ParsedDiscussion {
+    if (!event.item?.channel || !event.item?.ts) {
+      throw new Error('[Slack Adapter] Missing required event fields (item.channel, item.ts)')
+    }
+
+    if (!event.message) {
+      throw new Error('[Slack Adapter] Reacted message not found in payload')
+    }
+
+    return this.parseMessageTrigger({
+      teamId: payload.team_id,
+      channelId: event.item.channel,
+      message: { ...event.message, user: event.message.user || event.item_user || event.user },
+      triggeredBy: event.user,
+      trigger: 'reaction',
+      metadata: {
+        eventId: payload.event_id,
+        reaction: event.reaction,
+        rawEvent: event,
+      },
+    })
+  }
+
+  /**
+   * Parse a "Send to Notion" message shortcut
+   */
+  private parseMessageAction(payload: SlackMessageActionPayload): ParsedDiscussion {
+    if (!payload.channel?.id || !payload.message?.ts) {
+      throw new Error('[Slack Adapter] Missing required shortcut fields (channel, message)')
+    }
+
+    return this.parseMessageTrigger({
+      teamId: payload.team?.id,
+      channelId: payload.channel.id,
+      message: payload.message,
+      triggeredBy: payload.user?.id,
+      trigger: 'shortcut',
+      metadata: {
+        callbackId: payload.callback_id,
+        channelName: payload.channel.name,
+      },
+    })
+  }
+
+  /**
+   * Parse a slash command that references a message
+   */
+  private parseSlashCommand(payload: SlackSlashCommandPayload): ParsedDiscussion {
+    if (!payload.message || !payload.message_channel_id) {
+      throw new Error('[Slack Adapter] Referenced message not found in slash command payload')
+    }
+
+    return this.parseMessageTrigger({
+      teamId: payload.team_id,
+      channelId: payload.message_channel_id,
+      message: payload.message,
+      triggeredBy: payload.user_id,
+      trigger: 'command',
+      metadata: {
+        command: `${payload.command} ${payload.text}`.trim(),
+      },
+    })
+  }
+
+  /**
+   * Build a discussion for the thread of an existing message
+   *
+   * Triggers on a reply start a discussion for the whole thread; status
+   * reactions go on the message the trigger was used on.
+   */
+  private parseMessageTrigger(trigger: SlackMessageTrigger): ParsedDiscussion {
+    const { teamId, channelId, message } = trigger
+
+    if (!teamId) {
+      throw new Error('[Slack Adapter] No team_id found in payload')
+    }
+
+    console.log('[Slack Adapter] Message trigger metadata:', {
+      trigger: trigger.trigger,
+      channel: channelId,
+      ts: message.ts,
+      threadTs: message.thread_ts,
+      triggeredBy: trigger.triggeredBy,
+    })
+
+    const sourceThreadId = message.thread_ts || message.ts
+    const authorHandle = message.user || trigger.triggeredBy
+
+    const parsedDiscussion: ParsedDiscussion = {
+      sourceType: 'slack',
+      sourceThreadId,
+      sourceUrl: this.buildSlackUrl(teamId, channelId, sourceThreadId),
+      teamId,
+      authorHandle,
+      title: `Slack message from <@${authorHandle}>`,
+      content: this.cleanMentionText(message.text || ''),
+      participants: [...new Set([authorHandle, trigger.triggeredBy].filter(Boolean))],
+      timestamp: new Date(Number(message.ts) * 1000),
+      metadata: {
+        channelId,
+        messageTs: message.ts,
+        threadTs: message.thread_ts,
+        workspaceId: teamId,
+        trigger: trigger.trigger,
+        triggeredBy: trigger.triggeredBy,
+        ...trigger.metadata,
+      },
+    }
+
+    console.log('[Slack Adapter] Created parsed discussion:', {
+      sourceThreadId: parsedDiscussion.sourceThreadId,
+      teamId: parsedDiscussion.teamId,
+      trigger: trigger.trigger,
+    })
+
+    return parsedDiscussion
+  }
+
+  /**
+   * Store the files shared in a thread, keyed by message ts
+   *
+   * Files that can't be downloaded become links to the file in Slack.
+   */
+  private async storeFiles(service: SlackService, messages: SlackMessage[]): Promise<Map<string, Attachment[]>> {
+    const files = messages.flatMap(msg => (msg.files || [])
+      .filter(file => file.url_private_download || file.url_private)
+      .map(file => ({ messageTs: msg.ts, file })))
+
+    const byMessage = new Map<string, Attachment[]>()
+
+    if (files.length === 0) {
+      return byMessage
+    }
+
+    const stored = await storeAttachments(
+      files.map(({ file }) => ({
+        id: file.id,
+        type: file.mimetype?.startsWith('image/') ? 'image' as const : 'file' as const,
+        url: (file.url_private_download || file.url_private)!,
+        name: file.name || file.title,
+        mimeType: file.mimetype,
+      })),
+      attachment => service.downloadFile(attachment.url),
+      {
+        logPrefix: '[Slack Adapter]',
+        fallback: (attachment) => {
+          const permalink = files.find(({ file }) => file.id === attachment.id)?.file.permalink
+          return permalink ? { ...attachment, type: 'link', url: permalink } : null
+        },
+      },
+    )
+
+    for (const attachment of stored) {
+      const messageTs = files.find(({ file }) => file.id === attachment.id)!.messageTs
+      byMessage.set(messageTs, [...(byMessage.get(messageTs) || []), attachment])
+    }
+
+    return byMessage
+  }
+
   /**
    * Get or create Slack service instance
    */
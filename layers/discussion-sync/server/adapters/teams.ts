@@ -0,0 +1,416 @@
+/**
+ * Teams Adapter - Implements DiscussionSourceAdapter for Microsoft Teams
+ *
+ * Handles parsing Bot Framework message activities, fetching channel reply
+ * chains via Microsoft Graph, posting replies through the Bot Connector, and
+ * updating status with an adaptive card in the reply chain.
+ */
+
+import {
+  TeamsService,
+  buildTeamsConversationId,
+  buildTeamsThreadId,
+  parseTeamsThreadId,
+  teamsHtmlToText,
+} from '../services/teams'
+import type { TeamsActivity } from '../services/teams'
+import { getDecryptedApiToken } from '../utils/encryptedConfig'
+import type {
+  DiscussionSourceAdapter,
+  ParsedDiscussion,
+  DiscussionThread,
+  DiscussionStatus,
+  SourceConfig,
+  ValidationResult,
+} from './base'
+
+// Bot Framework activity (fields we use)
+interface TeamsChannelAccount {
+  id: string
+  name: string
+  aadObjectId?: string
+}
+
+export interface TeamsMessageActivity {
+  type: string
+  id: string
+  timestamp: string
+  serviceUrl: string
+  channelId: string
+  from: TeamsChannelAccount
+  recipient: TeamsChannelAccount
+  conversation: {
+    id: string
+    conversationType?: 'channel' | 'groupChat' | 'personal'
+    tenantId?: string
+  }
+  text?: string
+  textFormat?: string
+  replyToId?: string
+  entities?: Array<{
+    type: string
+    mentioned?: TeamsChannelAccount
+    text?: string
+  }>
+  channelData?: {
+    tenant?: { id: string }
+    team?: { id: string, name?: string, aadGroupId?: string }
+    channel?: { id: string, name?: string }
+  }
+}
+
+const STATUS_CARD_KEY_PREFIX = 'discussion-sync:teams:status-card'
+
+const STATUS_LABELS: Record<DiscussionStatus, { text: string, color: string }> = {
+  pending: { text: '🕐 Queued for Notion', color: 'Default' },
+  processing: { text: '⏳ Summarizing discussion…', color: 'Accent' },
+  completed: { text: '✅ Synced to Notion', color: 'Good' },
+  failed: { text: '❌ Sync to Notion failed', color: 'Attention' },
+}
+
+/**
+ * Whether the activity @mentions the bot it was sent to
+ */
+export function isBotMentioned(activity: TeamsMessageActivity): boolean {
+  return (activity.entities || []).some(
+    entity => entity.type === 'mention' && entity.mentioned?.id === activity.recipient?.id,
+  )
+}
+
+export class TeamsAdapter implements DiscussionSourceAdapter {
+  sourceType = 'teams' as const
+
+  /**
+   * Parse incoming Bot Framework message activity
+   */
+  async parseIncoming(activity: TeamsMessageActivity): Promise<ParsedDiscussion> {
+    console.log('[Teams Adapter] Parsing incoming activity')
+
+    try {
+      // 1. Validate activity structure
+      if (activity.type !== 'message') {
+        throw new Error(`[Teams Adapter] Invalid activity type: ${activity.type}, expected message`)
+      }
+
+      if (activity.conversation?.conversationType !== 'channel') {
+        throw new Error('[Teams Adapter] Only channel conversations are supported')
+      }
+
+      const channelId = activity.channelData?.channel?.id
+      const aadGroupId = activity.channelData?.team?.aadGroupId
+      const tenantId = activity.conversation.tenantId || activity.channelData?.tenant?.id
+
+      if (!channelId || !aadGroupId) {
+        throw new Error('[Teams Adapter] Missing channel or team information in channelData')
+      }
+
+      console.log('[Teams Adapter] Activity metadata:', {
+        conversationId: activity.conversation.id,
+        activityId: activity.id,
+        from: activity.from?.name,
+        tenantId,
+      })
+
+      // 2. Determine thread ID
+      // Channel conversation IDs carry the root message of the reply chain
+      const rootMessageId = activity.conversation.id.match(/;messageid=(\d+)/)?.[1] || activity.id
+      const ref = { teamId: aadGroupId, channelId, messageId: rootMessageId }
+      const sourceThreadId = buildTeamsThreadId(ref)
+
+      // 3. Clean the mention text from the message
+      const content = this.cleanMentionText(activity)
+
+      // 4. Build parsed discussion
+      const parsedDiscussion: ParsedDiscussion = {
+        sourceType: 'teams',
+        sourceThreadId,
+        sourceUrl: this.buildTeamsUrl(channelId, activity.id, rootMessageId, aadGroupId, tenantId),
+        teamId: tenantId || aadGroupId, // Microsoft tenant, resolved to a team by the webhook handler
+        authorHandle: activity.from.name,
+        title: `Teams message from ${activity.from.name}`,
+        content,
+        participants: [activity.from.name],
+        timestamp: new Date(activity.timestamp),
+        metadata: {
+          tenantId,
+          aadGroupId,
+          teamsTeamId: activity.channelData?.team?.id,
+          channelId,
+          channelName: activity.channelData?.channel?.name,
+          conversationId: buildTeamsConversationId(ref),
+          rootMessageId,
+          activityId: activity.id,
+          serviceUrl: activity.serviceUrl,
+          botId: activity.recipient.id,
+        },
+      }
+
+      console.log('[Teams Adapter] Created parsed discussion:', {
+        sourceThreadId: parsedDiscussion.sourceThreadId,
+        teamId: parsedDiscussion.teamId,
+        title: parsedDiscussion.title,
+      })
+
+      return parsedDiscussion
+    }
+    catch (error) {
+      console.error('[Teams Adapter] Failed to parse incoming activity:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch full reply chain from Microsoft Graph
+   */
+  async fetchThread(threadId: string, config: SourceConfig): Promise<DiscussionThread> {
+    console.log('[Teams Adapter] Fetching thread:', threadId)
+
+    try {
+      const service = await this.getService(config)
+      const thread = await service.buildThread(parseTeamsThreadId(threadId))
+
+      console.log('[Teams Adapter] Thread fetched successfully:', {
+        id: thread.id,
+        rootMessageContent: thread.rootMessage.content.substring(0, 50),
+        repliesCount: thread.replies.length,
+        participantsCount: thread.participants.length,
+      })
+
+      return thread
+    }
+    catch (error) {
+      console.error('[Teams Adapter] Failed to fetch thread:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Post a reply in the same reply chain
+   */
+  async postReply(
+    threadId: string,
+    message: string,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Teams Adapter] Posting reply to thread:', threadId)
+
+    try {
+      if (!config.postConfirmation) {
+        console.log('[Teams Adapter] Post confirmation disabled, skipping reply')
+        return false
+      }
+
+      const service = await this.getService(config)
+      const conversationId = buildTeamsConversationId(parseTeamsThreadId(threadId))
+
+      const activityId = await service.sendActivity(this.getServiceUrl(config), conversationId, {
+        type: 'message',
+        text: message,
+        textFormat: 'markdown',
+      })
+
+      console.log('[Teams Adapter] Reply posted successfully:', activityId)
+      return true
+    }
+    catch (error) {
+      console.error('[Teams Adapter] Failed to post reply:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update status with an adaptive card in the reply chain
+   *
+   * Bots cannot add message reactions, so a single status card is posted
+   * and updated in place. Its activity ID is kept in KV storage.
+   */
+  async updateStatus(
+    threadId: string,
+    status: DiscussionStatus,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Teams Adapter] Updating status to:', status)
+
+    try {
+      if (!STATUS_LABELS[status]) {
+        console.warn('[Teams Adapter] Unknown status:', status)
+        return false
+      }
+
+      const service = await this.getService(config)
+      const serviceUrl = this.getServiceUrl(config)
+      const conversationId = buildTeamsConversationId(parseTeamsThreadId(threadId))
+      const activity = this.buildStatusCard(status)
+
+      const storageKey = `${STATUS_CARD_KEY_PREFIX}:${threadId}`
+      const existingActivityId = await hubKV().get<string>(storageKey)
+
+      if (existingActivityId) {
+        try {
+          await service.updateActivity(serviceUrl, conversationId, existingActivityId, activity)
+          console.log('[Teams Adapter] Status card updated:', status)
+          return true
+        }
+        catch (error) {
+          console.log('[Teams Adapter] Could not update status card, posting a new one')
+        }
+      }
+
+      const activityId = await service.sendActivity(serviceUrl, conversationId, activity)
+      await hubKV().set(storageKey, activityId)
+
+      console.log('[Teams Adapter] Status card posted:', status)
+      return true
+    }
+    catch (error) {
+      console.error('[Teams Adapter] Failed to update status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Validate source configuration
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.metadata?.appId) {
+      errors.push('Microsoft App ID is required')
+    }
+
+    if (!config.apiToken) {
+      errors.push('Microsoft App password is required')
+    }
+
+    if (!config.metadata?.tenantId) {
+      errors.push('Microsoft tenant ID is required to read channel messages')
+    }
+
+    // Test credentials if they are complete
+    if (errors.length === 0) {
+      try {
+        const service = await this.getService(config)
+        const connected = await service.testConnection()
+
+        if (!connected) {
+          errors.push('Failed to authenticate with Microsoft - check your app ID and password')
+        }
+      }
+      catch (error) {
+        errors.push(`Teams connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to Bot Framework
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[Teams Adapter] Testing connection')
+
+    try {
+      const service = await this.getService(config)
+      const connected = await service.testConnection()
+
+      console.log('[Teams Adapter] Connection test result:', connected)
+      return connected
+    }
+    catch (error) {
+      console.error('[Teams Adapter] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Create Teams service instance
+   *
+   * The app password is stored encrypted in apiToken, the app and tenant IDs in metadata.
+   */
+  private async getService(config: SourceConfig): Promise<TeamsService> {
+    const appPassword = await getDecryptedApiToken(config)
+    const appId = config.metadata?.appId as string | undefined
+
+    if (!appPassword || !appId) {
+      throw new Error('[Teams Adapter] App ID or password not found in source config')
+    }
+
+    return new TeamsService({
+      appId,
+      appPassword,
+      tenantId: config.metadata?.tenantId as string | undefined,
+    })
+  }
+
+  private getServiceUrl(config: SourceConfig): string | undefined {
+    return config.metadata?.serviceUrl as string | undefined
+  }
+
+  /**
+   * Remove the bot mention from the message text
+   */
+  private cleanMentionText(activity: TeamsMessageActivity): string {
+    let text = activity.text || ''
+
+    for (const entity of activity.entities || []) {
+      if (entity.type === 'mention' && entity.mentioned?.id === activity.recipient.id && entity.text) {
+        text = text.replace(entity.text, '')
+      }
+    }
+
+    return teamsHtmlToText(text)
+  }
+
+  /**
+   * Deep link to a channel message
+   */
+  private buildTeamsUrl(
+    channelId: string,
+    messageId: string,
+    rootMessageId: string,
+    groupId: string,
+    tenantId?: string
+  ): string {
+    const params = new URLSearchParams({ groupId, parentMessageId: rootMessageId })
+    if (tenantId) {
+      params.set('tenantId', tenantId)
+    }
+
+    return `https://teams.microsoft.com/l/message/${encodeURIComponent(channelId)}/${messageId}?${params.toString()}`
+  }
+
+  private buildStatusCard(status: DiscussionStatus): TeamsActivity {
+    const label = STATUS_LABELS[status]
+
+    return {
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body: [
+              {
+                type: 'TextBlock',
+                text: label.text,
+                color: label.color,
+                weight: 'Bolder',
+                wrap: true,
+              },
+            ],
+          },
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Zendesk Adapter - Implements DiscussionSourceAdapter for Zendesk Support
+ *
+ * Handles parsing ticket comment trigger webhooks, fetching the ticket
+ * conversation (public replies and internal notes), posting internal notes
+ * as replies, and updating status with ticket tags.
+ */
+
+import {
+  ZendeskService,
+  buildZendeskTicketUrl,
+  parseZendeskSubdomain,
+} from '../services/zendesk'
+import { getDecryptedApiToken } from '../utils/encryptedConfig'
+import type {
+  DiscussionSourceAdapter,
+  ParsedDiscussion,
+  DiscussionThread,
+  DiscussionStatus,
+  SourceConfig,
+  ValidationResult,
+} from './base'
+
+/**
+ * Ticket tags reflecting the sync status; only one is set at a time
+ */
+export const ZENDESK_STATUS_TAGS: Record<DiscussionStatus, string> = {
+  pending: 'discubot_pending',
+  processing: 'discubot_processing',
+  completed: 'discubot_synced',
+  failed: 'discubot_failed',
+}
+
+/**
+ * Webhook body sent by the "Comment added" trigger. Zendesk renders the
+ * placeholders as strings, so the trigger's JSON body should be:
+ *
+ * {
+ *   "ticket_id": "{{ticket.id}}",
+ *   "ticket_url": "{{ticket.url}}",
+ *   "subject": "{{ticket.title}}",
+ *   "status": "{{ticket.status}}",
+ *   "priority": "{{ticket.priority}}",
+ *   "tags": "{{ticket.tags}}",
+ *   "requester": { "name": "{{ticket.requester.name}}", "email": "{{ticket.requester.email}}" },
+ *   "comment": {
+ *     "author": "{{ticket.latest_comment.author.name}}",
+ *     "author_email": "{{ticket.latest_comment.author.email}}",
+ *     "value": "{{ticket.latest_comment.value}}",
+ *     "is_public": "{{ticket.latest_comment.is_public}}",
+ *     "created_at": "{{ticket.latest_comment.created_at_with_timestamp}}"
+ *   }
+ * }
+ */
+export interface ZendeskTicketCommentPayload {
+  ticket_id: string
+  ticket_url: string
+  subject: string
+  status?: string
+  priority?: string
+  tags?: string
+  requester?: { name?: string, email?: string }
+  comment: {
+    author: string
+    author_email?: string
+    value: string
+    is_public?: string | boolean
+    created_at?: string
+  }
+}
+
+export class ZendeskAdapter implements DiscussionSourceAdapter {
+  sourceType = 'zendesk' as const
+
+  /**
+   * Parse incoming ticket comment trigger payload
+   */
+  async parseIncoming(payload: ZendeskTicketCommentPayload): Promise<ParsedDiscussion> {
+    console.log('[Zendesk Adapter] Parsing incoming payload')
+
+    try {
+      if (!payload.ticket_id || !payload.comment) {
+        throw new Error('[Zendesk Adapter] Missing ticket ID or comment in payload')
+      }
+
+      const subdomain = parseZendeskSubdomain(payload.ticket_url || '')
+
+      if (!subdomain) {
+        throw new Error(`[Zendesk Adapter] Cannot determine subdomain from ticket URL: ${payload.ticket_url}`)
+      }
+
+      const ticketId = String(payload.ticket_id)
+      const authorHandle = payload.comment.author || 'Unknown'
+      const requesterName = payload.requester?.name
+      const isPublic = String(payload.comment.is_public) !== 'false'
+
+      const parsedDiscussion: ParsedDiscussion = {
+        sourceType: 'zendesk',
+        sourceThreadId: ticketId,
+        sourceUrl: buildZendeskTicketUrl(subdomain, ticketId),
+        teamId: subdomain, // Zendesk account, resolved to a team by the webhook handler
+        authorHandle,
+        title: `Ticket #${ticketId}: ${payload.subject}`,
+        content: payload.comment.value.trim(),
+        participants: Array.from(new Set([requesterName, authorHandle].filter(Boolean) as string[])),
+        timestamp: payload.comment.created_at ? new Date(payload.comment.created_at) : new Date(),
+        metadata: {
+          subdomain,
+          ticketId,
+          status: payload.status,
+          priority: payload.priority || undefined,
+          tags: (payload.tags || '').split(/\s+/).filter(Boolean),
+          requesterEmail: payload.requester?.email,
+          commentAuthorEmail: payload.comment.author_email,
+          commentIsPublic: isPublic,
+        },
+      }
+
+      console.log('[Zendesk Adapter] Created parsed discussion:', {
+        sourceThreadId: parsedDiscussion.sourceThreadId,
+        teamId: parsedDiscussion.teamId,
+      })
+
+      return parsedDiscussion
+    }
+    catch (error) {
+      console.error('[Zendesk Adapter] Failed to parse incoming payload:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch the ticket conversation from Zendesk API
+   */
+  async fetchThread(threadId: string, config: SourceConfig): Promise<DiscussionThread> {
+    console.log('[Zendesk Adapter] Fetching ticket:', threadId)
+
+    try {
+      const service = await this.getService(config)
+      const thread = await service.buildThread(threadId)
+
+      console.log('[Zendesk Adapter] Thread fetched successfully:', {
+        id: thread.id,
+        rootMessageContent: thread.rootMessage.content.substring(0, 50),
+        repliesCount: thread.replies.length,
+        participantsCount: thread.participants.length,
+      })
+
+      return thread
+    }
+    catch (error) {
+      console.error('[Zendesk Adapter] Failed to fetch thread:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Post the confirmation as an internal note, never visible to the requester
+   */
+  async postReply(
+    threadId: string,
+    message: string,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Zendesk Adapter] Adding internal note to ticket:', threadId)
+
+    try {
+      if (!config.postConfirmation) {
+        console.log('[Zendesk Adapter] Post confirmation disabled, skipping reply')
+        return false
+      }
+
+      const service = await this.getService(config)
+      await service.addInternalNote(threadId, message)
+
+      console.log('[Zendesk Adapter] Internal note added successfully')
+      return true
+    }
+    catch (error) {
+      console.error('[Zendesk Adapter] Failed to post reply:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update status using ticket tags
+   */
+  async updateStatus(
+    threadId: string,
+    status: DiscussionStatus,
+    config: SourceConfig
+  ): Promise<boolean> {
+    console.log('[Zendesk Adapter] Updating status to:', status)
+
+    try {
+      const service = await this.getService(config)
+      const tag = ZENDESK_STATUS_TAGS[status]
+
+      if (!tag) {
+        console.warn('[Zendesk Adapter] Unknown status:', status)
+        return false
+      }
+
+      // Remove previous status tags
+      const previousTags = Object.values(ZENDESK_STATUS_TAGS).filter(t => t !== tag)
+      try {
+        await service.removeTags(threadId, previousTags)
+      }
+      catch (error) {
+        // Ignore errors when removing tags, the new tag is what matters
+        console.log('[Zendesk Adapter] Could not remove previous status tags')
+      }
+
+      await service.addTags(threadId, [tag])
+
+      console.log('[Zendesk Adapter] Status updated with tag:', tag)
+      return true
+    }
+    catch (error) {
+      console.error('[Zendesk Adapter] Failed to update status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Validate source configuration
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.apiToken) {
+      errors.push('Zendesk API token is required')
+    }
+
+    if (!config.metadata?.subdomain) {
+      errors.push('Zendesk subdomain is required')
+    }
+
+    if (!config.metadata?.email) {
+      errors.push('Zendesk agent email is required')
+    }
+
+    // Test API connection if credentials are provided
+    if (config.apiToken && errors.length === 0) {
+      try {
+        const service = await this.getService(config)
+        const connected = await service.testConnection()
+
+        if (!connected) {
+          errors.push('Failed to connect to Zendesk API - check your subdomain, agent email and API token')
+        }
+      }
+      catch (error) {
+        errors.push(`Zendesk API connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to Zendesk API
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[Zendesk Adapter] Testing connection')
+
+    try {
+      const service = await this.getService(config)
+      const connected = await service.testConnection()
+
+      console.log('[Zendesk Adapter] Connection test result:', connected)
+      return connected
+    }
+    catch (error) {
+      console.error('[Zendesk Adapter] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Create Zendesk service instance
+   */
+  private async getService(config: SourceConfig): Promise<ZendeskService> {
+    const apiToken = await getDecryptedApiToken(config)
+    const subdomain = config.metadata?.subdomain as string | undefined
+    const email = config.metadata?.email as string | undefined
+
+    if (!apiToken) {
+      throw new Error('[Zendesk Adapter] API token not found in source config')
+    }
+
+    if (!subdomain || !email) {
+      throw new Error('[Zendesk Adapter] Subdomain or agent email not found in source config')
+    }
+
+    return new ZendeskService({ subdomain, email, apiToken })
+  }
+}
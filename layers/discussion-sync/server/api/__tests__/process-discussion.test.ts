@@ -5,7 +5,6 @@ import type { H3Event } from 'h3'
 vi.mock('../../services/processor', () => ({
   ProcessorService: vi.fn().mockImplementation(() => ({
     processDiscussion: vi.fn(),
-    processWithRetry: vi.fn(),
     destroy: vi.fn(),
   })),
 }))
@@ -79,7 +78,6 @@ describe('POST /api/internal/process-discussion', () => {
 
     const processorInstance = {
       processDiscussion: vi.fn().mockResolvedValueOnce(mockResult),
-      processWithRetry: vi.fn(),
       destroy: vi.fn(),
     }
 
@@ -92,16 +90,17 @@ describe('POST /api/internal/process-discussion', () => {
     expect(processorInstance.destroy).toHaveBeenCalled()
   })
 
-  it('should use retry when specified', async () => {
+  it('should process right away even when retry is passed', async () => {
     const { readBody } = await import('#imports')
     const { ProcessorService } = await import('../../services/processor')
 
     const mockResult = {
-      success: true,
+      success: false,
       jobId: 'job-123',
       discussionId: 'discussion-123',
-      pageIds: ['page-1'],
+      error: 'Temporary error',
       processingTime: 2500,
+      nextAttemptAt: new Date('2026-01-01T00:01:00Z'),
     }
 
     ;(readBody as any).mockResolvedValueOnce({
@@ -110,8 +109,7 @@ describe('POST /api/internal/process-discussion', () => {
     })
 
     const processorInstance = {
-      processDiscussion: vi.fn(),
-      processWithRetry: vi.fn().mockResolvedValueOnce(mockResult),
+      processDiscussion: vi.fn().mockResolvedValueOnce(mockResult),
       destroy: vi.fn(),
     }
 
@@ -119,11 +117,41 @@ describe('POST /api/internal/process-discussion', () => {
 
     const result = await handler(mockEvent)
 
-    expect(processorInstance.processWithRetry).toHaveBeenCalledWith('discussion-123')
-    expect(processorInstance.processDiscussion).not.toHaveBeenCalled()
+    // Retries are scheduled on the job, the queue worker runs them
+    expect(processorInstance.processDiscussion).toHaveBeenCalledWith('discussion-123')
     expect(result).toEqual(mockResult)
   })
 
+  it('should refuse while the discussion is already processing', async () => {
+    const { readBody, createError } = await import('#imports')
+    const { ProcessorService } = await import('../../services/processor')
+
+    ;(readBody as any).mockResolvedValueOnce({
+      discussionId: 'discussion-123',
+    })
+
+    const processorInstance = {
+      processDiscussion: vi.fn().mockResolvedValueOnce({
+        success: false,
+        jobId: 'job-123',
+        discussionId: 'discussion-123',
+        error: 'Discussion is already being processed',
+        inProgress: true,
+      }),
+      destroy: vi.fn(),
+    }
+
+    ;(ProcessorService as any).mockImplementationOnce(() => processorInstance)
+
+    await expect(handler(mockEvent)).rejects.toMatchObject({ statusCode: 409 })
+    expect(createError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 409,
+        message: 'Discussion is already being processed',
+      }),
+    )
+  })
+
   it('should handle processing errors', async () => {
     const { readBody, createError } = await import('#imports')
     const { ProcessorService } = await import('../../services/processor')
@@ -134,7 +162,6 @@ describe('POST /api/internal/process-discussion', () => {
 
     const processorInstance = {
       processDiscussion: vi.fn().mockRejectedValueOnce(new Error('Processing failed')),
-      processWithRetry: vi.fn(),
       destroy: vi.fn(),
     }
 
@@ -162,7 +189,6 @@ describe('POST /api/internal/process-discussion', () => {
 
     const processorInstance = {
       processDiscussion: vi.fn().mockRejectedValueOnce(new Error('Test error')),
-      processWithRetry: vi.fn(),
       destroy: vi.fn(),
     }
 
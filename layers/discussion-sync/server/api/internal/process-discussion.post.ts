@@ -1,14 +1,13 @@
 /**
- * Internal API endpoint to process a discussion
- * This is called asynchronously after a webhook creates a discussion record
+ * Internal API endpoint to process a discussion right away
+ * Webhooks don't call this, they queue discussions (see utils/jobQueue)
  *
  * POST /api/internal/process-discussion
- * Body: { discussionId: string, retry?: boolean }
+ * Body: { discussionId: string }
  *
- * This endpoint is typically called from:
- * 1. Webhook handlers after creating discussion record
- * 2. Admin UI for manual reprocessing
- * 3. Scheduled jobs for retry failed discussions
+ * Used for manual reprocessing. Runs the discussion's queued job if it has
+ * one, 409 while a job is processing or awaiting approval. A failed attempt
+ * is retried by the queue worker, the response has its nextAttemptAt.
  */
 
 import { ProcessorService } from '../../services/processor'
@@ -26,21 +25,23 @@ export default defineEventHandler(async (event) => {
       })
     }
 
-    const { discussionId, retry = false } = body
+    const { discussionId } = body
 
-    console.log('[API] Processing discussion:', {
-      discussionId,
-      retry,
-    })
+    console.log('[API] Processing discussion:', discussionId)
 
     // Create processor service
     const processor = new ProcessorService()
 
     try {
-      // Process with or without retry
-      const result = retry
-        ? await processor.processWithRetry(discussionId)
-        : await processor.processDiscussion(discussionId)
+      const result = await processor.processDiscussion(discussionId)
+
+      if (result.inProgress) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Conflict',
+          message: result.error,
+        })
+      }
 
       console.log('[API] Processing completed:', {
         discussionId,
@@ -55,8 +56,11 @@ export default defineEventHandler(async (event) => {
         jobId: result.jobId,
         discussionId: result.discussionId,
         pageIds: result.pageIds,
+        deliveries: result.deliveries,
         error: result.error,
         processingTime: result.processingTime,
+        awaitingApproval: result.awaitingApproval,
+        nextAttemptAt: result.nextAttemptAt,
       }
     }
     finally {
@@ -67,6 +71,10 @@ export default defineEventHandler(async (event) => {
   catch (error) {
     console.error('[API] Processing failed:', error)
 
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
     throw createError({
       statusCode: 500,
       statusMessage: 'Internal Server Error',
@@ -0,0 +1,81 @@
+/**
+ * Slack OAuth Callback
+ *
+ * Slack redirects here after "Add to Slack" with a code and the state
+ * created by the install route. The code is exchanged for a bot token,
+ * which is stored on the team's Slack source config. The user is sent
+ * back to the page the install was started from with a `slack` query
+ * param: `installed`, `cancelled` or `failed`.
+ */
+
+import {
+  SLACK_OAUTH_CALLBACK_PATH,
+  consumeInstallState,
+  exchangeSlackOAuthCode,
+} from '../../../utils/slackInstall'
+import { saveSlackInstallation } from '../../../utils/slackInstallations'
+
+const LOG_PREFIX = '[Slack OAuth]'
+
+function withQuery(path: string, params: Record<string, string>): string {
+  return `${path}${path.includes('?') ? '&' : '?'}${new URLSearchParams(params).toString()}`
+}
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+
+  // 1. Check the state was created by the install route for this user.
+  // Session first, so an anonymous request can't use up someone's state
+  const { user } = await requireUserSession(event)
+
+  const state = await consumeInstallState(typeof query.state === 'string' ? query.state : undefined)
+
+  if (!state) {
+    console.warn(`${LOG_PREFIX} Unknown or expired state`)
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Bad Request',
+      message: 'Invalid or expired install request, please start the installation again',
+    })
+  }
+
+  if (user.id !== state.userId) {
+    console.warn(`${LOG_PREFIX} State belongs to another user`)
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Forbidden',
+      message: 'This install request was started by another user',
+    })
+  }
+
+  // 2. The user declined on Slack's authorize page
+  if (query.error || typeof query.code !== 'string') {
+    console.log(`${LOG_PREFIX} Install cancelled:`, query.error)
+    return sendRedirect(event, withQuery(state.redirectTo, { slack: 'cancelled' }))
+  }
+
+  // 3. Exchange the code and store the bot token
+  try {
+    const config = useRuntimeConfig()
+
+    const installation = await exchangeSlackOAuthCode({
+      clientId: config.slackClientId as string,
+      clientSecret: config.slackClientSecret as string,
+      code: query.code,
+      redirectUri: `${config.public.host}${SLACK_OAUTH_CALLBACK_PATH}`,
+    })
+
+    const sourceConfig = await saveSlackInstallation(installation, state)
+
+    console.log(`${LOG_PREFIX} Installed in workspace:`, installation.team?.id, 'config:', sourceConfig.id)
+
+    return sendRedirect(event, withQuery(state.redirectTo, {
+      slack: 'installed',
+      sourceConfigId: sourceConfig.id,
+    }))
+  }
+  catch (error) {
+    console.error(`${LOG_PREFIX} Install failed:`, error)
+    return sendRedirect(event, withQuery(state.redirectTo, { slack: 'failed' }))
+  }
+})
@@ -0,0 +1,250 @@
+/**
+ * Discord Webhook
+ *
+ * Handles incoming requests for Discord including:
+ * - Interactions endpoint: PING and the "Send to Notion" message command,
+ *   verified with the application's Ed25519 public key
+ * - @mentions of the bot in threads, forwarded from the Gateway by a relay
+ *   and signed with the source config's webhook secret
+ * - Discussion creation and processing
+ *
+ * Gateway relay contract
+ *
+ * Discord only delivers channel messages over the Gateway websocket, so
+ * mentions need a separate relay process that is not part of this layer.
+ * It connects with the bot token and the GUILD_MESSAGES and MESSAGE_CONTENT
+ * intents, and forwards every MESSAGE_CREATE dispatch as:
+ *
+ *   POST /api/webhook/discord
+ *   Content-Type: application/json
+ *   X-Discubot-Signature: sha256=<hex HMAC SHA256 of the raw body>
+ *
+ * - Body: the dispatch as received from the Gateway, unchanged:
+ *   { "op": 0, "t": "MESSAGE_CREATE", "s": 42, "d": <message> }, where the
+ *   message includes guild_id, channel_id, author and mentions
+ * - Signature: keyed with the webhookSecret of the guild's source config
+ *   (sourceMetadata.guildId), computed over the exact bytes that are sent
+ * - Responses: 200 for handled and ignored events (other dispatch types,
+ *   bot authors, no mention, not in a thread), 401 when no source config
+ *   for the guild verifies the signature, 500 on errors, which the relay
+ *   may retry since a thread is only synced once
+ */
+
+import { getAdapter } from '../../adapters/base'
+import { DISCORD_SEND_TO_NOTION_COMMAND } from '../../adapters/discord'
+import type { DiscordMessageCommandInteraction, DiscordMessageCreateEvent } from '../../adapters/discord'
+import { DiscordService, isDiscordThreadChannel } from '../../services/discord'
+import { getDecryptedApiToken } from '../../utils/encryptedConfig'
+import { verifyDiscordRelaySignature, verifyDiscordSignature } from '../../utils/discordSignature'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findExistingDiscussion,
+  queueProcessing,
+} from '../../utils/discussionIngestion'
+import type { SourceConfigRecord } from '../../utils/discussionIngestion'
+
+// Interaction types and callback types
+const INTERACTION_PING = 1
+const INTERACTION_APPLICATION_COMMAND = 2
+const CALLBACK_PONG = 1
+const CALLBACK_CHANNEL_MESSAGE = 4
+const EPHEMERAL_FLAG = 64
+
+function ephemeral(content: string) {
+  return {
+    type: CALLBACK_CHANNEL_MESSAGE,
+    data: { content, flags: EPHEMERAL_FLAG },
+  }
+}
+
+async function findGuildConfig(guildId: string | undefined): Promise<SourceConfigRecord[]> {
+  if (!guildId) {
+    return []
+  }
+
+  const sourceConfigs = await findActiveSourceConfigs('discord')
+  return sourceConfigs.filter(sourceConfig => sourceConfig.sourceMetadata?.guildId === guildId)
+}
+
+/**
+ * Create the discussion unless the thread was already synced
+ */
+async function ingest(
+  payload: DiscordMessageCommandInteraction | DiscordMessageCreateEvent,
+  matchingConfig: SourceConfigRecord,
+  createdBy: string
+) {
+  const adapter = getAdapter('discord')
+  const parsedDiscussion = await adapter.parseIncoming(payload)
+
+  const existing = await findExistingDiscussion(
+    matchingConfig.teamId,
+    'discord',
+    parsedDiscussion.sourceThreadId,
+  )
+
+  if (existing) {
+    console.log('[Discord Webhook] Discussion already exists:', existing.id)
+    return { discussionId: existing.id, duplicate: true }
+  }
+
+  const discussion = await createDiscussionRecord(parsedDiscussion, matchingConfig, {
+    createdBy,
+    rawPayload: payload as unknown as Record<string, unknown>,
+  })
+
+  console.log('[Discord Webhook] Discussion created:', discussion.id)
+
+  await queueProcessing(discussion, '[Discord Webhook]')
+
+  return { discussionId: discussion.id, duplicate: false }
+}
+
+export default defineEventHandler(async (event) => {
+  console.log('[Discord Webhook] Received request')
+
+  try {
+    const rawBody = await readRawBody(event, 'utf-8')
+    if (!rawBody) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'No request body',
+      })
+    }
+
+    const config = useRuntimeConfig()
+    const interactionSignature = getHeader(event, 'x-signature-ed25519')
+    const interactionTimestamp = getHeader(event, 'x-signature-timestamp')
+    const relaySignature = getHeader(event, 'x-discubot-signature')
+
+    // ============================================
+    // INTERACTIONS (signed by Discord)
+    // ============================================
+
+    if (interactionSignature && interactionTimestamp) {
+      const publicKey = config.discordPublicKey as string | undefined
+
+      if (!publicKey) {
+        console.error('[Discord Webhook] No public key configured')
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Internal Server Error',
+          message: 'Discord public key not configured',
+        })
+      }
+
+      if (!verifyDiscordSignature(rawBody, interactionSignature, interactionTimestamp, publicKey)) {
+        console.warn('[Discord Webhook] Invalid interaction signature')
+        throw createError({
+          statusCode: 401,
+          statusMessage: 'Unauthorized',
+          message: 'Invalid request signature',
+        })
+      }
+
+      const interaction = JSON.parse(rawBody)
+
+      // Discord pings the endpoint when it is saved in the developer portal
+      if (interaction.type === INTERACTION_PING) {
+        return { type: CALLBACK_PONG }
+      }
+
+      if (
+        interaction.type !== INTERACTION_APPLICATION_COMMAND
+        || interaction.data?.name !== DISCORD_SEND_TO_NOTION_COMMAND.name
+      ) {
+        console.log('[Discord Webhook] Ignoring interaction:', interaction.type, interaction.data?.name)
+        return ephemeral('This command is not supported.')
+      }
+
+      const [matchingConfig] = await findGuildConfig(interaction.guild_id)
+
+      if (!matchingConfig) {
+        console.warn('[Discord Webhook] No matching source config found for guild:', interaction.guild_id)
+        return ephemeral('Discubot is not set up for this server yet.')
+      }
+
+      const result = await ingest(interaction, matchingConfig, 'discord-interaction')
+
+      return ephemeral(result.duplicate
+        ? 'This conversation was already sent to Notion.'
+        : '📝 Sending this conversation to Notion…')
+    }
+
+    // ============================================
+    // GATEWAY MENTIONS (signed by the relay)
+    // ============================================
+
+    if (relaySignature) {
+      const payload = JSON.parse(rawBody) as DiscordMessageCreateEvent
+
+      const candidates = await findGuildConfig(payload.d?.guild_id)
+      const matchingConfig = candidates.find(sourceConfig =>
+        !!sourceConfig.webhookSecret && verifyDiscordRelaySignature(rawBody, relaySignature, sourceConfig.webhookSecret),
+      )
+
+      if (!matchingConfig) {
+        console.warn('[Discord Webhook] No source config verified the relay signature')
+        throw createError({
+          statusCode: 401,
+          statusMessage: 'Unauthorized',
+          message: 'Invalid relay signature',
+        })
+      }
+
+      if (payload.t !== 'MESSAGE_CREATE' || payload.d.author?.bot) {
+        console.log('[Discord Webhook] Ignoring gateway event:', payload.t)
+        return { ok: true }
+      }
+
+      const botUserId = (matchingConfig.sourceMetadata?.botUserId as string | undefined) || config.discordApplicationId
+      const mentioned = (payload.d.mentions || []).some(user => user.id === botUserId)
+
+      if (!mentioned) {
+        console.log('[Discord Webhook] Bot not mentioned, ignoring message')
+        return { ok: true }
+      }
+
+      // Mentions are only synced inside threads (including forum posts)
+      const botToken = await getDecryptedApiToken({ apiToken: matchingConfig.apiToken || undefined })
+      if (!botToken) {
+        throw new Error('Discord bot token not configured')
+      }
+
+      const channel = await new DiscordService(botToken).getChannel(payload.d.channel_id)
+      if (!isDiscordThreadChannel(channel.type)) {
+        console.log('[Discord Webhook] Mention outside a thread, ignoring')
+        return { ok: true }
+      }
+
+      const result = await ingest(payload, matchingConfig, 'discord-webhook')
+
+      return {
+        ok: true,
+        ...result,
+      }
+    }
+
+    console.warn('[Discord Webhook] Missing signature headers')
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized',
+      message: 'Missing signature headers',
+    })
+  }
+  catch (error) {
+    console.error('[Discord Webhook] Error processing request:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
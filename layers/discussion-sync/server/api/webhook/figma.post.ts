@@ -0,0 +1,136 @@
+/**
+ * Figma Webhook
+ *
+ * Handles incoming Figma Webhooks V2 events including:
+ * - PING sent when the webhook is created
+ * - FILE_COMMENT events, verified with the webhook passcode
+ *   (stored as the source config's webhook secret)
+ * - Discussion creation and processing
+ *
+ * Source configs with `sourceMetadata.ingestion === 'email'` keep using the
+ * Mailgun path (/api/webhook/mailgun/figma) and are ignored here.
+ */
+
+import { getAdapter } from '../../adapters/base'
+import type { FigmaFileCommentEvent } from '../../adapters/figma'
+import { verifyFigmaPasscode } from '../../utils/figmaWebhook'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findExistingDiscussion,
+  queueProcessing,
+} from '../../utils/discussionIngestion'
+
+export default defineEventHandler(async (event) => {
+  console.log('[Figma Webhook] Received request')
+
+  try {
+    // 1. Parse request body
+    const payload = await readBody<FigmaFileCommentEvent | { event_type: string, passcode?: string, webhook_id?: string }>(event)
+
+    if (!payload || !payload.event_type) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'Invalid Figma webhook payload',
+      })
+    }
+
+    console.log('[Figma Webhook] Event type:', payload.event_type)
+
+    // 2. Find the source config whose passcode matches
+    const sourceConfigs = await findActiveSourceConfigs('figma')
+    const candidates = sourceConfigs.filter((sourceConfig) => {
+      const metadata = sourceConfig.sourceMetadata || {}
+      return metadata.ingestion !== 'email'
+        && (!metadata.webhookId || String(metadata.webhookId) === String(payload.webhook_id))
+    })
+
+    const matchingConfig = candidates.find(sourceConfig =>
+      !!sourceConfig.webhookSecret && verifyFigmaPasscode(payload.passcode, sourceConfig.webhookSecret),
+    )
+
+    if (!matchingConfig) {
+      console.warn('[Figma Webhook] No source config matched the webhook passcode')
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid webhook passcode',
+      })
+    }
+
+    // 3. Acknowledge PING and ignore other event types
+    if (payload.event_type !== 'FILE_COMMENT') {
+      console.log('[Figma Webhook] Ignoring event:', payload.event_type)
+      return { ok: true }
+    }
+
+    const commentEvent = payload as FigmaFileCommentEvent
+
+    // 4. Only sync comments that mention the bot account (when configured)
+    const botUserId = matchingConfig.sourceMetadata?.botUserId as string | undefined
+
+    if (botUserId) {
+      if (commentEvent.triggered_by?.id === botUserId) {
+        console.log('[Figma Webhook] Ignoring comment posted by the bot')
+        return { ok: true }
+      }
+
+      const mentioned = (commentEvent.mentions || []).some(user => user.id === botUserId)
+
+      if (!mentioned) {
+        console.log('[Figma Webhook] Bot not mentioned, ignoring comment')
+        return { ok: true }
+      }
+    }
+
+    // 5. Parse event with Figma adapter
+    const adapter = getAdapter('figma')
+    const parsedDiscussion = await adapter.parseIncoming(commentEvent)
+
+    // 6. Check for an existing discussion on the same comment thread
+    const existing = await findExistingDiscussion(
+      matchingConfig.teamId,
+      'figma',
+      parsedDiscussion.sourceThreadId,
+    )
+
+    if (existing) {
+      console.log('[Figma Webhook] Discussion already exists:', existing.id)
+      return {
+        ok: true,
+        discussionId: existing.id,
+        duplicate: true,
+      }
+    }
+
+    // 7. Create discussion record
+    const discussion = await createDiscussionRecord(parsedDiscussion, matchingConfig, {
+      createdBy: 'figma-webhook',
+      rawPayload: commentEvent as unknown as Record<string, unknown>,
+    })
+
+    console.log('[Figma Webhook] Discussion created:', discussion.id)
+
+    // 8. Queue for processing
+    await queueProcessing(discussion, '[Figma Webhook]')
+
+    return {
+      ok: true,
+      discussionId: discussion.id,
+    }
+  }
+  catch (error) {
+    console.error('[Figma Webhook] Error processing webhook:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
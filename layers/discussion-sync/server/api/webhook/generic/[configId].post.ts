@@ -0,0 +1,153 @@
+/**
+ * Generic Webhook
+ *
+ * Accepts arbitrary JSON payloads from internal tools and form builders,
+ * one endpoint per source config: /api/webhook/generic/<sourceConfigId>
+ *
+ * - Signature verification: hex HMAC SHA256 of the raw body keyed with the
+ *   source config's webhook secret, sent as "sha256=<hex>" in the
+ *   X-Discubot-Signature header (or the header named by
+ *   sourceMetadata.signatureHeader)
+ * - Field mapping from sourceMetadata.mapping (see webhookMapping.ts)
+ * - Discussion creation and processing
+ */
+
+import { getAdapter } from '../../../adapters/base'
+import type { GenericWebhookEnvelope } from '../../../adapters/genericWebhook'
+import { verifyWebhookSignature } from '../../../utils/webhookSignature'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findSourceConfigDiscussion,
+  queueProcessing,
+} from '../../../utils/discussionIngestion'
+
+const DEFAULT_SIGNATURE_HEADER = 'x-discubot-signature'
+
+export default defineEventHandler(async (event) => {
+  console.log('[Generic Webhook] Received request')
+
+  try {
+    // 1. Find the source config addressed by the URL
+    const configId = getRouterParam(event, 'configId')
+    const sourceConfigs = await findActiveSourceConfigs('generic-webhook')
+    const sourceConfig = sourceConfigs.find(config => config.id === configId)
+
+    if (!sourceConfig) {
+      console.warn('[Generic Webhook] No active source config found:', configId)
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Not Found',
+        message: 'Unknown webhook',
+      })
+    }
+
+    // 2. Read raw body and verify the signature
+    const rawBody = await readRawBody(event, 'utf-8')
+    if (!rawBody) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'No request body',
+      })
+    }
+
+    const signatureHeader = (sourceConfig.sourceMetadata?.signatureHeader as string | undefined) || DEFAULT_SIGNATURE_HEADER
+    const signature = getHeader(event, signatureHeader)
+
+    if (!sourceConfig.webhookSecret || !signature) {
+      console.warn('[Generic Webhook] Missing webhook secret or signature header:', signatureHeader)
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Missing webhook signature',
+      })
+    }
+
+    if (!verifyWebhookSignature(rawBody, signature, sourceConfig.webhookSecret)) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid webhook signature',
+      })
+    }
+
+    // 3. Parse JSON payload
+    let payload: unknown
+    try {
+      payload = JSON.parse(rawBody)
+    }
+    catch {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'Request body is not valid JSON',
+      })
+    }
+
+    // 4. Map payload with the source config's field mapping
+    const adapter = getAdapter('generic-webhook')
+    const envelope: GenericWebhookEnvelope = {
+      sourceConfigId: sourceConfig.id,
+      mapping: sourceConfig.sourceMetadata?.mapping,
+      payload,
+    }
+
+    let parsedDiscussion
+    try {
+      parsedDiscussion = await adapter.parseIncoming(envelope)
+    }
+    catch (error) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: 'Unprocessable Entity',
+        message: error instanceof Error ? error.message : 'Payload does not match field mapping',
+      })
+    }
+
+    // 5. Check for duplicates (senders may retry deliveries)
+    const existing = await findSourceConfigDiscussion(
+      sourceConfig.id,
+      'generic-webhook',
+      parsedDiscussion.sourceThreadId,
+    )
+
+    if (existing) {
+      console.log('[Generic Webhook] Discussion already exists:', existing.id)
+      return {
+        ok: true,
+        discussionId: existing.id,
+        duplicate: true,
+      }
+    }
+
+    // 6. Create discussion record
+    const discussion = await createDiscussionRecord(parsedDiscussion, sourceConfig, {
+      createdBy: 'generic-webhook',
+      rawPayload: payload as Record<string, unknown>,
+    })
+
+    console.log('[Generic Webhook] Discussion created:', discussion.id)
+
+    // 7. Queue for processing
+    await queueProcessing(discussion, '[Generic Webhook]')
+
+    return {
+      ok: true,
+      discussionId: discussion.id,
+    }
+  }
+  catch (error) {
+    console.error('[Generic Webhook] Error processing webhook:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
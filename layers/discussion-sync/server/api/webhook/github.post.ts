@@ -0,0 +1,166 @@
+/**
+ * GitHub Webhook
+ *
+ * Handles incoming webhooks from GitHub including:
+ * - ping events sent when the webhook is created
+ * - issue_comment events (issues and PR conversations)
+ * - pull_request_review_comment events (PR diff threads)
+ * - X-Hub-Signature-256 verification
+ * - Discussion creation and processing
+ */
+
+import { getAdapter } from '../../adapters/base'
+import { verifyGitHubSignature } from '../../utils/githubSignature'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findExistingDiscussion,
+  queueProcessing,
+} from '../../utils/discussionIngestion'
+
+const SUPPORTED_EVENTS = ['issue_comment', 'pull_request_review_comment']
+
+export default defineEventHandler(async (event) => {
+  console.log('[GitHub Webhook] Received event')
+
+  try {
+    // 1. Get webhook secret
+    const config = useRuntimeConfig()
+    const secret = config.githubWebhookSecret
+
+    if (!secret) {
+      console.error('[GitHub Webhook] No webhook secret configured')
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Internal Server Error',
+        message: 'GitHub webhook secret not configured',
+      })
+    }
+
+    // 2. Verify signature
+    const signature = getHeader(event, 'x-hub-signature-256')
+    const githubEvent = getHeader(event, 'x-github-event')
+    const deliveryId = getHeader(event, 'x-github-delivery')
+
+    if (!signature || !githubEvent) {
+      console.warn('[GitHub Webhook] Missing signature or event headers')
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Missing signature headers',
+      })
+    }
+
+    const rawBody = await readRawBody(event, 'utf-8')
+    if (!rawBody) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'No request body',
+      })
+    }
+
+    if (!verifyGitHubSignature(rawBody, signature, secret)) {
+      console.warn('[GitHub Webhook] Invalid signature')
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid signature',
+      })
+    }
+
+    console.log('[GitHub Webhook] Event:', { githubEvent, deliveryId })
+
+    // 3. Handle ping and unsupported events
+    if (githubEvent === 'ping') {
+      return { ok: true }
+    }
+
+    if (!SUPPORTED_EVENTS.includes(githubEvent)) {
+      console.log('[GitHub Webhook] Ignoring event type:', githubEvent)
+      return { ok: true }
+    }
+
+    const payload = JSON.parse(rawBody)
+
+    // Only new comments start a discussion; ignore bots to avoid reacting to our own replies
+    if (payload.action !== 'created' || payload.comment?.user?.type === 'Bot') {
+      console.log('[GitHub Webhook] Ignoring action:', payload.action)
+      return { ok: true }
+    }
+
+    // 4. Parse payload with the GitHub adapter
+    const adapter = getAdapter('github')
+    const parsedDiscussion = await adapter.parseIncoming(payload)
+
+    // 5. Find matching source config by repository or owner
+    const repositoryFullName = parsedDiscussion.metadata.repositoryFullName as string
+    const owner = parsedDiscussion.metadata.owner as string
+
+    const sourceConfigs = await findActiveSourceConfigs('github')
+    const matchingConfig = sourceConfigs.find(sourceConfig => {
+      const metadata = sourceConfig.sourceMetadata || {}
+      return metadata.repository === repositoryFullName || (!metadata.repository && metadata.owner === owner)
+    })
+
+    if (!matchingConfig) {
+      console.warn('[GitHub Webhook] No matching source config found for repository:', repositoryFullName)
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Not Found',
+        message: 'No source configuration found for this repository',
+      })
+    }
+
+    // 6. Optionally require an @mention of the bot account
+    const mentionHandle = matchingConfig.sourceMetadata?.mentionHandle as string | undefined
+    if (mentionHandle && !parsedDiscussion.content.includes(`@${mentionHandle}`)) {
+      console.log('[GitHub Webhook] Comment does not mention', mentionHandle)
+      return { ok: true }
+    }
+
+    // 7. Duplicate prevention
+    const existing = await findExistingDiscussion(
+      matchingConfig.teamId,
+      'github',
+      parsedDiscussion.sourceThreadId,
+    )
+
+    if (existing) {
+      console.log('[GitHub Webhook] Discussion already exists:', existing.id)
+      return {
+        ok: true,
+        discussionId: existing.id,
+        duplicate: true,
+      }
+    }
+
+    // 8. Create discussion record and queue it for processing
+    const discussion = await createDiscussionRecord(parsedDiscussion, matchingConfig, {
+      createdBy: 'github-webhook',
+      rawPayload: payload,
+    })
+
+    console.log('[GitHub Webhook] Discussion created:', discussion.id)
+
+    await queueProcessing(discussion, '[GitHub Webhook]')
+
+    return {
+      ok: true,
+      discussionId: discussion.id,
+    }
+  }
+  catch (error) {
+    console.error('[GitHub Webhook] Error processing webhook:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
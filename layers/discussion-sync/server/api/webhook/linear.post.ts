@@ -0,0 +1,154 @@
+/**
+ * Linear Webhook
+ *
+ * Handles incoming webhooks from Linear including:
+ * - Comment create events on issues
+ * - Linear-Signature verification with the webhook signing secret
+ * - Discussion creation and processing
+ *
+ * Each Linear workspace creates its own webhook, so the signing secret is read
+ * from the matching source config (`webhookSecret`), falling back to the
+ * app-wide LINEAR_WEBHOOK_SECRET.
+ */
+
+import { getAdapter } from '../../adapters/base'
+import { verifyLinearSignature } from '../../utils/linearSignature'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findExistingDiscussion,
+  queueProcessing,
+} from '../../utils/discussionIngestion'
+
+export default defineEventHandler(async (event) => {
+  console.log('[Linear Webhook] Received event')
+
+  try {
+    // 1. Read signature and body
+    const signature = getHeader(event, 'linear-signature')
+    const linearEvent = getHeader(event, 'linear-event')
+    const deliveryId = getHeader(event, 'linear-delivery')
+
+    if (!signature) {
+      console.warn('[Linear Webhook] Missing signature header')
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Missing signature header',
+      })
+    }
+
+    const rawBody = await readRawBody(event, 'utf-8')
+    if (!rawBody) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'No request body',
+      })
+    }
+
+    const payload = JSON.parse(rawBody)
+
+    console.log('[Linear Webhook] Event:', {
+      linearEvent,
+      deliveryId,
+      action: payload.action,
+      organizationId: payload.organizationId,
+    })
+
+    // 2. Find source configs for this Linear workspace
+    const sourceConfigs = await findActiveSourceConfigs('linear')
+    const candidates = sourceConfigs.filter(sourceConfig => {
+      const organizationId = sourceConfig.sourceMetadata?.organizationId
+      return !organizationId || organizationId === payload.organizationId
+    })
+
+    // 3. Verify signature against the config secrets (or the app-wide secret)
+    const fallbackSecret = useRuntimeConfig().linearWebhookSecret as string | undefined
+    const matchingConfig = candidates.find((sourceConfig) => {
+      const secret = sourceConfig.webhookSecret || fallbackSecret
+      return !!secret && verifyLinearSignature(rawBody, signature, payload.webhookTimestamp, secret)
+    })
+
+    if (!matchingConfig) {
+      console.warn('[Linear Webhook] No source config verified the signature:', payload.organizationId)
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid signature',
+      })
+    }
+
+    // 4. Only newly created comments start a discussion; ignore integrations to avoid loops
+    if (payload.type !== 'Comment' || payload.action !== 'create') {
+      console.log('[Linear Webhook] Ignoring event:', payload.type, payload.action)
+      return { ok: true }
+    }
+
+    if (payload.data?.botActor || payload.actor?.type === 'OauthClient') {
+      console.log('[Linear Webhook] Ignoring comment created by an integration')
+      return { ok: true }
+    }
+
+    // 5. Parse payload with the Linear adapter
+    const adapter = getAdapter('linear')
+    const parsedDiscussion = await adapter.parseIncoming(payload)
+
+    // 6. Optional filters from the source config
+    const linearTeamId = matchingConfig.sourceMetadata?.linearTeamId as string | undefined
+    if (linearTeamId && parsedDiscussion.metadata.linearTeamId !== linearTeamId) {
+      console.log('[Linear Webhook] Comment belongs to another Linear team')
+      return { ok: true }
+    }
+
+    const mentionHandle = matchingConfig.sourceMetadata?.mentionHandle as string | undefined
+    if (mentionHandle && !parsedDiscussion.content.includes(`@${mentionHandle}`)) {
+      console.log('[Linear Webhook] Comment does not mention', mentionHandle)
+      return { ok: true }
+    }
+
+    // 7. Duplicate prevention
+    const existing = await findExistingDiscussion(
+      matchingConfig.teamId,
+      'linear',
+      parsedDiscussion.sourceThreadId,
+    )
+
+    if (existing) {
+      console.log('[Linear Webhook] Discussion already exists:', existing.id)
+      return {
+        ok: true,
+        discussionId: existing.id,
+        duplicate: true,
+      }
+    }
+
+    // 8. Create discussion record and queue it for processing
+    const discussion = await createDiscussionRecord(parsedDiscussion, matchingConfig, {
+      createdBy: 'linear-webhook',
+      rawPayload: payload,
+    })
+
+    console.log('[Linear Webhook] Discussion created:', discussion.id)
+
+    await queueProcessing(discussion, '[Linear Webhook]')
+
+    return {
+      ok: true,
+      discussionId: discussion.id,
+    }
+  }
+  catch (error) {
+    console.error('[Linear Webhook] Error processing webhook:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
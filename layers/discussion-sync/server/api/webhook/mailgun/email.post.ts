@@ -0,0 +1,161 @@
+/**
+ * Mailgun Webhook Handler for Inbound Email
+ *
+ * Receives any email conversation forwarded to a source config's inbound
+ * address (matched against its email address or email slug), splits the
+ * reply chain, creates a discussion record and triggers async processing.
+ *
+ * Works with both Mailgun route actions:
+ * - forward(): fields are posted directly, attachments as multipart files,
+ *   which are stored in blob storage
+ * - store(notify=...): attachments are listed with their Mailgun URLs
+ */
+
+import { getAdapter } from '../../../adapters/base'
+import type { InboundEmailAttachment, InboundEmailPayload } from '../../../adapters/email'
+import { verifyMailgunRequest } from '../../../utils/mailgunSignature'
+import { getBlobUrl } from '../../../utils/attachmentStorage'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findSourceConfigDiscussion,
+  queueProcessing,
+} from '../../../utils/discussionIngestion'
+import type { SourceConfigRecord } from '../../../utils/discussionIngestion'
+
+export default defineEventHandler(async (event) => {
+  console.log('[Mailgun Email Webhook] Received inbound email')
+
+  try {
+    // 1. Read body (multipart when the email has attachments)
+    const isMultipart = (getHeader(event, 'content-type') || '').includes('multipart/form-data')
+    const { payload, files } = isMultipart
+      ? await readMultipartEmail(event)
+      : { payload: await readBody<InboundEmailPayload & Record<string, string>>(event), files: [] }
+
+    // 2. Verify Mailgun signature
+    if (!verifyMailgunRequest(payload)) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid Mailgun signature',
+      })
+    }
+
+    // 3. Find the source config for the inbound address
+    const sourceConfigs = await findActiveSourceConfigs('email')
+    const config = findConfigForRecipient(sourceConfigs, payload.recipient || '')
+
+    if (!config) {
+      console.warn('[Mailgun Email Webhook] No email source config for recipient:', payload.recipient)
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Not Found',
+        message: `No active email source config for recipient: ${payload.recipient}`,
+      })
+    }
+
+    // 4. Store inline attachments so they can be linked from the discussion
+    if (files.length > 0) {
+      payload.attachments = await storeAttachments(files)
+    }
+
+    // 5. Parse email with the email adapter
+    const adapter = getAdapter('email')
+    const parsedDiscussion = await adapter.parseIncoming(payload)
+
+    // 6. One discussion per conversation
+    const existing = await findSourceConfigDiscussion(config.id, 'email', parsedDiscussion.sourceThreadId)
+
+    if (existing) {
+      console.log('[Mailgun Email Webhook] Discussion already exists:', existing.id)
+      return {
+        success: true,
+        discussionId: existing.id,
+        duplicate: true,
+      }
+    }
+
+    // 7. Create discussion record (without the signature fields)
+    const { signature, token, ...rawPayload } = payload as Record<string, unknown>
+
+    const discussion = await createDiscussionRecord(parsedDiscussion, config, {
+      createdBy: 'email-webhook',
+      rawPayload,
+    })
+
+    console.log('[Mailgun Email Webhook] Discussion created:', discussion.id)
+
+    // 8. Queue for processing
+    await queueProcessing(discussion, '[Mailgun Email Webhook]')
+
+    return {
+      success: true,
+      discussionId: discussion.id,
+    }
+  }
+  catch (error) {
+    console.error('[Mailgun Email Webhook] Error:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
+
+/**
+ * Read a multipart Mailgun post into string fields and attachment files
+ */
+async function readMultipartEmail(event: Parameters<typeof readFormData>[0]) {
+  const form = await readFormData(event)
+  const payload: InboundEmailPayload & Record<string, string> = {}
+  const files: File[] = []
+
+  form.forEach((value, key) => {
+    if (typeof value === 'string') {
+      payload[key] = value
+    }
+    else if (key.startsWith('attachment-')) {
+      files.push(value)
+    }
+  })
+
+  return { payload, files }
+}
+
+/**
+ * Match the recipient against the configs' email address or email slug
+ * (the local part of the address, e.g. "feedback" in feedback@in.example.com)
+ */
+function findConfigForRecipient(configs: SourceConfigRecord[], recipient: string): SourceConfigRecord | undefined {
+  const addresses = recipient.toLowerCase().split(',').map(address => address.trim()).filter(Boolean)
+
+  return configs.find(config => addresses.some(address =>
+    (!!config.emailAddress && config.emailAddress.toLowerCase() === address)
+    || (!!config.emailSlug && address.split('@')[0] === config.emailSlug.toLowerCase()),
+  ))
+}
+
+/**
+ * Store attachment files in blob storage, served by /images/[pathname]
+ */
+async function storeAttachments(files: File[]): Promise<InboundEmailAttachment[]> {
+  return Promise.all(files.map(async (file) => {
+    const blob = await hubBlob().put(file.name || 'attachment', file, {
+      addRandomSuffix: true,
+    })
+
+    return {
+      url: getBlobUrl(blob.pathname),
+      name: file.name,
+      'content-type': file.type,
+      size: file.size,
+    }
+  }))
+}
@@ -2,11 +2,16 @@
  * Mailgun Webhook Handler for Figma Comments
  *
  * Receives forwarded Figma comment emails from Mailgun, parses them,
- * creates discussion records, and triggers async processing.
+ * creates discussion records, and queues them for processing.
+ *
+ * This is the fallback for source configs that don't use the native Figma
+ * webhook (/api/webhook/figma); configs with
+ * `sourceMetadata.ingestion === 'webhook'` are skipped.
  */
 
-import crypto from 'node:crypto'
 import { FigmaAdapter } from '../../../adapters/figma'
+import { verifyMailgunRequest } from '../../../utils/mailgunSignature'
+import { queueProcessing } from '../../../utils/discussionIngestion'
 import { eq, and } from 'drizzle-orm'
 
 export default defineEventHandler(async (event) => {
@@ -18,7 +23,7 @@ export default defineEventHandler(async (event) => {
 
     console.log('[Mailgun Webhook] Request body keys:', Object.keys(body))
 
-    if (!verifyMailgunSignature(body)) {
+    if (!verifyMailgunRequest(body)) {
       console.error('[Mailgun Webhook] Invalid signature')
       throw createError({
         statusCode: 401,
@@ -55,7 +60,7 @@ export default defineEventHandler(async (event) => {
 
     console.log('[Mailgun Webhook] Using team ID:', teamId)
 
-    // 4. Load source config for this team
+    // 4. Load email-ingested Figma source config for this team
     const db = useDb()
     const { discussionSyncSourceconfigs } = await import(
       '../../../../collections/sourceconfigs/server/database/schema'
@@ -67,12 +72,14 @@ export default defineEventHandler(async (event) => {
       .where(
         and(
           eq(discussionSyncSourceconfigs.teamId, teamId),
+          eq(discussionSyncSourceconfigs.sourceId, 'figma'),
           eq(discussionSyncSourceconfigs.active, true)
         )
       )
-      .limit(1)
 
-    const config = sourceConfigs[0]
+    const config = sourceConfigs.find(
+      sourceConfig => sourceConfig.sourceMetadata?.ingestion !== 'webhook'
+    )
 
     if (!config) {
       throw createError({
@@ -142,21 +149,11 @@ export default defineEventHandler(async (event) => {
 
     console.log('[Mailgun Webhook] Created discussion:', created.id)
 
-    // 7. Trigger async processing (fire-and-forget)
-    // We don't await this to return 200 OK immediately
-    $fetch('/api/internal/process-discussion', {
-      method: 'POST',
-      body: {
-        discussionId: created.id,
-        retry: false,
-      },
-    }).catch((error) => {
-      console.error('[Mailgun Webhook] Failed to trigger processing:', error)
-      // Non-fatal - webhook still succeeds
-      // The discussion is in the database and can be processed manually later
-    })
+    // 7. Queue for processing
+    // Non-fatal - the worker also queues pending discussions it finds
+    await queueProcessing(created, '[Mailgun Webhook]')
 
-    console.log('[Mailgun Webhook] Processing triggered, returning success')
+    console.log('[Mailgun Webhook] Processing queued, returning success')
 
     // 8. Return 200 OK immediately (don't wait for processing)
     return {
@@ -181,63 +178,3 @@ export default defineEventHandler(async (event) => {
     })
   }
 })
-
-/**
- * Verify Mailgun webhook signature
- * See: https://documentation.mailgun.com/en/latest/user_manual.html#webhooks
- */
-function verifyMailgunSignature(body: any): boolean {
-  const config = useRuntimeConfig()
-  const secret = config.mailgunWebhookSecret
-
-  // In development, allow requests without signature verification
-  if (!secret) {
-    console.warn(
-      '[Mailgun Webhook] No webhook secret configured - allowing request (development only)'
-    )
-    return true
-  }
-
-  // Extract signature fields
-  const timestamp = body.timestamp
-  const token = body.token
-  const signature = body.signature
-
-  if (!timestamp || !token || !signature) {
-    console.error('[Mailgun Webhook] Missing signature fields:', {
-      hasTimestamp: !!timestamp,
-      hasToken: !!token,
-      hasSignature: !!signature,
-    })
-    return false
-  }
-
-  // Verify timestamp is recent (within 15 minutes)
-  const now = Math.floor(Date.now() / 1000)
-  const age = now - Number.parseInt(timestamp, 10)
-
-  if (age > 900) {
-    // 15 minutes
-    console.error('[Mailgun Webhook] Timestamp too old:', age, 'seconds')
-    return false
-  }
-
-  // Compute expected signature
-  const data = `${timestamp}${token}`
-  const expectedSignature = crypto
-    .createHmac('sha256', secret)
-    .update(data)
-    .digest('hex')
-
-  // Compare signatures
-  const isValid = expectedSignature === signature
-
-  if (!isValid) {
-    console.error('[Mailgun Webhook] Signature mismatch:', {
-      expected: expectedSignature.substring(0, 20) + '...',
-      received: signature.substring(0, 20) + '...',
-    })
-  }
-
-  return isValid
-}
@@ -0,0 +1,152 @@
+/**
+ * Mattermost Webhook
+ *
+ * Handles incoming requests for Mattermost including:
+ * - Outgoing webhooks (e.g. trigger word "@discubot"), JSON or form encoded
+ * - @mentions of the bot forwarded from the WebSocket API by a relay
+ * - Token verification against the source config's webhook secret
+ * - Discussion creation and processing
+ */
+
+import { getAdapter } from '../../adapters/base'
+import { isMattermostPostedEvent } from '../../adapters/mattermost'
+import type { MattermostPayload } from '../../adapters/mattermost'
+import { MattermostService } from '../../services/mattermost'
+import type { MattermostPost } from '../../services/mattermost'
+import { getDecryptedApiToken } from '../../utils/encryptedConfig'
+import { verifyMattermostToken } from '../../utils/mattermostToken'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findExistingDiscussion,
+  queueProcessing,
+} from '../../utils/discussionIngestion'
+
+export default defineEventHandler(async (event) => {
+  console.log('[Mattermost Webhook] Received request')
+
+  try {
+    // 1. Read body (outgoing webhooks may be form encoded)
+    const rawBody = await readRawBody(event, 'utf-8')
+    if (!rawBody) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'No request body',
+      })
+    }
+
+    const contentType = getHeader(event, 'content-type') || ''
+    const payload = (contentType.includes('application/x-www-form-urlencoded')
+      ? Object.fromEntries(new URLSearchParams(rawBody))
+      : JSON.parse(rawBody)) as MattermostPayload
+
+    // 2. Find the source config whose token matches
+    const sourceConfigs = await findActiveSourceConfigs('mattermost')
+    const matchingConfig = sourceConfigs.find(sourceConfig =>
+      !!sourceConfig.webhookSecret && verifyMattermostToken(payload.token, sourceConfig.webhookSecret),
+    )
+
+    if (!matchingConfig) {
+      console.warn('[Mattermost Webhook] No source config matched the token')
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid token',
+      })
+    }
+
+    const serverUrl = matchingConfig.sourceMetadata?.serverUrl as string | undefined
+    const botToken = await getDecryptedApiToken({ apiToken: matchingConfig.apiToken || undefined })
+
+    if (!serverUrl || !botToken) {
+      throw new Error('Mattermost server URL or bot token not configured')
+    }
+
+    const service = new MattermostService({ serverUrl, token: botToken })
+    const botUserId = (matchingConfig.sourceMetadata?.botUserId as string | undefined)
+      || (await service.getMe()).id
+
+    // 3. Filter events and resolve the thread root
+    let enrichedPayload: MattermostPayload
+
+    if (isMattermostPostedEvent(payload)) {
+      const post = JSON.parse(payload.data.post) as MattermostPost
+      const mentions = payload.data.mentions ? JSON.parse(payload.data.mentions) as string[] : []
+
+      if (post.user_id === botUserId || post.type?.startsWith('system_')) {
+        console.log('[Mattermost Webhook] Ignoring bot or system post')
+        return { ok: true }
+      }
+
+      if (!mentions.includes(botUserId)) {
+        console.log('[Mattermost Webhook] Bot not mentioned, ignoring post')
+        return { ok: true }
+      }
+
+      enrichedPayload = { ...payload, server_url: serverUrl }
+    }
+    else {
+      if (payload.user_id === botUserId) {
+        console.log('[Mattermost Webhook] Ignoring post by the bot')
+        return { ok: true }
+      }
+
+      // Outgoing webhooks don't say whether the post is a reply
+      const post = await service.getPost(payload.post_id)
+      enrichedPayload = { ...payload, server_url: serverUrl, root_id: post.root_id }
+    }
+
+    // 4. Parse payload with Mattermost adapter
+    const adapter = getAdapter('mattermost')
+    const parsedDiscussion = await adapter.parseIncoming(enrichedPayload)
+
+    // 5. Check for an existing discussion on the same thread
+    const existing = await findExistingDiscussion(
+      matchingConfig.teamId,
+      'mattermost',
+      parsedDiscussion.sourceThreadId,
+    )
+
+    if (existing) {
+      console.log('[Mattermost Webhook] Discussion already exists:', existing.id)
+      return {
+        ok: true,
+        discussionId: existing.id,
+        duplicate: true,
+      }
+    }
+
+    // 6. Create discussion record (without the token)
+    const { token: _token, ...rawPayload } = enrichedPayload
+
+    const discussion = await createDiscussionRecord(parsedDiscussion, matchingConfig, {
+      createdBy: 'mattermost-webhook',
+      rawPayload: rawPayload as unknown as Record<string, unknown>,
+    })
+
+    console.log('[Mattermost Webhook] Discussion created:', discussion.id)
+
+    // 7. Queue for processing
+    await queueProcessing(discussion, '[Mattermost Webhook]')
+
+    // Outgoing webhook responses without `text` don't post anything
+    return {
+      ok: true,
+      discussionId: discussion.id,
+    }
+  }
+  catch (error) {
+    console.error('[Mattermost Webhook] Error processing webhook:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
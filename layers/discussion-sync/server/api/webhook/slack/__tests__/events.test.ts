@@ -246,7 +246,8 @@ describe('Slack Events Webhook', () => {
           sourceId: 'slack',
           teamId: 'team-1',
           owner: 'owner-1',
-          metadata: { workspaceId: 'T123ABC' },
+          active: true,
+          sourceMetadata: { workspaceId: 'T123ABC' },
         },
       ])
       mockDb.get.mockResolvedValueOnce({
@@ -390,7 +391,8 @@ describe('Slack Events Webhook', () => {
       mockDb.all.mockResolvedValueOnce([
         {
           id: 'config-1',
-          metadata: { workspaceId: 'T123ABC' },
+          active: true,
+          sourceMetadata: { workspaceId: 'T123ABC' },
           teamId: 'team-1',
           owner: 'owner-1',
         },
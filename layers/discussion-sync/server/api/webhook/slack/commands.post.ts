@@ -0,0 +1,196 @@
+/**
+ * Slack Slash Command Webhook
+ *
+ * Handles the `/discubot` slash command:
+ * - `/discubot summarize <message link>` sends the linked message's thread to Notion
+ * - `/discubot status [message link]` shows the status of a thread, or of the
+ *   most recent discussions in the workspace
+ * - anything else shows usage help
+ *
+ * Slack expects an answer within 3 seconds, so the request is acknowledged
+ * right away and the result is posted as an ephemeral message through the
+ * command's `response_url`.
+ */
+
+import type { SlackSlashCommandPayload } from '../../../adapters/slack'
+import { SlackService } from '../../../services/slack'
+import { getDecryptedApiToken } from '../../../utils/encryptedConfig'
+import {
+  findExistingDiscussion,
+  findRecentSourceConfigDiscussions,
+} from '../../../utils/discussionIngestion'
+import type { DiscussionRecord, SourceConfigRecord } from '../../../utils/discussionIngestion'
+import {
+  createSlackDiscussion,
+  findSlackSourceConfig,
+  parseSlackPermalink,
+  readVerifiedSlackBody,
+  sendEphemeralResponse,
+} from '../../../utils/slackRequest'
+
+const LOG_PREFIX = '[Slack Commands]'
+const RECENT_DISCUSSIONS_LIMIT = 5
+
+const STATUS_EMOJIS: Record<string, string> = {
+  pending: ':clock1:',
+  processing: ':hourglass_flowing_sand:',
+  completed: ':white_check_mark:',
+  failed: ':x:',
+}
+
+function usage(command: string): string {
+  return [
+    `*${command} summarize <message link>* – send a message's thread to Notion`,
+    `*${command} status [message link]* – show the sync status of a thread or of recent discussions`,
+    'You can also use the *Send to Notion* shortcut from any message\'s ⋮ menu.',
+  ].join('\n')
+}
+
+function describeDiscussion(discussion: DiscussionRecord): string {
+  const emoji = STATUS_EMOJIS[discussion.status] || ':grey_question:'
+  const title = discussion.sourceUrl ? `<${discussion.sourceUrl}|${discussion.title}>` : discussion.title
+  return `${emoji} ${title} – ${discussion.status}`
+}
+
+/**
+ * Fetch the message a command's link points to
+ */
+async function resolveLinkedMessage(config: SourceConfigRecord, text: string) {
+  const reference = parseSlackPermalink(text)
+
+  if (!reference) {
+    return null
+  }
+
+  const botToken = await getDecryptedApiToken({ apiToken: config.apiToken || undefined })
+
+  if (!botToken) {
+    throw new Error('Slack bot token not configured')
+  }
+
+  const message = await new SlackService(botToken).getMessage(reference.channelId, reference.messageTs)
+  return message ? { channelId: reference.channelId, message } : null
+}
+
+async function summarize(payload: SlackSlashCommandPayload, config: SourceConfigRecord, args: string): Promise<string> {
+  if (!parseSlackPermalink(args)) {
+    return `Paste a message link to summarize its thread, e.g. \`${payload.command} summarize https://your-team.slack.com/archives/C123/p1700000000000100\``
+  }
+
+  const linked = await resolveLinkedMessage(config, args)
+
+  if (!linked) {
+    return 'I couldn\'t find that message. Make sure I\'m a member of its channel.'
+  }
+
+  const { duplicate } = await createSlackDiscussion(
+    { ...payload, message: linked.message, message_channel_id: linked.channelId },
+    config,
+    { createdBy: 'slack-command', logPrefix: LOG_PREFIX },
+  )
+
+  return duplicate
+    ? 'This conversation was already sent to Notion.'
+    : '📝 Sending this conversation to Notion…'
+}
+
+async function status(config: SourceConfigRecord, args: string): Promise<string> {
+  if (parseSlackPermalink(args)) {
+    const linked = await resolveLinkedMessage(config, args)
+
+    if (!linked) {
+      return 'I couldn\'t find that message. Make sure I\'m a member of its channel.'
+    }
+
+    const threadTs = linked.message.thread_ts || linked.message.ts
+    const discussion = await findExistingDiscussion(config.teamId, 'slack', threadTs)
+
+    return discussion
+      ? describeDiscussion(discussion)
+      : 'This conversation hasn\'t been sent to Notion yet.'
+  }
+
+  const discussions = await findRecentSourceConfigDiscussions(config.id, RECENT_DISCUSSIONS_LIMIT)
+
+  if (discussions.length === 0) {
+    return 'No conversations have been sent to Notion yet.'
+  }
+
+  return ['*Recent discussions*', ...discussions.map(describeDiscussion)].join('\n')
+}
+
+/**
+ * Run the command and post the result through response_url
+ */
+async function handleCommand(payload: SlackSlashCommandPayload, config: SourceConfigRecord): Promise<void> {
+  const [subcommand = '', ...rest] = (payload.text || '').trim().split(/\s+/)
+  const args = rest.join(' ')
+
+  let reply: string
+
+  try {
+    switch (subcommand.toLowerCase()) {
+      case 'summarize':
+        reply = await summarize(payload, config, args)
+        break
+      case 'status':
+        reply = await status(config, args)
+        break
+      default:
+        reply = usage(payload.command)
+    }
+  }
+  catch (error) {
+    console.error(`${LOG_PREFIX} Command failed:`, error)
+    reply = 'Something went wrong while running this command. Please try again.'
+  }
+
+  await sendEphemeralResponse(payload.response_url, reply, LOG_PREFIX)
+}
+
+export default defineEventHandler(async (event) => {
+  console.log(`${LOG_PREFIX} Received slash command`)
+
+  try {
+    // 1. Verify signature (slash commands are form encoded)
+    const rawBody = await readVerifiedSlackBody(event, LOG_PREFIX)
+    const payload = Object.fromEntries(new URLSearchParams(rawBody)) as unknown as SlackSlashCommandPayload
+
+    if (!payload.response_url) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'Missing response_url',
+      })
+    }
+
+    console.log(`${LOG_PREFIX} Command:`, payload.command, payload.text)
+
+    // 2. Find the source config for this workspace
+    const matchingConfig = await findSlackSourceConfig(payload.team_id)
+
+    if (!matchingConfig) {
+      console.warn(`${LOG_PREFIX} No matching source config found for workspace:`, payload.team_id)
+      await sendEphemeralResponse(payload.response_url, 'Discubot is not set up for this workspace yet.', LOG_PREFIX)
+      return ''
+    }
+
+    // 3. Acknowledge now, answer through response_url
+    event.waitUntil(handleCommand(payload, matchingConfig))
+
+    return ''
+  }
+  catch (error) {
+    console.error(`${LOG_PREFIX} Error processing command:`, error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
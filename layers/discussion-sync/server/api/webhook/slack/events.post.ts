@@ -4,15 +4,28 @@
  * Handles incoming events from Slack including:
  * - URL verification challenges
  * - app_mention events
+ * - reaction_added events with the source config's trigger emoji
+ * - app_uninstalled / tokens_revoked events, which deactivate the workspace's config
  * - Event signature verification
  * - Discussion creation and processing
  */
 
 import { db } from '~~/server/database'
-import { discussionSyncDiscussions, discussionSyncSourceconfigs } from '~~/server/database/schema'
+import { discussionSyncDiscussions } from '~~/server/database/schema'
 import { eq } from 'drizzle-orm'
 import { getAdapter } from '../../../adapters/base'
+import type { SlackEventPayload } from '../../../adapters/slack'
+import { SlackService } from '../../../services/slack'
+import { getDecryptedApiToken } from '../../../utils/encryptedConfig'
 import { verifySlackSignature } from '../../../utils/slackSignature'
+import {
+  getReactionTriggerSettings,
+  matchesReactionTrigger,
+} from '../../../utils/slackReactionTrigger'
+import type { SlackReactionAddedEvent } from '../../../utils/slackReactionTrigger'
+import { queueProcessing } from '../../../utils/discussionIngestion'
+import { createSlackDiscussion, findSlackSourceConfig } from '../../../utils/slackRequest'
+import { deactivateSlackInstallation } from '../../../utils/slackInstallations'
 
 // Event types
 interface SlackUrlVerificationEvent {
@@ -37,6 +50,11 @@ interface SlackEventCallbackEvent {
   }
   event_id: string
   event_time: number
+  authorizations?: Array<{
+    team_id: string
+    user_id: string
+    is_bot: boolean
+  }>
 }
 
 type SlackWebhookPayload = SlackUrlVerificationEvent | SlackEventCallbackEvent
@@ -112,7 +130,15 @@ export default defineEventHandler(async (event) => {
     if (payload.type === 'event_callback') {
       const eventPayload = payload as SlackEventCallbackEvent
 
-      // Only handle app_mention events
+      if (eventPayload.event.type === 'reaction_added') {
+        return await handleReactionAdded(eventPayload)
+      }
+
+      if (eventPayload.event.type === 'app_uninstalled' || eventPayload.event.type === 'tokens_revoked') {
+        return await handleUninstall(eventPayload)
+      }
+
+      // Otherwise only handle app_mention events
       if (eventPayload.event.type !== 'app_mention') {
         console.log('[Slack Webhook] Ignoring event type:', eventPayload.event.type)
         return { ok: true }
@@ -140,19 +166,8 @@ export default defineEventHandler(async (event) => {
         teamId: parsedDiscussion.teamId,
       })
 
-      // 9. Find matching source config
-      // We need to find a Slack source config for this team/workspace
-      const sourceConfigs = await db
-        .select()
-        .from(discussionSyncSourceconfigs)
-        .where(eq(discussionSyncSourceconfigs.sourceId, 'slack'))
-        .all()
-
-      const matchingConfig = sourceConfigs.find(config => {
-        // Match by workspace/team ID stored in metadata
-        const workspaceId = config.metadata?.workspaceId
-        return workspaceId === parsedDiscussion.teamId
-      })
+      // 9. Find the active source config installed in this workspace
+      const matchingConfig = await findSlackSourceConfig(parsedDiscussion.teamId)
 
       if (!matchingConfig) {
         console.warn('[Slack Webhook] No matching source config found for workspace:', parsedDiscussion.teamId)
@@ -194,22 +209,8 @@ export default defineEventHandler(async (event) => {
 
       console.log('[Slack Webhook] Discussion created:', discussion.id)
 
-      // 11. Trigger async processing
-      // Call the processor endpoint to handle the discussion
-      try {
-        await $fetch('/api/discussion-sync/process', {
-          method: 'POST',
-          body: {
-            discussionId: discussion.id,
-          },
-        })
-
-        console.log('[Slack Webhook] Processing triggered for discussion:', discussion.id)
-      }
-      catch (processingError) {
-        console.error('[Slack Webhook] Failed to trigger processing:', processingError)
-        // Don't fail the webhook - processing can be retried
-      }
+      // 11. Queue for processing
+      await queueProcessing(discussion, '[Slack Webhook]')
 
       // 12. Return success
       return {
@@ -232,6 +233,86 @@ export default defineEventHandler(async (event) => {
   }
 })
 
+/**
+ * Create a discussion when a message gets the configured trigger emoji
+ *
+ * The Events API only sends the channel and ts of the reacted message,
+ * so the message is fetched to find its thread and content.
+ */
+async function handleReactionAdded(eventPayload: SlackEventCallbackEvent) {
+  const reaction = eventPayload.event as unknown as SlackReactionAddedEvent
+
+  // 1. Find the source config for this workspace with a matching trigger
+  const matchingConfig = await findSlackSourceConfig(eventPayload.team_id)
+
+  if (!matchingConfig || !matchesReactionTrigger(reaction, getReactionTriggerSettings(matchingConfig.sourceMetadata))) {
+    console.log('[Slack Webhook] Reaction does not match a trigger, ignoring:', reaction.reaction)
+    return { ok: true }
+  }
+
+  // 2. Ignore reactions added by the bot itself (status indicators)
+  const botUserId = eventPayload.authorizations?.find(authorization => authorization.is_bot)?.user_id
+  if (botUserId && reaction.user === botUserId) {
+    console.log('[Slack Webhook] Ignoring reaction added by the bot')
+    return { ok: true }
+  }
+
+  console.log('[Slack Webhook] Processing reaction_added event for config:', matchingConfig.id)
+
+  // 3. Fetch the reacted message
+  const botToken = await getDecryptedApiToken({ apiToken: matchingConfig.apiToken || undefined })
+
+  if (!botToken) {
+    throw new Error('Slack bot token not configured')
+  }
+
+  const service = new SlackService(botToken)
+  const message = await service.getMessage(reaction.item.channel!, reaction.item.ts!)
+
+  if (!message) {
+    console.warn('[Slack Webhook] Reacted message not found:', reaction.item.ts)
+    return { ok: true }
+  }
+
+  // 4. Create the discussion through the Slack adapter
+  const enrichedPayload = {
+    ...eventPayload,
+    event: { ...reaction, message },
+  } as unknown as SlackEventPayload
+
+  const { discussion, duplicate } = await createSlackDiscussion(enrichedPayload, matchingConfig, {
+    createdBy: 'slack-webhook',
+    logPrefix: '[Slack Webhook]',
+  })
+
+  return {
+    ok: true,
+    discussionId: discussion.id,
+    ...(duplicate && { duplicate: true }),
+  }
+}
+
+/**
+ * Deactivate the workspace's config when the app is uninstalled or its
+ * bot token is revoked
+ */
+async function handleUninstall(eventPayload: SlackEventCallbackEvent) {
+  const revocation = eventPayload.event as unknown as {
+    type: 'app_uninstalled' | 'tokens_revoked'
+    tokens?: { oauth?: string[], bot?: string[] }
+  }
+
+  console.log('[Slack Webhook] Processing', revocation.type, 'for workspace:', eventPayload.team_id)
+
+  const deactivated = await deactivateSlackInstallation(
+    eventPayload.team_id,
+    revocation.type,
+    revocation.tokens?.bot,
+  )
+
+  return { ok: true, deactivated }
+}
+
 /**
  * Check if an event has already been processed
  *
@@ -0,0 +1,273 @@
+/**
+ * Slack Interactivity Webhook
+ *
+ * Handles interactive payloads from Slack including:
+ * - The "Send to Notion" message shortcut
+ * - Approve / Edit / Discard buttons of task approval requests
+ * - Submissions of the edit tasks modal
+ *
+ * Payloads are form encoded with the JSON in a `payload` field. Results are
+ * posted as ephemeral messages through the payload's `response_url`.
+ */
+
+import { SLACK_SEND_TO_NOTION_SHORTCUT } from '../../../adapters/slack'
+import type { SlackMessageActionPayload } from '../../../adapters/slack'
+import { ProcessorService } from '../../../services/processor'
+import type { ApprovalDecision } from '../../../services/processor'
+import { SlackService } from '../../../services/slack'
+import { getDecryptedApiToken } from '../../../utils/encryptedConfig'
+import type { SourceConfigRecord } from '../../../utils/discussionIngestion'
+import {
+  SLACK_APPROVAL_ACTIONS,
+  SLACK_EDIT_TASKS_CALLBACK_ID,
+  buildApprovalDecisionMessage,
+  buildEditTasksView,
+  isSlackApprovalAction,
+  parseEditTasksSubmission,
+} from '../../../utils/slackApproval'
+import type { SlackViewSubmission } from '../../../utils/slackApproval'
+import {
+  createSlackDiscussion,
+  findSlackSourceConfig,
+  readVerifiedSlackBody,
+  replaceOriginalMessage,
+  sendEphemeralResponse,
+} from '../../../utils/slackRequest'
+
+const LOG_PREFIX = '[Slack Interactivity]'
+
+interface SlackBlockActionsPayload {
+  type: 'block_actions'
+  team: { id: string }
+  user: { id: string }
+  trigger_id: string
+  response_url: string
+  actions: Array<{
+    action_id: string
+    value?: string
+  }>
+}
+
+interface SlackViewSubmissionPayload {
+  type: 'view_submission'
+  team: { id: string }
+  user: { id: string }
+  view: SlackViewSubmission
+}
+
+type SlackInteractionPayload = SlackMessageActionPayload | SlackBlockActionsPayload | SlackViewSubmissionPayload
+
+/**
+ * Send the shortcut's message thread to Notion and tell the user
+ */
+async function handleSendToNotion(payload: SlackMessageActionPayload, config: SourceConfigRecord): Promise<void> {
+  let reply: string
+
+  try {
+    const { duplicate } = await createSlackDiscussion(payload, config, {
+      createdBy: 'slack-shortcut',
+      logPrefix: LOG_PREFIX,
+    })
+
+    reply = duplicate
+      ? 'This conversation was already sent to Notion.'
+      : '📝 Sending this conversation to Notion…'
+  }
+  catch (error) {
+    console.error(`${LOG_PREFIX} Failed to send message to Notion:`, error)
+    reply = 'Something went wrong while sending this conversation to Notion. Please try again.'
+  }
+
+  await sendEphemeralResponse(payload.response_url, reply, LOG_PREFIX)
+}
+
+/**
+ * Load a job awaiting approval, if it belongs to this workspace's source config
+ */
+async function findPendingApproval(processor: ProcessorService, jobId: string | undefined, config: SourceConfigRecord) {
+  const pending = jobId ? await processor.getPendingApproval(jobId) : null
+  return pending && pending.job.sourceConfigId === config.id ? pending : null
+}
+
+/**
+ * Resume the paused job and replace the approval message with the decision
+ */
+async function resolveApproval(
+  processor: ProcessorService,
+  jobId: string,
+  decision: ApprovalDecision,
+  responseUrl: string | undefined,
+  taskCount: number,
+): Promise<void> {
+  try {
+    const result = await processor.resumeAfterApproval(jobId, decision)
+
+    if (responseUrl) {
+      if (!result) {
+        // Another click or approver got there first
+        await sendEphemeralResponse(responseUrl, 'These tasks were already approved or discarded.', LOG_PREFIX)
+      }
+      else if (result.success) {
+        const message = buildApprovalDecisionMessage(
+          decision.action === 'approve' ? 'approved' : 'discarded',
+          decision.decidedBy,
+          decision.tasks?.length ?? taskCount,
+        )
+        await replaceOriginalMessage(responseUrl, message, LOG_PREFIX)
+      }
+      else {
+        await sendEphemeralResponse(responseUrl, `Creating the tasks failed: ${result.error}`, LOG_PREFIX)
+      }
+    }
+  }
+  catch (error) {
+    console.error(`${LOG_PREFIX} Failed to resume job after approval:`, error)
+
+    if (responseUrl) {
+      await sendEphemeralResponse(responseUrl, 'Something went wrong while handling your decision.', LOG_PREFIX)
+    }
+  }
+  finally {
+    processor.destroy()
+  }
+}
+
+export default defineEventHandler(async (event) => {
+  console.log(`${LOG_PREFIX} Received interaction`)
+
+  try {
+    // 1. Verify signature and unwrap the payload field
+    const rawBody = await readVerifiedSlackBody(event, LOG_PREFIX)
+    const payloadField = new URLSearchParams(rawBody).get('payload')
+
+    if (!payloadField) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'Missing payload',
+      })
+    }
+
+    const payload = JSON.parse(payloadField) as SlackInteractionPayload
+
+    console.log(`${LOG_PREFIX} Interaction type:`, payload.type)
+
+    // 2. Find the source config for this workspace
+    const matchingConfig = await findSlackSourceConfig(payload.team?.id)
+
+    if (!matchingConfig) {
+      console.warn(`${LOG_PREFIX} No matching source config found for workspace:`, payload.team?.id)
+
+      if ('response_url' in payload && payload.response_url) {
+        await sendEphemeralResponse(payload.response_url, 'Discubot is not set up for this workspace yet.', LOG_PREFIX)
+      }
+      return ''
+    }
+
+    // 3. "Send to Notion" message shortcut
+    if (payload.type === 'message_action' && payload.callback_id === SLACK_SEND_TO_NOTION_SHORTCUT.callbackId) {
+      // Acknowledge within Slack's 3 second limit, answer through response_url
+      event.waitUntil(handleSendToNotion(payload, matchingConfig))
+      return ''
+    }
+
+    // 4. Approve / Edit / Discard buttons
+    if (payload.type === 'block_actions' && isSlackApprovalAction(payload.actions?.[0]?.action_id)) {
+      const action = payload.actions[0]!
+      const processor = new ProcessorService()
+      const pending = await findPendingApproval(processor, action.value, matchingConfig)
+
+      if (!pending) {
+        processor.destroy()
+        await sendEphemeralResponse(payload.response_url, 'These tasks were already approved or discarded.', LOG_PREFIX)
+        return ''
+      }
+
+      if (action.action_id === SLACK_APPROVAL_ACTIONS.EDIT) {
+        processor.destroy()
+
+        // The modal must open within 3 seconds of the click
+        const botToken = await getDecryptedApiToken({ apiToken: matchingConfig.apiToken || undefined })
+        if (!botToken) {
+          throw new Error('Slack bot token not configured')
+        }
+
+        const view = buildEditTasksView({
+          jobId: pending.job.id,
+          tasks: pending.approval.tasks,
+        }, payload.response_url)
+
+        await new SlackService(botToken).openView(payload.trigger_id, view)
+        return ''
+      }
+
+      const decision: ApprovalDecision = {
+        action: action.action_id === SLACK_APPROVAL_ACTIONS.APPROVE ? 'approve' : 'discard',
+        decidedBy: payload.user.id,
+      }
+
+      event.waitUntil(resolveApproval(
+        processor,
+        pending.job.id,
+        decision,
+        payload.response_url,
+        pending.approval.tasks.length,
+      ))
+      return ''
+    }
+
+    // 5. Edit tasks modal submitted: approve the edited tasks
+    if (payload.type === 'view_submission' && payload.view?.callback_id === SLACK_EDIT_TASKS_CALLBACK_ID) {
+      const submission = parseEditTasksSubmission(payload.view)
+
+      if (submission.tasks.length === 0) {
+        return {
+          response_action: 'errors',
+          errors: { task_0_title: 'Keep at least one task, or use Discard instead.' },
+        }
+      }
+
+      const processor = new ProcessorService()
+      const pending = await findPendingApproval(processor, submission.jobId, matchingConfig)
+
+      if (!pending) {
+        processor.destroy()
+        return {
+          response_action: 'errors',
+          errors: { task_0_title: 'These tasks were already approved or discarded.' },
+        }
+      }
+
+      event.waitUntil(resolveApproval(
+        processor,
+        pending.job.id,
+        {
+          action: 'approve',
+          decidedBy: payload.user.id,
+          tasks: submission.tasks,
+        },
+        submission.responseUrl,
+        submission.tasks.length,
+      ))
+
+      // An empty response closes the modal
+      return ''
+    }
+
+    console.log(`${LOG_PREFIX} Ignoring interaction:`, payload.type)
+    return ''
+  }
+  catch (error) {
+    console.error(`${LOG_PREFIX} Error processing interaction:`, error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
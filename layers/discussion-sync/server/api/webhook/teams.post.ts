@@ -0,0 +1,137 @@
+/**
+ * Microsoft Teams Webhook (Bot Framework messaging endpoint)
+ *
+ * Handles incoming Bot Framework activities including:
+ * - JWT bearer token validation
+ * - message activities in channels where the bot is @mentioned
+ * - Discussion creation and processing
+ *
+ * The token audience (Microsoft App ID) selects the source config.
+ */
+
+import { getAdapter } from '../../adapters/base'
+import { isBotMentioned } from '../../adapters/teams'
+import type { TeamsMessageActivity } from '../../adapters/teams'
+import { verifyBotFrameworkToken } from '../../utils/botFrameworkAuth'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findExistingDiscussion,
+  queueProcessing,
+} from '../../utils/discussionIngestion'
+
+export default defineEventHandler(async (event) => {
+  console.log('[Teams Webhook] Received activity')
+
+  try {
+    // 1. Read activity
+    const activity = await readBody<TeamsMessageActivity>(event)
+
+    if (!activity?.type) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'Invalid activity',
+      })
+    }
+
+    // 2. Validate JWT bearer token
+    const claims = await verifyBotFrameworkToken(getHeader(event, 'authorization'), activity)
+
+    if (!claims) {
+      console.warn('[Teams Webhook] Invalid bearer token')
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid bearer token',
+      })
+    }
+
+    console.log('[Teams Webhook] Activity:', {
+      type: activity.type,
+      id: activity.id,
+      conversationType: activity.conversation?.conversationType,
+    })
+
+    // 3. Only channel messages that @mention the bot start a discussion
+    if (activity.type !== 'message') {
+      console.log('[Teams Webhook] Ignoring activity type:', activity.type)
+      return { ok: true }
+    }
+
+    if (!isBotMentioned(activity)) {
+      console.log('[Teams Webhook] Bot not mentioned, ignoring message')
+      return { ok: true }
+    }
+
+    if (activity.conversation?.conversationType !== 'channel') {
+      console.log('[Teams Webhook] Ignoring non-channel conversation')
+      return { ok: true }
+    }
+
+    // 4. Find matching source config by app ID and tenant
+    const tenantId = activity.conversation.tenantId || activity.channelData?.tenant?.id
+    const sourceConfigs = await findActiveSourceConfigs('teams')
+    const matchingConfig = sourceConfigs.find((sourceConfig) => {
+      const metadata = sourceConfig.sourceMetadata || {}
+      return metadata.appId === claims.aud && (!metadata.tenantId || metadata.tenantId === tenantId)
+    })
+
+    if (!matchingConfig) {
+      console.warn('[Teams Webhook] No matching source config found for app/tenant:', claims.aud, tenantId)
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Not Found',
+        message: 'No source configuration found for this tenant',
+      })
+    }
+
+    // 5. Parse activity with the Teams adapter
+    const adapter = getAdapter('teams')
+    const parsedDiscussion = await adapter.parseIncoming(activity)
+
+    // 6. Duplicate prevention
+    const existing = await findExistingDiscussion(
+      matchingConfig.teamId,
+      'teams',
+      parsedDiscussion.sourceThreadId,
+    )
+
+    if (existing) {
+      console.log('[Teams Webhook] Discussion already exists:', existing.id)
+      return {
+        ok: true,
+        discussionId: existing.id,
+        duplicate: true,
+      }
+    }
+
+    // 7. Create discussion record and queue it for processing
+    const discussion = await createDiscussionRecord(parsedDiscussion, matchingConfig, {
+      createdBy: 'teams-webhook',
+      rawPayload: activity as unknown as Record<string, unknown>,
+    })
+
+    console.log('[Teams Webhook] Discussion created:', discussion.id)
+
+    await queueProcessing(discussion, '[Teams Webhook]')
+
+    return {
+      ok: true,
+      discussionId: discussion.id,
+    }
+  }
+  catch (error) {
+    console.error('[Teams Webhook] Error processing activity:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
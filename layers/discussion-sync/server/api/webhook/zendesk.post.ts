@@ -0,0 +1,126 @@
+/**
+ * Zendesk Webhook
+ *
+ * Handles ticket comment triggers from Zendesk including:
+ * - Signature verification with the webhook's signing secret
+ *   (stored as the source config's webhook secret)
+ * - Ignoring internal notes posted by the integration itself
+ * - Discussion creation and processing
+ *
+ * The trigger's JSON body is documented on ZendeskTicketCommentPayload.
+ */
+
+import { getAdapter } from '../../adapters/base'
+import type { ZendeskTicketCommentPayload } from '../../adapters/zendesk'
+import { parseZendeskSubdomain } from '../../services/zendesk'
+import { verifyZendeskSignature } from '../../utils/zendeskSignature'
+import {
+  createDiscussionRecord,
+  findActiveSourceConfigs,
+  findExistingDiscussion,
+  queueProcessing,
+} from '../../utils/discussionIngestion'
+
+export default defineEventHandler(async (event) => {
+  console.log('[Zendesk Webhook] Received request')
+
+  try {
+    // 1. Read raw body and signature headers
+    const rawBody = await readRawBody(event, 'utf-8')
+    if (!rawBody) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Bad Request',
+        message: 'No request body',
+      })
+    }
+
+    const signature = getHeader(event, 'x-zendesk-webhook-signature')
+    const timestamp = getHeader(event, 'x-zendesk-webhook-signature-timestamp')
+
+    if (!signature || !timestamp) {
+      console.warn('[Zendesk Webhook] Missing signature headers')
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Missing signature headers',
+      })
+    }
+
+    // 2. Parse payload and find the source config for the Zendesk account
+    const payload = JSON.parse(rawBody) as ZendeskTicketCommentPayload
+    const subdomain = parseZendeskSubdomain(payload.ticket_url || '')
+
+    const sourceConfigs = await findActiveSourceConfigs('zendesk')
+    const matchingConfig = sourceConfigs.find(sourceConfig =>
+      sourceConfig.sourceMetadata?.subdomain === subdomain
+      && !!sourceConfig.webhookSecret
+      && verifyZendeskSignature(rawBody, signature, timestamp, sourceConfig.webhookSecret),
+    )
+
+    if (!matchingConfig) {
+      console.warn('[Zendesk Webhook] No source config verified the signature for subdomain:', subdomain)
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid webhook signature',
+      })
+    }
+
+    // 3. Ignore our own internal notes, they would trigger the webhook again
+    const agentEmail = matchingConfig.sourceMetadata?.email as string | undefined
+    if (agentEmail && payload.comment?.author_email?.toLowerCase() === agentEmail.toLowerCase()) {
+      console.log('[Zendesk Webhook] Ignoring comment by the integration agent')
+      return { ok: true }
+    }
+
+    // 4. Parse payload with Zendesk adapter
+    const adapter = getAdapter('zendesk')
+    const parsedDiscussion = await adapter.parseIncoming(payload)
+
+    // 5. One discussion per ticket
+    const existing = await findExistingDiscussion(
+      matchingConfig.teamId,
+      'zendesk',
+      parsedDiscussion.sourceThreadId,
+    )
+
+    if (existing) {
+      console.log('[Zendesk Webhook] Discussion already exists:', existing.id)
+      return {
+        ok: true,
+        discussionId: existing.id,
+        duplicate: true,
+      }
+    }
+
+    // 6. Create discussion record
+    const discussion = await createDiscussionRecord(parsedDiscussion, matchingConfig, {
+      createdBy: 'zendesk-webhook',
+      rawPayload: payload as unknown as Record<string, unknown>,
+    })
+
+    console.log('[Zendesk Webhook] Discussion created:', discussion.id)
+
+    // 7. Queue for processing
+    await queueProcessing(discussion, '[Zendesk Webhook]')
+
+    return {
+      ok: true,
+      discussionId: discussion.id,
+    }
+  }
+  catch (error) {
+    console.error('[Zendesk Webhook] Error processing webhook:', error)
+
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
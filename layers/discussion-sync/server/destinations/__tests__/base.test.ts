@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest'
+import {
+  registerDestination,
+  getDestination,
+  getDestinationType,
+  getDestinationConfigs,
+  hasDestination,
+  getRegisteredDestinationTypes,
+  validateDestinations,
+  type CreatedTask,
+  type TaskData,
+  type TaskDestinationAdapter,
+} from '../base'
+import type { SourceConfig, ValidationResult } from '../../adapters/base'
+
+// Mock destination implementation
+class MockDestination implements TaskDestinationAdapter {
+  destinationType = 'mock'
+  displayName = 'Mock'
+
+  async createTask(task: TaskData, config: SourceConfig): Promise<CreatedTask> {
+    return { id: 'task-1', url: `https://example.com/tasks/task-1?title=${task.title}` }
+  }
+
+  async updateTask(taskId: string, updates: Partial<TaskData>, config: SourceConfig): Promise<void> {}
+
+  async findDuplicate(task: TaskData, config: SourceConfig): Promise<CreatedTask | null> {
+    return null
+  }
+
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    return { valid: true, errors: [] }
+  }
+
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    return true
+  }
+}
+
+class AnotherMockDestination extends MockDestination {
+  destinationType = 'another'
+}
+
+// Reports what's missing from its destinationConfig
+class StrictMockDestination extends MockDestination {
+  destinationType = 'strict'
+
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors = config.destinationConfig?.projectId ? [] : ['Strict project is required']
+    return { valid: errors.length === 0, errors }
+  }
+}
+
+describe('Destination Registry', () => {
+  describe('registerDestination', () => {
+    it('should register a destination', () => {
+      registerDestination('test', MockDestination)
+      expect(hasDestination('test')).toBe(true)
+    })
+
+    it('should allow re-registration (overwrite)', () => {
+      registerDestination('test', MockDestination)
+      registerDestination('test', AnotherMockDestination)
+
+      expect(getDestination('test').destinationType).toBe('another')
+    })
+  })
+
+  describe('getDestination', () => {
+    it('should return a new instance on each call', () => {
+      registerDestination('mock', MockDestination)
+
+      const destination1 = getDestination('mock')
+      const destination2 = getDestination('mock')
+
+      expect(destination1).toBeInstanceOf(MockDestination)
+      expect(destination1).not.toBe(destination2)
+    })
+
+    it('should throw error for unregistered destination with helpful message', () => {
+      registerDestination('mock', MockDestination)
+
+      expect(() => getDestination('unregistered'))
+        .toThrow('No destination registered for type: unregistered')
+
+      expect(() => getDestination('unregistered'))
+        .toThrow('Available destinations:')
+    })
+  })
+
+  describe('getRegisteredDestinationTypes', () => {
+    it('should return array of registered types', () => {
+      registerDestination('mock1', MockDestination)
+      registerDestination('mock2', AnotherMockDestination)
+
+      const types = getRegisteredDestinationTypes()
+      expect(types).toContain('mock1')
+      expect(types).toContain('mock2')
+    })
+  })
+
+  describe('getDestinationType', () => {
+    it('should default to Notion', () => {
+      expect(getDestinationType({})).toBe('notion')
+    })
+
+    it('should return the configured destination', () => {
+      expect(getDestinationType({ destinationType: 'linear' })).toBe('linear')
+    })
+  })
+  describe('getDestinationConfigs', () => {
+    const config: SourceConfig = {
+      id: 'config-1',
+      sourceId: 'slack',
+      name: 'Test',
+      destinationType: 'linear',
+      destinationConfig: { teamId: 'team-1' },
+      destinationToken: 'lin_token',
+      aiEnabled: false,
+      autoSync: true,
+      postConfirmation: true,
+      active: true,
+    }
+
+    it('should return only the config without additional destinations', () => {
+      expect(getDestinationConfigs(config)).toEqual([config])
+    })
+
+    it('should swap in the settings of each additional destination', () => {
+      const configs = getDestinationConfigs({
+        ...config,
+        additionalDestinations: [
+          { destinationType: 'github', destinationConfig: { repository: 'acme/app' }, destinationToken: 'ghp_token' },
+          { destinationType: 'board' },
+        ],
+      })
+
+      expect(configs.map(getDestinationType)).toEqual(['linear', 'github', 'board'])
+      expect(configs[1]).toMatchObject({
+        id: 'config-1',
+        destinationConfig: { repository: 'acme/app' },
+        destinationToken: 'ghp_token',
+        additionalDestinations: undefined,
+      })
+      expect(configs[2]!.destinationConfig).toBeUndefined()
+      expect(configs[2]!.destinationToken).toBeUndefined()
+    })
+
+    it('should skip repeated destination types', () => {
+      const configs = getDestinationConfigs({
+        ...config,
+        additionalDestinations: [
+          { destinationType: 'linear', destinationConfig: { teamId: 'team-2' } },
+          { destinationType: 'board' },
+          { destinationType: 'board' },
+        ],
+      })
+
+      expect(configs.map(getDestinationType)).toEqual(['linear', 'board'])
+    })
+  })
+
+  describe('validateDestinations', () => {
+    const config: SourceConfig = {
+      id: 'config-1',
+      sourceId: 'slack',
+      name: 'Test',
+      destinationType: 'strict',
+      destinationConfig: { projectId: 'project-1' },
+      aiEnabled: false,
+      autoSync: true,
+      postConfirmation: true,
+      active: true,
+    }
+
+    it('should pass when every destination is valid', async () => {
+      registerDestination('strict', StrictMockDestination)
+      registerDestination('mock', MockDestination)
+
+      expect(await validateDestinations({
+        ...config,
+        additionalDestinations: [{ destinationType: 'mock' }],
+      })).toEqual({ valid: true, errors: [] })
+    })
+
+    it('should validate additional destinations with their own settings', async () => {
+      registerDestination('strict', StrictMockDestination)
+      registerDestination('mock', MockDestination)
+
+      const result = await validateDestinations({
+        ...config,
+        destinationType: 'mock',
+        additionalDestinations: [{ destinationType: 'strict', destinationConfig: {} }],
+      })
+
+      expect(result).toEqual({ valid: false, errors: ['Strict project is required'] })
+    })
+
+    it('should report unregistered destinations', async () => {
+      const result = await validateDestinations({ ...config, destinationType: 'unregistered' })
+
+      expect(result).toEqual({ valid: false, errors: ['Unknown destination: unregistered'] })
+    })
+  })
+})
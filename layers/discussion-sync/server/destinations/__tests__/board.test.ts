@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BoardDestination } from '../board'
+import type { SourceConfig } from '../../adapters/base'
+import type { TaskData } from '../base'
+
+// Mock the task records
+const mockFindTaskRecord = vi.fn()
+const mockUpdateTaskRecord = vi.fn()
+const mockGetTaskBoardUrl = vi.fn()
+
+vi.mock('../../utils/taskRecords', () => {
+  return {
+    findTaskRecord: (...args: unknown[]) => mockFindTaskRecord(...args),
+    updateTaskRecord: (...args: unknown[]) => mockUpdateTaskRecord(...args),
+    getTaskBoardUrl: (...args: unknown[]) => mockGetTaskBoardUrl(...args),
+  }
+})
+
+describe('BoardDestination', () => {
+  let destination: BoardDestination
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    teamId: 'team-1',
+    sourceId: 'slack',
+    name: 'Trial workspace',
+    destinationType: 'board',
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+  }
+
+  const task: TaskData = {
+    title: 'Fix onboarding copy',
+    sourceUrl: 'https://acme.slack.com/archives/C1/p1700000000000100',
+    sourceThreadId: 'C1:1700000000.000100',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    destination = new BoardDestination()
+    mockGetTaskBoardUrl.mockImplementation(async (_teamId: string, taskId: string) =>
+      `https://app.example.com/dashboard/acme/tasks?task=${taskId}`)
+  })
+
+  it('should be built in', () => {
+    expect(destination.builtIn).toBe(true)
+  })
+
+  describe('createTask', () => {
+    it('should hand out a new record ID with a board link', async () => {
+      const created = await destination.createTask(task, mockConfig)
+
+      expect(created.id).toEqual(expect.any(String))
+      expect(created.url).toBe(`https://app.example.com/dashboard/acme/tasks?task=${created.id}`)
+      expect(mockGetTaskBoardUrl).toHaveBeenCalledWith('team-1', created.id)
+    })
+
+    it('should hand out unique IDs', async () => {
+      const first = await destination.createTask(task, mockConfig)
+      const second = await destination.createTask(task, mockConfig)
+
+      expect(first.id).not.toBe(second.id)
+    })
+
+    it('should require a team', async () => {
+      await expect(destination.createTask(task, { ...mockConfig, teamId: undefined }))
+        .rejects.toThrow('Source config has no team')
+    })
+  })
+
+  describe('updateTask', () => {
+    it('should update the record', async () => {
+      await destination.updateTask('task-1', {
+        title: 'Renamed',
+        priority: 'low',
+        aiSummary: { summary: 'New summary', keyPoints: [], cached: false },
+      }, mockConfig)
+
+      expect(mockUpdateTaskRecord).toHaveBeenCalledWith('team-1', 'task-1', {
+        title: 'Renamed',
+        priority: 'low',
+        summary: 'New summary',
+      })
+    })
+  })
+
+  describe('findDuplicate', () => {
+    it('should find the board task for the source URL', async () => {
+      mockFindTaskRecord.mockResolvedValue({
+        id: 'task-1',
+        externalUrl: 'https://app.example.com/dashboard/acme/tasks?task=task-1',
+      })
+
+      expect(await destination.findDuplicate(task, mockConfig)).toEqual({
+        id: 'task-1',
+        url: 'https://app.example.com/dashboard/acme/tasks?task=task-1',
+      })
+      expect(mockFindTaskRecord).toHaveBeenCalledWith('team-1', 'board', task.sourceUrl)
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should need nothing but a team', async () => {
+      expect(await destination.validateConfig(mockConfig)).toEqual({ valid: true, errors: [] })
+      expect(await destination.validateConfig({ ...mockConfig, teamId: undefined })).toEqual({
+        valid: false,
+        errors: ['Source config has no team'],
+      })
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GitHubDestination } from '../github'
+import type { SourceConfig } from '../../adapters/base'
+import type { TaskData } from '../base'
+
+// Mock the GitHubService, keeping the thread ID helpers
+const mockCreateIssue = vi.fn()
+const mockUpdateIssue = vi.fn()
+const mockGetIssue = vi.fn()
+const mockSearchIssues = vi.fn()
+const mockGetRepository = vi.fn()
+
+vi.mock('../../services/github', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/github')>()
+  return {
+    ...actual,
+    GitHubService: class MockGitHubService {
+      createIssue = mockCreateIssue
+      updateIssue = mockUpdateIssue
+      getIssue = mockGetIssue
+      searchIssues = mockSearchIssues
+      getRepository = mockGetRepository
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedDestinationToken: vi.fn(async (config: SourceConfig) => config.destinationToken),
+  }
+})
+
+describe('GitHubDestination', () => {
+  let destination: GitHubDestination
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'slack',
+    name: 'Feedback to GitHub',
+    destinationType: 'github',
+    destinationToken: 'ghp_test',
+    destinationConfig: {
+      repository: 'acme/ds',
+      labels: ['triage'],
+    },
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+  }
+
+  const task: TaskData = {
+    title: 'Focus ring is clipped in cards',
+    description: 'The focus ring is cut off.',
+    sourceUrl: 'https://acme.slack.com/archives/C1/p1700000000000100',
+    sourceThreadId: 'C1:1700000000.000100',
+    priority: 'high',
+    tags: ['a11y'],
+    aiSummary: {
+      summary: 'Cards clip the focus ring.',
+      keyPoints: ['Only in Safari'],
+      suggestedActions: ['Use outline-offset'],
+      cached: false,
+    },
+    transcript: [
+      { id: '1', authorHandle: 'ada', content: 'Focus ring is clipped', timestamp: new Date('2025-11-03T09:00:00Z') },
+    ],
+  }
+
+  const issue = {
+    number: 42,
+    title: task.title,
+    body: `...\n\n🔗 [View source discussion](${task.sourceUrl})`,
+    state: 'open',
+    html_url: 'https://github.com/acme/ds/issues/42',
+    user: { login: 'discubot', id: 1, type: 'Bot' },
+    created_at: '2025-11-03T09:00:00Z',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    destination = new GitHubDestination()
+    mockCreateIssue.mockResolvedValue(issue)
+  })
+
+  describe('createTask', () => {
+    it('should open an issue with labels and a Markdown body', async () => {
+      const created = await destination.createTask(task, mockConfig)
+
+      expect(created).toEqual({ id: 'acme/ds#42', url: 'https://github.com/acme/ds/issues/42' })
+
+      const [owner, repo, input] = mockCreateIssue.mock.calls[0]
+      expect(owner).toBe('acme')
+      expect(repo).toBe('ds')
+      expect(input.title).toBe('Focus ring is clipped in cards')
+      expect(input.labels).toEqual(['triage', 'a11y', 'priority: high'])
+      expect(input).not.toHaveProperty('assignees')
+      expect(input.body).toContain('## 🤖 AI Summary\n\nCards clip the focus ring.')
+      expect(input.body).toContain('**Key points**\n\n- Only in Safari')
+      expect(input.body).toContain('**Suggested actions**\n\n- Use outline-offset')
+      expect(input.body).toContain('## 💬 Thread')
+      expect(input.body).toContain('> Focus ring is clipped')
+      expect(input.body).toContain(`[View source discussion](${task.sourceUrl})`)
+    })
+
+    it('should use configured priority labels and assignees', async () => {
+      await destination.createTask({ ...task, priority: 'low', tags: [] }, {
+        ...mockConfig,
+        destinationConfig: {
+          repository: 'acme/ds',
+          priorityLabels: { low: 'P3' },
+          assignees: ['octocat'],
+        },
+      })
+
+      const input = mockCreateIssue.mock.calls[0][2]
+      expect(input.labels).toEqual(['P3'])
+      expect(input.assignees).toEqual(['octocat'])
+    })
+
+    it('should leave out the transcript if the body gets too long', async () => {
+      const longMessage = { id: '2', authorHandle: 'sam', content: 'x'.repeat(70000), timestamp: new Date() }
+
+      await destination.createTask({ ...task, transcript: [longMessage] }, mockConfig)
+
+      const input = mockCreateIssue.mock.calls[0][2]
+      expect(input.body).not.toContain('## 💬 Thread')
+      expect(input.body).toContain('View source discussion')
+    })
+
+    it('should require a repository', async () => {
+      await expect(destination.createTask(task, { ...mockConfig, destinationConfig: {} }))
+        .rejects.toThrow('GitHub repository is required')
+    })
+  })
+
+  describe('updateTask', () => {
+    it('should swap the priority label and keep other labels', async () => {
+      mockGetIssue.mockResolvedValue({ ...issue, labels: [{ name: 'triage' }, { name: 'priority: high' }] })
+
+      await destination.updateTask('acme/ds#42', { title: 'Renamed', priority: 'medium' }, mockConfig)
+
+      expect(mockGetIssue).toHaveBeenCalledWith('acme', 'ds', 42)
+      expect(mockUpdateIssue).toHaveBeenCalledWith('acme', 'ds', 42, {
+        title: 'Renamed',
+        labels: ['triage', 'priority: medium'],
+      })
+    })
+
+    it('should keep the body for a partial update', async () => {
+      await destination.updateTask('acme/ds#42', { description: 'Only the description' }, mockConfig)
+
+      expect(mockUpdateIssue).toHaveBeenCalledWith('acme', 'ds', 42, {})
+    })
+
+    it('should rebuild the body from a whole task', async () => {
+      await destination.updateTask('acme/ds#42', task, mockConfig)
+
+      expect(mockUpdateIssue.mock.calls[0][3].body).toContain(`[View source discussion](${task.sourceUrl})`)
+    })
+  })
+
+  describe('findDuplicate', () => {
+    it('should return the issue linking to the source URL', async () => {
+      mockSearchIssues.mockResolvedValue([
+        { ...issue, number: 41, body: 'Mentions p1700000000000100 in passing' },
+        issue,
+      ])
+
+      expect(await destination.findDuplicate(task, mockConfig)).toEqual({
+        id: 'acme/ds#42',
+        url: 'https://github.com/acme/ds/issues/42',
+      })
+      expect(mockSearchIssues).toHaveBeenCalledWith(`repo:acme/ds is:issue in:body "${task.sourceUrl}"`)
+    })
+
+    it('should return null without a match', async () => {
+      mockSearchIssues.mockResolvedValue([])
+
+      expect(await destination.findDuplicate(task, mockConfig)).toBeNull()
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should require token and repository', async () => {
+      const result = await destination.validateConfig({
+        ...mockConfig,
+        destinationToken: undefined,
+        destinationConfig: {},
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('GitHub token is required')
+      expect(result.errors).toContain('GitHub repository is required')
+    })
+
+    it('should reject malformed repositories', async () => {
+      const result = await destination.validateConfig({
+        ...mockConfig,
+        destinationConfig: { repository: 'https://github.com/acme/ds' },
+      })
+
+      expect(result.errors).toEqual(['GitHub repository must look like owner/repo: https://github.com/acme/ds'])
+    })
+
+    it('should report repositories without issues', async () => {
+      mockGetRepository.mockResolvedValue({ full_name: 'acme/ds', html_url: '', has_issues: false })
+
+      const result = await destination.validateConfig(mockConfig)
+
+      expect(result.errors).toEqual(['Issues are disabled for acme/ds'])
+    })
+
+    it('should pass for a repository with issues', async () => {
+      mockGetRepository.mockResolvedValue({ full_name: 'acme/ds', html_url: '', has_issues: true })
+
+      expect(await destination.validateConfig(mockConfig)).toEqual({ valid: true, errors: [] })
+    })
+  })
+})
@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { JiraDestination } from '../jira'
+import type { SourceConfig } from '../../adapters/base'
+import type { TaskData } from '../base'
+
+// Mock the JiraService
+const mockCreateIssue = vi.fn()
+const mockUpdateIssue = vi.fn()
+const mockGetProject = vi.fn()
+const mockGetIssueTypes = vi.fn()
+const mockGetCreateFields = vi.fn()
+
+vi.mock('../../services/jira', () => {
+  return {
+    JiraService: class MockJiraService {
+      createIssue = mockCreateIssue
+      updateIssue = mockUpdateIssue
+      getProject = mockGetProject
+      getIssueTypes = mockGetIssueTypes
+      getCreateFields = mockGetCreateFields
+      getIssueUrl = (key: string) => `https://acme.atlassian.net/browse/${key}`
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedDestinationToken: vi.fn(async (config: SourceConfig) => config.destinationToken),
+  }
+})
+
+// Mock the task records lookup
+const mockFindTaskRecord = vi.fn()
+
+vi.mock('../../utils/taskRecords', () => {
+  return {
+    findTaskRecord: (...args: unknown[]) => mockFindTaskRecord(...args),
+  }
+})
+
+describe('JiraDestination', () => {
+  let destination: JiraDestination
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    teamId: 'team-1',
+    sourceId: 'slack',
+    name: 'Ops requests to Jira',
+    destinationType: 'jira',
+    destinationToken: 'jira-token',
+    destinationConfig: {
+      siteUrl: 'https://acme.atlassian.net',
+      email: 'bot@acme.com',
+      projectKey: 'OPS',
+      labels: ['from slack'],
+    },
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+  }
+
+  const task: TaskData = {
+    title: 'Rotate certificates',
+    description: 'Certificates expire Friday.',
+    sourceUrl: 'https://acme.slack.com/archives/C1/p1700000000000100',
+    sourceThreadId: 'C1:1700000000.000100',
+    priority: 'high',
+    aiSummary: {
+      summary: 'Certificates need rotating.',
+      keyPoints: [],
+      cached: false,
+    },
+  }
+
+  const createFields = [
+    { fieldId: 'summary', name: 'Summary', required: true, hasDefaultValue: false },
+    { fieldId: 'issuetype', name: 'Issue Type', required: true, hasDefaultValue: false },
+    { fieldId: 'labels', name: 'Labels', required: false, hasDefaultValue: false },
+    {
+      fieldId: 'priority',
+      name: 'Priority',
+      required: false,
+      hasDefaultValue: true,
+      allowedValues: [{ id: '2', name: 'High' }, { id: '3', name: 'Medium' }, { id: '4', name: 'Low' }],
+    },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    destination = new JiraDestination()
+    mockCreateIssue.mockResolvedValue({ id: '10001', key: 'OPS-12', self: '' })
+    mockGetProject.mockResolvedValue({ id: '100', key: 'OPS', name: 'Operations' })
+    mockGetIssueTypes.mockResolvedValue([{ id: '10002', name: 'Task' }, { id: '10003', name: 'Bug' }])
+    mockGetCreateFields.mockResolvedValue(createFields)
+  })
+
+  describe('createTask', () => {
+    it('should create an issue with an ADF description', async () => {
+      const created = await destination.createTask(task, mockConfig)
+
+      expect(created).toEqual({ id: 'OPS-12', url: 'https://acme.atlassian.net/browse/OPS-12' })
+
+      const fields = mockCreateIssue.mock.calls[0][0]
+      expect(fields).toMatchObject({
+        project: { key: 'OPS' },
+        issuetype: { name: 'Task' },
+        summary: 'Rotate certificates',
+        priority: { name: 'High' },
+        labels: ['from-slack'],
+      })
+      expect(fields.description).toMatchObject({ type: 'doc', version: 1 })
+      expect(JSON.stringify(fields.description)).toContain('Certificates need rotating.')
+    })
+
+    it('should use configured issue type and priority names', async () => {
+      await destination.createTask({ ...task, priority: 'low' }, {
+        ...mockConfig,
+        destinationConfig: {
+          ...mockConfig.destinationConfig,
+          issueType: 'Bug',
+          priorityNames: { low: 'Lowest' },
+        },
+      })
+
+      expect(mockCreateIssue.mock.calls[0][0]).toMatchObject({
+        issuetype: { name: 'Bug' },
+        priority: { name: 'Lowest' },
+      })
+    })
+
+    it('should not set a priority when mapping is off', async () => {
+      await destination.createTask(task, {
+        ...mockConfig,
+        destinationConfig: { ...mockConfig.destinationConfig, mapPriority: false },
+      })
+
+      expect(mockCreateIssue.mock.calls[0][0]).not.toHaveProperty('priority')
+    })
+
+    it('should keep summaries to one line of 255 characters', async () => {
+      await destination.createTask({ ...task, title: `Line one\n${'x'.repeat(300)}` }, mockConfig)
+
+      const summary = mockCreateIssue.mock.calls[0][0].summary
+      expect(summary).toHaveLength(255)
+      expect(summary).not.toContain('\n')
+    })
+  })
+
+  describe('updateTask', () => {
+    it('should update the issue by key', async () => {
+      await destination.updateTask('OPS-12', { title: 'Renamed', priority: 'medium' }, mockConfig)
+
+      expect(mockUpdateIssue).toHaveBeenCalledWith('OPS-12', {
+        summary: 'Renamed',
+        priority: { name: 'Medium' },
+      })
+    })
+
+    it('should keep the description for a partial update', async () => {
+      await destination.updateTask('OPS-12', { description: 'Only the description' }, mockConfig)
+
+      expect(mockUpdateIssue).toHaveBeenCalledWith('OPS-12', {})
+    })
+
+    it('should rebuild the description from a whole task', async () => {
+      await destination.updateTask('OPS-12', task, mockConfig)
+
+      expect(mockUpdateIssue.mock.calls[0][1].description).toMatchObject({ type: 'doc' })
+    })
+  })
+
+  describe('findDuplicate', () => {
+    it('should return the issue key stored on the task record', async () => {
+      mockFindTaskRecord.mockResolvedValue({
+        externalId: 'OPS-12',
+        externalUrl: 'https://acme.atlassian.net/browse/OPS-12',
+      })
+
+      expect(await destination.findDuplicate(task, mockConfig)).toEqual({
+        id: 'OPS-12',
+        url: 'https://acme.atlassian.net/browse/OPS-12',
+      })
+      expect(mockFindTaskRecord).toHaveBeenCalledWith('team-1', 'jira', task.sourceUrl)
+    })
+
+    it('should return null without a record', async () => {
+      mockFindTaskRecord.mockResolvedValue(null)
+
+      expect(await destination.findDuplicate(task, mockConfig)).toBeNull()
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should require credentials and project', async () => {
+      const result = await destination.validateConfig({
+        ...mockConfig,
+        destinationToken: undefined,
+        destinationConfig: {},
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual([
+        'Jira API token is required',
+        'Jira site URL is required',
+        'Jira account email is required',
+        'Jira project key is required',
+      ])
+    })
+
+    it('should pass when issues can be created', async () => {
+      expect(await destination.validateConfig(mockConfig)).toEqual({ valid: true, errors: [] })
+      expect(mockGetCreateFields).toHaveBeenCalledWith('OPS', '10002')
+    })
+
+    it('should report unknown projects', async () => {
+      mockGetProject.mockResolvedValue(null)
+
+      const result = await destination.validateConfig(mockConfig)
+
+      expect(result.errors).toEqual(['Jira project not found: OPS'])
+    })
+
+    it('should report unavailable issue types', async () => {
+      const result = await destination.validateConfig({
+        ...mockConfig,
+        destinationConfig: { ...mockConfig.destinationConfig, issueType: 'Story' },
+      })
+
+      expect(result.errors).toEqual(['Jira issue type "Story" is not available in OPS. Available types: Task, Bug'])
+    })
+
+    it('should report required fields without a default', async () => {
+      mockGetCreateFields.mockResolvedValue([
+        ...createFields,
+        { fieldId: 'customfield_10010', name: 'Team', required: true, hasDefaultValue: false },
+        { fieldId: 'customfield_10011', name: 'Component', required: true, hasDefaultValue: true },
+      ])
+
+      const result = await destination.validateConfig(mockConfig)
+
+      expect(result.errors).toEqual(['Jira field "Team" is required for Task issues but can\'t be filled in'])
+    })
+
+    it('should report missing priorities and labels', async () => {
+      mockGetCreateFields.mockResolvedValue([
+        createFields[0],
+        { ...createFields[3], allowedValues: [{ id: '1', name: 'P1' }, { id: '3', name: 'Medium' }, { id: '4', name: 'Low' }] },
+      ])
+
+      const result = await destination.validateConfig(mockConfig)
+
+      expect(result.errors).toEqual([
+        'Jira priority not found: High',
+        'Jira Task issues have no labels field',
+      ])
+    })
+  })
+})
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LinearDestination } from '../linear'
+import type { SourceConfig } from '../../adapters/base'
+import type { TaskData } from '../base'
+
+// Mock the LinearService
+const mockCreateIssue = vi.fn()
+const mockUpdateIssue = vi.fn()
+const mockLinkUrl = vi.fn()
+const mockFindIssuesByUrl = vi.fn()
+const mockFindUserByEmail = vi.fn()
+const mockFindLabels = vi.fn()
+const mockGetTeam = vi.fn()
+
+vi.mock('../../services/linear', () => {
+  return {
+    LinearService: class MockLinearService {
+      createIssue = mockCreateIssue
+      updateIssue = mockUpdateIssue
+      linkUrl = mockLinkUrl
+      findIssuesByUrl = mockFindIssuesByUrl
+      findUserByEmail = mockFindUserByEmail
+      findLabels = mockFindLabels
+      getTeam = mockGetTeam
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedDestinationToken: vi.fn(async (config: SourceConfig) => config.destinationToken),
+  }
+})
+
+describe('LinearDestination', () => {
+  let destination: LinearDestination
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'slack',
+    name: 'Bugs to Linear',
+    destinationType: 'linear',
+    destinationToken: 'lin_api_test',
+    destinationConfig: {
+      teamId: 'team-1',
+      projectId: 'project-1',
+      labels: ['From Slack'],
+    },
+    aiEnabled: true,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+  }
+
+  const task: TaskData = {
+    title: 'Export fails for large files',
+    description: 'Exports over 50 MB time out.',
+    sourceUrl: 'https://acme.slack.com/archives/C1/p1700000000000100',
+    sourceThreadId: 'C1:1700000000.000100',
+    priority: 'high',
+    tags: ['Bug'],
+    aiSummary: {
+      summary: 'Large exports time out.',
+      keyPoints: [],
+      cached: false,
+    },
+  }
+
+  const issue = {
+    id: 'issue-9',
+    identifier: 'ENG-9',
+    title: task.title,
+    url: 'https://linear.app/acme/issue/ENG-9',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    destination = new LinearDestination()
+    mockCreateIssue.mockResolvedValue(issue)
+    mockFindLabels.mockResolvedValue([{ id: 'label-slack', name: 'From Slack' }, { id: 'label-bug', name: 'Bug' }])
+    mockFindUserByEmail.mockResolvedValue(null)
+    mockGetTeam.mockResolvedValue({ id: 'team-uuid-1', key: 'ENG', name: 'Engineering' })
+  })
+
+  describe('createTask', () => {
+    it('should create an issue in the configured team and project', async () => {
+      const created = await destination.createTask(task, mockConfig)
+
+      expect(created).toEqual({ id: 'ENG-9', url: 'https://linear.app/acme/issue/ENG-9' })
+      expect(mockGetTeam).toHaveBeenCalledWith('team-1')
+      expect(mockFindLabels).toHaveBeenCalledWith('team-uuid-1', ['From Slack', 'Bug'])
+
+      const input = mockCreateIssue.mock.calls[0][0]
+      expect(input).toMatchObject({
+        teamId: 'team-uuid-1',
+        projectId: 'project-1',
+        title: 'Export fails for large files',
+        priority: 2,
+        labelIds: ['label-slack', 'label-bug'],
+      })
+      expect(input.description).toContain('Exports over 50 MB time out.')
+      expect(input.description).toContain('## 🤖 AI Summary\n\nLarge exports time out.')
+      expect(input.description).toContain(`[View source discussion](${task.sourceUrl})`)
+      expect(input).not.toHaveProperty('assigneeId')
+    })
+
+    it('should map priorities', async () => {
+      await destination.createTask({ ...task, priority: 'low' }, mockConfig)
+      await destination.createTask({ ...task, priority: undefined }, mockConfig)
+
+      expect(mockCreateIssue.mock.calls[0][0].priority).toBe(4)
+      expect(mockCreateIssue.mock.calls[1][0]).not.toHaveProperty('priority')
+    })
+
+    it('should link the source discussion', async () => {
+      await destination.createTask(task, mockConfig)
+
+      expect(mockLinkUrl).toHaveBeenCalledWith('issue-9', task.sourceUrl, 'Source discussion')
+    })
+
+    it('should still return the issue if linking fails', async () => {
+      mockLinkUrl.mockRejectedValue(new Error('Linear API error'))
+
+      const created = await destination.createTask(task, mockConfig)
+
+      expect(created.id).toBe('ENG-9')
+    })
+
+    it('should assign the task assignee by email, before the default assignee', async () => {
+      mockFindUserByEmail.mockResolvedValue({ id: 'user-7', name: 'Ada' })
+
+      await destination.createTask(
+        { ...task, assignee: 'ada@example.com' },
+        { ...mockConfig, destinationConfig: { ...mockConfig.destinationConfig, assigneeEmail: 'lead@example.com' } },
+      )
+
+      expect(mockFindUserByEmail).toHaveBeenCalledWith('ada@example.com')
+      expect(mockCreateIssue.mock.calls[0][0].assigneeId).toBe('user-7')
+    })
+
+    it('should fall back to the default assignee', async () => {
+      await destination.createTask(
+        task,
+        { ...mockConfig, destinationConfig: { ...mockConfig.destinationConfig, assigneeEmail: 'lead@example.com' } },
+      )
+
+      expect(mockFindUserByEmail).toHaveBeenCalledWith('lead@example.com')
+      expect(mockCreateIssue.mock.calls[0][0]).not.toHaveProperty('assigneeId')
+    })
+
+    it('should require a team', async () => {
+      await expect(destination.createTask(task, { ...mockConfig, destinationConfig: {} }))
+        .rejects.toThrow('Linear team is required')
+    })
+
+    it('should fail for an unknown team', async () => {
+      mockGetTeam.mockResolvedValue(null)
+
+      await expect(destination.createTask(task, mockConfig)).rejects.toThrow('Linear team not found: team-1')
+      expect(mockCreateIssue).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateTask', () => {
+    it('should only update the given fields', async () => {
+      await destination.updateTask('ENG-9', { title: 'Renamed', priority: 'medium' }, mockConfig)
+
+      expect(mockUpdateIssue).toHaveBeenCalledWith('ENG-9', { title: 'Renamed', priority: 3 })
+    })
+
+    it('should keep the description for a partial update', async () => {
+      await destination.updateTask('ENG-9', { description: 'Only the description' }, mockConfig)
+
+      expect(mockUpdateIssue).toHaveBeenCalledWith('ENG-9', {})
+    })
+
+    it('should rebuild the description from a whole task', async () => {
+      await destination.updateTask('ENG-9', task, mockConfig)
+
+      const input = mockUpdateIssue.mock.calls[0][1]
+      expect(input.description).toContain('## 🤖 AI Summary')
+      expect(input.description).toContain(`[View source discussion](${task.sourceUrl})`)
+    })
+  })
+
+  describe('findDuplicate', () => {
+    it('should find issues linked to the source URL', async () => {
+      mockFindIssuesByUrl.mockResolvedValue([issue])
+
+      expect(await destination.findDuplicate(task, mockConfig)).toEqual({
+        id: 'ENG-9',
+        url: 'https://linear.app/acme/issue/ENG-9',
+      })
+      expect(mockFindIssuesByUrl).toHaveBeenCalledWith(task.sourceUrl)
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should require API key and team', async () => {
+      const result = await destination.validateConfig({
+        ...mockConfig,
+        destinationToken: undefined,
+        destinationConfig: {},
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Linear API key is required')
+      expect(result.errors).toContain('Linear team is required')
+    })
+
+    it('should report unknown teams', async () => {
+      mockGetTeam.mockResolvedValue(null)
+
+      const result = await destination.validateConfig(mockConfig)
+
+      expect(result.errors).toContain('Linear team not found: team-1')
+    })
+
+    it('should pass for an existing team', async () => {
+      mockGetTeam.mockResolvedValue({ id: 'team-1', key: 'ENG', name: 'Engineering' })
+
+      expect(await destination.validateConfig(mockConfig)).toEqual({ valid: true, errors: [] })
+    })
+  })
+})
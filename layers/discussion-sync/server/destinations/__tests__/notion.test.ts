@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NotionDestination } from '../notion'
+import type { SourceConfig } from '../../adapters/base'
+import type { TaskData } from '../base'
+
+// Mock the NotionService
+const mockCreateTask = vi.fn()
+const mockUpdateTask = vi.fn()
+const mockFindDuplicateByUrl = vi.fn()
+const mockValidateConfig = vi.fn()
+const mockTestConnection = vi.fn()
+const mockDestroy = vi.fn()
+const mockConstructor = vi.fn()
+
+vi.mock('../../services/notion', () => {
+  return {
+    NotionService: class MockNotionService {
+      constructor(apiKey?: string) {
+        mockConstructor(apiKey)
+      }
+
+      createTask = mockCreateTask
+      updateTask = mockUpdateTask
+      findDuplicateByUrl = mockFindDuplicateByUrl
+      validateConfig = mockValidateConfig
+      testConnection = mockTestConnection
+      destroy = mockDestroy
+    },
+  }
+})
+
+// Mock the encrypted config helper
+vi.mock('../../utils/encryptedConfig', () => {
+  return {
+    getDecryptedNotionToken: vi.fn().mockResolvedValue('secret_notion_token'),
+  }
+})
+
+describe('NotionDestination', () => {
+  let destination: NotionDestination
+
+  const mockConfig: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'slack',
+    name: 'Test Config',
+    notionToken: 'encrypted-token',
+    notionDatabaseId: 'database-123',
+    aiEnabled: false,
+    autoSync: true,
+    postConfirmation: true,
+    active: true,
+  }
+
+  const task: TaskData = {
+    title: 'Fix button spacing',
+    sourceUrl: 'https://example.com/thread/1',
+    sourceThreadId: 'thread-1',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    destination = new NotionDestination()
+  })
+
+  describe('createTask', () => {
+    it('should create a page with the config token and link to it', async () => {
+      mockCreateTask.mockResolvedValue('1234abcd-5678-90ef-1234-567890abcdef')
+
+      const created = await destination.createTask(task, mockConfig)
+
+      expect(mockConstructor).toHaveBeenCalledWith('secret_notion_token')
+      expect(mockCreateTask).toHaveBeenCalledWith(task, mockConfig)
+      expect(created).toEqual({
+        id: '1234abcd-5678-90ef-1234-567890abcdef',
+        url: 'https://notion.so/1234abcd567890ef1234567890abcdef',
+      })
+    })
+
+    it('should destroy the service even if creation fails', async () => {
+      mockCreateTask.mockRejectedValue(new Error('Notion API error'))
+
+      await expect(destination.createTask(task, mockConfig)).rejects.toThrow('Notion API error')
+      expect(mockDestroy).toHaveBeenCalled()
+    })
+  })
+
+  describe('findDuplicate', () => {
+    it('should look up pages by source URL', async () => {
+      mockFindDuplicateByUrl.mockResolvedValue({ id: 'page-1', url: 'https://www.notion.so/Fix-page-1', properties: {} })
+
+      const duplicate = await destination.findDuplicate(task, mockConfig)
+
+      expect(mockFindDuplicateByUrl).toHaveBeenCalledWith(task.sourceUrl, mockConfig)
+      expect(duplicate).toEqual({ id: 'page-1', url: 'https://www.notion.so/Fix-page-1' })
+    })
+
+    it('should return null without a duplicate', async () => {
+      mockFindDuplicateByUrl.mockResolvedValue(null)
+
+      expect(await destination.findDuplicate(task, mockConfig)).toBeNull()
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should return the service validation', async () => {
+      mockValidateConfig.mockResolvedValue({ valid: false, errors: ['Notion database ID is required'] })
+
+      const result = await destination.validateConfig(mockConfig)
+
+      expect(result.errors).toContain('Notion database ID is required')
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return false when the database is not accessible', async () => {
+      mockTestConnection.mockRejectedValue(new Error('Could not find database'))
+
+      expect(await destination.testConnection(mockConfig)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * Base adapter interface for task destinations
+ * All task destinations (Notion, Linear, etc.) must implement this interface
+ */
+
+import type { AISummaryResponse } from '../services/ai'
+import type { Attachment, DestinationSettings, SourceConfig, ThreadMessage, ValidationResult } from '../adapters/base'
+
+// ============================================
+// TYPES
+// ============================================
+
+export const DEFAULT_DESTINATION_TYPE = 'notion'
+
+export interface TaskData {
+  title: string
+  description?: string
+  sourceUrl: string
+  sourceThreadId: string
+  priority?: 'low' | 'medium' | 'high'
+  assignee?: string
+  tags?: string[]
+  aiSummary?: AISummaryResponse
+  attachments?: Attachment[] // Images and files shared in the thread
+  transcript?: ThreadMessage[] // Messages of the thread, oldest first
+  metadata?: Record<string, unknown>
+}
+
+export interface CreatedTask {
+  id: string // ID in the destination (page ID, issue key, ...)
+  url: string // Deep link to the task
+}
+
+/**
+ * Outcome of creating a discussion's tasks in one destination
+ *
+ * A partial delivery created some of its tasks before failing.
+ */
+export interface DeliveryResult {
+  destinationType: string
+  status: 'completed' | 'partial' | 'failed'
+  taskIds: string[]
+  error?: string
+}
+
+// ============================================
+// ADAPTER INTERFACE
+// ============================================
+
+export interface TaskDestinationAdapter {
+  /**
+   * Unique identifier for this destination type
+   * Examples: 'notion', 'linear', 'github', 'jira', 'board'
+   */
+  destinationType: string
+
+  /**
+   * Name shown to people, e.g. in confirmation messages
+   */
+  displayName: string
+
+  /**
+   * Tasks only exist as discussionSyncTasks records (the built-in task
+   * board): the record takes the created task's ID and must be stored
+   */
+  builtIn?: boolean
+
+  /**
+   * Create a task from a discussion
+   * This is called once per detected task
+   */
+  createTask(task: TaskData, config: SourceConfig): Promise<CreatedTask>
+
+  /**
+   * Update fields of an existing task
+   *
+   * The body is rewritten only for a whole task (see isFullTask), it is
+   * built from sections a partial update doesn't carry.
+   */
+  updateTask(
+    taskId: string,
+    updates: Partial<TaskData>,
+    config: SourceConfig
+  ): Promise<void>
+
+  /**
+   * Find a task created earlier for the same source discussion
+   */
+  findDuplicate(task: TaskData, config: SourceConfig): Promise<CreatedTask | null>
+
+  /**
+   * Validate destination configuration
+   * This is called when a team sets up a new source config
+   */
+  validateConfig(config: SourceConfig): Promise<ValidationResult>
+
+  /**
+   * Health check - test connection to destination API
+   * This is called to verify API credentials are valid
+   */
+  testConnection(config: SourceConfig): Promise<boolean>
+}
+
+// ============================================
+// ADAPTER REGISTRY
+// ============================================
+
+type DestinationClass = new () => TaskDestinationAdapter
+
+const destinations: Map<string, DestinationClass> = new Map()
+
+/**
+ * Register a task destination adapter
+ */
+export function registerDestination(
+  destinationType: string,
+  DestinationClass: DestinationClass
+) {
+  destinations.set(destinationType, DestinationClass)
+}
+
+/**
+ * Get an adapter instance for a destination type
+ */
+export function getDestination(destinationType: string): TaskDestinationAdapter {
+  const DestinationClass = destinations.get(destinationType)
+  if (!DestinationClass) {
+    const availableTypes = Array.from(destinations.keys())
+    throw new Error(
+      `No destination registered for type: ${destinationType}. ` +
+      `Available destinations: ${availableTypes.length > 0 ? availableTypes.join(', ') : 'none'}`,
+    )
+  }
+  return new DestinationClass()
+}
+
+/**
+ * Check if an adapter is registered for a destination type
+ */
+export function hasDestination(destinationType: string): boolean {
+  return destinations.has(destinationType)
+}
+
+/**
+ * Get all registered destination types
+ */
+export function getRegisteredDestinationTypes(): string[] {
+  return Array.from(destinations.keys())
+}
+
+/**
+ * Whether updates carry a whole task rather than a few changed fields
+ */
+export function isFullTask(updates: Partial<TaskData>): updates is TaskData {
+  return !!updates.title && !!updates.sourceUrl && !!updates.sourceThreadId
+}
+
+/**
+ * Destination a source config creates tasks in
+ *
+ * Configs from before destinations were pluggable have none and use Notion.
+ */
+export function getDestinationType(config: Pick<SourceConfig | DestinationSettings, 'destinationType'>): string {
+  return config.destinationType || DEFAULT_DESTINATION_TYPE
+}
+
+/**
+ * Configs for every destination a source config delivers to, main one first
+ *
+ * Each is the source config with that destination's settings swapped in, so
+ * destinations read destinationConfig and destinationToken as usual. Notion
+ * always uses the config's Notion fields. Repeated destination types are
+ * skipped, tasks would be created twice.
+ */
+export function getDestinationConfigs(config: SourceConfig): SourceConfig[] {
+  const configs = [config]
+  const seen = new Set([getDestinationType(config)])
+
+  for (const destination of config.additionalDestinations || []) {
+    const destinationType = getDestinationType(destination)
+
+    if (seen.has(destinationType)) {
+      console.warn('[Destinations] Skipping repeated destination:', destinationType)
+      continue
+    }
+    seen.add(destinationType)
+
+    configs.push({
+      ...config,
+      destinationType,
+      destinationConfig: destination.destinationConfig,
+      destinationToken: destination.destinationToken,
+      additionalDestinations: undefined,
+    })
+  }
+
+  return configs
+}
+
+/**
+ * Validate every destination of a source config with its destination adapter
+ *
+ * The one place destinations are validated, source adapters only check
+ * their own settings. The processor runs it when it loads a source config.
+ */
+export async function validateDestinations(config: SourceConfig): Promise<ValidationResult> {
+  const errors: string[] = []
+
+  for (const destinationConfig of getDestinationConfigs(config)) {
+    const destinationType = getDestinationType(destinationConfig)
+
+    if (!hasDestination(destinationType)) {
+      errors.push(`Unknown destination: ${destinationType}`)
+      continue
+    }
+
+    const result = await getDestination(destinationType).validateConfig(destinationConfig)
+    errors.push(...result.errors)
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Board Destination - Implements TaskDestinationAdapter for the built-in task board
+ *
+ * Tasks stay inside the app: they are the discussionSyncTasks records the
+ * processor stores, shown on the team's Kanban board. Needs no credentials,
+ * for teams without Notion, Linear, GitHub or Jira.
+ */
+
+import { nanoid } from 'nanoid'
+import { findTaskRecord, getTaskBoardUrl, updateTaskRecord } from '../utils/taskRecords'
+import type { TaskRecordUpdates } from '../utils/taskRecords'
+import type { SourceConfig, ValidationResult } from '../adapters/base'
+import type { CreatedTask, TaskData, TaskDestinationAdapter } from './base'
+
+export class BoardDestination implements TaskDestinationAdapter {
+  destinationType = 'board' as const
+  displayName = 'Task board'
+  builtIn = true
+
+  /**
+   * Hand out the ID of the task record the processor stores next
+   */
+  async createTask(task: TaskData, config: SourceConfig): Promise<CreatedTask> {
+    const teamId = this.getTeamId(config)
+    const id = nanoid()
+
+    console.log('[Board Destination] Creating task:', { title: task.title, teamId })
+
+    return { id, url: await getTaskBoardUrl(teamId, id) }
+  }
+
+  /**
+   * Update the fields of a task record
+   */
+  async updateTask(
+    taskId: string,
+    updates: Partial<TaskData>,
+    config: SourceConfig
+  ): Promise<void> {
+    const fields: TaskRecordUpdates = {}
+
+    if (updates.title) {
+      fields.title = updates.title
+    }
+
+    if (updates.description !== undefined) {
+      fields.description = updates.description
+    }
+
+    if (updates.priority) {
+      fields.priority = updates.priority
+    }
+
+    if (updates.aiSummary) {
+      fields.summary = updates.aiSummary.summary
+    }
+
+    await updateTaskRecord(this.getTeamId(config), taskId, fields)
+  }
+
+  /**
+   * Find a board task created for the same source discussion
+   */
+  async findDuplicate(task: TaskData, config: SourceConfig): Promise<CreatedTask | null> {
+    const record = await findTaskRecord(this.getTeamId(config), this.destinationType, task.sourceUrl)
+
+    return record ? { id: record.id, url: record.externalUrl || '' } : null
+  }
+
+  /**
+   * Validate that the config belongs to a team, there are no credentials
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors = config.teamId ? [] : ['Source config has no team']
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * The board is the app's own database, nothing to test
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    console.log('[Board Destination] Testing connection (nothing to test for the task board):', config.id)
+    return true
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  private getTeamId(config: SourceConfig): string {
+    if (!config.teamId) {
+      throw new Error('[Board Destination] Source config has no team')
+    }
+
+    return config.teamId
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * GitHub Destination - Implements TaskDestinationAdapter for GitHub Issues
+ *
+ * Opens one issue per task in the configured repository. Settings live in
+ * the config's destinationConfig, the token in destinationToken:
+ *
+ * - repository: "owner/repo" (required)
+ * - labels: labels added to every issue, next to the task's tags
+ * - priorityLabels: label per priority, defaults to "priority: high" etc.
+ * - assignees: logins every issue is assigned to
+ *
+ * The body holds the AI summary and the thread transcript, and ends with a
+ * link to the source discussion, which is also how duplicates are found.
+ */
+
+import { GitHubService, buildGitHubThreadId, parseGitHubThreadId } from '../services/github'
+import { getDecryptedDestinationToken } from '../utils/encryptedConfig'
+import { buildTaskMarkdown } from '../utils/taskMarkdown'
+import type { GitHubIssue, GitHubIssueInput } from '../services/github'
+import type { SourceConfig, ValidationResult } from '../adapters/base'
+import { isFullTask } from './base'
+import type { CreatedTask, TaskData, TaskDestinationAdapter } from './base'
+
+type TaskPriority = NonNullable<TaskData['priority']>
+
+const GITHUB_DESTINATION_CONFIG = {
+  MAX_BODY_LENGTH: 65536, // GitHub rejects longer issue bodies
+  REPOSITORY_PATTERN: /^([\w.-]+)\/([\w.-]+)$/,
+} as const
+
+const DEFAULT_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  high: 'priority: high',
+  medium: 'priority: medium',
+  low: 'priority: low',
+}
+
+export interface GitHubDestinationConfig {
+  repository: string
+  labels?: string[]
+  priorityLabels?: Partial<Record<TaskPriority, string>>
+  assignees?: string[]
+}
+
+export class GitHubDestination implements TaskDestinationAdapter {
+  destinationType = 'github' as const
+  displayName = 'GitHub'
+
+  /**
+   * Open an issue in the repository
+   */
+  async createTask(task: TaskData, config: SourceConfig): Promise<CreatedTask> {
+    const service = await this.getService(config)
+    const settings = this.getSettings(config)
+    const { owner, repo } = this.parseRepository(settings.repository)
+
+    console.log('[GitHub Destination] Creating issue:', {
+      title: task.title,
+      repository: settings.repository,
+    })
+
+    const labels = [
+      ...(settings.labels || []),
+      ...(task.tags || []),
+      ...(task.priority ? [this.getPriorityLabel(task.priority, settings)] : []),
+    ]
+
+    const input: GitHubIssueInput = {
+      title: task.title,
+      body: this.buildBody(task),
+      ...(labels.length > 0 && { labels: [...new Set(labels)] }),
+      ...(settings.assignees?.length && { assignees: settings.assignees }),
+    }
+
+    const issue = await service.createIssue(owner, repo, input)
+    return this.toCreatedTask(owner, repo, issue)
+  }
+
+  /**
+   * Update title, body and priority label of an issue
+   *
+   * Task IDs have the format owner/repo#123. The body is rebuilt only from
+   * a whole task, see isFullTask.
+   */
+  async updateTask(
+    taskId: string,
+    updates: Partial<TaskData>,
+    config: SourceConfig
+  ): Promise<void> {
+    const service = await this.getService(config)
+    const settings = this.getSettings(config)
+    const { owner, repo, number } = parseGitHubThreadId(taskId)
+    const input: Partial<GitHubIssueInput> = {}
+
+    if (updates.title) {
+      input.title = updates.title
+    }
+
+    if (isFullTask(updates)) {
+      input.body = this.buildBody(updates)
+    }
+
+    if (updates.priority) {
+      // Swap the priority label, other labels stay
+      const issue = await service.getIssue(owner, repo, number)
+      const priorityLabels = (['high', 'medium', 'low'] as const).map(priority => this.getPriorityLabel(priority, settings))
+      const labels = (issue.labels || [])
+        .map(label => label.name)
+        .filter(name => !priorityLabels.includes(name))
+
+      input.labels = [...labels, this.getPriorityLabel(updates.priority, settings)]
+    }
+
+    await service.updateIssue(owner, repo, number, input)
+  }
+
+  /**
+   * Find an issue whose body links to the source discussion
+   */
+  async findDuplicate(task: TaskData, config: SourceConfig): Promise<CreatedTask | null> {
+    const service = await this.getService(config)
+    const settings = this.getSettings(config)
+    const { owner, repo } = this.parseRepository(settings.repository)
+
+    const issues = await service.searchIssues(
+      `repo:${owner}/${repo} is:issue in:body "${task.sourceUrl}"`,
+    )
+
+    // Search matches words, not the exact URL
+    const issue = issues.find(candidate => candidate.body?.includes(task.sourceUrl))
+
+    return issue ? this.toCreatedTask(owner, repo, issue) : null
+  }
+
+  /**
+   * Validate token and repository
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.destinationToken) {
+      errors.push('GitHub token is required')
+    }
+
+    const repository = config.destinationConfig?.repository as string | undefined
+    if (!repository) {
+      errors.push('GitHub repository is required')
+    }
+    else if (!GITHUB_DESTINATION_CONFIG.REPOSITORY_PATTERN.test(repository)) {
+      errors.push(`GitHub repository must look like owner/repo: ${repository}`)
+    }
+
+    if (errors.length === 0) {
+      try {
+        const service = await this.getService(config)
+        const { owner, repo } = this.parseRepository(repository!)
+        const details = await service.getRepository(owner, repo)
+
+        if (!details.has_issues) {
+          errors.push(`Issues are disabled for ${details.full_name}`)
+        }
+      }
+      catch (error) {
+        errors.push(`GitHub API connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to GitHub API
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    try {
+      const service = await this.getService(config)
+      return await service.testConnection()
+    }
+    catch (error) {
+      console.error('[GitHub Destination] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  private async getService(config: SourceConfig): Promise<GitHubService> {
+    const token = await getDecryptedDestinationToken(config)
+
+    if (!token) {
+      throw new Error('[GitHub Destination] GitHub token is required in config')
+    }
+
+    return new GitHubService(token)
+  }
+
+  private getSettings(config: SourceConfig): GitHubDestinationConfig {
+    const settings = (config.destinationConfig || {}) as Partial<GitHubDestinationConfig>
+
+    if (!settings.repository) {
+      throw new Error('[GitHub Destination] GitHub repository is required in config')
+    }
+
+    return settings as GitHubDestinationConfig
+  }
+
+  private parseRepository(repository: string): { owner: string, repo: string } {
+    const match = repository.match(GITHUB_DESTINATION_CONFIG.REPOSITORY_PATTERN)
+
+    if (!match || !match[1] || !match[2]) {
+      throw new Error(`[GitHub Destination] Invalid repository: ${repository}`)
+    }
+
+    return { owner: match[1], repo: match[2] }
+  }
+
+  private getPriorityLabel(priority: TaskPriority, settings: GitHubDestinationConfig): string {
+    return settings.priorityLabels?.[priority] || DEFAULT_PRIORITY_LABELS[priority]
+  }
+
+  /**
+   * Markdown body with the transcript, without it if that is too long
+   */
+  private buildBody(task: Partial<TaskData>): string {
+    const body = buildTaskMarkdown(task, { transcript: true })
+
+    if (body.length <= GITHUB_DESTINATION_CONFIG.MAX_BODY_LENGTH) {
+      return body
+    }
+
+    console.warn('[GitHub Destination] Issue body too long, leaving out the transcript:', body.length)
+    return buildTaskMarkdown(task)
+  }
+
+  private toCreatedTask(owner: string, repo: string, issue: GitHubIssue): CreatedTask {
+    return {
+      id: buildGitHubThreadId({ owner, repo, number: issue.number }),
+      url: issue.html_url,
+    }
+  }
+}
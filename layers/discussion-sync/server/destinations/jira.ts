@@ -0,0 +1,281 @@
+/**
+ * Jira Destination - Implements TaskDestinationAdapter for Jira Cloud
+ *
+ * Creates one issue per task in the configured project. Settings live in
+ * the config's destinationConfig, the API token in destinationToken:
+ *
+ * - siteUrl: e.g. "https://acme.atlassian.net" (required)
+ * - email: account the API token belongs to (required)
+ * - projectKey: e.g. "OPS" (required)
+ * - issueType: issue type name, defaults to "Task"
+ * - labels: labels added to every issue, next to the task's tags
+ * - priorityNames: Jira priority per task priority, defaults to High/Medium/Low
+ * - mapPriority: set to false for issue types without a priority field
+ *
+ * The description is written as Atlassian Document Format. Issue keys are
+ * stored on the discussionSyncTasks records, which is how duplicates are found.
+ */
+
+import { JiraService } from '../services/jira'
+import { getDecryptedDestinationToken } from '../utils/encryptedConfig'
+import { findTaskRecord } from '../utils/taskRecords'
+import { buildTaskAdf } from '../utils/taskAdf'
+import type { JiraIssueFields } from '../services/jira'
+import type { SourceConfig, ValidationResult } from '../adapters/base'
+import { isFullTask } from './base'
+import type { CreatedTask, TaskData, TaskDestinationAdapter } from './base'
+
+type TaskPriority = NonNullable<TaskData['priority']>
+
+const DEFAULT_ISSUE_TYPE = 'Task'
+
+const DEFAULT_PRIORITY_NAMES: Record<TaskPriority, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+}
+
+// Fields createTask fills in, or Jira fills in for the API user
+const SUPPLIED_FIELDS = ['project', 'issuetype', 'summary', 'description', 'priority', 'labels', 'reporter']
+
+export interface JiraDestinationConfig {
+  siteUrl: string
+  email: string
+  projectKey: string
+  issueType?: string
+  labels?: string[]
+  priorityNames?: Partial<Record<TaskPriority, string>>
+  mapPriority?: boolean
+}
+
+export class JiraDestination implements TaskDestinationAdapter {
+  destinationType = 'jira' as const
+  displayName = 'Jira'
+
+  /**
+   * Create an issue in the project
+   */
+  async createTask(task: TaskData, config: SourceConfig): Promise<CreatedTask> {
+    const settings = this.getSettings(config)
+    const service = await this.getService(config, settings)
+
+    console.log('[Jira Destination] Creating issue:', {
+      title: task.title,
+      projectKey: settings.projectKey,
+    })
+
+    const labels = [...new Set([...(settings.labels || []), ...(task.tags || [])].map(toLabel))]
+
+    const fields: JiraIssueFields = {
+      project: { key: settings.projectKey },
+      issuetype: { name: settings.issueType || DEFAULT_ISSUE_TYPE },
+      summary: toSummary(task.title),
+      description: buildTaskAdf(task),
+      ...(task.priority && settings.mapPriority !== false && {
+        priority: { name: this.getPriorityName(task.priority, settings) },
+      }),
+      ...(labels.length > 0 && { labels }),
+    }
+
+    const issue = await service.createIssue(fields)
+    return { id: issue.key, url: service.getIssueUrl(issue.key) }
+  }
+
+  /**
+   * Update summary, description and priority of an issue
+   *
+   * The description is rebuilt only from a whole task, see isFullTask.
+   */
+  async updateTask(
+    taskId: string,
+    updates: Partial<TaskData>,
+    config: SourceConfig
+  ): Promise<void> {
+    const settings = this.getSettings(config)
+    const service = await this.getService(config, settings)
+    const fields: JiraIssueFields = {}
+
+    if (updates.title) {
+      fields.summary = toSummary(updates.title)
+    }
+
+    if (isFullTask(updates)) {
+      fields.description = buildTaskAdf(updates)
+    }
+
+    if (updates.priority && settings.mapPriority !== false) {
+      fields.priority = { name: this.getPriorityName(updates.priority, settings) }
+    }
+
+    await service.updateIssue(taskId, fields)
+  }
+
+  /**
+   * Find an issue created earlier for the same source discussion
+   *
+   * Jira can't search for links, so this looks at the stored task records.
+   */
+  async findDuplicate(task: TaskData, config: SourceConfig): Promise<CreatedTask | null> {
+    if (!config.teamId) {
+      return null
+    }
+
+    const record = await findTaskRecord(config.teamId, this.destinationType, task.sourceUrl)
+
+    return record?.externalId && record.externalUrl
+      ? { id: record.externalId, url: record.externalUrl }
+      : null
+  }
+
+  /**
+   * Validate credentials, project, issue type and required fields
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+    const settings = (config.destinationConfig || {}) as Partial<JiraDestinationConfig>
+
+    if (!config.destinationToken) {
+      errors.push('Jira API token is required')
+    }
+
+    if (!settings.siteUrl) {
+      errors.push('Jira site URL is required')
+    }
+
+    if (!settings.email) {
+      errors.push('Jira account email is required')
+    }
+
+    if (!settings.projectKey) {
+      errors.push('Jira project key is required')
+    }
+
+    if (errors.length === 0) {
+      try {
+        errors.push(...await this.validateProject(config, settings as JiraDestinationConfig))
+      }
+      catch (error) {
+        errors.push(`Jira API connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to Jira API
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    try {
+      const service = await this.getService(config, this.getSettings(config))
+      return await service.testConnection()
+    }
+    catch (error) {
+      console.error('[Jira Destination] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  private async getService(config: SourceConfig, settings: JiraDestinationConfig): Promise<JiraService> {
+    const apiToken = await getDecryptedDestinationToken(config)
+
+    if (!apiToken) {
+      throw new Error('[Jira Destination] Jira API token is required in config')
+    }
+
+    return new JiraService({ siteUrl: settings.siteUrl, email: settings.email, apiToken })
+  }
+
+  private getSettings(config: SourceConfig): JiraDestinationConfig {
+    const settings = (config.destinationConfig || {}) as Partial<JiraDestinationConfig>
+
+    if (!settings.siteUrl || !settings.email || !settings.projectKey) {
+      throw new Error('[Jira Destination] Jira site URL, email and project key are required in config')
+    }
+
+    return settings as JiraDestinationConfig
+  }
+
+  private getPriorityName(priority: TaskPriority, settings: JiraDestinationConfig): string {
+    return settings.priorityNames?.[priority] || DEFAULT_PRIORITY_NAMES[priority]
+  }
+
+  /**
+   * Check that issues of the configured type can be created with the
+   * fields this destination fills in
+   */
+  private async validateProject(config: SourceConfig, settings: JiraDestinationConfig): Promise<string[]> {
+    const service = await this.getService(config, settings)
+    const errors: string[] = []
+
+    const project = await service.getProject(settings.projectKey)
+    if (!project) {
+      return [`Jira project not found: ${settings.projectKey}`]
+    }
+
+    const issueTypeName = settings.issueType || DEFAULT_ISSUE_TYPE
+    const issueTypes = await service.getIssueTypes(project.key)
+    const issueType = issueTypes.find(type => type.name.toLowerCase() === issueTypeName.toLowerCase())
+
+    if (!issueType) {
+      return [
+        `Jira issue type "${issueTypeName}" is not available in ${project.key}. ` +
+        `Available types: ${issueTypes.map(type => type.name).join(', ') || 'none'}`,
+      ]
+    }
+
+    const fields = await service.getCreateFields(project.key, issueType.id)
+
+    for (const field of fields) {
+      if (field.required && !field.hasDefaultValue && !SUPPLIED_FIELDS.includes(field.fieldId)) {
+        errors.push(`Jira field "${field.name}" is required for ${issueType.name} issues but can't be filled in`)
+      }
+    }
+
+    if (settings.mapPriority !== false) {
+      const priorityField = fields.find(field => field.fieldId === 'priority')
+
+      if (!priorityField) {
+        errors.push(`Jira ${issueType.name} issues have no priority field, set mapPriority to false`)
+      }
+      else if (priorityField.allowedValues) {
+        const names = priorityField.allowedValues.map(value => value.name)
+
+        for (const priority of ['high', 'medium', 'low'] as const) {
+          const name = this.getPriorityName(priority, settings)
+          if (!names.includes(name)) {
+            errors.push(`Jira priority not found: ${name}`)
+          }
+        }
+      }
+    }
+
+    if (settings.labels?.length && !fields.some(field => field.fieldId === 'labels')) {
+      errors.push(`Jira ${issueType.name} issues have no labels field`)
+    }
+
+    return errors
+  }
+}
+
+/**
+ * Jira labels can't contain spaces
+ */
+function toLabel(value: string): string {
+  return value.trim().replace(/\s+/g, '-')
+}
+
+/**
+ * Jira summaries are single-line and at most 255 characters
+ */
+function toSummary(title: string): string {
+  const summary = title.replace(/\s+/g, ' ').trim()
+  return summary.length > 255 ? `${summary.slice(0, 252)}...` : summary
+}
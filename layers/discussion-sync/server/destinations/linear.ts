@@ -0,0 +1,221 @@
+/**
+ * Linear Destination - Implements TaskDestinationAdapter for Linear
+ *
+ * Creates one issue per task in the configured team (and project). Settings
+ * live in the config's destinationConfig, the API key in destinationToken:
+ *
+ * - teamId: team ID or key, e.g. "ENG" (required)
+ * - projectId: project to add issues to
+ * - labels: label names added to every issue, next to the task's tags
+ * - assigneeEmail: default assignee, tasks with an assignee email win
+ *
+ * The source discussion is attached to the issue as a link, which is also
+ * how duplicates are found.
+ */
+
+import { LinearService } from '../services/linear'
+import { getDecryptedDestinationToken } from '../utils/encryptedConfig'
+import { buildTaskMarkdown } from '../utils/taskMarkdown'
+import type { LinearIssueInput } from '../services/linear'
+import type { SourceConfig, ValidationResult } from '../adapters/base'
+import { isFullTask } from './base'
+import type { CreatedTask, TaskData, TaskDestinationAdapter } from './base'
+
+// Linear priorities: 0 none, 1 urgent, 2 high, 3 medium, 4 low
+const PRIORITY_MAP: Record<NonNullable<TaskData['priority']>, number> = {
+  high: 2,
+  medium: 3,
+  low: 4,
+}
+
+export interface LinearDestinationConfig {
+  teamId: string
+  projectId?: string
+  labels?: string[]
+  assigneeEmail?: string
+}
+
+export class LinearDestination implements TaskDestinationAdapter {
+  destinationType = 'linear' as const
+  displayName = 'Linear'
+
+  /**
+   * Create an issue and link it to the source discussion
+   */
+  async createTask(task: TaskData, config: SourceConfig): Promise<CreatedTask> {
+    const service = await this.getService(config)
+    const settings = this.getSettings(config)
+
+    console.log('[Linear Destination] Creating issue:', {
+      title: task.title,
+      teamId: settings.teamId,
+    })
+
+    // The setting may be a team key like "ENG", labels only know the team's UUID
+    const team = await service.getTeam(settings.teamId)
+    if (!team) {
+      throw new Error(`[Linear Destination] Linear team not found: ${settings.teamId}`)
+    }
+
+    const labels = await service.findLabels(team.id, [
+      ...new Set([...(settings.labels || []), ...(task.tags || [])]),
+    ])
+    const assigneeId = await this.findAssigneeId(service, task, settings)
+
+    const issue = await service.createIssue({
+      teamId: team.id,
+      title: task.title,
+      description: buildTaskMarkdown(task),
+      ...(task.priority && { priority: PRIORITY_MAP[task.priority] }),
+      ...(settings.projectId && { projectId: settings.projectId }),
+      ...(labels.length > 0 && { labelIds: labels.map(label => label.id) }),
+      ...(assigneeId && { assigneeId }),
+    })
+
+    try {
+      await service.linkUrl(issue.id, task.sourceUrl, 'Source discussion')
+    }
+    catch (error) {
+      // Non-fatal, the description links to the source as well
+      console.warn('[Linear Destination] Could not link source discussion:', issue.identifier, error)
+    }
+
+    return { id: issue.identifier, url: issue.url }
+  }
+
+  /**
+   * Update title, description and priority of an issue
+   *
+   * The description is rebuilt only from a whole task, see isFullTask.
+   */
+  async updateTask(
+    taskId: string,
+    updates: Partial<TaskData>,
+    config: SourceConfig
+  ): Promise<void> {
+    const service = await this.getService(config)
+    const input: Partial<Omit<LinearIssueInput, 'teamId'>> = {}
+
+    if (updates.title) {
+      input.title = updates.title
+    }
+
+    if (isFullTask(updates)) {
+      input.description = buildTaskMarkdown(updates)
+    }
+
+    if (updates.priority) {
+      input.priority = PRIORITY_MAP[updates.priority]
+    }
+
+    await service.updateIssue(taskId, input)
+  }
+
+  /**
+   * Find an issue the source discussion is linked to
+   */
+  async findDuplicate(task: TaskData, config: SourceConfig): Promise<CreatedTask | null> {
+    const service = await this.getService(config)
+    const [issue] = await service.findIssuesByUrl(task.sourceUrl)
+
+    return issue ? { id: issue.identifier, url: issue.url } : null
+  }
+
+  /**
+   * Validate API key and team
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    const errors: string[] = []
+
+    if (!config.destinationToken) {
+      errors.push('Linear API key is required')
+    }
+
+    const teamId = config.destinationConfig?.teamId as string | undefined
+    if (!teamId) {
+      errors.push('Linear team is required')
+    }
+
+    if (errors.length === 0) {
+      try {
+        const service = await this.getService(config)
+        const team = await service.getTeam(teamId!)
+
+        if (!team) {
+          errors.push(`Linear team not found: ${teamId}`)
+        }
+      }
+      catch (error) {
+        errors.push(`Linear API connection test failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Test connection to Linear API
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    try {
+      const service = await this.getService(config)
+      return await service.testConnection()
+    }
+    catch (error) {
+      console.error('[Linear Destination] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  private async getService(config: SourceConfig): Promise<LinearService> {
+    const apiKey = await getDecryptedDestinationToken(config)
+
+    if (!apiKey) {
+      throw new Error('[Linear Destination] Linear API key is required in config')
+    }
+
+    return new LinearService(apiKey)
+  }
+
+  private getSettings(config: SourceConfig): LinearDestinationConfig {
+    const settings = (config.destinationConfig || {}) as Partial<LinearDestinationConfig>
+
+    if (!settings.teamId) {
+      throw new Error('[Linear Destination] Linear team is required in config')
+    }
+
+    return settings as LinearDestinationConfig
+  }
+
+  /**
+   * Linear user for the task's assignee email, or the default assignee
+   *
+   * Unknown emails leave the issue unassigned.
+   */
+  private async findAssigneeId(
+    service: LinearService,
+    task: TaskData,
+    settings: LinearDestinationConfig
+  ): Promise<string | undefined> {
+    const email = task.assignee?.includes('@') ? task.assignee : settings.assigneeEmail
+
+    if (!email) {
+      return undefined
+    }
+
+    const user = await service.findUserByEmail(email)
+
+    if (!user) {
+      console.warn('[Linear Destination] No Linear user for assignee:', email)
+    }
+
+    return user?.id
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Notion Destination - Implements TaskDestinationAdapter for Notion
+ *
+ * Creates one page per task in the config's Notion database, using the
+ * config's Notion token (or NOTION_API_KEY when the config has none).
+ */
+
+import { NotionService } from '../services/notion'
+import { getDecryptedNotionToken } from '../utils/encryptedConfig'
+import type { SourceConfig, ValidationResult } from '../adapters/base'
+import type { CreatedTask, TaskData, TaskDestinationAdapter } from './base'
+
+export class NotionDestination implements TaskDestinationAdapter {
+  destinationType = 'notion' as const
+  displayName = 'Notion'
+
+  /**
+   * Create a page in the Notion database
+   */
+  async createTask(task: TaskData, config: SourceConfig): Promise<CreatedTask> {
+    return this.withService(config, async (service) => {
+      const pageId = await service.createTask(task, config)
+      return { id: pageId, url: this.getPageUrl(pageId) }
+    })
+  }
+
+  /**
+   * Update the properties of a page
+   */
+  async updateTask(
+    taskId: string,
+    updates: Partial<TaskData>,
+    config: SourceConfig
+  ): Promise<void> {
+    return this.withService(config, service => service.updateTask(taskId, updates, config))
+  }
+
+  /**
+   * Find a page with the same source URL
+   */
+  async findDuplicate(task: TaskData, config: SourceConfig): Promise<CreatedTask | null> {
+    return this.withService(config, async (service) => {
+      const page = await service.findDuplicateByUrl(task.sourceUrl, config)
+      return page ? { id: page.id, url: page.url || this.getPageUrl(page.id) } : null
+    })
+  }
+
+  /**
+   * Validate Notion token and database ID
+   */
+  async validateConfig(config: SourceConfig): Promise<ValidationResult> {
+    try {
+      return await this.withService(config, service => service.validateConfig(config))
+    }
+    catch (error) {
+      // No token in the config nor in the runtime config
+      return {
+        valid: false,
+        errors: [error instanceof Error ? error.message : String(error)],
+      }
+    }
+  }
+
+  /**
+   * Test access to the Notion database
+   */
+  async testConnection(config: SourceConfig): Promise<boolean> {
+    try {
+      return await this.withService(config, service => service.testConnection(config))
+    }
+    catch (error) {
+      console.error('[Notion Destination] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Run an operation with a Notion service for the config's token
+   *
+   * Services keep a cache with a cleanup timer, so they are destroyed
+   * after each operation.
+   */
+  private async withService<T>(
+    config: SourceConfig,
+    operation: (service: NotionService) => Promise<T>
+  ): Promise<T> {
+    const notionToken = await getDecryptedNotionToken(config)
+    const service = new NotionService(notionToken)
+
+    try {
+      return await operation(service)
+    }
+    finally {
+      service.destroy()
+    }
+  }
+
+  private getPageUrl(pageId: string): string {
+    return `https://notion.so/${pageId.replace(/-/g, '')}`
+  }
+}
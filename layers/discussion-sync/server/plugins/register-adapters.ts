@@ -8,6 +8,14 @@
 import { registerAdapter } from '../adapters/base'
 import { FigmaAdapter } from '../adapters/figma'
 import { SlackAdapter } from '../adapters/slack'
+import { GitHubAdapter } from '../adapters/github'
+import { LinearAdapter } from '../adapters/linear'
+import { TeamsAdapter } from '../adapters/teams'
+import { DiscordAdapter } from '../adapters/discord'
+import { MattermostAdapter } from '../adapters/mattermost'
+import { ZendeskAdapter } from '../adapters/zendesk'
+import { GenericWebhookAdapter } from '../adapters/genericWebhook'
+import { EmailAdapter } from '../adapters/email'
 
 export default defineNitroPlugin(() => {
   console.log('[Discussion Sync] Registering source adapters...')
@@ -19,7 +27,31 @@ export default defineNitroPlugin(() => {
     // Register Slack adapter
     registerAdapter('slack', SlackAdapter)
 
-    console.log('[Discussion Sync] Adapters registered successfully:', ['figma', 'slack'])
+    // Register GitHub adapter
+    registerAdapter('github', GitHubAdapter)
+
+    // Register Linear adapter
+    registerAdapter('linear', LinearAdapter)
+
+    // Register Microsoft Teams adapter
+    registerAdapter('teams', TeamsAdapter)
+
+    // Register Discord adapter
+    registerAdapter('discord', DiscordAdapter)
+
+    // Register Mattermost adapter
+    registerAdapter('mattermost', MattermostAdapter)
+
+    // Register Zendesk adapter
+    registerAdapter('zendesk', ZendeskAdapter)
+
+    // Register generic JSON webhook adapter
+    registerAdapter('generic-webhook', GenericWebhookAdapter)
+
+    // Register inbound email adapter
+    registerAdapter('email', EmailAdapter)
+
+    console.log('[Discussion Sync] Adapters registered successfully:', ['figma', 'slack', 'github', 'linear', 'teams', 'discord', 'mattermost', 'zendesk', 'generic-webhook', 'email'])
   }
   catch (error) {
     console.error('[Discussion Sync] Failed to register adapters:', error)
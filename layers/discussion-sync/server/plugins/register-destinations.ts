@@ -0,0 +1,40 @@
+/**
+ * Register Task Destination Adapters
+ *
+ * This plugin runs on server startup and registers all available
+ * task destination adapters with the destination registry.
+ */
+
+import { registerDestination } from '../destinations/base'
+import { NotionDestination } from '../destinations/notion'
+import { LinearDestination } from '../destinations/linear'
+import { GitHubDestination } from '../destinations/github'
+import { JiraDestination } from '../destinations/jira'
+import { BoardDestination } from '../destinations/board'
+
+export default defineNitroPlugin(() => {
+  console.log('[Discussion Sync] Registering task destinations...')
+
+  try {
+    // Register Notion destination
+    registerDestination('notion', NotionDestination)
+
+    // Register Linear destination
+    registerDestination('linear', LinearDestination)
+
+    // Register GitHub Issues destination
+    registerDestination('github', GitHubDestination)
+
+    // Register Jira Cloud destination
+    registerDestination('jira', JiraDestination)
+
+    // Register built-in task board
+    registerDestination('board', BoardDestination)
+
+    console.log('[Discussion Sync] Destinations registered successfully:', ['notion', 'linear', 'github', 'jira', 'board'])
+  }
+  catch (error) {
+    console.error('[Discussion Sync] Failed to register destinations:', error)
+    throw error
+  }
+})
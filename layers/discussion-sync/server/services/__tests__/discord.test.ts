@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  DiscordService,
+  buildDiscordThreadId,
+  isDiscordThreadChannel,
+  parseDiscordThreadId,
+} from '../discord'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function jsonResponse(data: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => data,
+    text: async () => JSON.stringify(data),
+  }
+}
+
+const message = (id: string, username: string, content: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  channel_id: '500',
+  author: { id: `u-${username}`, username },
+  content,
+  timestamp: '2025-11-12T15:00:00.000000+00:00',
+  ...extra,
+})
+
+describe('DiscordService', () => {
+  let service: DiscordService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new DiscordService('bot-token')
+  })
+
+  describe('thread ID helpers', () => {
+    it('should round-trip thread IDs', () => {
+      expect(buildDiscordThreadId({ channelId: '500' })).toBe('500')
+      expect(buildDiscordThreadId({ channelId: '500', messageId: '501' })).toBe('500:501')
+      expect(parseDiscordThreadId('500:501')).toEqual({ channelId: '500', messageId: '501' })
+      expect(parseDiscordThreadId('500')).toEqual({ channelId: '500', messageId: undefined })
+    })
+
+    it('should detect thread channel types', () => {
+      expect(isDiscordThreadChannel(11)).toBe(true)
+      expect(isDiscordThreadChannel(0)).toBe(false)
+    })
+  })
+
+  describe('constructor', () => {
+    it('should throw error if no token provided', () => {
+      expect(() => new DiscordService('')).toThrow('Bot token is required')
+    })
+  })
+
+  describe('buildThread', () => {
+    it('should build thread from channel history oldest first', async () => {
+      // Discord returns newest first
+      mockFetch.mockResolvedValueOnce(jsonResponse([
+        message('503', 'kai', 'Will look'),
+        message('502', 'lotte', 'Same here', {
+          attachments: [{ id: 'a1', filename: 'export.png', url: 'https://cdn.discordapp.com/a1', content_type: 'image/png', size: 10 }],
+        }),
+        message('501', 'lotte', 'CSV export breaks accents'),
+      ]))
+
+      const thread = await service.buildThread({ channelId: '500' })
+
+      expect(thread.id).toBe('500')
+      expect(thread.rootMessage.content).toBe('CSV export breaks accents')
+      expect(thread.replies.map(r => r.id)).toEqual(['502', '503'])
+      expect(thread.replies[0]?.attachments?.[0]).toMatchObject({ type: 'image', name: 'export.png' })
+      expect(thread.participants).toEqual(['lotte', 'kai'])
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://discord.com/api/v10/channels/500/messages?limit=100')
+      expect(init.headers.Authorization).toBe('Bot bot-token')
+    })
+
+    it('should page backwards through long threads', async () => {
+      const firstPage = Array.from({ length: 100 }, (_, i) => message(String(1200 - i), 'kai', `m${i}`))
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(firstPage))
+        .mockResolvedValueOnce(jsonResponse([message('1000', 'lotte', 'root')]))
+
+      const thread = await service.buildThread({ channelId: '500' })
+
+      expect(mockFetch.mock.calls[1][0]).toContain('before=1101')
+      expect(thread.rootMessage.id).toBe('1000')
+      expect(thread.replies).toHaveLength(100)
+    })
+
+    it('should collect replies to a message in a regular channel', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(message('501', 'lotte', 'root')))
+        .mockResolvedValueOnce(jsonResponse([
+          message('504', 'kai', 'reply', { message_reference: { message_id: '501' } }),
+          message('503', 'sam', 'unrelated'),
+        ]))
+
+      const thread = await service.buildThread({ channelId: '500', messageId: '501' })
+
+      expect(thread.id).toBe('500:501')
+      expect(thread.replies.map(r => r.id)).toEqual(['504'])
+      expect(mockFetch.mock.calls[1][0]).toContain('after=501')
+    })
+  })
+
+  describe('createMessage', () => {
+    it('should reply without pinging anyone', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(message('600', 'discubot', 'ok')))
+
+      const id = await service.createMessage('500', 'Created task', '501')
+
+      expect(id).toBe('600')
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.message_reference).toEqual({ message_id: '501', fail_if_not_exists: false })
+      expect(body.allowed_mentions).toEqual({ parse: [] })
+    })
+  })
+
+  describe('reactions', () => {
+    it('should encode emoji in reaction path', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204, json: async () => undefined })
+
+      await service.addReaction('500', '501', '✅')
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe(`https://discord.com/api/v10/channels/500/messages/501/reactions/${encodeURIComponent('✅')}/@me`)
+      expect(init.method).toBe('PUT')
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return true for valid token', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ id: '1', username: 'Discubot' }))
+
+      expect(await service.testConnection()).toBe(true)
+    })
+
+    it('should return false for invalid token', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ message: '401: Unauthorized' }, 401))
+      vi.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void) => {
+        fn()
+        return 0
+      }) as any)
+
+      expect(await service.testConnection()).toBe(false)
+    })
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { FigmaService } from '../figma'
-import type { FigmaComment, FigmaFile } from '../figma'
+import { FigmaService, extractCommentImages, findNodeContext } from '../figma'
+import type { FigmaComment, FigmaFile, FigmaNode } from '../figma'
 
 // Mock fetch globally
 const mockFetch = vi.fn()
@@ -328,6 +328,31 @@ describe('FigmaService', () => {
     })
   })
 
+  describe('extractCommentImages', () => {
+    const comment: FigmaComment = {
+      id: 'c1',
+      file_key: 'abc123',
+      parent_id: null,
+      user: { id: 'user-1', handle: 'alice', img_url: null },
+      created_at: '2024-01-01T00:00:00Z',
+      resolved_at: null,
+      message: 'Spacing is off, see https://cdn.example.com/shots/button%20states.png?sig=abc and https://example.com/spec',
+    }
+
+    it('should turn linked images into attachments', () => {
+      expect(extractCommentImages(comment)).toEqual([{
+        id: 'c1-0',
+        type: 'image',
+        url: 'https://cdn.example.com/shots/button%20states.png?sig=abc',
+        name: 'button states.png',
+      }])
+    })
+
+    it('should return nothing for comments without images', () => {
+      expect(extractCommentImages({ ...comment, message: 'Looks good' })).toEqual([])
+    })
+  })
+
   describe('postComment', () => {
     it('should post a comment successfully', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -546,6 +571,86 @@ describe('FigmaService', () => {
     })
   })
 
+  describe('node context', () => {
+    const document: FigmaNode = {
+      id: '0:0',
+      name: 'Document',
+      type: 'DOCUMENT',
+      children: [{
+        id: '1:0',
+        name: 'Mobile',
+        type: 'CANVAS',
+        children: [{
+          id: '2:1',
+          name: 'Checkout',
+          type: 'FRAME',
+          children: [{ id: '2:5', name: 'Pay button', type: 'INSTANCE' }],
+        }],
+      }],
+    }
+
+    it('should find the frame and page of a nested node', () => {
+      expect(findNodeContext(document, '2:5')).toEqual({
+        nodeId: '2:5',
+        nodeName: 'Pay button',
+        frameId: '2:1',
+        frameName: 'Checkout',
+        pageName: 'Mobile',
+      })
+    })
+
+    it('should use the node itself as frame for top-level frames', () => {
+      expect(findNodeContext(document, '2:1')).toMatchObject({
+        frameId: '2:1',
+        frameName: 'Checkout',
+        pageName: 'Mobile',
+      })
+    })
+
+    it('should return null for unknown nodes', () => {
+      expect(findNodeContext(document, '9:9')).toBeNull()
+    })
+
+    it('should only fetch the branch leading to the node', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ name: 'Test Design', document }),
+      })
+
+      const context = await service.getNodeContext('abc123', '2:5')
+
+      expect(context?.frameName).toBe('Checkout')
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.figma.com/v1/files/abc123?ids=2%3A5',
+        expect.any(Object)
+      )
+    })
+
+    it('should render a node as PNG', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ err: null, images: { '2:1': 'https://figma-alpha.s3.amazonaws.com/render.png' } }),
+      })
+
+      const url = await service.getNodeImageUrl('abc123', '2:1')
+
+      expect(url).toBe('https://figma-alpha.s3.amazonaws.com/render.png')
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.figma.com/v1/images/abc123?ids=2%3A1&format=png&scale=2',
+        expect.any(Object)
+      )
+    })
+
+    it('should return null for nodes that cannot be rendered', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ err: null, images: { '2:1': null } }),
+      })
+
+      expect(await service.getNodeImageUrl('abc123', '2:1')).toBeNull()
+    })
+  })
+
   describe('testConnection', () => {
     it('should return true for valid API key', async () => {
       mockFetch.mockResolvedValueOnce({
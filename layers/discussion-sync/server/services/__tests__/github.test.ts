@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GitHubService, buildGitHubThreadId, parseGitHubThreadId } from '../github'
+import type { GitHubComment, GitHubIssue } from '../github'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function jsonResponse(data: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => data,
+    text: async () => JSON.stringify(data),
+  }
+}
+
+describe('GitHubService', () => {
+  let service: GitHubService
+
+  const mockIssue: GitHubIssue = {
+    number: 42,
+    title: 'Button focus ring is clipped',
+    body: 'Focus ring is cut off inside cards',
+    state: 'open',
+    html_url: 'https://github.com/acme/ds/issues/42',
+    user: { login: 'octodesigner', id: 1, type: 'User' },
+    created_at: '2025-11-03T09:00:00Z',
+  }
+
+  const mockComments: GitHubComment[] = [
+    {
+      id: 100,
+      body: 'Confirmed on Safari too',
+      html_url: 'https://github.com/acme/ds/issues/42#issuecomment-100',
+      user: { login: 'dev-sam', id: 2, type: 'User' },
+      created_at: '2025-11-03T10:00:00Z',
+    },
+    {
+      id: 101,
+      body: '@discubot track this',
+      html_url: 'https://github.com/acme/ds/issues/42#issuecomment-101',
+      user: { login: 'pm-lena', id: 3, type: 'User' },
+      created_at: '2025-11-03T11:00:00Z',
+    },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new GitHubService('ghp_test')
+  })
+
+  describe('thread ID helpers', () => {
+    it('should round-trip issue thread IDs', () => {
+      const ref = { owner: 'acme', repo: 'ds', number: 42 }
+
+      expect(buildGitHubThreadId(ref)).toBe('acme/ds#42')
+      expect(parseGitHubThreadId('acme/ds#42')).toEqual({ ...ref, reviewCommentId: undefined })
+    })
+
+    it('should round-trip review thread IDs', () => {
+      const ref = { owner: 'acme', repo: 'design.system', number: 7, reviewCommentId: 900 }
+
+      expect(buildGitHubThreadId(ref)).toBe('acme/design.system#7:review-900')
+      expect(parseGitHubThreadId('acme/design.system#7:review-900')).toEqual(ref)
+    })
+
+    it('should throw on invalid thread IDs', () => {
+      expect(() => parseGitHubThreadId('1234567890.123456')).toThrow('Invalid thread ID')
+    })
+  })
+
+  describe('constructor', () => {
+    it('should throw error if no token provided', () => {
+      expect(() => new GitHubService('')).toThrow('API token is required')
+    })
+  })
+
+  describe('buildThread', () => {
+    it('should build thread from issue and timeline comments', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(mockIssue))
+        .mockResolvedValueOnce(jsonResponse(mockComments))
+
+      const thread = await service.buildThread({ owner: 'acme', repo: 'ds', number: 42 })
+
+      expect(thread.id).toBe('acme/ds#42')
+      expect(thread.rootMessage.id).toBe('issue-42')
+      expect(thread.rootMessage.content).toContain('Button focus ring is clipped')
+      expect(thread.rootMessage.content).toContain('Focus ring is cut off inside cards')
+      expect(thread.replies.map(r => r.id)).toEqual(['100', '101'])
+      expect(thread.participants).toEqual(['octodesigner', 'dev-sam', 'pm-lena'])
+      expect(thread.metadata).toMatchObject({ isPullRequest: false, number: 42 })
+
+      const [url, init] = mockFetch.mock.calls[1]
+      expect(url).toBe('https://api.github.com/repos/acme/ds/issues/42/comments?per_page=100&page=1')
+      expect(init.headers.Authorization).toBe('Bearer ghp_test')
+    })
+
+    it('should build review thread rooted at the first comment', async () => {
+      const reviewComments: GitHubComment[] = [
+        {
+          id: 900,
+          body: 'Radius breaks dense tables',
+          html_url: 'https://github.com/acme/ds/pull/7#discussion_r900',
+          user: { login: 'octodesigner', id: 1, type: 'User' },
+          created_at: '2025-11-05T10:00:00Z',
+          path: 'src/tokens.ts',
+          diff_hunk: '@@ -1 +1 @@',
+        },
+        {
+          id: 902,
+          body: 'Agreed',
+          html_url: 'https://github.com/acme/ds/pull/7#discussion_r902',
+          user: { login: 'dev-sam', id: 2, type: 'User' },
+          created_at: '2025-11-05T12:00:00Z',
+          in_reply_to_id: 900,
+        },
+        {
+          id: 901,
+          body: 'Which tables?',
+          html_url: 'https://github.com/acme/ds/pull/7#discussion_r901',
+          user: { login: 'pm-lena', id: 3, type: 'User' },
+          created_at: '2025-11-05T11:00:00Z',
+          in_reply_to_id: 900,
+        },
+        {
+          id: 950,
+          body: 'Unrelated thread',
+          html_url: 'https://github.com/acme/ds/pull/7#discussion_r950',
+          user: { login: 'dev-sam', id: 2, type: 'User' },
+          created_at: '2025-11-05T13:00:00Z',
+        },
+      ]
+
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ ...mockIssue, number: 7, pull_request: { url: 'x' } }))
+        .mockResolvedValueOnce(jsonResponse(reviewComments))
+
+      const thread = await service.buildThread({ owner: 'acme', repo: 'ds', number: 7, reviewCommentId: 902 })
+
+      expect(thread.id).toBe('acme/ds#7:review-900')
+      expect(thread.rootMessage.id).toBe('900')
+      expect(thread.replies.map(r => r.id)).toEqual(['901', '902'])
+      expect(thread.metadata).toMatchObject({ isPullRequest: true, path: 'src/tokens.ts' })
+    })
+  })
+
+  describe('reactions', () => {
+    it('should add reaction to an issue comment', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ id: 1, content: 'eyes' }, 201))
+
+      await service.addReaction({ kind: 'issue_comment', owner: 'acme', repo: 'ds', commentId: 101 }, 'eyes')
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://api.github.com/repos/acme/ds/issues/comments/101/reactions')
+      expect(JSON.parse(init.body)).toEqual({ content: 'eyes' })
+    })
+
+    it('should only remove reactions added by the authenticated user', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ login: 'discubot[bot]', id: 9, type: 'Bot' }))
+        .mockResolvedValueOnce(jsonResponse([
+          { id: 11, content: 'eyes', user: { login: 'discubot[bot]' } },
+          { id: 12, content: 'eyes', user: { login: 'pm-lena' } },
+        ]))
+        .mockResolvedValueOnce({ ok: true, status: 204, json: async () => undefined })
+
+      await service.removeOwnReactions({ kind: 'review_comment', owner: 'acme', repo: 'ds', commentId: 900 }, 'eyes')
+
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      const [url, init] = mockFetch.mock.calls[2]
+      expect(url).toBe('https://api.github.com/repos/acme/ds/pulls/comments/900/reactions/11')
+      expect(init.method).toBe('DELETE')
+    })
+  })
+
+  describe('issues', () => {
+    it('should create an issue', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockIssue, 201))
+
+      const issue = await service.createIssue('acme', 'ds', {
+        title: 'Button focus ring is clipped',
+        body: 'Focus ring is cut off inside cards',
+        labels: ['priority: high'],
+      })
+
+      expect(issue.number).toBe(42)
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://api.github.com/repos/acme/ds/issues')
+      expect(init.method).toBe('POST')
+      expect(JSON.parse(init.body)).toEqual({
+        title: 'Button focus ring is clipped',
+        body: 'Focus ring is cut off inside cards',
+        labels: ['priority: high'],
+      })
+    })
+
+    it('should update an issue', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockIssue))
+
+      await service.updateIssue('acme', 'ds', 42, { title: 'Renamed' })
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://api.github.com/repos/acme/ds/issues/42')
+      expect(init.method).toBe('PATCH')
+      expect(JSON.parse(init.body)).toEqual({ title: 'Renamed' })
+    })
+
+    it('should search issues', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ total_count: 1, items: [mockIssue] }))
+
+      const issues = await service.searchIssues('repo:acme/ds is:issue "focus ring"')
+
+      expect(issues).toEqual([mockIssue])
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://api.github.com/search/issues?q=repo%3Aacme%2Fds%20is%3Aissue%20%22focus%20ring%22&per_page=100',
+      )
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return true for valid token', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ login: 'discubot', id: 1, type: 'Bot' }))
+
+      expect(await service.testConnection()).toBe(true)
+    })
+
+    it('should return false for invalid token', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ message: 'Bad credentials' }, 401))
+      vi.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void) => {
+        fn()
+        return 0
+      }) as any)
+
+      expect(await service.testConnection()).toBe(false)
+    })
+  })
+})
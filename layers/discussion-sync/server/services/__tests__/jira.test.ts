@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { JiraService } from '../jira'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function jsonResponse(data: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => data,
+    text: async () => JSON.stringify(data),
+  }
+}
+
+describe('JiraService', () => {
+  let service: JiraService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void) => {
+      fn()
+      return 0
+    }) as any)
+    service = new JiraService({
+      siteUrl: 'https://acme.atlassian.net/',
+      email: 'bot@acme.com',
+      apiToken: 'jira-token',
+    })
+  })
+
+  describe('constructor', () => {
+    it('should throw error if no token provided', () => {
+      expect(() => new JiraService({ siteUrl: 'https://acme.atlassian.net', email: 'bot@acme.com', apiToken: '' }))
+        .toThrow('API token is required')
+    })
+
+    it('should throw error if site or email are missing', () => {
+      expect(() => new JiraService({ siteUrl: '', email: 'bot@acme.com', apiToken: 'jira-token' }))
+        .toThrow('Site URL and email are required')
+    })
+  })
+
+  describe('createIssue', () => {
+    it('should post the fields with basic auth', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ id: '10001', key: 'OPS-12', self: 'https://acme.atlassian.net/rest/api/3/issue/10001' }, 201))
+
+      const issue = await service.createIssue({
+        project: { key: 'OPS' },
+        issuetype: { name: 'Task' },
+        summary: 'Rotate certificates',
+      })
+
+      expect(issue.key).toBe('OPS-12')
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://acme.atlassian.net/rest/api/3/issue')
+      expect(init.method).toBe('POST')
+      expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('bot@acme.com:jira-token').toString('base64')}`)
+      expect(JSON.parse(init.body)).toEqual({
+        fields: { project: { key: 'OPS' }, issuetype: { name: 'Task' }, summary: 'Rotate certificates' },
+      })
+    })
+  })
+
+  describe('updateIssue', () => {
+    it('should put the fields', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204, json: async () => undefined })
+
+      await service.updateIssue('OPS-12', { summary: 'Renamed' })
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://acme.atlassian.net/rest/api/3/issue/OPS-12')
+      expect(init.method).toBe('PUT')
+      expect(JSON.parse(init.body)).toEqual({ fields: { summary: 'Renamed' } })
+    })
+  })
+
+  describe('getProject', () => {
+    it('should return null for unknown projects', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ errorMessages: ['No project could be found'] }, 404))
+
+      expect(await service.getProject('NOPE')).toBeNull()
+    })
+  })
+
+  describe('getCreateFields', () => {
+    it('should fetch all pages', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({
+          isLast: false,
+          values: [{ fieldId: 'summary', name: 'Summary', required: true, hasDefaultValue: false }],
+        }))
+        .mockResolvedValueOnce(jsonResponse({
+          isLast: true,
+          values: [{ fieldId: 'priority', name: 'Priority', required: false, hasDefaultValue: true }],
+        }))
+
+      const fields = await service.getCreateFields('OPS', '10002')
+
+      expect(fields.map(field => field.fieldId)).toEqual(['summary', 'priority'])
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://acme.atlassian.net/rest/api/3/issue/createmeta/OPS/issuetypes/10002?startAt=0&maxResults=100',
+      )
+      expect(mockFetch.mock.calls[1][0]).toContain('startAt=1')
+    })
+  })
+
+  describe('getIssueUrl', () => {
+    it('should link to the issue on the site', () => {
+      expect(service.getIssueUrl('OPS-12')).toBe('https://acme.atlassian.net/browse/OPS-12')
+    })
+  })
+})
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LinearService } from '../linear'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function graphqlResponse(data: unknown, errors?: unknown[]) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => ({ data, errors }),
+    text: async () => JSON.stringify({ data, errors }),
+  }
+}
+
+function requestBody(callIndex: number) {
+  return JSON.parse(mockFetch.mock.calls[callIndex][1].body)
+}
+
+describe('LinearService', () => {
+  let service: LinearService
+
+  const rootComment = {
+    id: 'root-1',
+    body: 'Should the checklist be collapsible?',
+    createdAt: '2025-11-06T08:00:00.000Z',
+    url: 'https://linear.app/acme/issue/DES-214#comment-root-1',
+    user: { id: 'u-1', name: 'Marco Rossi', displayName: 'marco' },
+    botActor: null,
+    parent: null,
+    issue: {
+      id: 'issue-1',
+      identifier: 'DES-214',
+      title: 'Redesign onboarding checklist',
+      url: 'https://linear.app/acme/issue/DES-214',
+    },
+  }
+
+  const reply = (id: string, createdAt: string, name: string) => ({
+    id,
+    body: `Reply ${id}`,
+    createdAt,
+    user: { id: `u-${name}`, name, displayName: name },
+    botActor: null,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new LinearService('lin_api_test')
+  })
+
+  describe('constructor', () => {
+    it('should throw error if no API key provided', () => {
+      expect(() => new LinearService('')).toThrow('API key is required')
+    })
+  })
+
+  describe('buildThread', () => {
+    it('should build thread from root comment and replies', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({
+        comment: {
+          ...rootComment,
+          children: {
+            nodes: [
+              reply('r-2', '2025-11-06T09:00:00.000Z', 'priya'),
+              reply('r-1', '2025-11-06T08:30:00.000Z', 'marco'),
+            ],
+            pageInfo: { hasNextPage: false, endCursor: null },
+          },
+        },
+      }))
+
+      const thread = await service.buildThread('root-1')
+
+      expect(thread.id).toBe('root-1')
+      expect(thread.rootMessage.authorHandle).toBe('marco')
+      expect(thread.replies.map(r => r.id)).toEqual(['r-1', 'r-2'])
+      expect(thread.participants).toEqual(['marco', 'priya'])
+      expect(thread.metadata).toMatchObject({ issueId: 'issue-1', issueIdentifier: 'DES-214' })
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://api.linear.app/graphql')
+      expect(init.headers.Authorization).toBe('lin_api_test')
+      expect(requestBody(0).variables).toMatchObject({ id: 'root-1', first: 100 })
+    })
+
+    it('should resolve the root when given a reply ID', async () => {
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse({
+          comment: {
+            ...reply('r-1', '2025-11-06T08:30:00.000Z', 'marco'),
+            parent: { id: 'root-1' },
+            issue: rootComment.issue,
+            children: { nodes: [], pageInfo: { hasNextPage: false, endCursor: null } },
+          },
+        }))
+        .mockResolvedValueOnce(graphqlResponse({
+          comment: {
+            ...rootComment,
+            children: {
+              nodes: [reply('r-1', '2025-11-06T08:30:00.000Z', 'marco')],
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          },
+        }))
+
+      const thread = await service.buildThread('r-1')
+
+      expect(thread.id).toBe('root-1')
+      expect(requestBody(1).variables.id).toBe('root-1')
+    })
+
+    it('should follow reply pagination', async () => {
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse({
+          comment: {
+            ...rootComment,
+            children: {
+              nodes: [reply('r-1', '2025-11-06T08:30:00.000Z', 'marco')],
+              pageInfo: { hasNextPage: true, endCursor: 'cursor-1' },
+            },
+          },
+        }))
+        .mockResolvedValueOnce(graphqlResponse({
+          comment: {
+            ...rootComment,
+            children: {
+              nodes: [reply('r-2', '2025-11-06T09:00:00.000Z', 'priya')],
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          },
+        }))
+
+      const thread = await service.buildThread('root-1')
+
+      expect(thread.replies).toHaveLength(2)
+      expect(requestBody(1).variables.after).toBe('cursor-1')
+    })
+  })
+
+  describe('createComment', () => {
+    it('should create reply with parent ID', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({
+        commentCreate: { success: true, comment: { id: 'new-1' } },
+      }))
+
+      const id = await service.createComment('issue-1', 'Task created', 'root-1')
+
+      expect(id).toBe('new-1')
+      expect(requestBody(0).variables.input).toEqual({
+        issueId: 'issue-1',
+        body: 'Task created',
+        parentId: 'root-1',
+      })
+    })
+  })
+
+  describe('createIssue', () => {
+    it('should create an issue and return its reference', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({
+        issueCreate: {
+          success: true,
+          issue: { id: 'issue-9', identifier: 'ENG-9', title: 'Fix export', url: 'https://linear.app/acme/issue/ENG-9' },
+        },
+      }))
+
+      const issue = await service.createIssue({ teamId: 'team-1', title: 'Fix export', priority: 2 })
+
+      expect(issue.identifier).toBe('ENG-9')
+      expect(requestBody(0).variables.input).toEqual({ teamId: 'team-1', title: 'Fix export', priority: 2 })
+    })
+  })
+
+  describe('findLabels', () => {
+    it('should prefer team labels over workspace labels of the same name', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({
+        issueLabels: {
+          nodes: [
+            { id: 'ws-bug', name: 'Bug', team: null },
+            { id: 'other-bug', name: 'Bug', team: { id: 'team-2' } },
+            { id: 'team-bug', name: 'Bug', team: { id: 'team-1' } },
+            { id: 'ws-slack', name: 'From Slack', team: null },
+          ],
+        },
+      }))
+
+      const labels = await service.findLabels('team-1', ['Bug', 'From Slack'])
+
+      expect(labels.map(label => label.id)).toEqual(['team-bug', 'ws-slack'])
+      expect(requestBody(0).variables).toEqual({ names: ['Bug', 'From Slack'] })
+    })
+
+    it('should not query without names', async () => {
+      expect(await service.findLabels('team-1', [])).toEqual([])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findIssuesByUrl', () => {
+    it('should return the issues a URL is attached to', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({
+        attachmentsForURL: {
+          nodes: [
+            { issue: { id: 'issue-9', identifier: 'ENG-9', title: 'Fix export', url: 'https://linear.app/acme/issue/ENG-9' } },
+            { issue: null },
+          ],
+        },
+      }))
+
+      const issues = await service.findIssuesByUrl('https://acme.slack.com/archives/C1/p1')
+
+      expect(issues.map(issue => issue.identifier)).toEqual(['ENG-9'])
+    })
+  })
+
+  describe('removeOwnReaction', () => {
+    it('should only delete reactions added by the viewer', async () => {
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse({ viewer: { id: 'bot-1', name: 'Discubot' } }))
+        .mockResolvedValueOnce(graphqlResponse({
+          comment: {
+            reactions: [
+              { id: 'rx-1', emoji: '⏳', user: { id: 'bot-1' } },
+              { id: 'rx-2', emoji: '⏳', user: { id: 'u-marco' } },
+              { id: 'rx-3', emoji: '✅', user: { id: 'bot-1' } },
+            ],
+          },
+        }))
+        .mockResolvedValueOnce(graphqlResponse({ reactionDelete: { success: true } }))
+
+      await service.removeOwnReaction('root-1', '⏳')
+
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(requestBody(2).variables).toEqual({ id: 'rx-1' })
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return true for valid API key', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({ viewer: { id: 'bot-1', name: 'Discubot' } }))
+
+      expect(await service.testConnection()).toBe(true)
+    })
+
+    it('should send OAuth tokens as Bearer', async () => {
+      const oauthService = new LinearService('oauth-access-token')
+      mockFetch.mockResolvedValueOnce(graphqlResponse({ viewer: { id: 'bot-1', name: 'Discubot' } }))
+
+      await oauthService.testConnection()
+
+      expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer oauth-access-token')
+    })
+
+    it('should return false on GraphQL errors', async () => {
+      mockFetch.mockResolvedValue(graphqlResponse(null, [{ message: 'Authentication required' }]))
+      vi.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void) => {
+        fn()
+        return 0
+      }) as any)
+
+      expect(await service.testConnection()).toBe(false)
+    })
+  })
+})
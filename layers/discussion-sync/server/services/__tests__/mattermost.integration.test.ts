@@ -0,0 +1,238 @@
+// @vitest-environment node
+/**
+ * Runs MattermostService against a local stand-in for the Mattermost v4 API,
+ * so requests go over real HTTP instead of a mocked fetch.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer } from 'node:http'
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { MattermostService, buildMattermostPermalink, normalizeServerUrl } from '../mattermost'
+import type { MattermostPost, MattermostUser } from '../mattermost'
+
+const BOT_TOKEN = 'bot-access-token'
+const BOT_USER: MattermostUser = { id: 'bot-user', username: 'discubot', is_bot: true }
+const USERS: MattermostUser[] = [
+  BOT_USER,
+  { id: 'user-lotte', username: 'lotte' },
+  { id: 'user-kai', username: 'kai' },
+]
+
+/**
+ * Minimal in-memory Mattermost server
+ */
+function createMattermostStandIn() {
+  const posts = new Map<string, MattermostPost>()
+  const reactions = new Set<string>()
+  let nextId = 1
+
+  function send(res: ServerResponse, status: number, body?: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(body === undefined ? '' : JSON.stringify(body))
+  }
+
+  async function readJson(req: IncomingMessage): Promise<any> {
+    let raw = ''
+    for await (const chunk of req) {
+      raw += chunk
+    }
+    return raw ? JSON.parse(raw) : undefined
+  }
+
+  const server = createServer(async (req, res) => {
+    if (req.headers.authorization !== `Bearer ${BOT_TOKEN}`) {
+      return send(res, 401, { id: 'api.context.session_expired.app_error', status_code: 401 })
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost')
+    const path = url.pathname.replace(/^\/api\/v4/, '')
+    let match: RegExpMatchArray | null
+
+    if (req.method === 'GET' && path === '/users/me') {
+      return send(res, 200, BOT_USER)
+    }
+
+    if (req.method === 'POST' && path === '/users/ids') {
+      const ids = await readJson(req) as string[]
+      return send(res, 200, USERS.filter(user => ids.includes(user.id)))
+    }
+
+    if (req.method === 'GET' && (match = path.match(/^\/posts\/([^/]+)\/thread$/))) {
+      const post = posts.get(match[1]!)
+      if (!post) {
+        return send(res, 404, { status_code: 404 })
+      }
+      const rootId = post.root_id || post.id
+      const thread = [...posts.values()].filter(p => p.id === rootId || p.root_id === rootId)
+      return send(res, 200, {
+        order: thread.map(p => p.id).reverse(),
+        posts: Object.fromEntries(thread.map(p => [p.id, p])),
+      })
+    }
+
+    if (req.method === 'GET' && (match = path.match(/^\/posts\/([^/]+)$/))) {
+      const post = posts.get(match[1]!)
+      return post ? send(res, 200, post) : send(res, 404, { status_code: 404 })
+    }
+
+    if (req.method === 'POST' && path === '/posts') {
+      const body = await readJson(req)
+      const post = store({ user_id: BOT_USER.id, channel_id: body.channel_id, root_id: body.root_id || '', message: body.message })
+      return send(res, 201, post)
+    }
+
+    if (req.method === 'POST' && path === '/reactions') {
+      const body = await readJson(req)
+      reactions.add(`${body.user_id}:${body.post_id}:${body.emoji_name}`)
+      return send(res, 200, body)
+    }
+
+    if (req.method === 'DELETE' && (match = path.match(/^\/users\/([^/]+)\/posts\/([^/]+)\/reactions\/([^/]+)$/))) {
+      const key = `${match[1]}:${match[2]}:${decodeURIComponent(match[3]!)}`
+      if (!reactions.delete(key)) {
+        return send(res, 404, { status_code: 404 })
+      }
+      return send(res, 200, { status: 'OK' })
+    }
+
+    send(res, 404, { status_code: 404 })
+  })
+
+  function store(post: Partial<MattermostPost>): MattermostPost {
+    const id = post.id || `post-${nextId++}`
+    const stored: MattermostPost = {
+      id,
+      create_at: Date.now() + nextId,
+      user_id: '',
+      channel_id: 'channel-1',
+      root_id: '',
+      message: '',
+      type: '',
+      ...post,
+    }
+    posts.set(id, stored)
+    return stored
+  }
+
+  return { server, posts, reactions, store }
+}
+
+describe('MattermostService (local stand-in)', () => {
+  const standIn = createMattermostStandIn()
+  let serverUrl: string
+  let server: Server
+
+  beforeAll(async () => {
+    server = standIn.server
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  })
+
+  beforeEach(() => {
+    standIn.posts.clear()
+    standIn.reactions.clear()
+
+    standIn.store({ id: 'root', user_id: 'user-lotte', message: 'Promo code overlaps the total on mobile', create_at: 1000 })
+    standIn.store({ id: 'join', user_id: 'user-kai', root_id: 'root', message: 'kai joined', type: 'system_join_channel', create_at: 1500 })
+    standIn.store({
+      id: 'reply-1',
+      user_id: 'user-kai',
+      root_id: 'root',
+      message: 'Screenshot attached',
+      create_at: 2000,
+      metadata: { files: [{ id: 'file-1', name: 'overlap.png', mime_type: 'image/png' }] },
+    })
+    standIn.store({ id: 'reply-2', user_id: 'user-lotte', root_id: 'root', message: '@discubot track this', create_at: 3000 })
+  })
+
+  describe('helpers', () => {
+    it('should normalize server URLs', () => {
+      expect(normalizeServerUrl('https://chat.acme.internal/')).toBe('https://chat.acme.internal')
+      expect(normalizeServerUrl('https://chat.acme.internal/api/v4')).toBe('https://chat.acme.internal')
+    })
+
+    it('should build permalinks', () => {
+      expect(buildMattermostPermalink('https://chat.acme.internal/', 'p1', 'acme')).toBe('https://chat.acme.internal/acme/pl/p1')
+      expect(buildMattermostPermalink('https://chat.acme.internal', 'p1')).toBe('https://chat.acme.internal/_redirect/pl/p1')
+    })
+  })
+
+  describe('constructor', () => {
+    it('should require server URL and token', () => {
+      expect(() => new MattermostService({ serverUrl: '', token: BOT_TOKEN })).toThrow('Server URL is required')
+      expect(() => new MattermostService({ serverUrl, token: '' })).toThrow('Bot access token is required')
+    })
+  })
+
+  describe('buildThread', () => {
+    it('should build the thread from any post in it', async () => {
+      const service = new MattermostService({ serverUrl, token: BOT_TOKEN })
+
+      const thread = await service.buildThread('reply-2')
+
+      expect(thread.id).toBe('root')
+      expect(thread.rootMessage).toMatchObject({ id: 'root', authorHandle: 'lotte' })
+      expect(thread.replies.map(r => r.id)).toEqual(['reply-1', 'reply-2'])
+      expect(thread.participants).toEqual(['lotte', 'kai'])
+      expect(thread.replies[0]?.attachments?.[0]).toEqual({
+        id: 'file-1',
+        type: 'image',
+        url: `${serverUrl}/api/v4/files/file-1`,
+        name: 'overlap.png',
+        mimeType: 'image/png',
+      })
+    })
+  })
+
+  describe('createPost', () => {
+    it('should reply in the thread as the bot', async () => {
+      const service = new MattermostService({ serverUrl, token: BOT_TOKEN })
+
+      const id = await service.createPost('channel-1', 'Created task', 'root')
+
+      expect(standIn.posts.get(id)).toMatchObject({ user_id: 'bot-user', root_id: 'root', message: 'Created task' })
+    })
+  })
+
+  describe('reactions', () => {
+    it('should add and remove reactions as the bot user', async () => {
+      const service = new MattermostService({ serverUrl, token: BOT_TOKEN })
+
+      await service.addReaction('root', 'hourglass_flowing_sand')
+      expect(standIn.reactions.has('bot-user:root:hourglass_flowing_sand')).toBe(true)
+
+      await service.removeReaction('root', 'hourglass_flowing_sand')
+      expect(standIn.reactions.size).toBe(0)
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return true for valid token', async () => {
+      const service = new MattermostService({ serverUrl: `${serverUrl}/`, token: BOT_TOKEN })
+
+      expect(await service.testConnection()).toBe(true)
+    })
+
+    it('should return false for invalid token', async () => {
+      const service = new MattermostService({ serverUrl, token: 'wrong' })
+
+      // Skip the retry backoff delays (1s, 2s); fetch itself relies on other timers
+      const originalSetTimeout = globalThis.setTimeout
+      vi.spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void, delay?: number) => {
+        if (delay === 1000 || delay === 2000) {
+          fn()
+          return 0
+        }
+        return originalSetTimeout(fn, delay)
+      }) as any)
+
+      expect(await service.testConnection()).toBe(false)
+      vi.restoreAllMocks()
+    })
+  })
+})
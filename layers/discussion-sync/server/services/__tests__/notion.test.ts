@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Client } from '@notionhq/client'
 import { NotionService } from '../notion'
 import type { NotionTaskData, NotionFieldMapping } from '../notion'
 import type { SourceConfig } from '../../adapters/base'
@@ -7,25 +8,25 @@ import type { AISummaryResponse } from '../ai'
 // Mock @notionhq/client
 vi.mock('@notionhq/client', () => {
   return {
-    Client: vi.fn().mockImplementation(() => ({
-      pages: {
-        create: vi.fn(),
-        update: vi.fn(),
-      },
-      databases: {
-        query: vi.fn(),
-        retrieve: vi.fn(),
-      },
-    })),
+    Client: vi.fn(function () {
+      return {
+        pages: {
+          create: vi.fn(),
+          update: vi.fn(),
+        },
+        databases: {
+          query: vi.fn(),
+          retrieve: vi.fn(),
+        },
+      }
+    }),
   }
 })
 
 // Mock runtime config
-vi.mock('#imports', () => ({
-  useRuntimeConfig: vi.fn(() => ({
-    notionApiKey: '',
-    anthropicApiKey: '',
-  })),
+vi.stubGlobal('useRuntimeConfig', () => ({
+  notionApiKey: '',
+  anthropicApiKey: '',
 }))
 
 describe('NotionService', () => {
@@ -68,8 +69,8 @@ describe('NotionService', () => {
     service = new NotionService(validApiKey)
 
     // Get mocked client
-    const { Client } = require('@notionhq/client')
-    mockClient = Client.mock.results[Client.mock.results.length - 1].value
+    const results = vi.mocked(Client).mock.results
+    mockClient = results[results.length - 1]!.value
   })
 
   afterEach(() => {
@@ -162,6 +163,80 @@ describe('NotionService', () => {
       expect(calloutBlock.callout.icon.emoji).toBe('🤖')
     })
 
+    it('should turn Markdown links in the description into Notion links', async () => {
+      mockClient.pages.create.mockResolvedValueOnce({ id: 'page-links', object: 'page' })
+
+      await service.createTask({
+        ...mockTaskData,
+        description: 'See [the spec](https://example.com/spec) for details',
+      }, mockConfig)
+
+      const call = mockClient.pages.create.mock.calls[0][0]
+      const paragraph = call.children.find((b: any) => b.type === 'paragraph')
+      expect(paragraph.paragraph.rich_text).toEqual([
+        { type: 'text', text: { content: 'See ' } },
+        { type: 'text', text: { content: 'the spec', link: { url: 'https://example.com/spec' } } },
+        { type: 'text', text: { content: ' for details' } },
+      ])
+    })
+
+    it('should add attachments as image, file and bookmark blocks', async () => {
+      mockClient.pages.create.mockResolvedValueOnce({ id: 'page-files', object: 'page' })
+
+      await service.createTask({
+        ...mockTaskData,
+        attachments: [
+          { id: 'F1', type: 'image', url: 'https://app.example.com/images/shot.png', name: 'shot.png' },
+          { id: 'F2', type: 'file', url: 'https://app.example.com/images/export.log' },
+          { id: 'F3', type: 'link', url: 'https://acme.slack.com/files/F3' },
+        ],
+      }, mockConfig)
+
+      const call = mockClient.pages.create.mock.calls[0][0]
+      expect(call.children).toEqual(expect.arrayContaining([
+        expect.objectContaining({
+          type: 'image',
+          image: {
+            type: 'external',
+            external: { url: 'https://app.example.com/images/shot.png' },
+            caption: [{ type: 'text', text: { content: 'shot.png' } }],
+          },
+        }),
+        expect.objectContaining({ type: 'file' }),
+        expect.objectContaining({ type: 'bookmark', bookmark: { url: 'https://acme.slack.com/files/F3', caption: [] } }),
+      ]))
+    })
+
+    it('should leave out attachments without an absolute URL', async () => {
+      mockClient.pages.create.mockResolvedValueOnce({ id: 'page-relative', object: 'page' })
+
+      await service.createTask({
+        ...mockTaskData,
+        attachments: [
+          { id: 'F1', type: 'image', url: '/images/shot.png', name: 'shot.png' },
+          { id: 'F2', type: 'link', url: 'https://acme.slack.com/files/F2' },
+        ],
+      }, mockConfig)
+
+      const children = mockClient.pages.create.mock.calls[0][0].children
+      expect(children.filter((block: any) => block.type === 'image')).toEqual([])
+      expect(children).toEqual(expect.arrayContaining([
+        expect.objectContaining({ type: 'bookmark', bookmark: { url: 'https://acme.slack.com/files/F2', caption: [] } }),
+      ]))
+    })
+
+    it('should skip the attachments section when no attachment can be linked', async () => {
+      mockClient.pages.create.mockResolvedValueOnce({ id: 'page-relative', object: 'page' })
+
+      await service.createTask({
+        ...mockTaskData,
+        attachments: [{ id: 'F1', type: 'file', url: '/images/export.log' }],
+      }, mockConfig)
+
+      const children = mockClient.pages.create.mock.calls[0][0].children
+      expect(JSON.stringify(children)).not.toContain('Attachments')
+    })
+
     it('should retry on failure', async () => {
       mockClient.pages.create
         .mockRejectedValueOnce(new Error('Network error'))
@@ -333,7 +408,7 @@ describe('NotionService', () => {
 
       const result = await service.queryDatabase(
         {
-          database_id: mockConfig.notionDatabaseId,
+          database_id: 'database-id-123',
           page_size: 10,
         },
         mockConfig,
@@ -2,49 +2,33 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { ProcessorService } from '../processor'
 import type { Discussion, SyncJob } from '../processor'
 import { AIService } from '../ai'
-import { NotionService } from '../notion'
 import type { SourceConfig, DiscussionThread, DiscussionSourceAdapter } from '../../adapters/base'
 import { registerAdapter } from '../../adapters/base'
+import type { TaskDestinationAdapter } from '../../destinations/base'
+import { registerDestination } from '../../destinations/base'
 
 // Mock dependencies
 vi.mock('../ai')
-vi.mock('../notion')
 vi.mock('drizzle-orm', () => ({
+  and: vi.fn(() => ({})),
   eq: vi.fn(() => ({})),
+  inArray: vi.fn(() => ({})),
 }))
 
-// Mock Nuxt composables
-vi.mock('#imports', () => ({
-  useDb: vi.fn(() => ({
-    select: vi.fn(() => ({
-      from: vi.fn(() => ({
-        where: vi.fn(() => ({
-          limit: vi.fn(() => Promise.resolve([])),
-        })),
-      })),
-    })),
-    insert: vi.fn(() => ({
-      values: vi.fn(() => ({
-        returning: vi.fn(() => Promise.resolve([])),
-      })),
-    })),
-    update: vi.fn(() => ({
-      set: vi.fn(() => ({
-        where: vi.fn(() => Promise.resolve()),
-      })),
-    })),
-  })),
-  useRuntimeConfig: vi.fn(() => ({
-    anthropicApiKey: 'test-key',
-    notionApiKey: 'test-key',
-  })),
+// Queries are set up per test, see beforeEach
+const mockDb = vi.hoisted(() => ({
+  select: vi.fn(),
+  insert: vi.fn(),
+  update: vi.fn(),
+}))
+
+vi.mock('~~/server/database', () => ({
+  db: mockDb,
 }))
 
 describe('ProcessorService', () => {
   let processorService: ProcessorService
   let mockAIService: any
-  let mockNotionService: any
-  let mockDb: any
 
   const mockDiscussion: Discussion = {
     id: 'discussion-1',
@@ -69,6 +53,8 @@ describe('ProcessorService', () => {
     id: 'config-1',
     sourceId: 'source-1',
     name: 'Test Config',
+    teamId: 'team-1',
+    destinationType: 'mock',
     notionToken: 'secret_notion_token',
     notionDatabaseId: 'database-123',
     notionFieldMapping: {},
@@ -145,11 +131,68 @@ describe('ProcessorService', () => {
     }
   }
 
+  // Mock destination
+  const mockCreateTask = vi.fn()
+
+  class MockDestination implements TaskDestinationAdapter {
+    destinationType = 'mock'
+    displayName = 'Mock Tracker'
+    createTask = mockCreateTask
+
+    async updateTask() {}
+
+    async findDuplicate() {
+      return null
+    }
+
+    async validateConfig() {
+      return { valid: true, errors: [] }
+    }
+
+    async testConnection() {
+      return true
+    }
+  }
+
+  // Awaitable like a drizzle query, with the builder methods the processor chains
+  function queryResult(rows: unknown[]) {
+    return Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+      returning: vi.fn().mockResolvedValue(rows),
+    })
+  }
+
+  // Rows of the select ... limit(1) queries, in order. Selects without a
+  // limit (task records) find nothing.
+  function mockSelectResults(...results: unknown[][]) {
+    const limit = vi.fn().mockResolvedValue([])
+    for (const result of results) {
+      limit.mockResolvedValueOnce(result)
+    }
+    mockDb.select.mockImplementation(() => ({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue(Object.assign(Promise.resolve([]), { limit })),
+      }),
+    }))
+  }
+
+  // Rows the compare-and-set updates (claims) return
+  function mockClaim(claimed: unknown[]) {
+    mockDb.update.mockImplementation(() => ({
+      set: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue(queryResult(claimed)),
+      }),
+    }))
+  }
+
   beforeEach(() => {
     vi.clearAllMocks()
 
-    // Register mock adapter
+    // Register mock adapter and destination
     registerAdapter('mock', MockAdapter as any)
+    registerDestination('mock', MockDestination)
+    mockCreateTask.mockReset()
+    mockCreateTask.mockResolvedValue({ id: 'page-123', url: 'https://tracker.example.com/page-123' })
 
     // Setup AI Service mock
     mockAIService = {
@@ -174,42 +217,19 @@ describe('ProcessorService', () => {
       destroy: vi.fn(),
     }
 
-    // Setup Notion Service mock
-    mockNotionService = {
-      createTask: vi.fn().mockResolvedValue('page-123'),
-      createTasks: vi.fn().mockResolvedValue(['page-123']),
-      destroy: vi.fn(),
-    }
-
-    // Setup database mock
-    const { useDb } = require('#imports')
-    mockDb = useDb()
-
     // Mock database queries
-    mockDb.select.mockReturnValue({
-      from: vi.fn().mockReturnValue({
-        where: vi.fn().mockReturnValue({
-          limit: vi.fn().mockResolvedValue([mockDiscussion]),
-        }),
-      }),
-    })
+    mockSelectResults([mockDiscussion])
 
     // Mock insert
     mockDb.insert.mockReturnValue({
-      values: vi.fn().mockReturnValue({
-        returning: vi.fn().mockResolvedValue([mockJob]),
-      }),
+      values: vi.fn().mockReturnValue(queryResult([mockJob])),
     })
 
     // Mock update
-    mockDb.update.mockReturnValue({
-      set: vi.fn().mockReturnValue({
-        where: vi.fn().mockResolvedValue(undefined),
-      }),
-    })
+    mockClaim([])
 
     // Create processor with mocked dependencies
-    processorService = new ProcessorService(mockAIService, mockNotionService)
+    processorService = new ProcessorService(mockAIService)
   })
 
   afterEach(() => {
@@ -218,26 +238,8 @@ describe('ProcessorService', () => {
 
   describe('processDiscussion', () => {
     beforeEach(() => {
-      // Setup successful config loading
-      mockDb.select.mockImplementation((fields?: any) => {
-        // First call returns discussion, second returns config
-        let callCount = 0
-        return {
-          from: vi.fn().mockReturnValue({
-            where: vi.fn().mockReturnValue({
-              limit: vi.fn().mockImplementation(() => {
-                callCount++
-                if (callCount === 1) {
-                  return Promise.resolve([mockDiscussion])
-                }
-                else {
-                  return Promise.resolve([mockConfig])
-                }
-              }),
-            }),
-          }),
-        }
-      })
+      // Discussion, no active job, config
+      mockSelectResults([mockDiscussion], [], [mockConfig])
     })
 
     it('should process discussion successfully', async () => {
@@ -260,27 +262,19 @@ describe('ProcessorService', () => {
       expect(mockAIService.generateSummary).toHaveBeenCalled()
       expect(mockAIService.detectTasks).toHaveBeenCalled()
 
-      // Verify Notion tasks created (stage 5)
-      expect(mockNotionService.createTasks).toHaveBeenCalled()
+      // Verify tasks created in the destination (stage 5)
+      expect(mockCreateTask).toHaveBeenCalled()
     })
 
     it('should skip AI analysis if not enabled', async () => {
       // Mock config with AI disabled
-      mockDb.select.mockImplementation(() => ({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn()
-              .mockResolvedValueOnce([mockDiscussion])
-              .mockResolvedValueOnce([{ ...mockConfig, aiEnabled: false }]),
-          }),
-        }),
-      }))
+      mockSelectResults([mockDiscussion], [], [{ ...mockConfig, aiEnabled: false }])
 
       await processorService.processDiscussion('discussion-1')
 
       expect(mockAIService.generateSummary).not.toHaveBeenCalled()
       expect(mockAIService.detectTasks).not.toHaveBeenCalled()
-      expect(mockNotionService.createTasks).toHaveBeenCalled()
+      expect(mockCreateTask).toHaveBeenCalled()
     })
 
     it('should gracefully degrade if AI fails', async () => {
@@ -290,7 +284,7 @@ describe('ProcessorService', () => {
 
       // Should still succeed
       expect(result.success).toBe(true)
-      expect(mockNotionService.createTasks).toHaveBeenCalled()
+      expect(mockCreateTask).toHaveBeenCalled()
     })
 
     it('should handle multiple tasks from AI detection', async () => {
@@ -303,16 +297,18 @@ describe('ProcessorService', () => {
         overallContext: 'Context',
       })
 
-      mockNotionService.createTasks.mockResolvedValueOnce(['page-1', 'page-2'])
+      mockCreateTask
+        .mockResolvedValueOnce({ id: 'page-1', url: 'https://tracker.example.com/page-1' })
+        .mockResolvedValueOnce({ id: 'page-2', url: 'https://tracker.example.com/page-2' })
 
       const result = await processorService.processDiscussion('discussion-1')
 
       expect(result.success).toBe(true)
       expect(result.pageIds).toEqual(['page-1', 'page-2'])
 
-      // Verify createTasks was called with 2 tasks
-      const tasksArg = mockNotionService.createTasks.mock.calls[0][0]
-      expect(tasksArg).toHaveLength(2)
+      // Verify a task was created for each detected task
+      expect(mockCreateTask).toHaveBeenCalledTimes(2)
+      expect(mockCreateTask.mock.calls[1][0]).toMatchObject({ title: 'Task 2' })
     })
 
     it('should send notification if enabled', async () => {
@@ -331,15 +327,7 @@ describe('ProcessorService', () => {
     })
 
     it('should skip notification if not enabled', async () => {
-      mockDb.select.mockImplementation(() => ({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn()
-              .mockResolvedValueOnce([mockDiscussion])
-              .mockResolvedValueOnce([{ ...mockConfig, postConfirmation: false }]),
-          }),
-        }),
-      }))
+      mockSelectResults([mockDiscussion], [], [{ ...mockConfig, postConfirmation: false }])
 
       await processorService.processDiscussion('discussion-1')
 
@@ -348,13 +336,7 @@ describe('ProcessorService', () => {
     })
 
     it('should handle discussion not found', async () => {
-      mockDb.select.mockReturnValue({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn().mockResolvedValue([]),
-          }),
-        }),
-      })
+      mockSelectResults([])
 
       await expect(processorService.processDiscussion('nonexistent')).rejects.toThrow(
         'Discussion not found',
@@ -362,39 +344,25 @@ describe('ProcessorService', () => {
     })
 
     it('should handle config not found', async () => {
-      mockDb.select.mockImplementation(() => ({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn()
-              .mockResolvedValueOnce([mockDiscussion])
-              .mockResolvedValueOnce([]), // Empty config
-          }),
-        }),
-      }))
+      mockSelectResults([mockDiscussion], [], [])
 
-      await expect(processorService.processDiscussion('discussion-1')).rejects.toThrow(
-        'Source config not found',
-      )
+      const result = await processorService.processDiscussion('discussion-1')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('Source config not found')
     })
 
     it('should handle inactive config', async () => {
-      mockDb.select.mockImplementation(() => ({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn()
-              .mockResolvedValueOnce([mockDiscussion])
-              .mockResolvedValueOnce([{ ...mockConfig, active: false }]),
-          }),
-        }),
-      }))
+      mockSelectResults([mockDiscussion], [], [{ ...mockConfig, active: false }])
 
-      await expect(processorService.processDiscussion('discussion-1')).rejects.toThrow(
-        'not active',
-      )
+      const result = await processorService.processDiscussion('discussion-1')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('not active')
     })
 
     it('should fail job on error', async () => {
-      mockNotionService.createTasks.mockRejectedValueOnce(new Error('Notion API error'))
+      mockCreateTask.mockRejectedValueOnce(new Error('Notion API error'))
 
       const result = await processorService.processDiscussion('discussion-1')
 
@@ -412,6 +380,64 @@ describe('ProcessorService', () => {
       expect(updateCalls.length).toBeGreaterThan(0)
     })
 
+    it('should store the thread and move the discussion to completed', async () => {
+      await processorService.processDiscussion('discussion-1')
+
+      const insertedValues = mockDb.insert.mock.results.flatMap((insert: any) => insert.value.values.mock.calls)
+      const thread = insertedValues.find((call: any) => call[0]?.rootMessage)?.[0]
+
+      expect(thread).toMatchObject({
+        discussionId: 'discussion-1',
+        aiSummary: 'AI generated summary',
+        aiKeyPoints: ['Point 1', 'Point 2'],
+        aiContext: 'Discussion context',
+        status: 'analyzed',
+      })
+
+      const statuses = mockDb.update.mock.results
+        .flatMap((update: any) => update.value.set.mock.calls)
+        .map((call: any) => call[0]?.status)
+      expect(statuses).toContain('processing')
+      expect(statuses).toContain('completed')
+    })
+
+    it('should deliver to the other destinations when one fails', async () => {
+      const mockCreateOtherTask = vi.fn().mockRejectedValue(new Error('Linear API error'))
+
+      class OtherMockDestination extends MockDestination {
+        destinationType = 'other'
+        displayName = 'Other Tracker'
+        createTask = mockCreateOtherTask
+      }
+
+      registerDestination('other', OtherMockDestination)
+
+      mockSelectResults([mockDiscussion], [], [{ ...mockConfig, additionalDestinations: [{ destinationType: 'other' }] }])
+
+      const result = await processorService.processDiscussion('discussion-1')
+
+      expect(result.success).toBe(true)
+      expect(result.pageIds).toEqual(['page-123'])
+      expect(result.deliveries).toEqual([
+        { destinationType: 'mock', status: 'completed', taskIds: ['page-123'] },
+        { destinationType: 'other', status: 'failed', taskIds: [], error: 'Linear API error' },
+      ])
+
+      // Job finished as partial, not failed
+      const setCalls = mockDb.update.mock.results.flatMap((update: any) => update.value.set.mock.calls)
+      expect(setCalls.some((call: any) => call[0]?.status === 'partial')).toBe(true)
+    })
+
+    it('should fail before creating tasks when a destination is invalid', async () => {
+      mockSelectResults([mockDiscussion], [], [{ ...mockConfig, additionalDestinations: [{ destinationType: 'unregistered' }] }])
+
+      const result = await processorService.processDiscussion('discussion-1')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Invalid destination config: Unknown destination: unregistered')
+      expect(mockCreateTask).not.toHaveBeenCalled()
+    })
+
     it('should track processing time', async () => {
       const result = await processorService.processDiscussion('discussion-1')
 
@@ -420,81 +446,177 @@ describe('ProcessorService', () => {
     })
   })
 
-  describe('processWithRetry', () => {
+  describe('retries', () => {
+    const getSetCalls = () =>
+      mockDb.update.mock.results.flatMap((update: any) => update.value.set.mock.calls.map((call: any) => call[0]))
+
+    it('should schedule the next attempt when an attempt fails', async () => {
+      mockCreateTask.mockRejectedValueOnce(new Error('Temporary error'))
+      mockDb.insert.mockReturnValue({
+        values: vi.fn().mockReturnValue(queryResult([{ ...mockJob, attempts: 1 }])),
+      })
+      mockSelectResults([mockDiscussion], [], [mockConfig])
+
+      const before = Date.now()
+      const result = await processorService.processDiscussion('discussion-1')
+
+      expect(result.success).toBe(false)
+      expect(result.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 60 * 1000)
+      expect(getSetCalls()).toContainEqual(expect.objectContaining({ status: 'retrying', leaseExpiresAt: null }))
+
+      // The attempt isn't retried in the request
+      expect(mockCreateTask).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fail the job for good after the last attempt', async () => {
+      mockCreateTask.mockRejectedValue(new Error('Persistent error'))
+      mockSelectResults([{ ...mockJob, attempts: 3 }], [mockDiscussion], [mockConfig])
+
+      const result = await processorService.processJob('job-1')
+
+      expect(result.success).toBe(false)
+      expect(result.nextAttemptAt).toBeUndefined()
+      expect(getSetCalls()).toContainEqual(expect.objectContaining({ status: 'failed' }))
+    })
+  })
+
+  describe('approval step', () => {
+    const mockRequestApproval = vi.fn().mockResolvedValue(true)
+
+    class ApprovalAdapter extends MockAdapter {
+      requestApproval = mockRequestApproval
+    }
+
+    const pausedJob: SyncJob = {
+      ...mockJob,
+      stage: 'awaiting_approval',
+      metadata: {
+        approval: {
+          requestedAt: new Date().toISOString(),
+          tasks: [
+            { title: 'Task 1', description: 'Desc 1', priority: 'high', sourceUrl: mockDiscussion.sourceUrl, sourceThreadId: 'thread-123' },
+            { title: 'Task 2', description: 'Desc 2', priority: 'low', sourceUrl: mockDiscussion.sourceUrl, sourceThreadId: 'thread-123' },
+          ],
+        },
+      },
+    }
+
     beforeEach(() => {
-      mockDb.select.mockImplementation(() => ({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn()
-              .mockResolvedValueOnce([mockDiscussion])
-              .mockResolvedValueOnce([mockConfig]),
-          }),
+      registerAdapter('mock', ApprovalAdapter as any)
+    })
+
+    afterEach(() => {
+      registerAdapter('mock', MockAdapter as any)
+    })
+
+    it('should pause for approval when required', async () => {
+      mockSelectResults([mockDiscussion], [], [{ ...mockConfig, approvalRequired: true }])
+
+      const result = await processorService.processDiscussion('discussion-1')
+
+      expect(result).toMatchObject({ success: true, awaitingApproval: true })
+      expect(mockRequestApproval).toHaveBeenCalledWith(
+        'thread-123',
+        expect.objectContaining({
+          jobId: 'job-1',
+          destination: 'Mock Tracker',
+          tasks: [expect.objectContaining({ title: 'Test Discussion' })],
         }),
-      }))
+        expect.anything(),
+      )
+      expect(mockCreateTask).not.toHaveBeenCalled()
     })
 
-    it('should succeed on first attempt', async () => {
-      const result = await processorService.processWithRetry('discussion-1')
+    it('should leave the approval stage when the request cannot be posted', async () => {
+      mockSelectResults([mockDiscussion], [], [{ ...mockConfig, approvalRequired: true }])
+      mockRequestApproval.mockRejectedValueOnce(new Error('channel_not_found'))
 
-      expect(result.success).toBe(true)
+      const result = await processorService.processDiscussion('discussion-1')
+
+      expect(result).toMatchObject({ success: false, error: 'channel_not_found' })
+
+      const stages = mockDb.update.mock.results
+        .flatMap(update => update.value.set.mock.calls)
+        .map(([values]: any[]) => values.stage)
+        .filter(Boolean)
+      expect(stages.slice(-2)).toEqual(['awaiting_approval', 'task_creation'])
+      expect(mockCreateTask).not.toHaveBeenCalled()
     })
 
-    it('should retry on failure', async () => {
-      mockNotionService.createTasks
-        .mockRejectedValueOnce(new Error('Temporary error'))
-        .mockResolvedValueOnce(['page-123'])
-
-      // Need to mock multiple config fetches for retries
-      let callCount = 0
-      mockDb.select.mockImplementation(() => ({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn().mockImplementation(() => {
-              callCount++
-              // Return discussion, config, discussion, config...
-              if (callCount % 2 === 1) {
-                return Promise.resolve([mockDiscussion])
-              }
-              else {
-                return Promise.resolve([mockConfig])
-              }
-            }),
-          }),
-        }),
-      }))
+    it('should create tasks right away if the source does not support approval', async () => {
+      registerAdapter('mock', MockAdapter as any)
+      mockSelectResults([mockDiscussion], [], [{ ...mockConfig, approvalRequired: true }])
 
-      const result = await processorService.processWithRetry('discussion-1')
+      const result = await processorService.processDiscussion('discussion-1')
 
       expect(result.success).toBe(true)
-      expect(mockNotionService.createTasks).toHaveBeenCalledTimes(2)
-    }, 15000)
-
-    it('should fail after max retries', async () => {
-      mockNotionService.createTasks.mockRejectedValue(new Error('Persistent error'))
-
-      // Need to mock many config fetches for retries
-      let callCount = 0
-      mockDb.select.mockImplementation(() => ({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn().mockImplementation(() => {
-              callCount++
-              if (callCount % 2 === 1) {
-                return Promise.resolve([mockDiscussion])
-              }
-              else {
-                return Promise.resolve([mockConfig])
-              }
-            }),
-          }),
-        }),
-      }))
+      expect(result.awaitingApproval).toBeUndefined()
+      expect(mockCreateTask).toHaveBeenCalled()
+    })
+
+    it('should create the edited tasks when approved', async () => {
+      mockSelectResults([pausedJob], [mockDiscussion], [mockConfig])
+      mockClaim([pausedJob])
+      mockCreateTask.mockResolvedValueOnce({ id: 'page-2', url: 'https://tracker.example.com/page-2' })
+
+      const result = await processorService.resumeAfterApproval('job-1', {
+        action: 'approve',
+        decidedBy: 'U123',
+        tasks: [{ index: 1, title: 'Edited task 2' }],
+      })
 
-      await expect(processorService.processWithRetry('discussion-1')).rejects.toThrow()
+      expect(result).toMatchObject({ success: true, pageIds: ['page-2'] })
 
-      // Should have tried 3 times
-      expect(mockNotionService.createTasks).toHaveBeenCalledTimes(3)
-    }, 30000)
+      expect(mockCreateTask).toHaveBeenCalledTimes(1)
+      expect(mockCreateTask).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Edited task 2', description: 'Desc 2', priority: 'low' }),
+        expect.anything(),
+      )
+    })
+
+    it('should refuse to approve an empty task list', async () => {
+      await expect(processorService.resumeAfterApproval('job-1', {
+        action: 'approve',
+        decidedBy: 'U123',
+        tasks: [],
+      })).rejects.toThrow('at least one task')
+
+      expect(mockDb.update).not.toHaveBeenCalled()
+      expect(mockCreateTask).not.toHaveBeenCalled()
+    })
+
+    it('should not create tasks when discarded', async () => {
+      mockSelectResults([pausedJob], [mockDiscussion])
+      mockClaim([pausedJob])
+
+      const result = await processorService.resumeAfterApproval('job-1', {
+        action: 'discard',
+        decidedBy: 'U123',
+      })
+
+      expect(result).toMatchObject({ success: true, pageIds: [] })
+      expect(mockCreateTask).not.toHaveBeenCalled()
+    })
+
+    it('should reject jobs that are not awaiting approval', async () => {
+      mockSelectResults([{ ...pausedJob, stage: 'completed' }])
+
+      expect(await processorService.resumeAfterApproval('job-1', {
+        action: 'approve',
+        decidedBy: 'U123',
+      })).toBeNull()
+    })
+
+    it('should apply only the first decision', async () => {
+      mockSelectResults([pausedJob])
+      mockClaim([])
+
+      expect(await processorService.resumeAfterApproval('job-1', {
+        action: 'approve',
+        decidedBy: 'U456',
+      })).toBeNull()
+      expect(mockCreateTask).not.toHaveBeenCalled()
+    })
   })
 
   describe('destroy', () => {
@@ -502,7 +624,6 @@ describe('ProcessorService', () => {
       processorService.destroy()
 
       expect(mockAIService.destroy).toHaveBeenCalled()
-      expect(mockNotionService.destroy).toHaveBeenCalled()
     })
   })
 })
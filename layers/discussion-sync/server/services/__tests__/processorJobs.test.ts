@@ -0,0 +1,395 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { PROCESSOR_CONFIG, ProcessorService } from '../processor'
+import type { Discussion, SyncJob } from '../processor'
+import type { SourceConfig } from '../../adapters/base'
+import type { TaskData, TaskDestinationAdapter } from '../../destinations/base'
+import { registerDestination } from '../../destinations/base'
+
+vi.mock('../ai')
+
+// Task records the processor stored, read back by later attempts
+let storedRecords: any[]
+let insertError: Error | null
+// Rows the compare-and-set claim of a queued job updates
+let claimedRows: any[]
+
+// Awaitable like a drizzle query, with the builder methods the processor chains
+function queryResult(rows: any[]) {
+  return Object.assign(Promise.resolve(rows), {
+    limit: vi.fn(() => Promise.resolve(rows)),
+    returning: vi.fn(() => Promise.resolve(rows)),
+  })
+}
+
+function selectRows(rows: any[]) {
+  return {
+    from: vi.fn(() => ({
+      where: vi.fn(() => queryResult(rows)),
+    })),
+  }
+}
+
+const mockDb = {
+  select: vi.fn(() => selectRows(storedRecords)),
+  insert: vi.fn(() => ({
+    values: vi.fn((rows: any) => {
+      if (insertError) {
+        return Promise.reject(insertError)
+      }
+      storedRecords.push(...[rows].flat())
+      return queryResult([rows].flat())
+    }),
+  })),
+  update: vi.fn(() => ({
+    set: vi.fn(() => ({
+      where: vi.fn(() => queryResult(claimedRows)),
+    })),
+  })),
+}
+
+// Read lazily, vi.mock is hoisted above mockDb
+vi.mock('~~/server/database', () => ({
+  get db() {
+    return mockDb
+  },
+}))
+
+const mockCreateTask = vi.fn()
+const mockFindDuplicate = vi.fn()
+
+class MockDestination implements TaskDestinationAdapter {
+  destinationType = 'mock'
+  displayName = 'Mock Tracker'
+  createTask = mockCreateTask
+  findDuplicate = mockFindDuplicate
+
+  async updateTask() {}
+
+  async validateConfig() {
+    return { valid: true, errors: [] }
+  }
+
+  async testConnection() {
+    return true
+  }
+}
+
+class MockBoardDestination extends MockDestination {
+  destinationType = 'mockboard'
+  displayName = 'Mock Board'
+  builtIn = true
+}
+
+describe('ProcessorService jobs', () => {
+  let processor: ProcessorService
+
+  const discussion: Discussion = {
+    id: 'discussion-1',
+    teamId: 'team-1',
+    owner: 'user-1',
+    sourceType: 'mock',
+    sourceThreadId: 'thread-123',
+    sourceUrl: 'https://example.com/thread/123',
+    sourceConfigId: 'config-1',
+    threadId: 'stored-thread-1',
+    title: 'Test Discussion',
+    content: 'Discussion content',
+    authorHandle: 'testuser',
+    participants: ['testuser'],
+    status: 'processing',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: 'user-1',
+    updatedBy: 'user-1',
+  }
+
+  const config: SourceConfig = {
+    id: 'config-1',
+    sourceId: 'source-1',
+    name: 'Test Config',
+    destinationType: 'mock',
+    notionToken: '',
+    notionDatabaseId: '',
+    aiEnabled: false,
+    autoSync: true,
+    postConfirmation: false,
+    active: true,
+  }
+
+  const tasks: TaskData[] = [1, 2, 3].map(number => ({
+    title: `Task ${number}`,
+    description: `Description ${number}`,
+    sourceUrl: discussion.sourceUrl,
+    sourceThreadId: discussion.sourceThreadId,
+    sourceType: 'mock',
+    teamId: 'team-1',
+    userId: 'user-1',
+  }))
+
+  const job: SyncJob = {
+    id: 'job-1',
+    teamId: 'team-1',
+    owner: 'user-1',
+    discussionId: 'discussion-1',
+    sourceConfigId: 'config-1',
+    status: 'retrying',
+    stage: 'task_creation',
+    attempts: 1,
+    maxAttempts: 3,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: 'user-1',
+    updatedBy: 'user-1',
+  }
+
+  function createTasksAndNotify(taskList: TaskData[] = tasks, sourceConfig: SourceConfig = config) {
+    return (processor as any).createTasksAndNotify('job-1', discussion, taskList, sourceConfig)
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    storedRecords = []
+    insertError = null
+    claimedRows = [{ id: 'job-1' }]
+
+    registerDestination('mock', MockDestination)
+    registerDestination('mockboard', MockBoardDestination)
+
+    let created = 0
+    mockCreateTask.mockReset()
+    mockCreateTask.mockImplementation(async () => {
+      created++
+      return { id: `task-${created}`, url: `https://tracker.example.com/task-${created}` }
+    })
+    mockFindDuplicate.mockReset()
+    mockFindDuplicate.mockResolvedValue(null)
+
+    processor = new ProcessorService({ destroy: vi.fn() } as any)
+  })
+
+  afterEach(() => {
+    processor.destroy()
+  })
+
+  describe('task delivery', () => {
+    it('should store the tasks created before a destination failed', async () => {
+      mockCreateTask
+        .mockResolvedValueOnce({ id: 'task-1', url: 'https://tracker.example.com/task-1' })
+        .mockRejectedValueOnce(new Error('Rate limited'))
+
+      const deliveries = await createTasksAndNotify()
+
+      expect(deliveries).toEqual([
+        { destinationType: 'mock', status: 'partial', taskIds: ['task-1'], error: 'Rate limited' },
+      ])
+      expect(storedRecords).toHaveLength(1)
+      expect(storedRecords[0]).toMatchObject({
+        externalId: 'task-1',
+        syncJobId: 'job-1',
+        taskIndex: 0,
+        isMultiTaskChild: true,
+      })
+    })
+
+    it('should not create tasks again when a failed attempt is retried', async () => {
+      mockCreateTask
+        .mockResolvedValueOnce({ id: 'task-1', url: 'https://tracker.example.com/task-1' })
+        .mockRejectedValueOnce(new Error('Rate limited'))
+
+      await createTasksAndNotify()
+
+      mockCreateTask.mockReset()
+      mockCreateTask
+        .mockResolvedValueOnce({ id: 'task-2', url: 'https://tracker.example.com/task-2' })
+        .mockResolvedValueOnce({ id: 'task-3', url: 'https://tracker.example.com/task-3' })
+
+      const deliveries = await createTasksAndNotify()
+
+      expect(mockCreateTask).toHaveBeenCalledTimes(2)
+      expect(mockCreateTask.mock.calls.map(call => call[0].title)).toEqual(['Task 2', 'Task 3'])
+      expect(deliveries).toEqual([
+        { destinationType: 'mock', status: 'completed', taskIds: ['task-1', 'task-2', 'task-3'] },
+      ])
+      expect(storedRecords.map(record => record.taskIndex)).toEqual([0, 1, 2])
+    })
+
+    it('should reuse a single task the destination already has', async () => {
+      mockFindDuplicate.mockResolvedValue({ id: 'existing-1', url: 'https://tracker.example.com/existing-1' })
+
+      const deliveries = await createTasksAndNotify([tasks[0]!])
+
+      expect(mockFindDuplicate).toHaveBeenCalledWith(tasks[0], config)
+      expect(mockCreateTask).not.toHaveBeenCalled()
+      expect(deliveries[0]).toEqual({ destinationType: 'mock', status: 'completed', taskIds: ['existing-1'] })
+      expect(storedRecords).toHaveLength(0)
+    })
+
+    it('should throw when no destination created any task', async () => {
+      mockCreateTask.mockRejectedValue(new Error('Unauthorized'))
+
+      await expect(createTasksAndNotify()).rejects.toThrow('Mock Tracker: Unauthorized')
+    })
+
+    it('should drop board tasks whose records could not be stored', async () => {
+      insertError = new Error('Database locked')
+
+      await expect(createTasksAndNotify(tasks, { ...config, destinationType: 'mockboard' }))
+        .rejects.toThrow('Mock Board: Database locked')
+    })
+
+    it('should keep other destinations when the board fails', async () => {
+      insertError = new Error('Database locked')
+
+      const deliveries = await createTasksAndNotify(tasks, {
+        ...config,
+        destinationType: 'mockboard',
+        additionalDestinations: [{ destinationType: 'mock' }],
+      })
+
+      expect(deliveries).toEqual([
+        { destinationType: 'mockboard', status: 'failed', taskIds: [], error: 'Database locked' },
+        { destinationType: 'mock', status: 'completed', taskIds: ['task-4', 'task-5', 'task-6'] },
+      ])
+    })
+  })
+
+  describe('processDiscussion', () => {
+    let runPipeline: any
+
+    function mockActiveJob(activeJob: SyncJob | null) {
+      mockDb.select
+        .mockImplementationOnce(() => selectRows([discussion]))
+        .mockImplementationOnce(() => selectRows(activeJob ? [activeJob] : []))
+    }
+
+    beforeEach(() => {
+      runPipeline = vi.spyOn(processor as any, 'runPipeline')
+        .mockImplementation(async (runJob: any) => ({ success: true, jobId: runJob.id, discussionId: discussion.id }))
+    })
+
+    it('should run the queued job of the discussion instead of creating one', async () => {
+      mockActiveJob(job)
+
+      const result = await processor.processDiscussion('discussion-1')
+
+      expect(result.success).toBe(true)
+      expect(mockDb.insert).not.toHaveBeenCalled()
+      expect(runPipeline).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job-1', status: 'processing', attempts: 2 }),
+        discussion,
+      )
+    })
+
+    it('should create a job when the discussion has none', async () => {
+      mockActiveJob(null)
+
+      await processor.processDiscussion('discussion-1')
+
+      expect(mockDb.insert).toHaveBeenCalledTimes(1)
+      expect(runPipeline).toHaveBeenCalledWith(
+        expect.objectContaining({ discussionId: 'discussion-1', status: 'processing', attempts: 1 }),
+        discussion,
+      )
+    })
+
+    it('should refuse while a job is processing', async () => {
+      mockActiveJob({ ...job, status: 'processing' })
+
+      const result = await processor.processDiscussion('discussion-1')
+
+      expect(result).toMatchObject({ success: false, jobId: 'job-1', inProgress: true })
+      expect(mockDb.update).not.toHaveBeenCalled()
+      expect(runPipeline).not.toHaveBeenCalled()
+    })
+
+    it('should refuse when the worker claimed the job first', async () => {
+      mockActiveJob(job)
+      claimedRows = []
+
+      const result = await processor.processDiscussion('discussion-1')
+
+      expect(result).toMatchObject({ success: false, inProgress: true })
+      expect(runPipeline).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resumeAfterApproval', () => {
+    it('should return null for a job that is not awaiting approval', async () => {
+      mockDb.select.mockImplementationOnce(() => selectRows([{ ...job, stage: 'completed' }]))
+
+      expect(await processor.resumeAfterApproval('job-1', { action: 'approve', decidedBy: 'U123' })).toBeNull()
+      expect(mockDb.update).not.toHaveBeenCalled()
+    })
+
+    it('should return null when another decision was applied first', async () => {
+      mockDb.select.mockImplementationOnce(() => selectRows([{
+        ...job,
+        stage: 'awaiting_approval',
+        metadata: { approval: { tasks, requestedAt: new Date().toISOString() } },
+      }]))
+      claimedRows = []
+
+      expect(await processor.resumeAfterApproval('job-1', { action: 'approve', decidedBy: 'U456' })).toBeNull()
+      expect(mockCreateTask).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('failJob', () => {
+    const now = new Date('2026-01-01T12:00:00Z')
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.setSystemTime(now)
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    // Values the job row was updated with
+    function updatedJob() {
+      return mockDb.update.mock.results[0]!.value.set.mock.calls[0][0]
+    }
+
+    it.each([
+      [1, PROCESSOR_CONFIG.RETRY_BASE_DELAY_MS],
+      [2, 2 * PROCESSOR_CONFIG.RETRY_BASE_DELAY_MS],
+      [3, 4 * PROCESSOR_CONFIG.RETRY_BASE_DELAY_MS],
+    ])('should retry attempt %i with exponential backoff', async (attempts, delay) => {
+      const nextAttemptAt = await (processor as any).failJob({ ...job, attempts, maxAttempts: 5 }, new Error('Timeout'), 100)
+
+      expect(nextAttemptAt).toEqual(new Date(now.getTime() + delay))
+      expect(updatedJob()).toMatchObject({
+        status: 'retrying',
+        error: 'Timeout',
+        nextAttemptAt,
+        leaseExpiresAt: null,
+      })
+    })
+
+    it('should cap the backoff', async () => {
+      const nextAttemptAt = await (processor as any).failJob({ ...job, attempts: 10, maxAttempts: 20 }, new Error('Timeout'), 100)
+
+      expect(nextAttemptAt).toEqual(new Date(now.getTime() + PROCESSOR_CONFIG.RETRY_MAX_DELAY_MS))
+    })
+
+    it('should fail the job when it is out of attempts', async () => {
+      const nextAttemptAt = await (processor as any).failJob({ ...job, attempts: 3, maxAttempts: 3 }, new Error('Timeout'), 100)
+
+      expect(nextAttemptAt).toBeUndefined()
+      expect(updatedJob()).toMatchObject({
+        status: 'failed',
+        nextAttemptAt: null,
+        completedAt: now,
+      })
+    })
+
+    it('should fail the job right away for errors that are not retryable', async () => {
+      const nextAttemptAt = await (processor as any).failJob(job, new Error('Discussion not found'), 0, false)
+
+      expect(nextAttemptAt).toBeUndefined()
+      expect(updatedJob()).toMatchObject({ status: 'failed' })
+    })
+  })
+})
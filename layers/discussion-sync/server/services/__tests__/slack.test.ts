@@ -105,6 +105,143 @@ describe('SlackService', () => {
     })
   })
 
+  describe('getThread pagination', () => {
+    const channelId = 'C123ABC'
+    const threadTs = '1700000000.000000'
+
+    function message(index: number) {
+      return { type: 'message', user: 'U123', text: `Message ${index}`, ts: `1700000000.${String(index).padStart(6, '0')}` }
+    }
+
+    function page(messages: ReturnType<typeof message>[], nextCursor?: string) {
+      return {
+        ok: true,
+        json: async () => ({
+          ok: true,
+          messages,
+          ...(nextCursor && { response_metadata: { next_cursor: nextCursor } }),
+        }),
+      } as Response
+    }
+
+    const channelInfo = {
+      ok: true,
+      json: async () => ({ ok: true, channel: { id: channelId, name: 'general', is_private: false } }),
+    } as Response
+
+    it('should follow the cursor through all pages', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(page([message(0), message(1)], 'cursor-2'))
+        .mockResolvedValueOnce(page([message(2), message(3)], 'cursor-3'))
+        .mockResolvedValueOnce(page([message(4)]))
+        .mockResolvedValueOnce(channelInfo)
+
+      const thread = await service.getThread(channelId, threadTs)
+
+      expect(thread.messages.map(m => m.text)).toEqual(['Message 0', 'Message 1', 'Message 2', 'Message 3', 'Message 4'])
+      expect(thread.hasMore).toBe(false)
+      expect(thread.metadata.totalMessages).toBe(5)
+
+      const secondPage = JSON.parse(vi.mocked(fetch).mock.calls[1]![1]!.body as string)
+      expect(secondPage).toMatchObject({ channel: channelId, ts: threadTs, cursor: 'cursor-2', limit: 200 })
+    })
+
+    it('should skip the parent message Slack repeats on every page', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(page([message(0), message(1), message(2)], 'cursor-2'))
+        .mockResolvedValueOnce(page([message(0), message(3), message(4)], 'cursor-3'))
+        .mockResolvedValueOnce(page([message(0), message(5)]))
+        .mockResolvedValueOnce(channelInfo)
+
+      const thread = await service.getThread(channelId, threadTs)
+
+      expect(thread.messages.map(m => m.text)).toEqual([
+        'Message 0', 'Message 1', 'Message 2', 'Message 3', 'Message 4', 'Message 5',
+      ])
+      expect(thread.metadata.totalMessages).toBe(6)
+    })
+
+    it('should keep the root and the most recent replies when truncated', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(page([message(0), message(1), message(2)], 'cursor-2'))
+        .mockResolvedValueOnce(page([message(3), message(4), message(5)]))
+        .mockResolvedValueOnce(channelInfo)
+
+      const thread = await service.getThread(channelId, threadTs, { maxMessages: 3 })
+
+      expect(thread.messages.map(m => m.text)).toEqual(['Message 0', 'Message 4', 'Message 5'])
+      expect(thread.hasMore).toBe(true)
+      expect(thread.metadata).toMatchObject({ totalMessages: 6, omittedMessages: 3 })
+    })
+
+    it('should wait for the rate limiter before every page', async () => {
+      const waitForToken = vi.spyOn((service as any).rateLimiter, 'waitForToken')
+
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(page([message(0)], 'cursor-2'))
+        .mockResolvedValueOnce(page([message(1)]))
+        .mockResolvedValueOnce(channelInfo)
+
+      await service.getThread(channelId, threadTs)
+
+      // Two pages and the channel info
+      expect(waitForToken).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('getMessage', () => {
+    const channelId = 'C123ABC'
+
+    it('should return the requested reply, not the thread root', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          ok: true,
+          messages: [
+            { type: 'message', user: 'U111', text: 'Root', ts: '1234567890.000100' },
+            { type: 'message', user: 'U222', text: 'Reply', ts: '1234567890.000200', thread_ts: '1234567890.000100' },
+          ],
+        }),
+      } as Response)
+
+      const message = await service.getMessage(channelId, '1234567890.000200')
+
+      expect(message).toMatchObject({
+        text: 'Reply',
+        thread_ts: '1234567890.000100',
+      })
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0]![1]!.body as string)
+      expect(body).toMatchObject({
+        channel: channelId,
+        ts: '1234567890.000200',
+        oldest: '1234567890.000200',
+        latest: '1234567890.000200',
+        inclusive: true,
+      })
+    })
+
+    it('should return null if the message is not found', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ok: true, messages: [] }),
+      } as Response)
+
+      await expect(service.getMessage(channelId, '1234567890.000300')).resolves.toBeNull()
+    })
+
+    it('should throw error if API returns error', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ok: false, error: 'thread_not_found' }),
+      } as Response)
+
+      await expect(service.getMessage(channelId, '1234567890.000300')).rejects.toThrow(
+        'Failed to fetch message'
+      )
+    })
+  })
+
   describe('postMessage', () => {
     const channelId = 'C123ABC'
     const text = 'Test message'
@@ -146,6 +283,45 @@ describe('SlackService', () => {
         'Failed to post message'
       )
     })
+
+    it('should include Block Kit blocks', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ok: true, ts: '1234567890.123457' }),
+      } as Response)
+
+      const blocks = [{ type: 'section', text: { type: 'mrkdwn', text: 'Hello' } }]
+      await service.postMessage(channelId, text, threadTs, { blocks })
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0]![1]!.body as string)
+      expect(body).toMatchObject({ channel: channelId, text, thread_ts: threadTs, blocks })
+    })
+  })
+
+  describe('openView', () => {
+    it('should open a modal with the trigger ID', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ok: true, view: { id: 'V123' } }),
+      } as Response)
+
+      const view = { type: 'modal', title: { type: 'plain_text', text: 'Edit tasks' }, blocks: [] }
+      const viewId = await service.openView('trigger-123', view)
+
+      expect(viewId).toBe('V123')
+      expect(fetch).toHaveBeenCalledWith('https://slack.com/api/views.open', expect.anything())
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0]![1]!.body as string)
+      expect(body).toEqual({ trigger_id: 'trigger-123', view })
+    })
+
+    it('should throw error if the trigger expired', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ok: false, error: 'expired_trigger_id' }),
+      } as Response)
+
+      await expect(service.openView('trigger-123', {})).rejects.toThrow('Failed to open view')
+    })
   })
 
   describe('addReaction', () => {
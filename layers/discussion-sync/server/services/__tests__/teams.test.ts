@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  TeamsService,
+  buildTeamsThreadId,
+  parseTeamsThreadId,
+  teamsHtmlToText,
+} from '../teams'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function jsonResponse(data: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => data,
+    text: async () => (data === undefined ? '' : JSON.stringify(data)),
+  }
+}
+
+const tokenResponse = () => jsonResponse({ access_token: 'access-token', expires_in: 3600 })
+
+describe('TeamsService', () => {
+  let service: TeamsService
+
+  const ref = {
+    teamId: '6a8c0e2f-4b6d-4e8a-9c1e-3f5b7d9a1c2e',
+    channelId: '19:b7d9f1a3c5e74b6d8f0a2c4e6b8d0f1a@thread.tacv2',
+    messageId: '1762424000123',
+  }
+
+  const graphMessage = (id: string, createdDateTime: string, name: string, content: string) => ({
+    id,
+    replyToId: null,
+    createdDateTime,
+    deletedDateTime: null,
+    from: { user: { id: `u-${name}`, displayName: name } },
+    body: { contentType: 'html', content },
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new TeamsService({
+      appId: 'app-id',
+      appPassword: 'app-password',
+      tenantId: 'tenant-id',
+    })
+  })
+
+  describe('thread ID helpers', () => {
+    it('should round-trip thread IDs', () => {
+      const threadId = buildTeamsThreadId(ref)
+
+      expect(threadId).toBe(`${ref.teamId}/${ref.channelId};messageid=${ref.messageId}`)
+      expect(parseTeamsThreadId(threadId)).toEqual(ref)
+    })
+
+    it('should throw on invalid thread IDs', () => {
+      expect(() => parseTeamsThreadId('1234567890.123456')).toThrow('Invalid thread ID')
+    })
+  })
+
+  describe('teamsHtmlToText', () => {
+    it('should convert mentions, breaks and entities', () => {
+      const html = '<div><at id="0">Sofie</at>&nbsp;agreed<br>totals &amp; VAT &lt;right&gt;</div>'
+
+      expect(teamsHtmlToText(html)).toBe('@Sofie agreed\ntotals & VAT <right>')
+    })
+  })
+
+  describe('constructor', () => {
+    it('should throw error if credentials are missing', () => {
+      expect(() => new TeamsService({ appId: '', appPassword: '' })).toThrow('App ID and password are required')
+    })
+  })
+
+  describe('buildThread', () => {
+    it('should build thread from root message and replies', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse())
+        .mockResolvedValueOnce(jsonResponse({
+          ...graphMessage(ref.messageId, '2025-11-06T10:13:20Z', 'Marco', '<p>New invoice layout</p>'),
+          webUrl: 'https://teams.microsoft.com/l/message/x',
+        }))
+        .mockResolvedValueOnce(jsonResponse({
+          'value': [graphMessage('2', '2025-11-06T10:20:00Z', 'Sofie', 'Move totals right')],
+          '@odata.nextLink': 'https://graph.microsoft.com/v1.0/next-page',
+        }))
+        .mockResolvedValueOnce(jsonResponse({
+          value: [
+            graphMessage('3', '2025-11-06T10:25:00Z', 'Marco', 'OK'),
+            { ...graphMessage('4', '2025-11-06T10:26:00Z', 'Marco', ''), deletedDateTime: '2025-11-06T10:27:00Z' },
+          ],
+        }))
+
+      const thread = await service.buildThread(ref)
+
+      expect(thread.id).toBe(buildTeamsThreadId(ref))
+      expect(thread.rootMessage.content).toBe('New invoice layout')
+      expect(thread.replies.map(r => r.id)).toEqual(['2', '3'])
+      expect(thread.participants).toEqual(['Marco', 'Sofie'])
+
+      const [tokenUrl, tokenInit] = mockFetch.mock.calls[0]
+      expect(tokenUrl).toBe('https://login.microsoftonline.com/tenant-id/oauth2/v2.0/token')
+      expect(tokenInit.body).toContain('scope=https%3A%2F%2Fgraph.microsoft.com%2F.default')
+
+      const [messageUrl, messageInit] = mockFetch.mock.calls[1]
+      expect(messageUrl).toBe(
+        `https://graph.microsoft.com/v1.0/teams/${ref.teamId}/channels/${encodeURIComponent(ref.channelId)}/messages/${ref.messageId}`,
+      )
+      expect(messageInit.headers.Authorization).toBe('Bearer access-token')
+      expect(mockFetch.mock.calls[3][0]).toBe('https://graph.microsoft.com/v1.0/next-page')
+    })
+
+    it('should require a tenant to read messages', async () => {
+      const multiTenant = new TeamsService({ appId: 'app-id', appPassword: 'app-password' })
+      vi.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void) => {
+        fn()
+        return 0
+      }) as any)
+
+      await expect(multiTenant.buildThread(ref)).rejects.toThrow('Tenant ID is required')
+    })
+  })
+
+  describe('sendActivity', () => {
+    it('should post to the conversation on the service URL', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse())
+        .mockResolvedValueOnce(jsonResponse({ id: 'activity-1' }, 201))
+
+      const id = await service.sendActivity(
+        'https://smba.trafficmanager.net/emea/',
+        `${ref.channelId};messageid=${ref.messageId}`,
+        { type: 'message', text: 'Created task' },
+      )
+
+      expect(id).toBe('activity-1')
+      expect(mockFetch.mock.calls[0][1].body).toContain('scope=https%3A%2F%2Fapi.botframework.com%2F.default')
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        `https://smba.trafficmanager.net/emea/v3/conversations/${encodeURIComponent(`${ref.channelId};messageid=${ref.messageId}`)}/activities`,
+      )
+    })
+
+    it('should reuse cached token', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse())
+        .mockResolvedValueOnce(jsonResponse({ id: 'activity-1' }))
+        .mockResolvedValueOnce(jsonResponse({ id: 'activity-2' }))
+
+      await service.sendActivity(undefined, 'conv', { type: 'message', text: 'a' })
+      await service.sendActivity(undefined, 'conv', { type: 'message', text: 'b' })
+
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(mockFetch.mock.calls[1][0]).toContain('https://smba.trafficmanager.net/teams/v3/')
+    })
+  })
+
+  describe('updateActivity', () => {
+    it('should replace the activity', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse())
+        .mockResolvedValueOnce(jsonResponse(undefined))
+
+      await service.updateActivity(undefined, 'conv', 'activity-1', { type: 'message', text: 'done' })
+
+      const [url, init] = mockFetch.mock.calls[1]
+      expect(url).toContain('/v3/conversations/conv/activities/activity-1')
+      expect(init.method).toBe('PUT')
+      expect(JSON.parse(init.body)).toMatchObject({ id: 'activity-1', text: 'done' })
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return true when token request succeeds', async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse())
+
+      expect(await service.testConnection()).toBe(true)
+    })
+
+    it('should return false when token request fails', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'invalid_client' }, 401))
+
+      expect(await service.testConnection()).toBe(false)
+    })
+  })
+})
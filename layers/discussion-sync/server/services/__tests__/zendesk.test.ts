@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  ZendeskService,
+  buildZendeskTicketUrl,
+  parseZendeskSubdomain,
+} from '../zendesk'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function jsonResponse(data: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: new Headers(),
+    json: async () => data,
+    text: async () => JSON.stringify(data),
+  }
+}
+
+const comment = (id: number, authorId: number, body: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  author_id: authorId,
+  body,
+  plain_body: body,
+  public: true,
+  created_at: '2025-11-12T15:00:00Z',
+  ...extra,
+})
+
+describe('ZendeskService', () => {
+  let service: ZendeskService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new ZendeskService({ subdomain: 'acme', email: 'discubot@acme.com', apiToken: 'api-token' })
+  })
+
+  describe('helpers', () => {
+    it('should parse subdomain from ticket URL', () => {
+      expect(parseZendeskSubdomain('acme.zendesk.com/agent/tickets/4521')).toBe('acme')
+      expect(parseZendeskSubdomain('https://Acme-EU.zendesk.com/agent/tickets/1')).toBe('acme-eu')
+      expect(parseZendeskSubdomain('support.acme.com/tickets/1')).toBeNull()
+    })
+
+    it('should build agent ticket URL', () => {
+      expect(buildZendeskTicketUrl('acme', 4521)).toBe('https://acme.zendesk.com/agent/tickets/4521')
+    })
+  })
+
+  describe('constructor', () => {
+    it('should throw error if credentials are missing', () => {
+      expect(() => new ZendeskService({ subdomain: '', email: 'a@b.c', apiToken: 't' })).toThrow('Subdomain is required')
+      expect(() => new ZendeskService({ subdomain: 'acme', email: '', apiToken: 't' })).toThrow('Agent email and API token are required')
+    })
+  })
+
+  describe('buildThread', () => {
+    it('should include public replies and internal notes', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({
+          ticket: { id: 4521, subject: 'Promo code rejected', status: 'open', priority: 'high', tags: ['checkout'], requester_id: 1, created_at: '2025-11-12T15:00:00Z' },
+        }))
+        .mockResolvedValueOnce(jsonResponse({
+          comments: [
+            comment(1, 1, 'My promo code is rejected'),
+            comment(2, 2, 'Looks like a bug with lowercase codes', {
+              public: false,
+              attachments: [{ id: 9, file_name: 'checkout.png', content_url: 'https://acme.zendesk.com/attachments/token/abc/?name=checkout.png', content_type: 'image/png' }],
+            }),
+          ],
+          users: [{ id: 1, name: 'Jordan Reyes' }, { id: 2, name: 'Sam Okafor' }],
+          meta: { has_more: false },
+        }))
+
+      const thread = await service.buildThread('4521')
+
+      expect(thread.id).toBe('4521')
+      expect(thread.rootMessage).toMatchObject({ authorHandle: 'Jordan Reyes', content: 'My promo code is rejected' })
+      expect(thread.replies[0]?.content).toBe('[Internal note] Looks like a bug with lowercase codes')
+      expect(thread.replies[0]?.attachments?.[0]).toMatchObject({ id: '9', type: 'image', name: 'checkout.png' })
+      expect(thread.participants).toEqual(['Jordan Reyes', 'Sam Okafor'])
+      expect(thread.metadata).toMatchObject({ priority: 'high', privateCommentIds: ['2'] })
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://acme.zendesk.com/api/v2/tickets/4521.json')
+      expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('discubot@acme.com/token:api-token').toString('base64')}`)
+    })
+
+    it('should follow cursor pagination', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ ticket: { id: 4521, subject: 's', status: 'open', priority: null, tags: [], requester_id: 1, created_at: '' } }))
+        .mockResolvedValueOnce(jsonResponse({
+          comments: [comment(1, 1, 'first')],
+          users: [{ id: 1, name: 'Jordan Reyes' }],
+          meta: { has_more: true, after_cursor: 'xyz' },
+          links: { next: 'https://acme.zendesk.com/api/v2/tickets/4521/comments.json?page[after]=xyz' },
+        }))
+        .mockResolvedValueOnce(jsonResponse({
+          comments: [comment(2, 1, 'second')],
+          users: [],
+          meta: { has_more: false },
+        }))
+
+      const thread = await service.buildThread('4521')
+
+      expect(mockFetch.mock.calls[2][0]).toBe('https://acme.zendesk.com/api/v2/tickets/4521/comments.json?page[after]=xyz')
+      expect(thread.replies.map(r => r.content)).toEqual(['second'])
+    })
+  })
+
+  describe('addInternalNote', () => {
+    it('should add a private comment', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ ticket: { id: 4521 } }))
+
+      await service.addInternalNote('4521', 'Created Notion task')
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://acme.zendesk.com/api/v2/tickets/4521.json')
+      expect(init.method).toBe('PUT')
+      expect(JSON.parse(init.body)).toEqual({ ticket: { comment: { body: 'Created Notion task', public: false } } })
+    })
+  })
+
+  describe('tags', () => {
+    it('should add and remove tags', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ tags: ['checkout', 'discubot_synced'] }))
+        .mockResolvedValueOnce(jsonResponse({ tags: ['checkout'] }))
+
+      expect(await service.addTags('4521', ['discubot_synced'])).toEqual(['checkout', 'discubot_synced'])
+      expect(await service.removeTags('4521', ['discubot_synced'])).toEqual(['checkout'])
+
+      expect(mockFetch.mock.calls[0][1].method).toBe('PUT')
+      expect(mockFetch.mock.calls[1][1].method).toBe('DELETE')
+      expect(mockFetch.mock.calls[1][0]).toBe('https://acme.zendesk.com/api/v2/tickets/4521/tags.json')
+    })
+  })
+
+  describe('testConnection', () => {
+    it('should return true for authenticated agent', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ user: { id: 7, name: 'Discubot', email: 'discubot@acme.com', role: 'agent' } }))
+
+      expect(await service.testConnection()).toBe(true)
+    })
+
+    it('should return false for anonymous user', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ user: { id: null, name: 'Anonymous user' } }))
+
+      expect(await service.testConnection()).toBe(false)
+    })
+  })
+})
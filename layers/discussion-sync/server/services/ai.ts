@@ -235,7 +235,13 @@ export class AIService {
     }
 
     // Add context
-    prompt += `Context: Discussion ${fileName ? `about "${fileName}"` : 'thread'}\n\n`
+    prompt += `Context: Discussion ${fileName ? `about "${fileName}"` : 'thread'}\n`
+
+    const location = this.describeLocation(thread)
+    if (location) {
+      prompt += `Location: ${location}\n`
+    }
+    prompt += '\n'
 
     // Add root message
     prompt += `Initial message (by @${thread.rootMessage.authorHandle}):\n`
@@ -244,6 +250,13 @@ export class AIService {
     // Add replies if any
     if (thread.replies.length > 0) {
       prompt += 'Replies:\n'
+
+      // Long threads only include their most recent replies
+      const omittedMessages = Number(thread.metadata?.omittedMessages) || 0
+      if (omittedMessages > 0) {
+        prompt += `(${omittedMessages} earlier replies omitted)\n`
+      }
+
       for (const reply of thread.replies) {
         prompt += `- @${reply.authorHandle}: "${reply.content}"\n`
       }
@@ -262,6 +275,25 @@ export class AIService {
     return prompt
   }
 
+  /**
+   * Where in the source a thread was started, e.g. the Figma frame a
+   * comment is pinned to
+   */
+  private describeLocation(thread: DiscussionThread): string | null {
+    const frameName = thread.metadata?.frameName as string | undefined
+    const pageName = thread.metadata?.pageName as string | undefined
+
+    if (frameName && pageName) {
+      return `frame "${frameName}" on page "${pageName}"`
+    }
+
+    if (frameName || pageName) {
+      return frameName ? `frame "${frameName}"` : `page "${pageName}"`
+    }
+
+    return null
+  }
+
   /**
    * Build prompt for task detection
    */
@@ -270,6 +302,11 @@ export class AIService {
 
     let prompt = `Analyze this discussion ${fileName ? `from "${fileName}"` : ''} to detect distinct, actionable tasks.\n\n`
 
+    const location = threadContext && this.describeLocation(threadContext)
+    if (location) {
+      prompt += `Location: ${location}\n\n`
+    }
+
     prompt += `Comment to analyze:\n"${commentText}"\n\n`
 
     if (threadContext) {
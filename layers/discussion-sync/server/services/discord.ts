@@ -0,0 +1,387 @@
+/**
+ * Discord Service - Interact with Discord REST API
+ *
+ * Provides methods to read thread channel history, post replies,
+ * and manage reactions used as status indicators.
+ */
+
+import { CircuitBreaker } from '../utils/circuitBreaker'
+import type { DiscussionThread, ThreadMessage } from '../adapters/base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DISCORD_CONFIG = {
+  API_BASE_URL: 'https://discord.com/api/v10',
+  CIRCUIT_BREAKER_THRESHOLD: 3,
+  CIRCUIT_BREAKER_TIMEOUT_MS: 30000,
+  RETRY_MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  PAGE_SIZE: 100,
+  MAX_THREAD_MESSAGES: 500,
+  MAX_MESSAGE_LENGTH: 2000,
+} as const
+
+/**
+ * Channel types that are threads (including forum posts)
+ */
+export const DISCORD_THREAD_CHANNEL_TYPES = [10, 11, 12] as const
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DiscordUser {
+  id: string
+  username: string
+  global_name?: string | null
+  bot?: boolean
+}
+
+export interface DiscordChannel {
+  id: string
+  type: number
+  guild_id?: string
+  name?: string
+  parent_id?: string | null
+}
+
+export interface DiscordMessage {
+  id: string
+  channel_id: string
+  guild_id?: string
+  author: DiscordUser
+  content: string
+  timestamp: string
+  type?: number
+  mentions?: DiscordUser[]
+  message_reference?: {
+    message_id?: string
+    channel_id?: string
+  }
+  attachments?: Array<{
+    id: string
+    filename: string
+    url: string
+    content_type?: string
+    size: number
+  }>
+}
+
+/**
+ * A Discord conversation is either a thread channel, or a single message in a
+ * regular channel together with the messages replying to it.
+ */
+export interface DiscordThreadRef {
+  channelId: string
+  messageId?: string
+}
+
+// ============================================
+// THREAD ID HELPERS
+// ============================================
+
+const THREAD_ID_PATTERN = /^(\d+)(?::(\d+))?$/
+
+/**
+ * Build a thread ID from a thread reference
+ *
+ * Format: <threadChannelId> or <channelId>:<messageId>
+ */
+export function buildDiscordThreadId(ref: DiscordThreadRef): string {
+  return ref.messageId ? `${ref.channelId}:${ref.messageId}` : ref.channelId
+}
+
+/**
+ * Parse a thread ID created by buildDiscordThreadId
+ */
+export function parseDiscordThreadId(threadId: string): DiscordThreadRef {
+  const match = threadId.match(THREAD_ID_PATTERN)
+
+  if (!match || !match[1]) {
+    throw new Error(`[Discord Service] Invalid thread ID: ${threadId}`)
+  }
+
+  return {
+    channelId: match[1],
+    messageId: match[2],
+  }
+}
+
+/**
+ * Whether a channel type is a thread
+ */
+export function isDiscordThreadChannel(type: number | undefined): boolean {
+  return DISCORD_THREAD_CHANNEL_TYPES.includes(type as typeof DISCORD_THREAD_CHANNEL_TYPES[number])
+}
+
+// ============================================
+// DISCORD SERVICE
+// ============================================
+
+export class DiscordService {
+  private readonly botToken: string
+  private readonly circuitBreaker: CircuitBreaker
+
+  constructor(botToken: string) {
+    if (!botToken || botToken.trim() === '') {
+      throw new Error('[Discord Service] Bot token is required')
+    }
+
+    this.botToken = botToken
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: DISCORD_CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+      resetTimeout: DISCORD_CONFIG.CIRCUIT_BREAKER_TIMEOUT_MS,
+      onOpen: () => console.error('[Discord Service] Circuit breaker opened'),
+      onClose: () => console.log('[Discord Service] Circuit breaker closed'),
+    })
+  }
+
+  /**
+   * Get a channel (thread channels included)
+   */
+  async getChannel(channelId: string): Promise<DiscordChannel> {
+    return this.request<DiscordChannel>(`/channels/${channelId}`)
+  }
+
+  /**
+   * Get a single message
+   */
+  async getMessage(channelId: string, messageId: string): Promise<DiscordMessage> {
+    return this.request<DiscordMessage>(`/channels/${channelId}/messages/${messageId}`)
+  }
+
+  /**
+   * Read channel history, newest first, up to a maximum number of messages
+   */
+  async getChannelHistory(
+    channelId: string,
+    options: { after?: string, max?: number } = {}
+  ): Promise<DiscordMessage[]> {
+    const max = options.max ?? DISCORD_CONFIG.MAX_THREAD_MESSAGES
+    const messages: DiscordMessage[] = []
+    let before: string | undefined
+
+    while (messages.length < max) {
+      const params = new URLSearchParams({ limit: String(DISCORD_CONFIG.PAGE_SIZE) })
+      if (before) {
+        params.set('before', before)
+      }
+      else if (options.after) {
+        // Discord pages "after" forwards; we only use it for the first page
+        params.set('after', options.after)
+      }
+
+      const page = await this.request<DiscordMessage[]>(`/channels/${channelId}/messages?${params.toString()}`)
+      messages.push(...page)
+
+      if (page.length < DISCORD_CONFIG.PAGE_SIZE || options.after) {
+        break
+      }
+
+      before = page[page.length - 1]?.id
+    }
+
+    return messages.slice(0, max)
+  }
+
+  /**
+   * Build a discussion thread from a thread reference
+   */
+  async buildThread(ref: DiscordThreadRef): Promise<DiscussionThread> {
+    let messages: DiscordMessage[]
+
+    if (ref.messageId) {
+      // Message in a regular channel: the message plus replies that reference it
+      const root = await this.getMessage(ref.channelId, ref.messageId)
+      const later = await this.getChannelHistory(ref.channelId, { after: ref.messageId })
+      const replies = later.filter(m => m.message_reference?.message_id === ref.messageId)
+      messages = [root, ...replies]
+    }
+    else {
+      messages = await this.getChannelHistory(ref.channelId)
+    }
+
+    const threadMessages = messages
+      .filter(m => m.content || m.attachments?.length)
+      .sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1))
+      .map(m => this.toThreadMessage(m))
+
+    const [rootMessage, ...replies] = threadMessages
+
+    if (!rootMessage) {
+      throw new Error('[Discord Service] No messages found in thread')
+    }
+
+    return {
+      id: buildDiscordThreadId(ref),
+      rootMessage,
+      replies,
+      participants: Array.from(new Set(threadMessages.map(m => m.authorHandle))),
+      metadata: {
+        channelId: ref.channelId,
+        messageId: ref.messageId,
+        truncated: !ref.messageId && messages.length >= DISCORD_CONFIG.MAX_THREAD_MESSAGES,
+      },
+    }
+  }
+
+  /**
+   * Post a message, optionally as a reply to another message
+   */
+  async createMessage(channelId: string, content: string, replyToMessageId?: string): Promise<string> {
+    const message = await this.request<DiscordMessage>(`/channels/${channelId}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({
+        content: content.substring(0, DISCORD_CONFIG.MAX_MESSAGE_LENGTH),
+        message_reference: replyToMessageId
+          ? { message_id: replyToMessageId, fail_if_not_exists: false }
+          : undefined,
+        allowed_mentions: { parse: [] },
+      }),
+    })
+
+    console.log('[Discord Service] Message posted:', message.id)
+    return message.id
+  }
+
+  /**
+   * Add a reaction as the bot
+   */
+  async addReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    await this.request(
+      `/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`,
+      { method: 'PUT' },
+    )
+  }
+
+  /**
+   * Remove the bot's own reaction
+   */
+  async removeOwnReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    await this.request(
+      `/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`,
+      { method: 'DELETE' },
+    )
+  }
+
+  /**
+   * Validate bot token by making test request
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const user = await this.request<DiscordUser>('/users/@me')
+      console.log('[Discord Service] Connection test successful:', user.username)
+      return true
+    }
+    catch (error) {
+      console.error('[Discord Service] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // INTERNAL HELPERS
+  // ============================================
+
+  private toThreadMessage(message: DiscordMessage): ThreadMessage {
+    return {
+      id: message.id,
+      authorHandle: message.author.global_name || message.author.username,
+      content: message.content,
+      timestamp: new Date(message.timestamp),
+      attachments: (message.attachments || []).map(attachment => ({
+        id: attachment.id,
+        type: attachment.content_type?.startsWith('image/') ? 'image' as const : 'file' as const,
+        url: attachment.url,
+        name: attachment.filename,
+        mimeType: attachment.content_type,
+      })),
+    }
+  }
+
+  /**
+   * Make an authenticated API request with circuit breaker and retries
+   */
+  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    return this.retryWithBackoff(() => this.circuitBreaker.execute(async () => {
+      const response = await fetch(`${DISCORD_CONFIG.API_BASE_URL}${path}`, {
+        ...options,
+        headers: {
+          'Authorization': `Bot ${this.botToken}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('[Discord Service] API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+          path,
+        })
+
+        if (response.status === 401) {
+          throw new Error('Discord API authentication failed - check your bot token')
+        }
+
+        if (response.status === 403) {
+          throw new Error(`Discord API access denied - check bot permissions: ${path}`)
+        }
+
+        if (response.status === 404) {
+          throw new Error(`Discord resource not found: ${path}`)
+        }
+
+        if (response.status === 429) {
+          throw new Error(`Discord API rate limit exceeded: ${errorText}`)
+        }
+
+        throw new Error(`Discord API error: ${response.status} - ${errorText}`)
+      }
+
+      if (response.status === 204) {
+        return undefined as T
+      }
+
+      return await response.json() as T
+    }))
+  }
+
+  /**
+   * Retry with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxAttempts = DISCORD_CONFIG.RETRY_MAX_ATTEMPTS
+  ): Promise<T> {
+    let lastError: Error | undefined
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await fn()
+      }
+      catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+
+        if (attempt === maxAttempts) {
+          break
+        }
+
+        const delay = DISCORD_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)
+        console.warn(
+          `[Discord Service] Attempt ${attempt}/${maxAttempts} failed, retrying in ${delay}ms`,
+          lastError.message
+        )
+
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+
+    throw lastError
+  }
+}
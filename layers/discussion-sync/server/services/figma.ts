@@ -7,7 +7,7 @@
 
 import { CircuitBreaker } from '../utils/circuitBreaker'
 import { LRUCache } from '../utils/lru-cache'
-import type { DiscussionThread, ThreadMessage } from '../adapters/base'
+import type { Attachment, DiscussionThread, ThreadMessage } from '../adapters/base'
 
 // ============================================
 // CONSTANTS
@@ -22,6 +22,8 @@ const FIGMA_CONFIG = {
   RETRY_BASE_DELAY_MS: 1000,
   CACHE_TTL_MS: 300000, // 5 minutes
   CACHE_MAX_SIZE: 50,
+  NODE_IMAGE_SCALE: 2,
+  IMAGE_URL_PATTERN: /https:\/\/[^\s<>()"]+\.(?:png|jpe?g|gif|webp)(?:\?[^\s<>()"]*)?/gi,
   PROCESSING_EMOJI: '👀',
   SUCCESS_EMOJI: '✅',
   ERROR_EMOJI: '❌',
@@ -59,16 +61,101 @@ export interface FigmaFile {
   thumbnail_url: string
   version: string
   last_modified: string
-  document?: unknown
+  document?: FigmaNode
   components?: unknown
   styles?: unknown
 }
 
+export interface FigmaNode {
+  id: string
+  name: string
+  type: string // DOCUMENT, CANVAS (page), FRAME, SECTION, ...
+  children?: FigmaNode[]
+}
+
+/**
+ * Where a comment is pinned in the file
+ */
+export interface FigmaNodeContext {
+  nodeId: string
+  nodeName: string
+  frameId?: string // Top-level frame on the page
+  frameName?: string
+  pageName?: string
+}
+
+export interface FigmaImagesResponse {
+  err: string | null
+  images: Record<string, string | null>
+}
+
 export interface FigmaCommentsResponse {
   comments: FigmaComment[]
   cursor?: string
 }
 
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Find the page, top-level frame and node a node ID points at
+ *
+ * The document tree is walked from the root, so the file only needs the
+ * branch leading to the node (GET /files/:key?ids=...).
+ */
+export function findNodeContext(document: FigmaNode, nodeId: string): FigmaNodeContext | null {
+  const path = findNodePath(document, nodeId)
+
+  if (!path) {
+    return null
+  }
+
+  // DOCUMENT > CANVAS > top-level frame > ... > node
+  const page = path.find(node => node.type === 'CANVAS')
+  const frame = page ? path[path.indexOf(page) + 1] : undefined
+  const node = path[path.length - 1]!
+
+  return {
+    nodeId,
+    nodeName: node.name,
+    frameId: frame?.id,
+    frameName: frame?.name,
+    pageName: page?.name,
+  }
+}
+
+function findNodePath(node: FigmaNode, nodeId: string): FigmaNode[] | null {
+  if (node.id === nodeId) {
+    return [node]
+  }
+
+  for (const child of node.children || []) {
+    const path = findNodePath(child, nodeId)
+    if (path) {
+      return [node, ...path]
+    }
+  }
+
+  return null
+}
+
+/**
+ * Images linked in a comment, e.g. screenshots pasted as links
+ *
+ * The comments API returns plain text, so images are found by URL.
+ */
+export function extractCommentImages(comment: FigmaComment): Attachment[] {
+  const urls = [...new Set(comment.message.match(FIGMA_CONFIG.IMAGE_URL_PATTERN) || [])]
+
+  return urls.map((url, index) => ({
+    id: `${comment.id}-${index}`,
+    type: 'image' as const,
+    url,
+    name: decodeURIComponent(new URL(url).pathname.split('/').pop() || `image-${index + 1}`),
+  }))
+}
+
 // ============================================
 // FIGMA SERVICE
 // ============================================
@@ -177,7 +264,7 @@ export class FigmaService {
       authorHandle: rootComment.user.handle,
       content: rootComment.message,
       timestamp: new Date(rootComment.created_at),
-      attachments: [],
+      attachments: extractCommentImages(rootComment),
     }
 
     const replyMessages: ThreadMessage[] = replies.map(comment => ({
@@ -185,7 +272,7 @@ export class FigmaService {
       authorHandle: comment.user.handle,
       content: comment.message,
       timestamp: new Date(comment.created_at),
-      attachments: [],
+      attachments: extractCommentImages(comment),
     }))
 
     // Extract all unique participants
@@ -346,15 +433,19 @@ export class FigmaService {
 
   /**
    * Get file information
+   *
+   * With `ids`, the document only contains those nodes and the branches
+   * leading to them.
    */
-  async getFile(fileKey: string): Promise<FigmaFile> {
+  async getFile(fileKey: string, options: { ids?: string[] } = {}): Promise<FigmaFile> {
     const cleanFileKey = this.cleanFileKey(fileKey)
+    const query = options.ids?.length ? `?ids=${encodeURIComponent(options.ids.join(','))}` : ''
 
     return this.retryWithBackoff(async () => {
       console.log('[Figma Service] Fetching file info:', cleanFileKey)
 
       const response = await this.rateLimitedFetch<FigmaFile>(
-        `${FIGMA_CONFIG.API_BASE_URL}/files/${cleanFileKey}`,
+        `${FIGMA_CONFIG.API_BASE_URL}/files/${cleanFileKey}${query}`,
         {
           headers: {
             'X-Figma-Token': this.apiKey,
@@ -366,6 +457,54 @@ export class FigmaService {
     })
   }
 
+  /**
+   * Get the name of the node a comment is pinned to, and its frame and page
+   *
+   * @returns null if the node no longer exists
+   */
+  async getNodeContext(fileKey: string, nodeId: string): Promise<FigmaNodeContext | null> {
+    const file = await this.getFile(fileKey, { ids: [nodeId] })
+    return file.document ? findNodeContext(file.document, nodeId) : null
+  }
+
+  /**
+   * Render a node as PNG
+   *
+   * @returns URL of the rendered image (expires after 30 days), or null if
+   *          the node can't be rendered, e.g. it is invisible or was deleted
+   */
+  async getNodeImageUrl(
+    fileKey: string,
+    nodeId: string,
+    options: { scale?: number } = {}
+  ): Promise<string | null> {
+    const cleanFileKey = this.cleanFileKey(fileKey)
+    const params = new URLSearchParams({
+      ids: nodeId,
+      format: 'png',
+      scale: String(options.scale ?? FIGMA_CONFIG.NODE_IMAGE_SCALE),
+    })
+
+    return this.retryWithBackoff(async () => {
+      console.log('[Figma Service] Rendering node:', { fileKey: cleanFileKey, nodeId })
+
+      const response = await this.rateLimitedFetch<FigmaImagesResponse>(
+        `${FIGMA_CONFIG.API_BASE_URL}/images/${cleanFileKey}?${params.toString()}`,
+        {
+          headers: {
+            'X-Figma-Token': this.apiKey,
+          },
+        }
+      )
+
+      if (response.err) {
+        throw new Error(`Figma image render error: ${response.err}`)
+      }
+
+      return response.images?.[nodeId] ?? null
+    })
+  }
+
   /**
    * Validate API key by making test request
    */
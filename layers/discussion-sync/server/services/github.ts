@@ -0,0 +1,552 @@
+/**
+ * GitHub Service - Interact with GitHub REST API
+ *
+ * Provides methods to fetch issue and pull request conversations, post replies,
+ * manage reactions used as status indicators, and open issues for tasks.
+ */
+
+import { CircuitBreaker } from '../utils/circuitBreaker'
+import type { DiscussionThread, ThreadMessage } from '../adapters/base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const GITHUB_CONFIG = {
+  API_BASE_URL: 'https://api.github.com',
+  API_VERSION: '2022-11-28',
+  CIRCUIT_BREAKER_THRESHOLD: 3,
+  CIRCUIT_BREAKER_TIMEOUT_MS: 30000,
+  RETRY_MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  PAGE_SIZE: 100,
+} as const
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GitHubUser {
+  login: string
+  id: number
+  type: string
+  html_url?: string
+}
+
+export interface GitHubIssue {
+  number: number
+  title: string
+  body: string | null
+  state: string
+  html_url: string
+  user: GitHubUser
+  created_at: string
+  labels?: Array<{ name: string }>
+  pull_request?: {
+    url: string
+    html_url?: string
+  }
+}
+
+export interface GitHubIssueInput {
+  title: string
+  body?: string
+  labels?: string[] // Missing labels are created by GitHub
+  assignees?: string[]
+}
+
+export interface GitHubRepository {
+  full_name: string
+  html_url: string
+  has_issues: boolean
+}
+
+export interface GitHubSearchResult<T> {
+  total_count: number
+  items: T[]
+}
+
+export interface GitHubComment {
+  id: number
+  body: string
+  html_url: string
+  user: GitHubUser
+  created_at: string
+  // Only present on pull request review comments
+  in_reply_to_id?: number
+  path?: string
+  diff_hunk?: string
+  pull_request_review_id?: number
+}
+
+export type GitHubReactionContent =
+  | '+1'
+  | '-1'
+  | 'laugh'
+  | 'confused'
+  | 'heart'
+  | 'hooray'
+  | 'rocket'
+  | 'eyes'
+
+export interface GitHubReaction {
+  id: number
+  content: GitHubReactionContent
+  user: GitHubUser
+}
+
+/**
+ * A GitHub conversation is either the timeline of an issue/PR or a single
+ * review comment thread on a pull request diff.
+ */
+export interface GitHubThreadRef {
+  owner: string
+  repo: string
+  number: number
+  reviewCommentId?: number
+}
+
+/**
+ * What a reaction is attached to
+ */
+export type GitHubReactionTarget =
+  | { kind: 'issue', owner: string, repo: string, number: number }
+  | { kind: 'issue_comment', owner: string, repo: string, commentId: number }
+  | { kind: 'review_comment', owner: string, repo: string, commentId: number }
+
+// ============================================
+// THREAD ID HELPERS
+// ============================================
+
+const THREAD_ID_PATTERN = /^([^/\s]+)\/([^#\s]+)#(\d+)(?::review-(\d+))?$/
+
+/**
+ * Build a thread ID from a thread reference
+ *
+ * Format: owner/repo#123 or owner/repo#123:review-456
+ */
+export function buildGitHubThreadId(ref: GitHubThreadRef): string {
+  const base = `${ref.owner}/${ref.repo}#${ref.number}`
+  return ref.reviewCommentId ? `${base}:review-${ref.reviewCommentId}` : base
+}
+
+/**
+ * Parse a thread ID created by buildGitHubThreadId
+ */
+export function parseGitHubThreadId(threadId: string): GitHubThreadRef {
+  const match = threadId.match(THREAD_ID_PATTERN)
+
+  if (!match || !match[1] || !match[2] || !match[3]) {
+    throw new Error(`[GitHub Service] Invalid thread ID: ${threadId}`)
+  }
+
+  return {
+    owner: match[1],
+    repo: match[2],
+    number: Number.parseInt(match[3], 10),
+    reviewCommentId: match[4] ? Number.parseInt(match[4], 10) : undefined,
+  }
+}
+
+// ============================================
+// GITHUB SERVICE
+// ============================================
+
+export class GitHubService {
+  private readonly token: string
+  private readonly circuitBreaker: CircuitBreaker
+  private authenticatedUser: GitHubUser | null = null
+
+  constructor(token: string) {
+    if (!token || token.trim() === '') {
+      throw new Error('[GitHub Service] API token is required')
+    }
+
+    this.token = token
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: GITHUB_CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+      resetTimeout: GITHUB_CONFIG.CIRCUIT_BREAKER_TIMEOUT_MS,
+      onOpen: () => console.error('[GitHub Service] Circuit breaker opened'),
+      onClose: () => console.log('[GitHub Service] Circuit breaker closed'),
+    })
+  }
+
+  /**
+   * Get an issue or pull request (pull requests are issues in the REST API)
+   */
+  async getIssue(owner: string, repo: string, number: number): Promise<GitHubIssue> {
+    return this.request<GitHubIssue>(`/repos/${owner}/${repo}/issues/${number}`)
+  }
+
+  /**
+   * Get all timeline comments of an issue or pull request
+   */
+  async getIssueComments(owner: string, repo: string, number: number): Promise<GitHubComment[]> {
+    return this.paginate<GitHubComment>(`/repos/${owner}/${repo}/issues/${number}/comments`)
+  }
+
+  /**
+   * Get all review (diff) comments of a pull request
+   */
+  async getReviewComments(owner: string, repo: string, number: number): Promise<GitHubComment[]> {
+    return this.paginate<GitHubComment>(`/repos/${owner}/${repo}/pulls/${number}/comments`)
+  }
+
+  /**
+   * Build a discussion thread from a thread reference
+   */
+  async buildThread(ref: GitHubThreadRef): Promise<DiscussionThread> {
+    const issue = await this.getIssue(ref.owner, ref.repo, ref.number)
+    const isPullRequest = !!issue.pull_request
+
+    if (ref.reviewCommentId) {
+      return this.buildReviewThread(ref, issue)
+    }
+
+    const comments = await this.getIssueComments(ref.owner, ref.repo, ref.number)
+
+    const rootMessage: ThreadMessage = {
+      id: `issue-${issue.number}`,
+      authorHandle: issue.user.login,
+      content: issue.body ? `${issue.title}\n\n${issue.body}` : issue.title,
+      timestamp: new Date(issue.created_at),
+      attachments: [],
+    }
+
+    const replies = comments.map(comment => this.toThreadMessage(comment))
+
+    return {
+      id: buildGitHubThreadId(ref),
+      rootMessage,
+      replies,
+      participants: this.uniqueParticipants([rootMessage, ...replies]),
+      metadata: {
+        owner: ref.owner,
+        repo: ref.repo,
+        number: ref.number,
+        title: issue.title,
+        state: issue.state,
+        isPullRequest,
+        url: issue.html_url,
+      },
+    }
+  }
+
+  /**
+   * Post a comment on the issue/PR timeline
+   */
+  async createIssueComment(
+    owner: string,
+    repo: string,
+    number: number,
+    body: string
+  ): Promise<number> {
+    const comment = await this.request<GitHubComment>(
+      `/repos/${owner}/${repo}/issues/${number}/comments`,
+      { method: 'POST', body: JSON.stringify({ body }) },
+    )
+
+    console.log('[GitHub Service] Issue comment posted:', comment.id)
+    return comment.id
+  }
+
+  /**
+   * Reply inside a pull request review comment thread
+   */
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    number: number,
+    commentId: number,
+    body: string
+  ): Promise<number> {
+    const comment = await this.request<GitHubComment>(
+      `/repos/${owner}/${repo}/pulls/${number}/comments/${commentId}/replies`,
+      { method: 'POST', body: JSON.stringify({ body }) },
+    )
+
+    console.log('[GitHub Service] Review comment reply posted:', comment.id)
+    return comment.id
+  }
+
+  /**
+   * Open an issue
+   */
+  async createIssue(owner: string, repo: string, input: GitHubIssueInput): Promise<GitHubIssue> {
+    const issue = await this.request<GitHubIssue>(`/repos/${owner}/${repo}/issues`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    })
+
+    console.log('[GitHub Service] Issue created:', `${owner}/${repo}#${issue.number}`)
+    return issue
+  }
+
+  /**
+   * Update fields of an issue
+   */
+  async updateIssue(
+    owner: string,
+    repo: string,
+    number: number,
+    input: Partial<GitHubIssueInput>
+  ): Promise<GitHubIssue> {
+    return this.request<GitHubIssue>(`/repos/${owner}/${repo}/issues/${number}`, {
+      method: 'PATCH',
+      body: JSON.stringify(input),
+    })
+  }
+
+  /**
+   * Search issues and pull requests, e.g. `repo:acme/ds is:issue "text"`
+   *
+   * Only the first page is returned.
+   */
+  async searchIssues(query: string): Promise<GitHubIssue[]> {
+    const result = await this.request<GitHubSearchResult<GitHubIssue>>(
+      `/search/issues?q=${encodeURIComponent(query)}&per_page=${GITHUB_CONFIG.PAGE_SIZE}`,
+    )
+    return result.items
+  }
+
+  /**
+   * Get a repository
+   */
+  async getRepository(owner: string, repo: string): Promise<GitHubRepository> {
+    return this.request<GitHubRepository>(`/repos/${owner}/${repo}`)
+  }
+
+  /**
+   * Add a reaction to an issue or comment
+   */
+  async addReaction(target: GitHubReactionTarget, content: GitHubReactionContent): Promise<void> {
+    await this.request<GitHubReaction>(this.reactionsPath(target), {
+      method: 'POST',
+      body: JSON.stringify({ content }),
+    })
+  }
+
+  /**
+   * Remove reactions of a given type that were added by the authenticated user
+   */
+  async removeOwnReactions(target: GitHubReactionTarget, content: GitHubReactionContent): Promise<void> {
+    const self = await this.getAuthenticatedUser()
+    const basePath = this.reactionsPath(target)
+
+    const reactions = await this.request<GitHubReaction[]>(
+      `${basePath}?content=${encodeURIComponent(content)}&per_page=${GITHUB_CONFIG.PAGE_SIZE}`,
+    )
+
+    for (const reaction of reactions) {
+      if (reaction.user?.login === self.login) {
+        await this.request(`${basePath}/${reaction.id}`, { method: 'DELETE' })
+      }
+    }
+  }
+
+  /**
+   * Get the user the token belongs to (cached per service instance)
+   */
+  async getAuthenticatedUser(): Promise<GitHubUser> {
+    if (!this.authenticatedUser) {
+      this.authenticatedUser = await this.request<GitHubUser>('/user')
+    }
+    return this.authenticatedUser
+  }
+
+  /**
+   * Validate API token by making test request
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const user = await this.getAuthenticatedUser()
+      console.log('[GitHub Service] Connection test successful:', user.login)
+      return true
+    }
+    catch (error) {
+      console.error('[GitHub Service] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // INTERNAL HELPERS
+  // ============================================
+
+  /**
+   * Build a thread from a pull request review comment chain
+   */
+  private async buildReviewThread(
+    ref: GitHubThreadRef,
+    issue: GitHubIssue
+  ): Promise<DiscussionThread> {
+    const comments = await this.getReviewComments(ref.owner, ref.repo, ref.number)
+
+    const requested = comments.find(c => c.id === ref.reviewCommentId)
+    if (!requested) {
+      throw new Error(`[GitHub Service] Review comment ${ref.reviewCommentId} not found on #${ref.number}`)
+    }
+
+    // Review threads are flat: every reply points at the first comment
+    const rootId = requested.in_reply_to_id || requested.id
+    const root = comments.find(c => c.id === rootId) || requested
+
+    const replies = comments
+      .filter(c => c.in_reply_to_id === root.id)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .map(comment => this.toThreadMessage(comment))
+
+    const rootMessage = this.toThreadMessage(root)
+
+    return {
+      id: buildGitHubThreadId({ ...ref, reviewCommentId: root.id }),
+      rootMessage,
+      replies,
+      participants: this.uniqueParticipants([rootMessage, ...replies]),
+      metadata: {
+        owner: ref.owner,
+        repo: ref.repo,
+        number: ref.number,
+        title: issue.title,
+        state: issue.state,
+        isPullRequest: true,
+        url: root.html_url,
+        path: root.path,
+        diffHunk: root.diff_hunk,
+      },
+    }
+  }
+
+  private toThreadMessage(comment: GitHubComment): ThreadMessage {
+    return {
+      id: String(comment.id),
+      authorHandle: comment.user.login,
+      content: comment.body,
+      timestamp: new Date(comment.created_at),
+      attachments: [],
+    }
+  }
+
+  private uniqueParticipants(messages: ThreadMessage[]): string[] {
+    return Array.from(new Set(messages.map(m => m.authorHandle)))
+  }
+
+  private reactionsPath(target: GitHubReactionTarget): string {
+    const repoPath = `/repos/${target.owner}/${target.repo}`
+
+    switch (target.kind) {
+      case 'issue':
+        return `${repoPath}/issues/${target.number}/reactions`
+      case 'issue_comment':
+        return `${repoPath}/issues/comments/${target.commentId}/reactions`
+      case 'review_comment':
+        return `${repoPath}/pulls/comments/${target.commentId}/reactions`
+    }
+  }
+
+  /**
+   * Fetch all pages of a list endpoint
+   */
+  private async paginate<T>(path: string): Promise<T[]> {
+    const items: T[] = []
+    let page = 1
+
+    while (true) {
+      const separator = path.includes('?') ? '&' : '?'
+      const pageItems = await this.request<T[]>(
+        `${path}${separator}per_page=${GITHUB_CONFIG.PAGE_SIZE}&page=${page}`,
+      )
+
+      items.push(...pageItems)
+
+      if (pageItems.length < GITHUB_CONFIG.PAGE_SIZE) {
+        break
+      }
+      page++
+    }
+
+    return items
+  }
+
+  /**
+   * Make an authenticated API request with circuit breaker and retries
+   */
+  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    return this.retryWithBackoff(() => this.circuitBreaker.execute(async () => {
+      const response = await fetch(`${GITHUB_CONFIG.API_BASE_URL}${path}`, {
+        ...options,
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Accept': 'application/vnd.github+json',
+          'X-GitHub-Api-Version': GITHUB_CONFIG.API_VERSION,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('[GitHub Service] API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+          path,
+        })
+
+        if (response.status === 401) {
+          throw new Error('GitHub API authentication failed - check your token')
+        }
+
+        if (response.status === 404) {
+          throw new Error(`GitHub resource not found: ${path}`)
+        }
+
+        if (response.status === 403 || response.status === 429) {
+          throw new Error(`GitHub API access denied or rate limited: ${errorText}`)
+        }
+
+        throw new Error(`GitHub API error: ${response.status} - ${errorText}`)
+      }
+
+      if (response.status === 204) {
+        return undefined as T
+      }
+
+      return await response.json() as T
+    }))
+  }
+
+  /**
+   * Retry with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxAttempts = GITHUB_CONFIG.RETRY_MAX_ATTEMPTS
+  ): Promise<T> {
+    let lastError: Error | undefined
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await fn()
+      }
+      catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+
+        if (attempt === maxAttempts) {
+          break
+        }
+
+        const delay = GITHUB_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)
+        console.warn(
+          `[GitHub Service] Attempt ${attempt}/${maxAttempts} failed, retrying in ${delay}ms`,
+          lastError.message
+        )
+
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+
+    throw lastError
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * Jira Service - Interact with Jira Cloud REST API
+ *
+ * Provides methods to create and update issues in a project and to look up
+ * what creating an issue requires (project, issue type, fields).
+ */
+
+import { CircuitBreaker } from '../utils/circuitBreaker'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const JIRA_CONFIG = {
+  API_PATH: '/rest/api/3',
+  CIRCUIT_BREAKER_THRESHOLD: 3,
+  CIRCUIT_BREAKER_TIMEOUT_MS: 30000,
+  RETRY_MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  PAGE_SIZE: 100,
+} as const
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface JiraCredentials {
+  siteUrl: string // https://acme.atlassian.net
+  email: string // Account the API token belongs to
+  apiToken: string
+}
+
+/**
+ * Atlassian Document Format node, used for rich text fields
+ */
+export interface AdfNode {
+  type: string
+  version?: number
+  attrs?: Record<string, unknown>
+  content?: AdfNode[]
+  text?: string
+  marks?: Array<{ type: string, attrs?: Record<string, unknown> }>
+}
+
+export interface JiraIssueFields {
+  project?: { key: string }
+  issuetype?: { name: string }
+  summary?: string
+  description?: AdfNode
+  priority?: { name: string }
+  labels?: string[]
+  [field: string]: unknown
+}
+
+export interface JiraIssueRef {
+  id: string
+  key: string
+  self: string
+}
+
+export interface JiraProject {
+  id: string
+  key: string
+  name: string
+}
+
+export interface JiraIssueType {
+  id: string
+  name: string
+}
+
+export interface JiraCreateField {
+  fieldId: string
+  name: string
+  required: boolean
+  hasDefaultValue: boolean
+  allowedValues?: Array<{ id: string, name?: string, value?: string }>
+}
+
+export interface JiraUser {
+  accountId: string
+  displayName: string
+  emailAddress?: string
+}
+
+interface JiraPage<T> {
+  values?: T[]
+  // Older createmeta responses name the list after its content
+  issueTypes?: T[]
+  fields?: T[]
+  isLast?: boolean
+  total?: number
+}
+
+// ============================================
+// JIRA SERVICE
+// ============================================
+
+export class JiraService {
+  private readonly siteUrl: string
+  private readonly email: string
+  private readonly apiToken: string
+  private readonly circuitBreaker: CircuitBreaker
+
+  constructor(credentials: JiraCredentials) {
+    if (!credentials.apiToken || credentials.apiToken.trim() === '') {
+      throw new Error('[Jira Service] API token is required')
+    }
+
+    if (!credentials.siteUrl || !credentials.email) {
+      throw new Error('[Jira Service] Site URL and email are required')
+    }
+
+    this.siteUrl = credentials.siteUrl.replace(/\/+$/, '')
+    this.email = credentials.email
+    this.apiToken = credentials.apiToken
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: JIRA_CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+      resetTimeout: JIRA_CONFIG.CIRCUIT_BREAKER_TIMEOUT_MS,
+      onOpen: () => console.error('[Jira Service] Circuit breaker opened'),
+      onClose: () => console.log('[Jira Service] Circuit breaker closed'),
+    })
+  }
+
+  /**
+   * Create an issue
+   */
+  async createIssue(fields: JiraIssueFields): Promise<JiraIssueRef> {
+    const issue = await this.request<JiraIssueRef>('/issue', {
+      method: 'POST',
+      body: JSON.stringify({ fields }),
+    })
+
+    console.log('[Jira Service] Issue created:', issue.key)
+    return issue
+  }
+
+  /**
+   * Update fields of an issue
+   */
+  async updateIssue(issueKey: string, fields: JiraIssueFields): Promise<void> {
+    await this.request(`/issue/${encodeURIComponent(issueKey)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ fields }),
+    })
+  }
+
+  /**
+   * Get a project by key, or null if it doesn't exist or isn't visible
+   */
+  async getProject(projectKey: string): Promise<JiraProject | null> {
+    try {
+      return await this.request<JiraProject>(`/project/${encodeURIComponent(projectKey)}`)
+    }
+    catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Get the issue types that can be created in a project
+   */
+  async getIssueTypes(projectKey: string): Promise<JiraIssueType[]> {
+    return this.paginate<JiraIssueType>(
+      `/issue/createmeta/${encodeURIComponent(projectKey)}/issuetypes`,
+    )
+  }
+
+  /**
+   * Get the fields of the create screen for an issue type
+   */
+  async getCreateFields(projectKey: string, issueTypeId: string): Promise<JiraCreateField[]> {
+    return this.paginate<JiraCreateField>(
+      `/issue/createmeta/${encodeURIComponent(projectKey)}/issuetypes/${encodeURIComponent(issueTypeId)}`,
+    )
+  }
+
+  /**
+   * Get the user the API token belongs to
+   */
+  async getMyself(): Promise<JiraUser> {
+    return this.request<JiraUser>('/myself')
+  }
+
+  /**
+   * Browser URL of an issue
+   */
+  getIssueUrl(issueKey: string): string {
+    return `${this.siteUrl}/browse/${issueKey}`
+  }
+
+  /**
+   * Validate credentials by making test request
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const user = await this.getMyself()
+      console.log('[Jira Service] Connection test successful:', user.displayName)
+      return true
+    }
+    catch (error) {
+      console.error('[Jira Service] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // INTERNAL HELPERS
+  // ============================================
+
+  /**
+   * Fetch all pages of a list endpoint
+   */
+  private async paginate<T>(path: string): Promise<T[]> {
+    const items: T[] = []
+    let startAt = 0
+
+    while (true) {
+      const separator = path.includes('?') ? '&' : '?'
+      const page = await this.request<JiraPage<T>>(
+        `${path}${separator}startAt=${startAt}&maxResults=${JIRA_CONFIG.PAGE_SIZE}`,
+      )
+
+      const pageItems = page.values || page.issueTypes || page.fields || []
+      items.push(...pageItems)
+
+      if (page.isLast !== false || pageItems.length === 0) {
+        break
+      }
+      startAt += pageItems.length
+    }
+
+    return items
+  }
+
+  /**
+   * Make an authenticated API request with circuit breaker and retries
+   */
+  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    return this.retryWithBackoff(() => this.circuitBreaker.execute(async () => {
+      const response = await fetch(`${this.siteUrl}${JIRA_CONFIG.API_PATH}${path}`, {
+        ...options,
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`${this.email}:${this.apiToken}`).toString('base64')}`,
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('[Jira Service] API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+          path,
+        })
+
+        if (response.status === 401) {
+          throw new Error('Jira API authentication failed - check email and API token')
+        }
+
+        if (response.status === 404) {
+          throw new Error(`Jira resource not found: ${path}`)
+        }
+
+        if (response.status === 429) {
+          throw new Error('Jira API rate limit exceeded')
+        }
+
+        throw new Error(`Jira API error: ${response.status} - ${errorText}`)
+      }
+
+      if (response.status === 204) {
+        return undefined as T
+      }
+
+      return await response.json() as T
+    }))
+  }
+
+  /**
+   * Retry with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxAttempts = JIRA_CONFIG.RETRY_MAX_ATTEMPTS
+  ): Promise<T> {
+    let lastError: Error | undefined
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await fn()
+      }
+      catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+
+        if (attempt === maxAttempts) {
+          break
+        }
+
+        const delay = JIRA_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)
+        console.warn(
+          `[Jira Service] Attempt ${attempt}/${maxAttempts} failed, retrying in ${delay}ms`,
+          lastError.message
+        )
+
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+
+    throw lastError
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * Linear Service - Interact with Linear GraphQL API
+ *
+ * Provides methods to fetch comment threads on issues, post replies,
+ * and manage reactions used as status indicators. As a task destination,
+ * it creates and updates issues.
+ */
+
+import { CircuitBreaker } from '../utils/circuitBreaker'
+import type { DiscussionThread, ThreadMessage } from '../adapters/base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const LINEAR_CONFIG = {
+  API_URL: 'https://api.linear.app/graphql',
+  CIRCUIT_BREAKER_THRESHOLD: 3,
+  CIRCUIT_BREAKER_TIMEOUT_MS: 30000,
+  RETRY_MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  PAGE_SIZE: 100,
+} as const
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LinearUser {
+  id: string
+  name: string
+  displayName?: string
+  email?: string
+}
+
+export interface LinearIssueRef {
+  id: string
+  identifier: string
+  title: string
+  url: string
+}
+
+export interface LinearComment {
+  id: string
+  body: string
+  createdAt: string
+  url?: string
+  user: LinearUser | null
+  botActor?: { name: string } | null
+  parent?: { id: string } | null
+}
+
+export interface LinearLabel {
+  id: string
+  name: string
+  team?: { id: string } | null // null for workspace labels
+}
+
+export interface LinearTeam {
+  id: string
+  key: string
+  name: string
+}
+
+export interface LinearIssueInput {
+  teamId: string
+  title: string
+  description?: string
+  priority?: number // 0 none, 1 urgent, 2 high, 3 medium, 4 low
+  projectId?: string
+  labelIds?: string[]
+  assigneeId?: string
+}
+
+export interface LinearReaction {
+  id: string
+  emoji: string
+  user: { id: string } | null
+}
+
+interface LinearCommentWithChildren extends LinearComment {
+  issue: LinearIssueRef | null
+  children: {
+    nodes: LinearComment[]
+    pageInfo: {
+      hasNextPage: boolean
+      endCursor: string | null
+    }
+  }
+}
+
+interface GraphQLResponse<T> {
+  data?: T
+  errors?: Array<{
+    message: string
+    extensions?: {
+      type?: string
+      code?: string
+    }
+  }>
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+const COMMENT_FIELDS = `
+  id
+  body
+  createdAt
+  url
+  user { id name displayName email }
+  botActor { name }
+`
+
+const THREAD_QUERY = `
+  query CommentThread($id: String!, $first: Int!, $after: String) {
+    comment(id: $id) {
+      ${COMMENT_FIELDS}
+      parent { id }
+      issue { id identifier title url }
+      children(first: $first, after: $after) {
+        nodes { ${COMMENT_FIELDS} }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`
+
+// ============================================
+// LINEAR SERVICE
+// ============================================
+
+export class LinearService {
+  private readonly apiKey: string
+  private readonly circuitBreaker: CircuitBreaker
+  private viewer: LinearUser | null = null
+
+  constructor(apiKey: string) {
+    if (!apiKey || apiKey.trim() === '') {
+      throw new Error('[Linear Service] API key is required')
+    }
+
+    this.apiKey = apiKey
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: LINEAR_CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+      resetTimeout: LINEAR_CONFIG.CIRCUIT_BREAKER_TIMEOUT_MS,
+      onOpen: () => console.error('[Linear Service] Circuit breaker opened'),
+      onClose: () => console.log('[Linear Service] Circuit breaker closed'),
+    })
+  }
+
+  /**
+   * Build a discussion thread from a root comment and all of its replies
+   *
+   * If a reply ID is passed, the thread is resolved from its parent comment.
+   */
+  async buildThread(commentId: string): Promise<DiscussionThread> {
+    let root = await this.getCommentWithChildren(commentId)
+
+    if (root.parent?.id) {
+      root = await this.getCommentWithChildren(root.parent.id)
+    }
+
+    const children = [...root.children.nodes]
+    let pageInfo = root.children.pageInfo
+
+    while (pageInfo.hasNextPage && pageInfo.endCursor) {
+      const page = await this.getCommentWithChildren(root.id, pageInfo.endCursor)
+      children.push(...page.children.nodes)
+      pageInfo = page.children.pageInfo
+    }
+
+    const rootMessage = this.toThreadMessage(root)
+    const replies = children
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(comment => this.toThreadMessage(comment))
+
+    return {
+      id: root.id,
+      rootMessage,
+      replies,
+      participants: Array.from(new Set([rootMessage, ...replies].map(m => m.authorHandle))),
+      metadata: {
+        issueId: root.issue?.id,
+        issueIdentifier: root.issue?.identifier,
+        issueTitle: root.issue?.title,
+        issueUrl: root.issue?.url,
+        url: root.url,
+      },
+    }
+  }
+
+  /**
+   * Get the issue a comment belongs to
+   */
+  async getCommentIssue(commentId: string): Promise<LinearIssueRef> {
+    const data = await this.query<{ comment: { issue: LinearIssueRef | null } }>(
+      `query CommentIssue($id: String!) {
+        comment(id: $id) { issue { id identifier title url } }
+      }`,
+      { id: commentId },
+    )
+
+    if (!data.comment?.issue) {
+      throw new Error(`[Linear Service] Comment ${commentId} is not attached to an issue`)
+    }
+
+    return data.comment.issue
+  }
+
+  /**
+   * Post a reply to a comment thread
+   */
+  async createComment(issueId: string, body: string, parentId?: string): Promise<string> {
+    const data = await this.query<{ commentCreate: { success: boolean, comment: { id: string } } }>(
+      `mutation CreateComment($input: CommentCreateInput!) {
+        commentCreate(input: $input) { success comment { id } }
+      }`,
+      { input: { issueId, body, parentId } },
+    )
+
+    if (!data.commentCreate.success) {
+      throw new Error('[Linear Service] Failed to create comment')
+    }
+
+    console.log('[Linear Service] Comment posted:', data.commentCreate.comment.id)
+    return data.commentCreate.comment.id
+  }
+
+  /**
+   * Add a reaction to a comment
+   */
+  async addReaction(commentId: string, emoji: string): Promise<void> {
+    const data = await this.query<{ reactionCreate: { success: boolean } }>(
+      `mutation AddReaction($input: ReactionCreateInput!) {
+        reactionCreate(input: $input) { success }
+      }`,
+      { input: { commentId, emoji } },
+    )
+
+    if (!data.reactionCreate.success) {
+      throw new Error('[Linear Service] Failed to add reaction')
+    }
+  }
+
+  /**
+   * Remove a reaction of a given emoji that was added by the authenticated user
+   */
+  async removeOwnReaction(commentId: string, emoji: string): Promise<void> {
+    const viewer = await this.getViewer()
+
+    const data = await this.query<{ comment: { reactions: LinearReaction[] } }>(
+      `query CommentReactions($id: String!) {
+        comment(id: $id) { reactions { id emoji user { id } } }
+      }`,
+      { id: commentId },
+    )
+
+    const own = (data.comment?.reactions || []).filter(
+      reaction => reaction.emoji === emoji && reaction.user?.id === viewer.id,
+    )
+
+    for (const reaction of own) {
+      await this.query(
+        `mutation RemoveReaction($id: String!) {
+          reactionDelete(id: $id) { success }
+        }`,
+        { id: reaction.id },
+      )
+    }
+  }
+
+  /**
+   * Create an issue
+   */
+  async createIssue(input: LinearIssueInput): Promise<LinearIssueRef> {
+    const data = await this.query<{ issueCreate: { success: boolean, issue: LinearIssueRef | null } }>(
+      `mutation CreateIssue($input: IssueCreateInput!) {
+        issueCreate(input: $input) { success issue { id identifier title url } }
+      }`,
+      { input },
+    )
+
+    if (!data.issueCreate.success || !data.issueCreate.issue) {
+      throw new Error('[Linear Service] Failed to create issue')
+    }
+
+    console.log('[Linear Service] Issue created:', data.issueCreate.issue.identifier)
+    return data.issueCreate.issue
+  }
+
+  /**
+   * Update fields of an issue
+   */
+  async updateIssue(issueId: string, input: Partial<Omit<LinearIssueInput, 'teamId'>>): Promise<void> {
+    const data = await this.query<{ issueUpdate: { success: boolean } }>(
+      `mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+        issueUpdate(id: $id, input: $input) { success }
+      }`,
+      { id: issueId, input },
+    )
+
+    if (!data.issueUpdate.success) {
+      throw new Error('[Linear Service] Failed to update issue')
+    }
+  }
+
+  /**
+   * Attach a link to an issue, shown in its sidebar
+   */
+  async linkUrl(issueId: string, url: string, title?: string): Promise<void> {
+    const data = await this.query<{ attachmentLinkURL: { success: boolean } }>(
+      `mutation LinkUrl($issueId: String!, $url: String!, $title: String) {
+        attachmentLinkURL(issueId: $issueId, url: $url, title: $title) { success }
+      }`,
+      { issueId, url, title },
+    )
+
+    if (!data.attachmentLinkURL.success) {
+      throw new Error('[Linear Service] Failed to link URL')
+    }
+  }
+
+  /**
+   * Find issues a URL is attached to
+   */
+  async findIssuesByUrl(url: string): Promise<LinearIssueRef[]> {
+    const data = await this.query<{ attachmentsForURL: { nodes: Array<{ issue: LinearIssueRef | null }> } }>(
+      `query IssuesForUrl($url: String!) {
+        attachmentsForURL(url: $url) { nodes { issue { id identifier title url } } }
+      }`,
+      { url },
+    )
+
+    return data.attachmentsForURL.nodes
+      .map(attachment => attachment.issue)
+      .filter((issue): issue is LinearIssueRef => !!issue)
+  }
+
+  /**
+   * Find a workspace member by email
+   */
+  async findUserByEmail(email: string): Promise<LinearUser | null> {
+    const data = await this.query<{ users: { nodes: LinearUser[] } }>(
+      `query UserByEmail($email: String!) {
+        users(filter: { email: { eqIgnoreCase: $email } }) { nodes { id name displayName email } }
+      }`,
+      { email },
+    )
+
+    return data.users.nodes[0] ?? null
+  }
+
+  /**
+   * Find labels by name that can be used in a team: its own labels and
+   * workspace labels. Team labels win over workspace labels of the same name.
+   * Takes the team's UUID, a team key like "ENG" matches no label.
+   */
+  async findLabels(teamId: string, names: string[]): Promise<LinearLabel[]> {
+    if (names.length === 0) {
+      return []
+    }
+
+    const data = await this.query<{ issueLabels: { nodes: LinearLabel[] } }>(
+      `query Labels($names: [String!]!) {
+        issueLabels(filter: { name: { in: $names } }) { nodes { id name team { id } } }
+      }`,
+      { names },
+    )
+
+    const usable = data.issueLabels.nodes
+      .filter(label => !label.team || label.team.id === teamId)
+      .sort((a, b) => Number(!!b.team) - Number(!!a.team))
+
+    const byName = new Map<string, LinearLabel>()
+    for (const label of usable) {
+      if (!byName.has(label.name)) {
+        byName.set(label.name, label)
+      }
+    }
+
+    return [...byName.values()]
+  }
+
+  /**
+   * Get a team by ID or key
+   */
+  async getTeam(teamId: string): Promise<LinearTeam | null> {
+    try {
+      const data = await this.query<{ team: LinearTeam | null }>(
+        `query Team($id: String!) {
+          team(id: $id) { id key name }
+        }`,
+        { id: teamId },
+      )
+
+      return data.team
+    }
+    catch (error) {
+      // Unknown teams are reported as a GraphQL "Entity not found" error
+      if (error instanceof Error && /not found/i.test(error.message)) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Get the user the API key belongs to (cached per service instance)
+   */
+  async getViewer(): Promise<LinearUser> {
+    if (!this.viewer) {
+      const data = await this.query<{ viewer: LinearUser }>(
+        'query Viewer { viewer { id name displayName email } }',
+      )
+      this.viewer = data.viewer
+    }
+    return this.viewer
+  }
+
+  /**
+   * Validate API key by making test request
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const viewer = await this.getViewer()
+      console.log('[Linear Service] Connection test successful:', viewer.name)
+      return true
+    }
+    catch (error) {
+      console.error('[Linear Service] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // INTERNAL HELPERS
+  // ============================================
+
+  private async getCommentWithChildren(
+    commentId: string,
+    after?: string
+  ): Promise<LinearCommentWithChildren> {
+    const data = await this.query<{ comment: LinearCommentWithChildren | null }>(THREAD_QUERY, {
+      id: commentId,
+      first: LINEAR_CONFIG.PAGE_SIZE,
+      after,
+    })
+
+    if (!data.comment) {
+      throw new Error(`[Linear Service] Comment not found: ${commentId}`)
+    }
+
+    return data.comment
+  }
+
+  private toThreadMessage(comment: LinearComment): ThreadMessage {
+    return {
+      id: comment.id,
+      authorHandle: comment.user?.displayName || comment.user?.name || comment.botActor?.name || 'unknown',
+      content: comment.body,
+      timestamp: new Date(comment.createdAt),
+      attachments: [],
+    }
+  }
+
+  /**
+   * Personal API keys are sent as-is, OAuth access tokens as Bearer tokens
+   */
+  private authorizationHeader(): string {
+    return this.apiKey.startsWith('lin_api_') ? this.apiKey : `Bearer ${this.apiKey}`
+  }
+
+  /**
+   * Run a GraphQL operation with circuit breaker and retries
+   */
+  private async query<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    return this.retryWithBackoff(() => this.circuitBreaker.execute(async () => {
+      const response = await fetch(LINEAR_CONFIG.API_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': this.authorizationHeader(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query, variables }),
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('[Linear Service] API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+        })
+
+        if (response.status === 401) {
+          throw new Error('Linear API authentication failed - check your API key')
+        }
+
+        if (response.status === 429) {
+          throw new Error('Linear API rate limit exceeded')
+        }
+
+        throw new Error(`Linear API error: ${response.status} - ${errorText}`)
+      }
+
+      const result = await response.json() as GraphQLResponse<T>
+
+      // Linear reports most failures (auth, rate limits, not found) as GraphQL errors
+      if (result.errors?.length) {
+        const message = result.errors.map(e => e.message).join('; ')
+        console.error('[Linear Service] GraphQL Error:', result.errors)
+        throw new Error(`Linear API error: ${message}`)
+      }
+
+      if (!result.data) {
+        throw new Error('Linear API returned no data')
+      }
+
+      return result.data
+    }))
+  }
+
+  /**
+   * Retry with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxAttempts = LINEAR_CONFIG.RETRY_MAX_ATTEMPTS
+  ): Promise<T> {
+    let lastError: Error | undefined
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await fn()
+      }
+      catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+
+        if (attempt === maxAttempts) {
+          break
+        }
+
+        const delay = LINEAR_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)
+        console.warn(
+          `[Linear Service] Attempt ${attempt}/${maxAttempts} failed, retrying in ${delay}ms`,
+          lastError.message
+        )
+
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+
+    throw lastError
+  }
+}
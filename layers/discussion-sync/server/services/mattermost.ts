@@ -0,0 +1,351 @@
+/**
+ * Mattermost Service - Interact with Mattermost REST API (v4)
+ *
+ * Provides methods to fetch post threads, post replies and manage
+ * reactions as the bot account. Mattermost is self-hosted, so every
+ * instance is created for a specific server URL.
+ */
+
+import { CircuitBreaker } from '../utils/circuitBreaker'
+import type { DiscussionThread, ThreadMessage } from '../adapters/base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MATTERMOST_CONFIG = {
+  API_PATH: '/api/v4',
+  CIRCUIT_BREAKER_THRESHOLD: 3,
+  CIRCUIT_BREAKER_TIMEOUT_MS: 30000,
+  RETRY_MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  MAX_MESSAGE_LENGTH: 16383,
+} as const
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MattermostServiceOptions {
+  serverUrl: string
+  token: string
+}
+
+export interface MattermostUser {
+  id: string
+  username: string
+  first_name?: string
+  last_name?: string
+  nickname?: string
+  is_bot?: boolean
+}
+
+export interface MattermostFileInfo {
+  id: string
+  name: string
+  mime_type?: string
+  size?: number
+}
+
+export interface MattermostPost {
+  id: string
+  create_at: number
+  user_id: string
+  channel_id: string
+  root_id: string
+  message: string
+  type: string
+  file_ids?: string[]
+  metadata?: {
+    files?: MattermostFileInfo[]
+  }
+}
+
+export interface MattermostPostList {
+  order: string[]
+  posts: Record<string, MattermostPost>
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Strip trailing slashes (and an accidental /api/v4 suffix) from a server URL
+ */
+export function normalizeServerUrl(serverUrl: string): string {
+  return serverUrl.trim().replace(/\/+$/, '').replace(/\/api\/v4$/, '')
+}
+
+/**
+ * Permalink to a post; `_redirect` lets Mattermost pick the team
+ */
+export function buildMattermostPermalink(serverUrl: string, postId: string, teamName?: string): string {
+  return `${normalizeServerUrl(serverUrl)}/${teamName || '_redirect'}/pl/${postId}`
+}
+
+// ============================================
+// MATTERMOST SERVICE
+// ============================================
+
+export class MattermostService {
+  private readonly serverUrl: string
+  private readonly token: string
+  private readonly circuitBreaker: CircuitBreaker
+  private me: MattermostUser | null = null
+
+  constructor(options: MattermostServiceOptions) {
+    if (!options.serverUrl || options.serverUrl.trim() === '') {
+      throw new Error('[Mattermost Service] Server URL is required')
+    }
+
+    if (!options.token || options.token.trim() === '') {
+      throw new Error('[Mattermost Service] Bot access token is required')
+    }
+
+    this.serverUrl = normalizeServerUrl(options.serverUrl)
+    this.token = options.token
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: MATTERMOST_CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+      resetTimeout: MATTERMOST_CONFIG.CIRCUIT_BREAKER_TIMEOUT_MS,
+      onOpen: () => console.error('[Mattermost Service] Circuit breaker opened'),
+      onClose: () => console.log('[Mattermost Service] Circuit breaker closed'),
+    })
+  }
+
+  /**
+   * Get the bot user (cached per service instance)
+   */
+  async getMe(): Promise<MattermostUser> {
+    if (!this.me) {
+      this.me = await this.request<MattermostUser>('/users/me')
+    }
+    return this.me
+  }
+
+  /**
+   * Get a single post
+   */
+  async getPost(postId: string): Promise<MattermostPost> {
+    return this.request<MattermostPost>(`/posts/${postId}`)
+  }
+
+  /**
+   * Get all posts of the thread a post belongs to
+   */
+  async getPostThread(postId: string): Promise<MattermostPostList> {
+    return this.request<MattermostPostList>(`/posts/${postId}/thread`)
+  }
+
+  /**
+   * Get users by IDs
+   */
+  async getUsersByIds(userIds: string[]): Promise<MattermostUser[]> {
+    if (userIds.length === 0) {
+      return []
+    }
+
+    return this.request<MattermostUser[]>('/users/ids', {
+      method: 'POST',
+      body: JSON.stringify(userIds),
+    })
+  }
+
+  /**
+   * Build a discussion thread from any post in it
+   */
+  async buildThread(postId: string): Promise<DiscussionThread> {
+    const list = await this.getPostThread(postId)
+
+    // System messages (joins, header changes, ...) are not part of the conversation
+    const posts = Object.values(list.posts)
+      .filter(post => !post.type?.startsWith('system_'))
+      .sort((a, b) => a.create_at - b.create_at)
+
+    const root = posts.find(post => !post.root_id)
+
+    if (!root) {
+      throw new Error(`[Mattermost Service] Root post not found for thread ${postId}`)
+    }
+
+    const userIds = Array.from(new Set(posts.map(post => post.user_id)))
+    const users = await this.getUsersByIds(userIds)
+    const usernames = new Map(users.map(user => [user.id, user.username]))
+
+    // The root post always comes first, replies in chronological order
+    const [rootMessage, ...replies] = [root, ...posts.filter(post => post.id !== root.id)]
+      .map(post => this.toThreadMessage(post, usernames.get(post.user_id) || post.user_id))
+    const messages = [rootMessage!, ...replies]
+
+    return {
+      id: root.id,
+      rootMessage: rootMessage!,
+      replies,
+      participants: Array.from(new Set(messages.map(m => m.authorHandle))),
+      metadata: {
+        channelId: root.channel_id,
+        serverUrl: this.serverUrl,
+      },
+    }
+  }
+
+  /**
+   * Create a post, optionally as a reply in a thread
+   */
+  async createPost(channelId: string, message: string, rootId?: string): Promise<string> {
+    const post = await this.request<MattermostPost>('/posts', {
+      method: 'POST',
+      body: JSON.stringify({
+        channel_id: channelId,
+        message: message.substring(0, MATTERMOST_CONFIG.MAX_MESSAGE_LENGTH),
+        root_id: rootId,
+      }),
+    })
+
+    console.log('[Mattermost Service] Post created:', post.id)
+    return post.id
+  }
+
+  /**
+   * Add a reaction as the bot user
+   */
+  async addReaction(postId: string, emojiName: string): Promise<void> {
+    const me = await this.getMe()
+
+    await this.request('/reactions', {
+      method: 'POST',
+      body: JSON.stringify({
+        user_id: me.id,
+        post_id: postId,
+        emoji_name: emojiName,
+      }),
+    })
+  }
+
+  /**
+   * Remove the bot user's reaction
+   */
+  async removeReaction(postId: string, emojiName: string): Promise<void> {
+    const me = await this.getMe()
+
+    await this.request(`/users/${me.id}/posts/${postId}/reactions/${encodeURIComponent(emojiName)}`, {
+      method: 'DELETE',
+    })
+  }
+
+  /**
+   * Validate server URL and token by making test request
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const me = await this.getMe()
+      console.log('[Mattermost Service] Connection test successful:', me.username)
+      return true
+    }
+    catch (error) {
+      console.error('[Mattermost Service] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // INTERNAL HELPERS
+  // ============================================
+
+  private toThreadMessage(post: MattermostPost, authorHandle: string): ThreadMessage {
+    return {
+      id: post.id,
+      authorHandle,
+      content: post.message,
+      timestamp: new Date(post.create_at),
+      attachments: (post.metadata?.files || []).map(file => ({
+        id: file.id,
+        type: file.mime_type?.startsWith('image/') ? 'image' as const : 'file' as const,
+        url: `${this.serverUrl}${MATTERMOST_CONFIG.API_PATH}/files/${file.id}`,
+        name: file.name,
+        mimeType: file.mime_type,
+      })),
+    }
+  }
+
+  /**
+   * Make an authenticated API request with circuit breaker and retries
+   */
+  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    return this.retryWithBackoff(() => this.circuitBreaker.execute(async () => {
+      const response = await fetch(`${this.serverUrl}${MATTERMOST_CONFIG.API_PATH}${path}`, {
+        ...options,
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('[Mattermost Service] API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+          path,
+        })
+
+        if (response.status === 401) {
+          throw new Error('Mattermost API authentication failed - check your bot access token')
+        }
+
+        if (response.status === 403) {
+          throw new Error(`Mattermost API access denied - check bot permissions: ${path}`)
+        }
+
+        if (response.status === 404) {
+          throw new Error(`Mattermost resource not found: ${path}`)
+        }
+
+        if (response.status === 429) {
+          throw new Error(`Mattermost API rate limit exceeded: ${errorText}`)
+        }
+
+        throw new Error(`Mattermost API error: ${response.status} - ${errorText}`)
+      }
+
+      const text = await response.text()
+      return (text ? JSON.parse(text) : undefined) as T
+    }))
+  }
+
+  /**
+   * Retry with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxAttempts = MATTERMOST_CONFIG.RETRY_MAX_ATTEMPTS
+  ): Promise<T> {
+    let lastError: Error | undefined
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await fn()
+      }
+      catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+
+        if (attempt === maxAttempts) {
+          break
+        }
+
+        const delay = MATTERMOST_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)
+        console.warn(
+          `[Mattermost Service] Attempt ${attempt}/${maxAttempts} failed, retrying in ${delay}ms`,
+          lastError.message
+        )
+
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+
+    throw lastError
+  }
+}
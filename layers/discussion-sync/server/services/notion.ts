@@ -25,7 +25,8 @@ import type {
 import { CircuitBreaker } from '../utils/circuitBreaker'
 import { LRUCache } from '../utils/lru-cache'
 import type { AISummaryResponse } from './ai'
-import type { SourceConfig } from '../adapters/base'
+import type { Attachment, SourceConfig } from '../adapters/base'
+import type { TaskData } from '../destinations/base'
 
 // ============================================
 // CONSTANTS
@@ -51,6 +52,9 @@ const NOTION_CONFIG = {
 // TYPES
 // ============================================
 
+// Not exported by @notionhq/client
+type RichTextItemRequest = Extract<BlockObjectRequest, { paragraph: unknown }>['paragraph']['rich_text'][number]
+
 export interface NotionFieldMapping {
   title?: string      // Default: "Name"
   status?: string     // Optional status field
@@ -61,17 +65,7 @@ export interface NotionFieldMapping {
   sourceUrl?: string  // Optional source URL field
 }
 
-export interface NotionTaskData {
-  title: string
-  description?: string
-  sourceUrl: string
-  sourceThreadId: string
-  priority?: 'low' | 'medium' | 'high'
-  assignee?: string
-  tags?: string[]
-  aiSummary?: AISummaryResponse
-  metadata?: Record<string, unknown>
-}
+export type NotionTaskData = TaskData
 
 export interface NotionPage {
   id: string
@@ -130,6 +124,20 @@ class RateLimiter {
   }
 }
 
+// ============================================
+// HELPERS
+// ============================================
+
+function isHttpUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'https:' || protocol === 'http:'
+  }
+  catch {
+    return false
+  }
+}
+
 // ============================================
 // NOTION SERVICE CLASS
 // ============================================
@@ -199,7 +207,7 @@ export class NotionService {
           const children = this.buildPageContent(task)
 
           const response = await this.client.pages.create({
-            parent: { database_id: config.notionDatabaseId },
+            parent: { database_id: this.getDatabaseId(config) },
             properties,
             children,
           } as CreatePageParameters)
@@ -289,11 +297,10 @@ export class NotionService {
   ): Promise<NotionPage | null> {
     const cacheKey = `duplicate:${config.notionDatabaseId}:${sourceUrl}`
 
-    // Check cache first
-    const cached = this.searchCache.get(cacheKey)
-    if (cached !== undefined) {
+    // Check cache first, misses are cached as null
+    if (this.searchCache.has(cacheKey)) {
       console.log('[Notion Service] Cache hit for duplicate check')
-      return cached
+      return this.searchCache.get(cacheKey)
     }
 
     console.log('[Notion Service] Searching for duplicate:', sourceUrl)
@@ -307,7 +314,7 @@ export class NotionService {
     while (hasMore) {
       const result = await this.queryDatabase(
         {
-          database_id: config.notionDatabaseId,
+          database_id: this.getDatabaseId(config),
           filter: {
             property: sourceUrlField,
             url: { equals: sourceUrl },
@@ -399,7 +406,7 @@ export class NotionService {
       await this.circuitBreaker.execute(async () => {
         return this.rateLimiter.execute(async () => {
           await this.client.databases.retrieve({
-            database_id: config.notionDatabaseId,
+            database_id: this.getDatabaseId(config),
           })
         })
       })
@@ -487,6 +494,13 @@ export class NotionService {
       blocks.push(this.buildDivider())
     }
 
+    // Attachments section
+    const attachmentBlocks = this.buildAttachmentBlocks(task.attachments || [])
+    if (attachmentBlocks.length > 0) {
+      blocks.push(...attachmentBlocks)
+      blocks.push(this.buildDivider())
+    }
+
     // Metadata section
     blocks.push(...this.buildMetadataBlocks(task))
 
@@ -582,10 +596,89 @@ export class NotionService {
         object: 'block',
         type: 'paragraph',
         paragraph: {
-          rich_text: [{ type: 'text', text: { content: description } }],
+          rich_text: this.buildLinkedRichText(description),
+        },
+      },
+    ]
+  }
+
+  /**
+   * Build rich text, turning Markdown links into Notion links
+   *
+   * Source adapters format links as [label](url), e.g. Slack's <url|label>.
+   */
+  private buildLinkedRichText(text: string): RichTextItemRequest[] {
+    const richText: RichTextItemRequest[] = []
+    const linkPattern = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g
+    let lastIndex = 0
+
+    for (const match of text.matchAll(linkPattern)) {
+      if (match.index! > lastIndex) {
+        richText.push({ type: 'text', text: { content: text.slice(lastIndex, match.index) } })
+      }
+
+      richText.push({ type: 'text', text: { content: match[1]!, link: { url: match[2]! } } })
+      lastIndex = match.index! + match[0].length
+    }
+
+    if (lastIndex < text.length || richText.length === 0) {
+      richText.push({ type: 'text', text: { content: text.slice(lastIndex) } })
+    }
+
+    return richText
+  }
+
+  /**
+   * Build attachment blocks: images are embedded, files and links listed
+   *
+   * Notion rejects the whole page for a URL that isn't absolute http(s),
+   * such attachments are left out. No blocks when none is left.
+   */
+  private buildAttachmentBlocks(attachments: Attachment[]): BlockObjectRequest[] {
+    const linkable = attachments.filter(attachment => isHttpUrl(attachment.url))
+    if (linkable.length === 0) {
+      return []
+    }
+
+    const blocks: BlockObjectRequest[] = [
+      {
+        object: 'block',
+        type: 'heading_3',
+        heading_3: {
+          rich_text: [{ type: 'text', text: { content: '📎 Attachments' } }],
         },
       },
     ]
+
+    for (const attachment of linkable) {
+      const caption = attachment.name
+        ? [{ type: 'text' as const, text: { content: attachment.name } }]
+        : []
+
+      if (attachment.type === 'image') {
+        blocks.push({
+          object: 'block',
+          type: 'image',
+          image: { type: 'external', external: { url: attachment.url }, caption },
+        })
+      }
+      else if (attachment.type === 'file') {
+        blocks.push({
+          object: 'block',
+          type: 'file',
+          file: { type: 'external', external: { url: attachment.url }, caption },
+        })
+      }
+      else {
+        blocks.push({
+          object: 'block',
+          type: 'bookmark',
+          bookmark: { url: attachment.url, caption },
+        })
+      }
+    }
+
+    return blocks
   }
 
   /**
@@ -719,6 +812,17 @@ export class NotionService {
       .join('')
   }
 
+  /**
+   * Database tasks are created in
+   */
+  private getDatabaseId(config: SourceConfig): string {
+    if (!config.notionDatabaseId) {
+      throw new Error('[Notion Service] Notion database ID is required in config')
+    }
+
+    return config.notionDatabaseId
+  }
+
   /**
    * Capitalize priority for Notion select
    */
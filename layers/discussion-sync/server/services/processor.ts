@@ -5,38 +5,53 @@
  * STAGES:
  * 1. Ingestion - Create discussion record (done by webhook)
  * 2. Team Resolution - Validate team access and load config
- * 3. Config Loading - Load sourceConfig from database
+ * 3. Config Loading - Load sourceConfig from database and validate its destinations
  * 4. Thread Building - Fetch full conversation via adapter
- * 5. AI Analysis - Generate summary + detect tasks (if enabled)
- * 6. Task Creation - Create tasks in Notion
+ * 5. AI Analysis - Generate summary + detect tasks (if enabled), then
+ *    store the thread in discussionSyncThreads
+ *    (Approval - optionally pause until the tasks are approved in the source,
+ *    see resumeAfterApproval)
+ * 6. Task Creation - Create tasks in the config's destinations (Notion by default)
+ *    and record them in discussionSyncTasks. Each destination is a separate
+ *    delivery, the job is 'partial' when only some of them succeed.
  * 7. Notification - Post confirmation message + update status
  *
  * FEATURES:
  * - Job tracking via syncJobs collection
  * - Update job status at each stage
- * - Retry logic with exponential backoff (max 3 attempts)
+ * - Discussion status: pending -> processing -> completed/failed
+ * - Retries with exponential backoff (max 3 attempts), scheduled on the job
+ *   and run by the queue worker (see utils/jobQueue)
+ * - Job lease, renewed at each stage, so crashed jobs can be recovered
  * - Error capture (error message + stack trace)
  * - Stage timing metrics
  * - Graceful degradation (if AI fails, still create task)
  */
 
-import { eq } from 'drizzle-orm'
+import { db } from '~~/server/database'
+import { and, eq, inArray } from 'drizzle-orm'
 import { AIService } from './ai'
-import { NotionService } from './notion'
-import type { NotionTaskData } from './notion'
 import { getAdapter } from '../adapters/base'
 import type { DiscussionThread, DiscussionStatus, SourceConfig } from '../adapters/base'
+import type { AISummaryResponse, TaskDetectionResponse } from './ai'
+import { getDestination, getDestinationConfigs, getDestinationType, hasDestination, validateDestinations } from '../destinations/base'
+import type { CreatedTask, DeliveryResult, TaskData, TaskDestinationAdapter } from '../destinations/base'
 
 // ============================================
 // CONSTANTS
 // ============================================
 
-const PROCESSOR_CONFIG = {
+export const PROCESSOR_CONFIG = {
   MAX_RETRY_ATTEMPTS: 3,
-  RETRY_BASE_DELAY_MS: 2000,
-  RETRY_MAX_DELAY_MS: 30000,
+  RETRY_BASE_DELAY_MS: 60 * 1000,
+  RETRY_MAX_DELAY_MS: 30 * 60 * 1000,
+  // A job still processing after its lease expires is considered crashed
+  LEASE_DURATION_MS: 10 * 60 * 1000,
 } as const
 
+// Statuses of jobs waiting in the queue, see utils/jobQueue
+export const QUEUED_STATUSES: ProcessorStatus[] = ['pending', 'retrying']
+
 // ============================================
 // TYPES
 // ============================================
@@ -47,19 +62,46 @@ export type ProcessorStage =
   | 'config_loading'
   | 'thread_building'
   | 'ai_analysis'
+  | 'awaiting_approval'
   | 'task_creation'
   | 'notification'
   | 'completed'
 
-export type ProcessorStatus = 'pending' | 'processing' | 'completed' | 'failed'
+export type ProcessorStatus = 'pending' | 'processing' | 'completed' | 'partial' | 'failed' | 'retrying'
+
+export type ThreadStatus = 'pending' | 'analyzed' | 'tasks_created' | 'notified'
 
 export interface ProcessResult {
   success: boolean
   jobId: string
   discussionId: string
-  pageIds?: string[]
+  pageIds?: string[] // IDs of the created tasks, in all destinations
+  deliveries?: DeliveryResult[] // Outcome per destination
   error?: string
   processingTime?: number
+  awaitingApproval?: boolean
+  inProgress?: boolean // Another attempt is running, nothing was done
+  nextAttemptAt?: Date // Set when the queue will retry a failed attempt
+}
+
+/**
+ * Detected tasks stored on a paused job (metadata.approval)
+ */
+export interface PendingApproval {
+  tasks: TaskData[]
+  requestedAt: string
+  decision?: ApprovalDecision & { decidedAt: string }
+}
+
+export interface ApprovalDecision {
+  action: 'approve' | 'discard'
+  decidedBy: string
+  // Edited tasks by position in the approval request, omit to approve as detected
+  tasks?: Array<{
+    index: number
+    title: string
+    description?: string
+  }>
 }
 
 export interface Discussion {
@@ -100,8 +142,11 @@ export interface SyncJob {
   errorStack?: string
   startedAt?: Date
   completedAt?: Date
+  nextAttemptAt?: Date
+  leaseExpiresAt?: Date
   processingTime?: number
   taskIds?: string[]
+  deliveries?: DeliveryResult[]
   metadata?: Record<string, unknown>
   createdAt: Date
   updatedAt: Date
@@ -109,26 +154,47 @@ export interface SyncJob {
   updatedBy: string
 }
 
+/**
+ * Tasks created in one destination, while the pipeline runs
+ */
+interface Delivery {
+  destinationType: string
+  displayName: string
+  createdTasks: CreatedTask[]
+  error?: string
+}
+
+// A task created by this attempt, with its position in the discussion
+interface NewTask {
+  index: number
+  task: TaskData
+  created: CreatedTask
+}
+
 // ============================================
 // PROCESSOR SERVICE CLASS
 // ============================================
 
 export class ProcessorService {
   private readonly aiService: AIService
-  private readonly notionService: NotionService
 
-  constructor(aiService?: AIService, notionService?: NotionService) {
+  constructor(aiService?: AIService) {
     // Allow dependency injection for testing
     this.aiService = aiService || new AIService()
-    this.notionService = notionService || new NotionService()
   }
 
   /**
-   * Main processing method - orchestrates the 7-stage pipeline
+   * Process a discussion right away
+   *
+   * A job the discussion has in the queue is claimed and run now, a new
+   * job is created only when it has none. Refused (inProgress) while a
+   * job is processing or awaiting approval: a second job would create the
+   * tasks twice.
+   *
+   * A failed attempt isn't retried here: the job goes back to the queue
+   * and the worker picks it up again at nextAttemptAt.
    */
   async processDiscussion(discussionId: string): Promise<ProcessResult> {
-    const startTime = Date.now()
-
     console.log('[Processor] Starting processing:', discussionId)
 
     // Load discussion
@@ -137,8 +203,69 @@ export class ProcessorService {
       throw new Error(`Discussion not found: ${discussionId}`)
     }
 
-    // Create job
-    const job = await this.createJob(discussion)
+    const activeJob = await this.findActiveJob(discussion.id)
+
+    const job = activeJob
+      ? await this.claimQueuedJob(activeJob)
+      : await this.createJob(discussion)
+
+    if (!job) {
+      console.warn('[Processor] Discussion is already processing:', {
+        discussionId,
+        jobId: activeJob!.id,
+      })
+
+      return {
+        success: false,
+        jobId: activeJob!.id,
+        discussionId,
+        error: 'Discussion is already being processed',
+        inProgress: true,
+      }
+    }
+
+    return this.runPipeline(job, discussion)
+  }
+
+  /**
+   * Process a job the queue worker claimed, see utils/jobQueue
+   */
+  async processJob(jobId: string): Promise<ProcessResult> {
+    const job = await this.loadJob(jobId)
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`)
+    }
+
+    console.log('[Processor] Processing queued job:', {
+      jobId,
+      discussionId: job.discussionId,
+      attempt: `${job.attempts}/${job.maxAttempts}`,
+    })
+
+    const discussion = await this.loadDiscussion(job.discussionId)
+    if (!discussion) {
+      // Deleted while queued, retrying won't bring it back
+      const error = new Error(`Discussion not found: ${job.discussionId}`)
+      await this.failJob(job, error, 0, false)
+
+      return {
+        success: false,
+        jobId: job.id,
+        discussionId: job.discussionId,
+        error: error.message,
+      }
+    }
+
+    return this.runPipeline(job, discussion)
+  }
+
+  /**
+   * Orchestrates the 7-stage pipeline for a job in processing
+   */
+  private async runPipeline(job: SyncJob, discussion: Discussion): Promise<ProcessResult> {
+    const startTime = Date.now()
+
+    await this.updateDiscussion(discussion, { status: 'processing', syncJobId: job.id })
 
     try {
       // STAGE 1: Team Resolution (validate team access)
@@ -147,7 +274,13 @@ export class ProcessorService {
 
       // STAGE 2: Config Loading
       await this.updateJobStage(job.id, 'config_loading')
-      const config = await this.loadSourceConfig(discussion.sourceConfigId, discussion.teamId)
+      const config = await this.loadSourceConfig(discussion)
+
+      // Before the AI analysis, a config that can't deliver fails the attempt
+      const validation = await validateDestinations(config)
+      if (!validation.valid) {
+        throw new Error(`Invalid destination config: ${validation.errors.join('; ')}`)
+      }
 
       // STAGE 3: Thread Building
       await this.updateJobStage(job.id, 'thread_building')
@@ -169,23 +302,41 @@ export class ProcessorService {
         }
       }
 
-      // STAGE 5: Task Creation
-      await this.updateJobStage(job.id, 'task_creation')
-      const notionTasks = this.buildNotionTasks(discussion, thread, aiSummary, detectedTasks)
-      const pageIds = await this.createNotionTasks(notionTasks, config)
+      // Before task creation, so task records can link to the thread
+      await this.storeThread(discussion, thread, aiSummary, detectedTasks)
+
+      const tasks = this.buildTasks(discussion, thread, aiSummary, detectedTasks)
 
-      // STAGE 6: Notification
-      if (config.postConfirmation) {
-        await this.updateJobStage(job.id, 'notification')
-        await this.sendNotification(discussion, thread, pageIds, config)
+      // Optional approval step - the job pauses until resumeAfterApproval
+      if (config.approvalRequired && await this.requestApproval(job, discussion, tasks, config, aiSummary)) {
+        const processingTime = Date.now() - startTime
+
+        console.log('[Processor] Processing paused for approval:', {
+          discussionId: discussion.id,
+          jobId: job.id,
+          taskCount: tasks.length,
+        })
+
+        return {
+          success: true,
+          jobId: job.id,
+          discussionId: discussion.id,
+          awaitingApproval: true,
+          processingTime,
+        }
       }
 
+      // STAGES 5-6: Task Creation + Notification
+      const deliveries = await this.createTasksAndNotify(job.id, discussion, tasks, config)
+      const pageIds = deliveries.flatMap(delivery => delivery.taskIds)
+
       // STAGE 7: Complete
       const processingTime = Date.now() - startTime
-      await this.completeJob(job.id, pageIds, processingTime)
+      await this.completeJob(job.id, deliveries, processingTime)
+      await this.updateDiscussion(discussion, { status: 'completed', processedAt: new Date() })
 
       console.log('[Processor] Processing completed:', {
-        discussionId,
+        discussionId: discussion.id,
         jobId: job.id,
         pageIds,
         processingTime: `${processingTime}ms`,
@@ -196,18 +347,25 @@ export class ProcessorService {
         jobId: job.id,
         discussionId: discussion.id,
         pageIds,
+        deliveries,
         processingTime,
       }
     }
     catch (error) {
       const processingTime = Date.now() - startTime
-      await this.failJob(job.id, error, processingTime)
+      const nextAttemptAt = await this.failJob(job, error, processingTime)
+
+      await this.updateDiscussion(
+        discussion,
+        nextAttemptAt ? { status: 'pending' } : { status: 'failed', processedAt: new Date() },
+      )
 
       console.error('[Processor] Processing failed:', {
-        discussionId,
+        discussionId: discussion.id,
         jobId: job.id,
         error: error instanceof Error ? error.message : String(error),
         processingTime: `${processingTime}ms`,
+        nextAttemptAt,
       })
 
       return {
@@ -216,68 +374,104 @@ export class ProcessorService {
         discussionId: discussion.id,
         error: error instanceof Error ? error.message : String(error),
         processingTime,
+        nextAttemptAt,
       }
     }
   }
 
   /**
-   * Process discussion with retry logic
+   * Resume a job paused in the awaiting_approval stage
+   *
+   * Approving creates the stored tasks (with edits, if any) and finishes
+   * the pipeline; discarding completes the job without creating tasks.
+   * Only the first decision for a job is applied.
+   *
+   * @returns null if the job isn't awaiting approval (anymore)
    */
-  async processWithRetry(discussionId: string): Promise<ProcessResult> {
-    let lastError: Error | unknown
-    let lastResult: ProcessResult | undefined
+  async resumeAfterApproval(jobId: string, decision: ApprovalDecision): Promise<ProcessResult | null> {
+    const startTime = Date.now()
 
-    for (let attempt = 1; attempt <= PROCESSOR_CONFIG.MAX_RETRY_ATTEMPTS; attempt++) {
-      try {
-        const result = await this.processDiscussion(discussionId)
+    console.log('[Processor] Resuming after approval:', { jobId, action: decision.action })
 
-        if (result.success) {
-          return result
-        }
+    // Before the claim, so the job stays awaiting approval
+    if (decision.action === 'approve' && decision.tasks?.length === 0) {
+      throw new Error('Approval needs at least one task, discard the tasks instead')
+    }
 
-        lastResult = result
-        lastError = new Error(result.error)
+    const job = await this.claimPendingApproval(jobId, decision)
+    if (!job) {
+      console.log('[Processor] Job is not awaiting approval:', jobId)
+      return null
+    }
 
-        if (attempt === PROCESSOR_CONFIG.MAX_RETRY_ATTEMPTS) {
-          break
-        }
+    const discussion = await this.loadDiscussion(job.discussionId)
+    if (!discussion) {
+      throw new Error(`Discussion not found: ${job.discussionId}`)
+    }
 
-        // Calculate exponential backoff delay
-        const delay = Math.min(
-          PROCESSOR_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1),
-          PROCESSOR_CONFIG.RETRY_MAX_DELAY_MS,
-        )
+    try {
+      const approval = job.metadata!.approval as PendingApproval
+      let deliveries: DeliveryResult[] = []
 
-        console.warn(
-          `[Processor] Attempt ${attempt}/${PROCESSOR_CONFIG.MAX_RETRY_ATTEMPTS} failed, ` +
-          `retrying in ${delay}ms`,
-        )
+      if (decision.action === 'approve') {
+        const config = await this.loadSourceConfig(discussion)
+        const tasks = this.applyApprovalEdits(approval.tasks, decision.tasks)
 
-        await new Promise(resolve => setTimeout(resolve, delay))
+        deliveries = await this.createTasksAndNotify(job.id, discussion, tasks, config)
       }
-      catch (error) {
-        lastError = error
 
-        if (attempt === PROCESSOR_CONFIG.MAX_RETRY_ATTEMPTS) {
-          break
-        }
+      const pageIds = deliveries.flatMap(delivery => delivery.taskIds)
+      const processingTime = Date.now() - startTime
+      await this.completeJob(job.id, deliveries, processingTime)
+      await this.updateDiscussion(discussion, { status: 'completed', processedAt: new Date() })
 
-        const delay = Math.min(
-          PROCESSOR_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1),
-          PROCESSOR_CONFIG.RETRY_MAX_DELAY_MS,
-        )
+      console.log('[Processor] Approval processed:', {
+        jobId,
+        action: decision.action,
+        pageIds,
+      })
 
-        console.warn(`[Processor] Retry ${attempt}/${PROCESSOR_CONFIG.MAX_RETRY_ATTEMPTS}`)
-        await new Promise(resolve => setTimeout(resolve, delay))
+      return {
+        success: true,
+        jobId: job.id,
+        discussionId: discussion.id,
+        pageIds,
+        deliveries,
+        processingTime,
       }
     }
+    catch (error) {
+      const processingTime = Date.now() - startTime
+      // Not retried, that would request approval again
+      await this.failJob(job, error, processingTime, false)
+      await this.updateDiscussion(discussion, { status: 'failed', processedAt: new Date() })
+
+      console.error('[Processor] Resuming after approval failed:', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      })
 
-    // All attempts failed
-    if (lastResult) {
-      return lastResult
+      return {
+        success: false,
+        jobId: job.id,
+        discussionId: discussion.id,
+        error: error instanceof Error ? error.message : String(error),
+        processingTime,
+      }
+    }
+  }
+
+  /**
+   * Load the tasks of a job awaiting approval, or null if it isn't paused
+   */
+  async getPendingApproval(jobId: string): Promise<{ job: SyncJob, approval: PendingApproval } | null> {
+    const job = await this.loadJob(jobId)
+
+    if (!job || job.stage !== 'awaiting_approval' || !job.metadata?.approval) {
+      return null
     }
 
-    throw lastError
+    return { job, approval: job.metadata.approval as PendingApproval }
   }
 
   // ============================================
@@ -285,8 +479,6 @@ export class ProcessorService {
   // ============================================
 
   private async loadDiscussion(discussionId: string): Promise<Discussion | null> {
-    const db = useDb()
-
     const { discussionSyncDiscussions } = await import(
       '../../collections/discussions/server/database/schema'
     )
@@ -300,12 +492,28 @@ export class ProcessorService {
     return results.length > 0 ? (results[0] as Discussion) : null
   }
 
-  private async loadSourceConfig(
-    sourceConfigId: string,
-    teamId: string,
-  ): Promise<SourceConfig> {
-    const db = useDb()
+  private async loadJob(jobId: string): Promise<SyncJob | null> {
+    const { discussionSyncSyncjobs } = await import(
+      '../../collections/syncjobs/server/database/schema'
+    )
+
+    const results = await db
+      .select()
+      .from(discussionSyncSyncjobs)
+      .where(eq(discussionSyncSyncjobs.id, jobId))
+      .limit(1)
+
+    return results.length > 0 ? (results[0] as SyncJob) : null
+  }
 
+  /**
+   * Load the discussion's source config, ready for adapter calls
+   *
+   * Adapters read config.metadata: the config's sourceMetadata (workspace,
+   * server URL) plus the discussion's metadata (channel, message, file).
+   */
+  private async loadSourceConfig(discussion: Discussion): Promise<SourceConfig> {
+    const { sourceConfigId, teamId } = discussion
     const { discussionSyncSourceconfigs } = await import(
       '../../collections/sourceconfigs/server/database/schema'
     )
@@ -332,7 +540,121 @@ export class ProcessorService {
       throw new Error(`Source config is not active`)
     }
 
-    return config as SourceConfig
+    return {
+      ...config,
+      metadata: {
+        ...config.sourceMetadata,
+        ...discussion.metadata,
+      },
+    } as SourceConfig
+  }
+
+  // ============================================
+  // PRIVATE METHODS - Discussion + Thread Records
+  // ============================================
+
+  private async updateDiscussion(
+    discussion: Discussion,
+    updates: Partial<Pick<Discussion, 'status' | 'threadId' | 'syncJobId' | 'processedAt'>>,
+  ): Promise<void> {
+    const { discussionSyncDiscussions } = await import(
+      '../../collections/discussions/server/database/schema'
+    )
+
+    await db
+      .update(discussionSyncDiscussions)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(eq(discussionSyncDiscussions.id, discussion.id))
+
+    Object.assign(discussion, updates)
+
+    if (updates.status) {
+      console.log(`[Processor] Discussion status updated: ${updates.status}`)
+    }
+  }
+
+  /**
+   * Store the fetched thread with the AI analysis and link the discussion to it
+   *
+   * A retry of the same discussion updates the thread stored by the first attempt.
+   */
+  private async storeThread(
+    discussion: Discussion,
+    thread: DiscussionThread,
+    aiSummary?: AISummaryResponse,
+    detectedTasks?: TaskDetectionResponse,
+  ): Promise<void> {
+    const { discussionSyncThreads } = await import(
+      '../../collections/threads/server/database/schema'
+    )
+
+    const values = {
+      rootMessage: thread.rootMessage,
+      replies: thread.replies,
+      // Long Slack threads are cut short, the metadata has the full count
+      totalMessages: typeof thread.metadata?.totalMessages === 'number'
+        ? thread.metadata.totalMessages
+        : thread.replies.length + 1,
+      participants: thread.participants,
+      aiSummary: aiSummary?.summary,
+      aiKeyPoints: aiSummary?.keyPoints,
+      aiContext: detectedTasks?.overallContext,
+      isMultiTask: !!detectedTasks?.isMultiTask && detectedTasks.tasks.length > 1,
+      detectedTasks: detectedTasks?.tasks || [],
+      status: (aiSummary || detectedTasks ? 'analyzed' : 'pending') as ThreadStatus,
+      metadata: thread.metadata,
+      updatedBy: discussion.owner,
+    }
+
+    if (discussion.threadId) {
+      const updated = await db
+        .update(discussionSyncThreads)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(discussionSyncThreads.id, discussion.threadId))
+        .returning()
+
+      if (updated.length > 0) {
+        console.log('[Processor] Thread updated:', discussion.threadId)
+        return
+      }
+    }
+
+    const results = await db
+      .insert(discussionSyncThreads)
+      .values({
+        ...values,
+        teamId: discussion.teamId,
+        owner: discussion.owner,
+        discussionId: discussion.id,
+        sourceType: discussion.sourceType,
+        createdBy: discussion.owner,
+      })
+      .returning()
+
+    await this.updateDiscussion(discussion, { threadId: results[0].id })
+
+    console.log('[Processor] Thread stored:', results[0].id)
+  }
+
+  private async updateThreadStatus(threadId: string | undefined, status: ThreadStatus): Promise<void> {
+    if (!threadId) {
+      return
+    }
+
+    const { discussionSyncThreads } = await import(
+      '../../collections/threads/server/database/schema'
+    )
+
+    await db
+      .update(discussionSyncThreads)
+      .set({
+        status,
+        updatedAt: new Date(),
+      })
+      .where(eq(discussionSyncThreads.id, threadId))
   }
 
   // ============================================
@@ -340,8 +662,6 @@ export class ProcessorService {
   // ============================================
 
   private async createJob(discussion: Discussion): Promise<SyncJob> {
-    const db = useDb()
-
     const { discussionSyncSyncjobs } = await import(
       '../../collections/syncjobs/server/database/schema'
     )
@@ -353,9 +673,10 @@ export class ProcessorService {
       sourceConfigId: discussion.sourceConfigId,
       status: 'processing' as ProcessorStatus,
       stage: 'pending' as ProcessorStage,
-      attempts: 0,
+      attempts: 1,
       maxAttempts: PROCESSOR_CONFIG.MAX_RETRY_ATTEMPTS,
       startedAt: new Date(),
+      leaseExpiresAt: this.getLeaseExpiry(),
       createdBy: discussion.owner,
       updatedBy: discussion.owner,
     }
@@ -365,17 +686,84 @@ export class ProcessorService {
     return results[0] as SyncJob
   }
 
-  private async updateJobStage(jobId: string, stage: ProcessorStage): Promise<void> {
-    const db = useDb()
+  /**
+   * The discussion's job that is queued or processing, if any
+   */
+  private async findActiveJob(discussionId: string): Promise<SyncJob | null> {
+    const { discussionSyncSyncjobs } = await import(
+      '../../collections/syncjobs/server/database/schema'
+    )
+
+    const results = await db
+      .select()
+      .from(discussionSyncSyncjobs)
+      .where(
+        and(
+          eq(discussionSyncSyncjobs.discussionId, discussionId),
+          inArray(discussionSyncSyncjobs.status, [...QUEUED_STATUSES, 'processing']),
+        ),
+      )
+      .limit(1)
+
+    return results.length > 0 ? (results[0] as SyncJob) : null
+  }
+
+  /**
+   * Claim a queued job for this attempt, like the worker does
+   *
+   * The status condition makes this a compare-and-set, the worker may have
+   * claimed the job first.
+   *
+   * @returns null if the job isn't queued (anymore)
+   */
+  private async claimQueuedJob(job: SyncJob): Promise<SyncJob | null> {
+    if (!QUEUED_STATUSES.includes(job.status)) {
+      return null
+    }
 
     const { discussionSyncSyncjobs } = await import(
       '../../collections/syncjobs/server/database/schema'
     )
 
+    const claim = {
+      status: 'processing' as ProcessorStatus,
+      attempts: job.attempts + 1,
+      leaseExpiresAt: this.getLeaseExpiry(),
+      startedAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    const updated = await db
+      .update(discussionSyncSyncjobs)
+      .set(claim)
+      .where(
+        and(
+          eq(discussionSyncSyncjobs.id, job.id),
+          inArray(discussionSyncSyncjobs.status, QUEUED_STATUSES),
+        ),
+      )
+      .returning({ id: discussionSyncSyncjobs.id })
+
+    if (updated.length === 0) {
+      return null
+    }
+
+    console.log('[Processor] Claimed queued job:', job.id)
+
+    return { ...job, ...claim }
+  }
+
+  private async updateJobStage(jobId: string, stage: ProcessorStage): Promise<void> {
+    const { discussionSyncSyncjobs } = await import(
+      '../../collections/syncjobs/server/database/schema'
+    )
+
     await db
       .update(discussionSyncSyncjobs)
       .set({
         stage,
+        // Each stage renews the lease, long pipelines aren't taken for crashed
+        leaseExpiresAt: this.getLeaseExpiry(),
         updatedAt: new Date(),
       })
       .where(eq(discussionSyncSyncjobs.id, jobId))
@@ -383,39 +771,112 @@ export class ProcessorService {
     console.log(`[Processor] Stage updated: ${stage}`)
   }
 
+  private async pauseJob(job: SyncJob, approval: PendingApproval): Promise<void> {
+    const { discussionSyncSyncjobs } = await import(
+      '../../collections/syncjobs/server/database/schema'
+    )
+
+    await db
+      .update(discussionSyncSyncjobs)
+      .set({
+        stage: 'awaiting_approval',
+        metadata: { ...job.metadata, approval },
+        // Waiting for people, not a worker
+        leaseExpiresAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(discussionSyncSyncjobs.id, job.id))
+
+    console.log('[Processor] Job paused for approval:', job.id)
+  }
+
+  /**
+   * Record the decision and move the job out of awaiting_approval
+   *
+   * The stage condition makes this a compare-and-set, so a double click
+   * or a second approver can't create the tasks twice.
+   */
+  private async claimPendingApproval(jobId: string, decision: ApprovalDecision): Promise<SyncJob | null> {
+    const pending = await this.getPendingApproval(jobId)
+    if (!pending) {
+      return null
+    }
+
+    const { discussionSyncSyncjobs } = await import(
+      '../../collections/syncjobs/server/database/schema'
+    )
+
+    const results = await db
+      .update(discussionSyncSyncjobs)
+      .set({
+        stage: 'task_creation',
+        leaseExpiresAt: this.getLeaseExpiry(),
+        metadata: {
+          ...pending.job.metadata,
+          approval: {
+            ...pending.approval,
+            decision: { ...decision, decidedAt: new Date().toISOString() },
+          },
+        },
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(discussionSyncSyncjobs.id, jobId),
+          eq(discussionSyncSyncjobs.stage, 'awaiting_approval'),
+        ),
+      )
+      .returning()
+
+    return results.length > 0 ? (results[0] as SyncJob) : null
+  }
+
+  /**
+   * Finish the job, 'partial' if some destinations failed
+   */
   private async completeJob(
     jobId: string,
-    taskIds: string[],
+    deliveries: DeliveryResult[],
     processingTime: number,
   ): Promise<void> {
-    const db = useDb()
-
     const { discussionSyncSyncjobs } = await import(
       '../../collections/syncjobs/server/database/schema'
     )
 
+    const failed = deliveries.filter(delivery => delivery.error)
+    const status: ProcessorStatus = failed.length > 0 ? 'partial' : 'completed'
+
     await db
       .update(discussionSyncSyncjobs)
       .set({
-        status: 'completed',
+        status,
         stage: 'completed',
-        taskIds,
+        taskIds: deliveries.flatMap(delivery => delivery.taskIds),
+        deliveries,
+        leaseExpiresAt: null,
+        ...(failed.length > 0 && {
+          error: failed.map(delivery => `${delivery.destinationType}: ${delivery.error}`).join('; '),
+        }),
         completedAt: new Date(),
         processingTime,
         updatedAt: new Date(),
       })
       .where(eq(discussionSyncSyncjobs.id, jobId))
 
-    console.log('[Processor] Job completed:', jobId)
+    console.log('[Processor] Job completed:', jobId, status)
   }
 
+  /**
+   * Fail the attempt, and schedule the next one while attempts remain
+   *
+   * @returns when the job will be retried, undefined if it failed for good
+   */
   private async failJob(
-    jobId: string,
+    job: SyncJob,
     error: unknown,
     processingTime: number,
-  ): Promise<void> {
-    const db = useDb()
-
+    retryable = true,
+  ): Promise<Date | undefined> {
     const { discussionSyncSyncjobs } = await import(
       '../../collections/syncjobs/server/database/schema'
     )
@@ -423,19 +884,37 @@ export class ProcessorService {
     const errorMessage = error instanceof Error ? error.message : String(error)
     const errorStack = error instanceof Error ? error.stack : undefined
 
+    const nextAttemptAt = retryable && job.attempts < job.maxAttempts
+      ? new Date(Date.now() + this.getRetryDelay(job.attempts))
+      : undefined
+
     await db
       .update(discussionSyncSyncjobs)
       .set({
-        status: 'failed',
+        status: nextAttemptAt ? 'retrying' : 'failed',
         error: errorMessage,
         errorStack,
-        completedAt: new Date(),
+        nextAttemptAt: nextAttemptAt ?? null,
+        leaseExpiresAt: null,
+        ...(!nextAttemptAt && { completedAt: new Date() }),
         processingTime,
         updatedAt: new Date(),
       })
-      .where(eq(discussionSyncSyncjobs.id, jobId))
+      .where(eq(discussionSyncSyncjobs.id, job.id))
+
+    if (nextAttemptAt) {
+      console.warn(
+        `[Processor] Attempt ${job.attempts}/${job.maxAttempts} failed, ` +
+        `retrying at ${nextAttemptAt.toISOString()}:`,
+        job.id,
+        errorMessage,
+      )
+    }
+    else {
+      console.error('[Processor] Job failed:', job.id, errorMessage)
+    }
 
-    console.error('[Processor] Job failed:', jobId, errorMessage)
+    return nextAttemptAt
   }
 
   // ============================================
@@ -489,13 +968,23 @@ export class ProcessorService {
     return [summary, tasks]
   }
 
-  private buildNotionTasks(
+  private buildTasks(
     discussion: Discussion,
     thread: DiscussionThread,
     aiSummary?: any,
     detectedTasks?: any,
-  ): NotionTaskData[] {
-    const tasks: NotionTaskData[] = []
+  ): TaskData[] {
+    const tasks: TaskData[] = []
+
+    // Screenshots and files shared anywhere in the thread go on every task
+    const transcript = [thread.rootMessage, ...thread.replies]
+    const attachments = transcript.flatMap(message => message.attachments || [])
+
+    // Figma frame and page the thread is pinned to, unset values aren't shown
+    const location = {
+      frame: thread.metadata?.frameName,
+      page: thread.metadata?.pageName,
+    }
 
     // If AI detected multiple tasks, create each one
     if (detectedTasks && detectedTasks.isMultiTask && detectedTasks.tasks.length > 1) {
@@ -507,8 +996,11 @@ export class ProcessorService {
           sourceThreadId: discussion.sourceThreadId,
           priority: task.priority,
           aiSummary,
+          attachments,
+          transcript,
           metadata: {
             ...discussion.metadata,
+            ...location,
             taskId: task.id,
             threadSize: thread.replies.length + 1,
             participants: thread.participants,
@@ -524,58 +1016,371 @@ export class ProcessorService {
         sourceUrl: discussion.sourceUrl,
         sourceThreadId: discussion.sourceThreadId,
         aiSummary,
+        attachments,
+        transcript,
         metadata: {
           ...discussion.metadata,
+          ...location,
           threadSize: thread.replies.length + 1,
           participants: thread.participants,
         },
       })
     }
 
-    console.log('[Processor] Built Notion tasks:', tasks.length)
+    console.log('[Processor] Built tasks:', tasks.length)
     return tasks
   }
 
-  private async createNotionTasks(
-    tasks: NotionTaskData[],
+  /**
+   * Pause the job and ask the source for approval
+   *
+   * @returns false if the source doesn't support approval requests
+   */
+  private async requestApproval(
+    job: SyncJob,
+    discussion: Discussion,
+    tasks: TaskData[],
     config: SourceConfig,
-  ): Promise<string[]> {
-    console.log('[Processor] Creating Notion tasks:', tasks.length)
+    aiSummary?: any,
+  ): Promise<boolean> {
+    const adapter = getAdapter(discussion.sourceType)
+
+    if (!adapter.requestApproval) {
+      console.warn('[Processor] Source does not support approval, creating tasks right away:', discussion.sourceType)
+      return false
+    }
 
-    const pageIds = await this.notionService.createTasks(tasks, config)
+    // Pause first, so an immediate click finds the job waiting
+    await this.pauseJob(job, {
+      tasks,
+      requestedAt: new Date().toISOString(),
+    })
 
-    console.log('[Processor] Created Notion tasks:', pageIds)
-    return pageIds
+    try {
+      await adapter.requestApproval(discussion.sourceThreadId, {
+        jobId: job.id,
+        destination: this.getDestinationNames(config),
+        summary: aiSummary?.summary,
+        tasks: tasks.map(task => ({
+          title: task.title,
+          description: task.description,
+          priority: task.priority,
+        })),
+      }, config)
+    }
+    catch (error) {
+      // Nobody can answer a request that wasn't posted, the retry asks again
+      await this.updateJobStage(job.id, 'task_creation')
+      throw error
+    }
+
+    return true
   }
 
-  private async sendNotification(
+  private applyApprovalEdits(
+    tasks: TaskData[],
+    edits?: ApprovalDecision['tasks'],
+  ): TaskData[] {
+    if (!edits) {
+      return tasks
+    }
+
+    return edits
+      .filter(edit => tasks[edit.index])
+      .map(edit => ({
+        ...tasks[edit.index]!,
+        title: edit.title,
+        description: edit.description ?? tasks[edit.index]!.description,
+      }))
+  }
+
+  /**
+   * Deliver the tasks to every destination of the config, then notify
+   *
+   * Destinations don't depend on each other, one failing doesn't stop the
+   * rest. Throws only when no destination got any task, so the job fails
+   * and is retried; once a task exists the job ends partial instead.
+   */
+  private async createTasksAndNotify(
+    jobId: string,
     discussion: Discussion,
-    thread: DiscussionThread,
-    pageIds: string[],
+    tasks: TaskData[],
+    config: SourceConfig,
+  ): Promise<DeliveryResult[]> {
+    await this.updateJobStage(jobId, 'task_creation')
+
+    const deliveries: Delivery[] = []
+
+    for (const destinationConfig of getDestinationConfigs(config)) {
+      deliveries.push(await this.deliverTasks(jobId, discussion, tasks, destinationConfig))
+    }
+
+    if (!deliveries.some(delivery => delivery.createdTasks.length > 0)) {
+      throw new Error(
+        deliveries.map(delivery => `${delivery.displayName}: ${delivery.error}`).join('; '),
+      )
+    }
+
+    let notified = false
+
+    if (config.postConfirmation) {
+      await this.updateJobStage(jobId, 'notification')
+      notified = await this.sendNotification(discussion, discussion.sourceThreadId, deliveries, config)
+    }
+
+    await this.updateThreadStatus(discussion.threadId, notified ? 'notified' : 'tasks_created')
+
+    return deliveries.map(delivery => ({
+      destinationType: delivery.destinationType,
+      status: this.getDeliveryStatus(delivery),
+      taskIds: delivery.createdTasks.map(task => task.id),
+      ...(delivery.error && { error: delivery.error }),
+    }))
+  }
+
+  private getDeliveryStatus(delivery: Delivery): DeliveryResult['status'] {
+    if (!delivery.error) {
+      return 'completed'
+    }
+    return delivery.createdTasks.length > 0 ? 'partial' : 'failed'
+  }
+
+  /**
+   * Create and record the tasks in one destination
+   *
+   * Never throws, the error is kept on the delivery next to the tasks
+   * created before it. Those are recorded even when a later task failed.
+   */
+  private async deliverTasks(
+    jobId: string,
+    discussion: Discussion,
+    tasks: TaskData[],
     config: SourceConfig,
+  ): Promise<Delivery> {
+    const destinationType = getDestinationType(config)
+    const delivery: Delivery = {
+      destinationType,
+      displayName: destinationType,
+      createdTasks: [],
+    }
+    const newTasks: NewTask[] = []
+    let destination: TaskDestinationAdapter | undefined
+
+    try {
+      destination = getDestination(destinationType)
+      delivery.displayName = destination.displayName
+
+      await this.createTasks(destination, discussion, tasks, config, delivery.createdTasks, newTasks)
+    }
+    catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error)
+    }
+    finally {
+      if (destination) {
+        await this.storeTaskRecords(jobId, discussion, destination, tasks, newTasks, delivery)
+      }
+    }
+
+    if (delivery.error) {
+      console.error('[Processor] Delivery failed:', {
+        destination: destinationType,
+        createdCount: delivery.createdTasks.length,
+        error: delivery.error,
+      })
+    }
+
+    return delivery
+  }
+
+  /**
+   * Create the tasks one by one, adding each to createdTasks
+   *
+   * Tasks that already exist in the destination, from an earlier attempt,
+   * are reused instead of created again. Only new tasks go in newTasks.
+   */
+  private async createTasks(
+    destination: TaskDestinationAdapter,
+    discussion: Discussion,
+    tasks: TaskData[],
+    config: SourceConfig,
+    createdTasks: CreatedTask[],
+    newTasks: NewTask[],
+  ): Promise<void> {
+    console.log('[Processor] Creating tasks:', {
+      destination: destination.destinationType,
+      count: tasks.length,
+    })
+
+    const recordedTasks = await this.findRecordedTasks(discussion.id, destination.destinationType)
+
+    // Sequential on purpose, destinations rate limit their APIs. Stops at
+    // the first failure, the tasks created so far stay in createdTasks.
+    for (const [index, task] of tasks.entries()) {
+      // The tasks of a discussion share its source URL, so the destination
+      // can only tell a single task apart
+      const existing = recordedTasks.get(index)
+        ?? (tasks.length === 1 ? await destination.findDuplicate(task, config) : null)
+
+      if (existing) {
+        console.log('[Processor] Task already exists, skipping:', existing.id)
+        createdTasks.push(existing)
+        continue
+      }
+
+      const created = await destination.createTask(task, config)
+      createdTasks.push(created)
+      newTasks.push({ index, task, created })
+    }
+
+    console.log('[Processor] Created tasks:', newTasks.map(newTask => newTask.created.id))
+  }
+
+  /**
+   * Tasks recorded for a discussion in a destination, by task index
+   *
+   * Non-fatal: without them the destination's own duplicate check is left.
+   */
+  private async findRecordedTasks(
+    discussionId: string,
+    destinationType: string,
+  ): Promise<Map<number, CreatedTask>> {
+    const recordedTasks = new Map<number, CreatedTask>()
+
+    try {
+      const { discussionSyncTasks } = await import(
+        '../../collections/tasks/server/database/schema'
+      )
+
+      const records = await db
+        .select()
+        .from(discussionSyncTasks)
+        .where(
+          and(
+            eq(discussionSyncTasks.discussionId, discussionId),
+            eq(discussionSyncTasks.destinationType, destinationType),
+          ),
+        )
+
+      for (const record of records) {
+        if (record.taskIndex !== null && record.externalId) {
+          recordedTasks.set(record.taskIndex, {
+            id: record.externalId,
+            url: record.externalUrl || '',
+          })
+        }
+      }
+    }
+    catch (error) {
+      console.warn('[Processor] Loading task records failed (non-fatal):', error)
+    }
+
+    return recordedTasks
+  }
+
+  /**
+   * Record new tasks with their ID in the destination (page ID, issue key)
+   *
+   * Non-fatal: the tasks exist, failing the job now would create them again
+   * on retry. Except for the built-in board, where the record is the task:
+   * the tasks are dropped from the delivery and the error is kept on it.
+   */
+  private async storeTaskRecords(
+    jobId: string,
+    discussion: Discussion,
+    destination: TaskDestinationAdapter,
+    tasks: TaskData[],
+    newTasks: NewTask[],
+    delivery: Delivery,
   ): Promise<void> {
+    if (newTasks.length === 0) {
+      return
+    }
+
+    const { discussionSyncTasks } = await import(
+      '../../collections/tasks/server/database/schema'
+    )
+
+    const isMultiTask = tasks.length > 1
+
+    try {
+      await db.insert(discussionSyncTasks).values(newTasks.map(({ index, task, created }) => ({
+        ...(destination.builtIn && { id: created.id }),
+        teamId: discussion.teamId,
+        owner: discussion.owner,
+        discussionId: discussion.id,
+        threadId: discussion.threadId,
+        syncJobId: jobId,
+        destinationType: destination.destinationType,
+        externalId: created.id,
+        externalUrl: created.url,
+        // Kept for Notion, the columns predate other destinations
+        ...(destination.destinationType === 'notion' && {
+          notionPageId: created.id,
+          notionPageUrl: created.url,
+        }),
+        title: task.title,
+        description: task.description,
+        status: 'todo',
+        priority: task.priority,
+        assignee: task.assignee,
+        summary: task.aiSummary?.summary,
+        sourceUrl: task.sourceUrl,
+        isMultiTaskChild: isMultiTask,
+        taskIndex: index,
+        metadata: task.metadata || {},
+        createdBy: discussion.owner,
+        updatedBy: discussion.owner,
+      })))
+
+      console.log('[Processor] Task records stored:', newTasks.length)
+    }
+    catch (error) {
+      if (!destination.builtIn) {
+        console.warn('[Processor] Storing task records failed (non-fatal):', error)
+        return
+      }
+
+      const unstored = new Set(newTasks.map(({ created }) => created))
+      delivery.createdTasks = delivery.createdTasks.filter(task => !unstored.has(task))
+      delivery.error ??= error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  /**
+   * Post the confirmation message in the source
+   *
+   * @returns false if posting failed
+   */
+  private async sendNotification(
+    discussion: Discussion,
+    threadId: string,
+    deliveries: Delivery[],
+    config: SourceConfig,
+  ): Promise<boolean> {
     const adapter = getAdapter(discussion.sourceType)
 
-    const message = this.buildConfirmationMessage(pageIds, config)
+    const message = this.buildConfirmationMessage(deliveries)
 
     console.log('[Processor] Sending notification:', {
       sourceType: discussion.sourceType,
-      threadId: thread.id,
-      pageCount: pageIds.length,
+      threadId,
+      taskCount: deliveries.reduce((count, delivery) => count + delivery.createdTasks.length, 0),
     })
 
     try {
       // Post reply
-      await adapter.postReply(thread.id, message, config)
+      await adapter.postReply(threadId, message, config)
 
       // Update status
-      await adapter.updateStatus(thread.id, 'completed', config)
+      await adapter.updateStatus(threadId, 'completed', config)
 
       console.log('[Processor] Notification sent')
+      return true
     }
     catch (error) {
       console.warn('[Processor] Notification failed (non-fatal):', error)
       // Non-fatal - don't throw
+      return false
     }
   }
 
@@ -583,20 +1388,59 @@ export class ProcessorService {
   // PRIVATE METHODS - Utilities
   // ============================================
 
-  private buildConfirmationMessage(pageIds: string[], config: SourceConfig): string {
-    const taskWord = pageIds.length === 1 ? 'task' : 'tasks'
+  /**
+   * Exponential backoff: 1 min, 2 min, 4 min... up to 30 min
+   */
+  private getRetryDelay(attempt: number): number {
+    return Math.min(
+      PROCESSOR_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1),
+      PROCESSOR_CONFIG.RETRY_MAX_DELAY_MS,
+    )
+  }
 
-    let message = `✅ Created ${pageIds.length} ${taskWord} in Notion`
+  private getLeaseExpiry(): Date {
+    return new Date(Date.now() + PROCESSOR_CONFIG.LEASE_DURATION_MS)
+  }
 
-    if (pageIds.length <= 3) {
-      // Include links for small number of tasks
-      message += ':\n'
-      for (const pageId of pageIds) {
-        message += `• https://notion.so/${pageId.replace(/-/g, '')}\n`
+  /**
+   * One line per destination, with a warning for the ones that failed
+   */
+  private buildConfirmationMessage(deliveries: Delivery[]): string {
+    const parts: string[] = []
+
+    for (const { createdTasks, displayName, error } of deliveries) {
+      if (createdTasks.length > 0) {
+        const taskWord = createdTasks.length === 1 ? 'task' : 'tasks'
+
+        let message = `✅ Created ${createdTasks.length} ${taskWord} in ${displayName}`
+
+        if (createdTasks.length <= 3) {
+          // Include links for small number of tasks
+          message += ':\n'
+          for (const task of createdTasks) {
+            message += `• ${task.url}\n`
+          }
+        }
+
+        parts.push(message)
+      }
+
+      if (error) {
+        parts.push(`⚠️ Could not create ${createdTasks.length > 0 ? 'all ' : ''}tasks in ${displayName}`)
       }
     }
 
-    return message
+    return parts.join('\n')
+  }
+
+  /**
+   * Display names of the config's destinations, e.g. "Notion, Linear"
+   */
+  private getDestinationNames(config: SourceConfig): string {
+    return getDestinationConfigs(config)
+      .map(getDestinationType)
+      .map(type => hasDestination(type) ? getDestination(type).displayName : type)
+      .join(', ')
   }
 
   /**
@@ -604,6 +1448,5 @@ export class ProcessorService {
    */
   destroy(): void {
     this.aiService.destroy()
-    this.notionService.destroy()
   }
 }
@@ -2,19 +2,35 @@
  * Slack Service
  *
  * Handles all interactions with the Slack API, including:
- * - Fetching conversation threads
+ * - Fetching conversation threads and single messages
  * - Posting messages and replies
+ * - Opening modals
+ * - Downloading shared files
  * - Adding/removing reactions
  * - Getting user and channel info
  * - Rate limiting and circuit breaker patterns
  */
 
-interface SlackMessage {
+export interface SlackFile {
+  id: string
+  name: string
+  title?: string
+  mimetype?: string
+  filetype?: string
+  size?: number
+  mode?: string // 'hosted', 'external', 'snippet', 'tombstone', 'hidden_by_limit'
+  url_private?: string
+  url_private_download?: string
+  permalink?: string
+}
+
+export interface SlackMessage {
   type: string
   user: string
   text: string
   ts: string
   thread_ts?: string
+  files?: SlackFile[]
   reactions?: Array<{
     name: string
     count: number
@@ -26,13 +42,19 @@ export interface SlackThread {
   messages: SlackMessage[]
   channelId: string
   threadTs: string
-  hasMore: boolean
+  hasMore: boolean // True when older replies were left out
   metadata: {
     channelName?: string
     channelType?: string
+    totalMessages?: number
+    omittedMessages?: number
   }
 }
 
+export interface SlackThreadOptions {
+  maxMessages?: number // Including the thread root, default THREAD_CONFIG.MAX_MESSAGES
+}
+
 export interface SlackUser {
   id: string
   name: string
@@ -59,6 +81,11 @@ export interface SlackChannel {
   }
 }
 
+const THREAD_CONFIG = {
+  MAX_MESSAGES: 500,
+  PAGE_SIZE: 200, // Slack recommends at most 200 per conversations.replies page
+} as const
+
 interface SlackApiResponse<T = any> {
   ok: boolean
   error?: string
@@ -223,35 +250,83 @@ export class SlackService {
   }
 
   /**
-   * Fetch a conversation thread
+   * Fetch a conversation thread, following the conversations.replies cursor
+   *
+   * Every page waits for the rate limiter. Threads longer than maxMessages
+   * keep their root message and the most recent replies.
    */
-  async getThread(channelId: string, threadTs: string): Promise<SlackThread> {
-    const cacheKey = `thread:${channelId}:${threadTs}`
+  async getThread(channelId: string, threadTs: string, options: SlackThreadOptions = {}): Promise<SlackThread> {
+    const maxMessages = Math.max(1, options.maxMessages || THREAD_CONFIG.MAX_MESSAGES)
+
+    const cacheKey = `thread:${channelId}:${threadTs}:${maxMessages}`
     const cached = this.getFromCache(cacheKey)
     if (cached) {
       return cached
     }
 
-    await this.rateLimiter.waitForToken()
+    let root: SlackMessage | undefined
+    let recentReplies: SlackMessage[] = []
+    let totalMessages = 0
+    let cursor: string | undefined
 
-    const response = await this.circuitBreaker.execute(async () => {
-      return await this.apiCall<SlackApiResponse>('conversations.replies', {
-        channel: channelId,
-        ts: threadTs,
-        inclusive: true,
+    do {
+      await this.rateLimiter.waitForToken()
+
+      const response = await this.circuitBreaker.execute(async () => {
+        return await this.apiCall<SlackApiResponse>('conversations.replies', {
+          channel: channelId,
+          ts: threadTs,
+          inclusive: true,
+          limit: THREAD_CONFIG.PAGE_SIZE,
+          cursor,
+        })
       })
-    })
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch thread: ${response.error}`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch thread: ${response.error}`)
+      }
+
+      const messages: SlackMessage[] = response.messages || []
+
+      for (const message of messages) {
+        if (!root) {
+          root = message
+        }
+        else if (message.ts === root.ts) {
+          // Slack repeats the parent message at the top of every page
+          continue
+        }
+        else {
+          recentReplies.push(message)
+        }
+
+        totalMessages++
+      }
+
+      // Only keep what fits, so very long threads don't pile up in memory
+      if (recentReplies.length > maxMessages - 1) {
+        recentReplies = recentReplies.slice(recentReplies.length - (maxMessages - 1))
+      }
+
+      cursor = response.response_metadata?.next_cursor || undefined
+    } while (cursor)
+
+    const messages = root ? [root, ...recentReplies] : []
+    const omittedMessages = totalMessages - messages.length
+
+    if (omittedMessages > 0) {
+      console.log(`[Slack Service] Thread truncated, left out ${omittedMessages} of ${totalMessages} messages`)
     }
 
     const thread: SlackThread = {
-      messages: response.messages || [],
+      messages,
       channelId,
       threadTs,
-      hasMore: !!response.response_metadata?.next_cursor,
-      metadata: {},
+      hasMore: omittedMessages > 0,
+      metadata: {
+        totalMessages,
+        omittedMessages,
+      },
     }
 
     // Get channel info
@@ -268,21 +343,51 @@ export class SlackService {
     return thread
   }
 
+  /**
+   * Fetch a single message, whether it is a thread root or a reply
+   *
+   * conversations.replies returns the thread root first, followed by the
+   * replies in the requested range, so the message is looked up by its ts.
+   */
+  async getMessage(channelId: string, messageTs: string): Promise<SlackMessage | null> {
+    await this.rateLimiter.waitForToken()
+
+    const response = await this.circuitBreaker.execute(async () => {
+      return await this.apiCall<SlackApiResponse>('conversations.replies', {
+        channel: channelId,
+        ts: messageTs,
+        oldest: messageTs,
+        latest: messageTs,
+        inclusive: true,
+        limit: 1,
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch message: ${response.error}`)
+    }
+
+    const messages: SlackMessage[] = response.messages || []
+    return messages.find(message => message.ts === messageTs) || null
+  }
+
   /**
    * Post a message to a channel or thread
    */
   async postMessage(
     channelId: string,
     text: string,
-    threadTs?: string
+    threadTs?: string,
+    options: { blocks?: Record<string, unknown>[] } = {}
   ): Promise<string> {
     await this.rateLimiter.waitForToken()
 
     const response = await this.circuitBreaker.execute(async () => {
       return await this.apiCall<SlackApiResponse>('chat.postMessage', {
         channel: channelId,
-        text,
+        text, // Notification fallback when blocks are set
         thread_ts: threadTs,
+        blocks: options.blocks,
       })
     })
 
@@ -293,6 +398,56 @@ export class SlackService {
     return response.ts
   }
 
+  /**
+   * Open a modal in response to an interaction
+   *
+   * trigger_id is only valid for 3 seconds after the interaction.
+   */
+  async openView(triggerId: string, view: Record<string, unknown>): Promise<string> {
+    await this.rateLimiter.waitForToken()
+
+    const response = await this.circuitBreaker.execute(async () => {
+      return await this.apiCall<SlackApiResponse>('views.open', {
+        trigger_id: triggerId,
+        view,
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to open view: ${response.error}`)
+    }
+
+    return response.view?.id
+  }
+
+  /**
+   * Download a file shared in a message (url_private / url_private_download)
+   *
+   * Requires the files:read scope, without it Slack answers with its
+   * login page instead of the file.
+   */
+  async downloadFile(url: string): Promise<Blob> {
+    await this.rateLimiter.waitForToken()
+
+    return await this.circuitBreaker.execute(async () => {
+      const response = await fetch(url, {
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to download file: HTTP ${response.status}`)
+      }
+
+      if (response.headers.get('content-type')?.startsWith('text/html')) {
+        throw new Error('Failed to download file: missing files:read scope')
+      }
+
+      return await response.blob()
+    })
+  }
+
   /**
    * Add a reaction to a message
    */
@@ -0,0 +1,436 @@
+/**
+ * Teams Service - Interact with Bot Connector and Microsoft Graph APIs
+ *
+ * Provides methods to read channel reply chains (Graph), send and update
+ * bot activities in a reply chain (Bot Connector), and token handling for both.
+ */
+
+import { CircuitBreaker } from '../utils/circuitBreaker'
+import type { DiscussionThread, ThreadMessage } from '../adapters/base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TEAMS_CONFIG = {
+  LOGIN_BASE_URL: 'https://login.microsoftonline.com',
+  BOT_FRAMEWORK_TENANT: 'botframework.com',
+  BOT_FRAMEWORK_SCOPE: 'https://api.botframework.com/.default',
+  GRAPH_BASE_URL: 'https://graph.microsoft.com/v1.0',
+  GRAPH_SCOPE: 'https://graph.microsoft.com/.default',
+  DEFAULT_SERVICE_URL: 'https://smba.trafficmanager.net/teams/',
+  TOKEN_EXPIRY_MARGIN_MS: 5 * 60 * 1000,
+  CIRCUIT_BREAKER_THRESHOLD: 3,
+  CIRCUIT_BREAKER_TIMEOUT_MS: 30000,
+  RETRY_MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  PAGE_SIZE: 50,
+} as const
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TeamsCredentials {
+  appId: string
+  appPassword: string
+  // Tenant the bot is installed in; used for Graph and single-tenant bots
+  tenantId?: string
+}
+
+/**
+ * A channel reply chain: the team (AAD group), channel and root message
+ */
+export interface TeamsThreadRef {
+  teamId: string
+  channelId: string
+  messageId: string
+}
+
+export interface GraphChatMessage {
+  id: string
+  replyToId: string | null
+  createdDateTime: string
+  deletedDateTime: string | null
+  webUrl?: string
+  subject?: string | null
+  from: {
+    user?: { id: string, displayName: string } | null
+    application?: { id: string, displayName: string } | null
+  } | null
+  body: {
+    contentType: 'text' | 'html'
+    content: string
+  }
+}
+
+export interface TeamsActivity {
+  type: 'message'
+  text?: string
+  textFormat?: 'plain' | 'markdown' | 'xml'
+  attachments?: Array<{
+    contentType: string
+    content: unknown
+  }>
+}
+
+interface AccessToken {
+  token: string
+  expiresAt: number
+}
+
+// ============================================
+// THREAD ID HELPERS
+// ============================================
+
+const THREAD_ID_PATTERN = /^([^/]+)\/([^;]+);messageid=(\d+)$/
+
+/**
+ * Build a thread ID from a thread reference
+ *
+ * Format: <aadGroupId>/<channelId>;messageid=<rootMessageId>
+ * The part after the slash is the Bot Framework conversation ID of the reply chain.
+ */
+export function buildTeamsThreadId(ref: TeamsThreadRef): string {
+  return `${ref.teamId}/${buildTeamsConversationId(ref)}`
+}
+
+/**
+ * Parse a thread ID created by buildTeamsThreadId
+ */
+export function parseTeamsThreadId(threadId: string): TeamsThreadRef {
+  const match = threadId.match(THREAD_ID_PATTERN)
+
+  if (!match || !match[1] || !match[2] || !match[3]) {
+    throw new Error(`[Teams Service] Invalid thread ID: ${threadId}`)
+  }
+
+  return {
+    teamId: match[1],
+    channelId: match[2],
+    messageId: match[3],
+  }
+}
+
+/**
+ * Bot Framework conversation ID that targets a channel reply chain
+ */
+export function buildTeamsConversationId(ref: Pick<TeamsThreadRef, 'channelId' | 'messageId'>): string {
+  return `${ref.channelId};messageid=${ref.messageId}`
+}
+
+/**
+ * Convert Teams message HTML to plain text, keeping @mentions readable
+ */
+export function teamsHtmlToText(html: string): string {
+  return html
+    .replace(/<at[^>]*>(.*?)<\/at>/gi, '@$1')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// ============================================
+// TEAMS SERVICE
+// ============================================
+
+export class TeamsService {
+  private readonly credentials: TeamsCredentials
+  private readonly circuitBreaker: CircuitBreaker
+  private readonly tokens = new Map<string, AccessToken>()
+
+  constructor(credentials: TeamsCredentials) {
+    if (!credentials.appId || !credentials.appPassword) {
+      throw new Error('[Teams Service] Microsoft App ID and password are required')
+    }
+
+    this.credentials = credentials
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: TEAMS_CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+      resetTimeout: TEAMS_CONFIG.CIRCUIT_BREAKER_TIMEOUT_MS,
+      onOpen: () => console.error('[Teams Service] Circuit breaker opened'),
+      onClose: () => console.log('[Teams Service] Circuit breaker closed'),
+    })
+  }
+
+  /**
+   * Build a discussion thread from a channel reply chain (Microsoft Graph)
+   */
+  async buildThread(ref: TeamsThreadRef): Promise<DiscussionThread> {
+    const messagePath = `/teams/${encodeURIComponent(ref.teamId)}/channels/${encodeURIComponent(ref.channelId)}/messages/${ref.messageId}`
+
+    const root = await this.graphRequest<GraphChatMessage>(messagePath)
+    const replies = await this.graphPaginate<GraphChatMessage>(
+      `${messagePath}/replies?$top=${TEAMS_CONFIG.PAGE_SIZE}`,
+    )
+
+    const rootMessage = this.toThreadMessage(root)
+    const replyMessages = replies
+      .filter(reply => !reply.deletedDateTime)
+      .sort((a, b) => new Date(a.createdDateTime).getTime() - new Date(b.createdDateTime).getTime())
+      .map(reply => this.toThreadMessage(reply))
+
+    return {
+      id: buildTeamsThreadId(ref),
+      rootMessage,
+      replies: replyMessages,
+      participants: Array.from(new Set([rootMessage, ...replyMessages].map(m => m.authorHandle))),
+      metadata: {
+        teamId: ref.teamId,
+        channelId: ref.channelId,
+        messageId: ref.messageId,
+        subject: root.subject,
+        url: root.webUrl,
+      },
+    }
+  }
+
+  /**
+   * Send an activity to a conversation (e.g. a channel reply chain)
+   *
+   * @returns ID of the created activity
+   */
+  async sendActivity(
+    serviceUrl: string | undefined,
+    conversationId: string,
+    activity: TeamsActivity
+  ): Promise<string> {
+    const result = await this.connectorRequest<{ id: string }>(
+      serviceUrl,
+      `/v3/conversations/${encodeURIComponent(conversationId)}/activities`,
+      { method: 'POST', body: JSON.stringify(activity) },
+    )
+
+    console.log('[Teams Service] Activity sent:', result.id)
+    return result.id
+  }
+
+  /**
+   * Replace an activity previously sent by the bot
+   */
+  async updateActivity(
+    serviceUrl: string | undefined,
+    conversationId: string,
+    activityId: string,
+    activity: TeamsActivity
+  ): Promise<void> {
+    await this.connectorRequest(
+      serviceUrl,
+      `/v3/conversations/${encodeURIComponent(conversationId)}/activities/${encodeURIComponent(activityId)}`,
+      { method: 'PUT', body: JSON.stringify({ ...activity, id: activityId }) },
+    )
+
+    console.log('[Teams Service] Activity updated:', activityId)
+  }
+
+  /**
+   * Validate credentials by requesting a Bot Framework token
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.getAccessToken(this.botFrameworkTenant(), TEAMS_CONFIG.BOT_FRAMEWORK_SCOPE)
+      console.log('[Teams Service] Connection test successful')
+      return true
+    }
+    catch (error) {
+      console.error('[Teams Service] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // INTERNAL HELPERS
+  // ============================================
+
+  private toThreadMessage(message: GraphChatMessage): ThreadMessage {
+    const content = message.body.contentType === 'html'
+      ? teamsHtmlToText(message.body.content)
+      : message.body.content
+
+    return {
+      id: message.id,
+      authorHandle: message.from?.user?.displayName || message.from?.application?.displayName || 'unknown',
+      content,
+      timestamp: new Date(message.createdDateTime),
+      attachments: [],
+    }
+  }
+
+  /**
+   * Multi-tenant bots get Bot Framework tokens from the botframework.com tenant,
+   * single-tenant bots from their own tenant.
+   */
+  private botFrameworkTenant(): string {
+    return this.credentials.tenantId || TEAMS_CONFIG.BOT_FRAMEWORK_TENANT
+  }
+
+  /**
+   * Client credentials token for a tenant and scope (cached until shortly before expiry)
+   */
+  private async getAccessToken(tenant: string, scope: string): Promise<string> {
+    const cacheKey = `${tenant}:${scope}`
+    const cached = this.tokens.get(cacheKey)
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token
+    }
+
+    const response = await fetch(`${TEAMS_CONFIG.LOGIN_BASE_URL}/${tenant}/oauth2/v2.0/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.credentials.appId,
+        client_secret: this.credentials.appPassword,
+        scope,
+      }).toString(),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('[Teams Service] Token request failed:', { status: response.status, tenant, error: errorText })
+      throw new Error('Microsoft identity authentication failed - check the app ID and password')
+    }
+
+    const data = await response.json() as { access_token: string, expires_in: number }
+
+    this.tokens.set(cacheKey, {
+      token: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000 - TEAMS_CONFIG.TOKEN_EXPIRY_MARGIN_MS,
+    })
+
+    return data.access_token
+  }
+
+  private async connectorRequest<T>(
+    serviceUrl: string | undefined,
+    path: string,
+    options: RequestInit
+  ): Promise<T> {
+    const baseUrl = (serviceUrl || TEAMS_CONFIG.DEFAULT_SERVICE_URL).replace(/\/$/, '')
+
+    return this.request<T>(`${baseUrl}${path}`, options, () =>
+      this.getAccessToken(this.botFrameworkTenant(), TEAMS_CONFIG.BOT_FRAMEWORK_SCOPE),
+    )
+  }
+
+  private async graphRequest<T>(pathOrUrl: string): Promise<T> {
+    if (!this.credentials.tenantId) {
+      throw new Error('[Teams Service] Tenant ID is required to read channel messages')
+    }
+
+    const tenantId = this.credentials.tenantId
+    const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${TEAMS_CONFIG.GRAPH_BASE_URL}${pathOrUrl}`
+
+    return this.request<T>(url, { method: 'GET' }, () =>
+      this.getAccessToken(tenantId, TEAMS_CONFIG.GRAPH_SCOPE),
+    )
+  }
+
+  /**
+   * Follow @odata.nextLink until all items are loaded
+   */
+  private async graphPaginate<T>(path: string): Promise<T[]> {
+    const items: T[] = []
+    let next: string | undefined = path
+
+    while (next) {
+      const page: { 'value': T[], '@odata.nextLink'?: string } = await this.graphRequest(next)
+      items.push(...page.value)
+      next = page['@odata.nextLink']
+    }
+
+    return items
+  }
+
+  /**
+   * Make an authenticated API request with circuit breaker and retries
+   */
+  private async request<T>(
+    url: string,
+    options: RequestInit,
+    getToken: () => Promise<string>
+  ): Promise<T> {
+    return this.retryWithBackoff(() => this.circuitBreaker.execute(async () => {
+      const token = await getToken()
+
+      const response = await fetch(url, {
+        ...options,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('[Teams Service] API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+          url,
+        })
+
+        if (response.status === 401 || response.status === 403) {
+          throw new Error(`Teams API access denied - check app permissions: ${errorText}`)
+        }
+
+        if (response.status === 404) {
+          throw new Error(`Teams resource not found: ${url}`)
+        }
+
+        if (response.status === 429) {
+          throw new Error('Teams API rate limit exceeded')
+        }
+
+        throw new Error(`Teams API error: ${response.status} - ${errorText}`)
+      }
+
+      const text = await response.text()
+      return (text ? JSON.parse(text) : undefined) as T
+    }))
+  }
+
+  /**
+   * Retry with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxAttempts = TEAMS_CONFIG.RETRY_MAX_ATTEMPTS
+  ): Promise<T> {
+    let lastError: Error | undefined
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await fn()
+      }
+      catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+
+        if (attempt === maxAttempts) {
+          break
+        }
+
+        const delay = TEAMS_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)
+        console.warn(
+          `[Teams Service] Attempt ${attempt}/${maxAttempts} failed, retrying in ${delay}ms`,
+          lastError.message
+        )
+
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+
+    throw lastError
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Zendesk Service - Interact with Zendesk Support API
+ *
+ * Provides methods to fetch ticket conversations (public replies and
+ * internal notes), add internal notes, and manage ticket tags used as
+ * status indicators.
+ */
+
+import { CircuitBreaker } from '../utils/circuitBreaker'
+import type { DiscussionThread, ThreadMessage } from '../adapters/base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ZENDESK_CONFIG = {
+  CIRCUIT_BREAKER_THRESHOLD: 3,
+  CIRCUIT_BREAKER_TIMEOUT_MS: 30000,
+  RETRY_MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  PAGE_SIZE: 100,
+  MAX_PAGES: 10,
+} as const
+
+/**
+ * Prefix for internal notes, so summaries can tell them apart from public replies
+ */
+export const ZENDESK_INTERNAL_NOTE_PREFIX = '[Internal note] '
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ZendeskServiceOptions {
+  subdomain: string
+  email: string
+  apiToken: string
+}
+
+export interface ZendeskUser {
+  id: number
+  name: string
+  email?: string
+  role?: 'end-user' | 'agent' | 'admin'
+}
+
+export interface ZendeskAttachment {
+  id: number
+  file_name: string
+  content_url: string
+  content_type?: string
+  size?: number
+}
+
+export interface ZendeskComment {
+  id: number
+  author_id: number
+  body: string
+  plain_body?: string
+  public: boolean
+  created_at: string
+  attachments?: ZendeskAttachment[]
+}
+
+export interface ZendeskTicket {
+  id: number
+  subject: string
+  status: string
+  priority: string | null
+  tags: string[]
+  requester_id: number
+  created_at: string
+}
+
+interface ZendeskCommentsPage {
+  comments: ZendeskComment[]
+  users?: ZendeskUser[]
+  meta?: { has_more: boolean, after_cursor?: string | null }
+  links?: { next?: string | null }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Extract the subdomain from a Zendesk host or ticket URL
+ * e.g. "acme.zendesk.com/agent/tickets/4521" → "acme"
+ */
+export function parseZendeskSubdomain(value: string): string | null {
+  const match = value.match(/^(?:https?:\/\/)?([a-z0-9][a-z0-9-]*)\.zendesk\.com/i)
+  return match?.[1]?.toLowerCase() || null
+}
+
+/**
+ * Agent-facing URL of a ticket
+ */
+export function buildZendeskTicketUrl(subdomain: string, ticketId: string | number): string {
+  return `https://${subdomain}.zendesk.com/agent/tickets/${ticketId}`
+}
+
+// ============================================
+// ZENDESK SERVICE
+// ============================================
+
+export class ZendeskService {
+  private readonly baseUrl: string
+  private readonly authorization: string
+  private readonly circuitBreaker: CircuitBreaker
+
+  constructor(options: ZendeskServiceOptions) {
+    if (!options.subdomain || options.subdomain.trim() === '') {
+      throw new Error('[Zendesk Service] Subdomain is required')
+    }
+
+    if (!options.email || !options.apiToken) {
+      throw new Error('[Zendesk Service] Agent email and API token are required')
+    }
+
+    this.baseUrl = `https://${options.subdomain}.zendesk.com/api/v2`
+    this.authorization = `Basic ${Buffer.from(`${options.email}/token:${options.apiToken}`).toString('base64')}`
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: ZENDESK_CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+      resetTimeout: ZENDESK_CONFIG.CIRCUIT_BREAKER_TIMEOUT_MS,
+      onOpen: () => console.error('[Zendesk Service] Circuit breaker opened'),
+      onClose: () => console.log('[Zendesk Service] Circuit breaker closed'),
+    })
+  }
+
+  /**
+   * Get a ticket
+   */
+  async getTicket(ticketId: string): Promise<ZendeskTicket> {
+    const response = await this.request<{ ticket: ZendeskTicket }>(`/tickets/${ticketId}.json`)
+    return response.ticket
+  }
+
+  /**
+   * Get all comments of a ticket (oldest first) with their authors
+   */
+  async getTicketComments(ticketId: string): Promise<{ comments: ZendeskComment[], users: ZendeskUser[] }> {
+    const comments: ZendeskComment[] = []
+    const users: ZendeskUser[] = []
+    let next: string | null | undefined = `/tickets/${ticketId}/comments.json?include=users&page[size]=${ZENDESK_CONFIG.PAGE_SIZE}`
+
+    for (let page = 0; next && page < ZENDESK_CONFIG.MAX_PAGES; page++) {
+      const response: ZendeskCommentsPage = await this.request<ZendeskCommentsPage>(next)
+
+      comments.push(...response.comments)
+      users.push(...(response.users || []))
+
+      next = response.meta?.has_more ? response.links?.next : null
+    }
+
+    return { comments, users }
+  }
+
+  /**
+   * Build a discussion thread from a ticket's conversation
+   *
+   * Public replies and internal notes are both included; internal notes
+   * are prefixed so they can be told apart.
+   */
+  async buildThread(ticketId: string): Promise<DiscussionThread> {
+    const ticket = await this.getTicket(ticketId)
+    const { comments, users } = await this.getTicketComments(ticketId)
+
+    const names = new Map(users.map(user => [user.id, user.name]))
+    const messages = comments.map(comment => this.toThreadMessage(comment, names.get(comment.author_id) || String(comment.author_id)))
+
+    const [rootMessage, ...replies] = messages
+
+    if (!rootMessage) {
+      throw new Error(`[Zendesk Service] No comments found on ticket ${ticketId}`)
+    }
+
+    return {
+      id: String(ticket.id),
+      rootMessage,
+      replies,
+      participants: Array.from(new Set(messages.map(m => m.authorHandle))),
+      metadata: {
+        subject: ticket.subject,
+        status: ticket.status,
+        priority: ticket.priority,
+        tags: ticket.tags,
+        privateCommentIds: comments.filter(c => !c.public).map(c => String(c.id)),
+      },
+    }
+  }
+
+  /**
+   * Add an internal note (private comment) to a ticket
+   */
+  async addInternalNote(ticketId: string, body: string): Promise<void> {
+    await this.request(`/tickets/${ticketId}.json`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        ticket: {
+          comment: { body, public: false },
+        },
+      }),
+    })
+
+    console.log('[Zendesk Service] Internal note added to ticket:', ticketId)
+  }
+
+  /**
+   * Add tags to a ticket (existing tags are kept)
+   */
+  async addTags(ticketId: string, tags: string[]): Promise<string[]> {
+    const response = await this.request<{ tags: string[] }>(`/tickets/${ticketId}/tags.json`, {
+      method: 'PUT',
+      body: JSON.stringify({ tags }),
+    })
+    return response.tags
+  }
+
+  /**
+   * Remove tags from a ticket
+   */
+  async removeTags(ticketId: string, tags: string[]): Promise<string[]> {
+    const response = await this.request<{ tags: string[] }>(`/tickets/${ticketId}/tags.json`, {
+      method: 'DELETE',
+      body: JSON.stringify({ tags }),
+    })
+    return response.tags
+  }
+
+  /**
+   * Validate credentials by making test request
+   *
+   * Zendesk answers /users/me for invalid credentials with an anonymous user.
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await this.request<{ user: ZendeskUser & { id: number | null } }>('/users/me.json')
+
+      if (!response.user.id) {
+        console.error('[Zendesk Service] Connection test failed: not authenticated')
+        return false
+      }
+
+      console.log('[Zendesk Service] Connection test successful:', response.user.email)
+      return true
+    }
+    catch (error) {
+      console.error('[Zendesk Service] Connection test failed:', error)
+      return false
+    }
+  }
+
+  // ============================================
+  // INTERNAL HELPERS
+  // ============================================
+
+  private toThreadMessage(comment: ZendeskComment, authorHandle: string): ThreadMessage {
+    const content = (comment.plain_body ?? comment.body).trim()
+
+    return {
+      id: String(comment.id),
+      authorHandle,
+      content: comment.public ? content : `${ZENDESK_INTERNAL_NOTE_PREFIX}${content}`,
+      timestamp: new Date(comment.created_at),
+      attachments: (comment.attachments || []).map(attachment => ({
+        id: String(attachment.id),
+        type: attachment.content_type?.startsWith('image/') ? 'image' as const : 'file' as const,
+        url: attachment.content_url,
+        name: attachment.file_name,
+        mimeType: attachment.content_type,
+      })),
+    }
+  }
+
+  /**
+   * Make an authenticated API request with circuit breaker and retries
+   *
+   * Accepts a path relative to /api/v2 or an absolute pagination URL.
+   */
+  private async request<T>(pathOrUrl: string, options: RequestInit = {}): Promise<T> {
+    const url = pathOrUrl.startsWith('https://') ? pathOrUrl : `${this.baseUrl}${pathOrUrl}`
+
+    return this.retryWithBackoff(() => this.circuitBreaker.execute(async () => {
+      const response = await fetch(url, {
+        ...options,
+        headers: {
+          'Authorization': this.authorization,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          ...options.headers,
+        },
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('[Zendesk Service] API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+          url,
+        })
+
+        if (response.status === 401) {
+          throw new Error('Zendesk API authentication failed - check agent email and API token')
+        }
+
+        if (response.status === 403) {
+          throw new Error(`Zendesk API access denied - check agent permissions: ${pathOrUrl}`)
+        }
+
+        if (response.status === 404) {
+          throw new Error(`Zendesk resource not found: ${pathOrUrl}`)
+        }
+
+        if (response.status === 429) {
+          throw new Error(`Zendesk API rate limit exceeded, retry after ${response.headers.get('retry-after') || 'unknown'}s`)
+        }
+
+        throw new Error(`Zendesk API error: ${response.status} - ${errorText}`)
+      }
+
+      return await response.json() as T
+    }))
+  }
+
+  /**
+   * Retry with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxAttempts = ZENDESK_CONFIG.RETRY_MAX_ATTEMPTS
+  ): Promise<T> {
+    let lastError: Error | undefined
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await fn()
+      }
+      catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+
+        if (attempt === maxAttempts) {
+          break
+        }
+
+        const delay = ZENDESK_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)
+        console.warn(
+          `[Zendesk Service] Attempt ${attempt}/${maxAttempts} failed, retrying in ${delay}ms`,
+          lastError.message
+        )
+
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+
+    throw lastError
+  }
+}
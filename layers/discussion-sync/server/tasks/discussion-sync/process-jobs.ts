@@ -0,0 +1,62 @@
+/**
+ * Discussion Sync Job Worker
+ *
+ * Scheduled every minute (see the layer's nuxt.config) and started right
+ * away when a webhook queues a discussion. Recovers crashed and lost jobs,
+ * then processes due jobs one at a time until the queue is empty.
+ */
+
+import { ProcessorService } from '../../services/processor'
+import {
+  JOB_QUEUE_CONFIG,
+  JOB_WORKER_TASK,
+  claimDueJobs,
+  enqueueOrphanedDiscussions,
+  recoverStaleJobs,
+} from '../../utils/jobQueue'
+
+// Upper bound on batches per run, the next run picks up the rest
+const MAX_BATCHES = 20
+
+export default defineTask({
+  meta: {
+    name: JOB_WORKER_TASK,
+    description: 'Process queued discussion sync jobs and recover stuck ones',
+  },
+  async run() {
+    const recovered = await recoverStaleJobs()
+    const orphaned = await enqueueOrphanedDiscussions()
+
+    // Before claiming, so a missing API key doesn't leave jobs leased
+    const processor = new ProcessorService()
+    let processed = 0
+
+    try {
+      for (let batch = 0; batch < MAX_BATCHES; batch++) {
+        const jobIds = await claimDueJobs(JOB_QUEUE_CONFIG.BATCH_SIZE)
+        if (jobIds.length === 0) {
+          break
+        }
+
+        // Sequential on purpose, sources and destinations rate limit their APIs
+        for (const jobId of jobIds) {
+          try {
+            await processor.processJob(jobId)
+          }
+          catch (error) {
+            // The lease expires and the job is recovered on a later run
+            console.error('[Job Worker] Processing job failed:', jobId, error)
+          }
+          processed++
+        }
+      }
+    }
+    finally {
+      processor.destroy()
+    }
+
+    return {
+      result: { recovered, orphaned, processed },
+    }
+  },
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  ATTACHMENT_CONFIG,
+  getBlobUrl,
+  storeAttachment,
+  storeAttachments,
+} from '../attachmentStorage'
+import type { Attachment } from '../../adapters/base'
+
+const mockPut = vi.fn()
+
+vi.stubGlobal('hubBlob', () => ({ put: mockPut }))
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { host: 'https://app.example.com/' } }))
+
+const screenshot: Attachment = {
+  id: 'F123',
+  type: 'image',
+  url: 'https://files.slack.com/files-pri/T1-F123/screenshot.png',
+  name: 'screenshot.png',
+  mimeType: 'image/png',
+}
+
+describe('attachmentStorage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPut.mockImplementation(async (name: string) => ({ pathname: `${name}-abc123` }))
+  })
+
+  describe('getBlobUrl', () => {
+    it('should build a public URL served by the images route', () => {
+      expect(getBlobUrl('screenshot-abc123.png')).toBe('https://app.example.com/images/screenshot-abc123.png')
+    })
+  })
+
+  describe('storeAttachment', () => {
+    it('should download the file and point at the stored copy', async () => {
+      const download = vi.fn().mockResolvedValue(new Blob(['png'], { type: 'image/png' }))
+
+      const stored = await storeAttachment(screenshot, download)
+
+      expect(download).toHaveBeenCalledWith(screenshot)
+      expect(mockPut).toHaveBeenCalledWith('screenshot.png', expect.any(Blob), {
+        addRandomSuffix: true,
+        contentType: 'image/png',
+      })
+      expect(stored).toEqual({
+        ...screenshot,
+        url: 'https://app.example.com/images/screenshot.png-abc123',
+      })
+    })
+
+    it('should reject files over the size limit', async () => {
+      const download = vi.fn().mockResolvedValue({ size: ATTACHMENT_CONFIG.MAX_FILE_BYTES + 1, type: 'image/png' })
+
+      await expect(storeAttachment(screenshot, download)).rejects.toThrow('too large')
+      expect(mockPut).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('storeAttachments', () => {
+    it('should keep links and use the fallback for failed downloads', async () => {
+      const link: Attachment = { id: 'L1', type: 'link', url: 'https://example.com' }
+      const download = vi.fn().mockRejectedValue(new Error('HTTP 403'))
+
+      const stored = await storeAttachments([link, screenshot], download, {
+        logPrefix: '[Test]',
+        fallback: attachment => ({ ...attachment, type: 'link', url: 'https://acme.slack.com/files/F123' }),
+      })
+
+      expect(stored).toEqual([
+        link,
+        { ...screenshot, type: 'link', url: 'https://acme.slack.com/files/F123' },
+      ])
+    })
+
+    it('should drop failed downloads without a fallback', async () => {
+      const download = vi.fn().mockRejectedValue(new Error('HTTP 403'))
+
+      expect(await storeAttachments([screenshot], download, { logPrefix: '[Test]' })).toEqual([])
+    })
+
+    it('should store at most MAX_PER_THREAD attachments', async () => {
+      const download = vi.fn().mockResolvedValue(new Blob(['png'], { type: 'image/png' }))
+      const attachments = Array.from({ length: ATTACHMENT_CONFIG.MAX_PER_THREAD + 2 }, (_, index) => ({
+        ...screenshot,
+        id: `F${index}`,
+      }))
+
+      const stored = await storeAttachments(attachments, download, { logPrefix: '[Test]' })
+
+      expect(stored).toHaveLength(ATTACHMENT_CONFIG.MAX_PER_THREAD)
+    })
+  })
+})
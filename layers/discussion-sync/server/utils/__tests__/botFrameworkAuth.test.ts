@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { generateKeyPairSync, sign } from 'node:crypto'
+import { verifyBotFrameworkToken } from '../botFrameworkAuth'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+describe('botFrameworkAuth', () => {
+  const APP_ID = '8d3f5b7a-1c2e-4f60-9a8b-7c6d5e4f3a21'
+  const SERVICE_URL = 'https://smba.trafficmanager.net/emea/'
+  const KEY_ID = 'test-key-1'
+
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, endorsements: ['msteams'] }
+
+  function createToken(
+    claims: Record<string, unknown> = {},
+    header: Record<string, unknown> = {},
+  ): string {
+    const now = Math.floor(Date.now() / 1000)
+    const encodedHeader = Buffer.from(JSON.stringify({ alg: 'RS256', kid: KEY_ID, ...header })).toString('base64url')
+    const encodedPayload = Buffer.from(JSON.stringify({
+      iss: 'https://api.botframework.com',
+      aud: APP_ID,
+      nbf: now - 60,
+      exp: now + 3600,
+      serviceurl: SERVICE_URL,
+      ...claims,
+    })).toString('base64url')
+    const signature = sign(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      privateKey,
+    ).toString('base64url')
+
+    return `Bearer ${encodedHeader}.${encodedPayload}.${signature}`
+  }
+
+  const activity = { serviceUrl: SERVICE_URL, channelId: 'msteams' }
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    mockFetch.mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => url.includes('openidconfiguration')
+        ? { jwks_uri: 'https://login.botframework.com/v1/.well-known/keys' }
+        : { keys: [jwk] },
+    }))
+  })
+
+  describe('verifyBotFrameworkToken', () => {
+    it('should return claims for a valid token', async () => {
+      const claims = await verifyBotFrameworkToken(createToken(), activity)
+
+      expect(claims).toMatchObject({ aud: APP_ID, serviceurl: SERVICE_URL })
+    })
+
+    it('should reject missing bearer token', async () => {
+      expect(await verifyBotFrameworkToken(undefined, activity)).toBeNull()
+      expect(await verifyBotFrameworkToken('Basic abc', activity)).toBeNull()
+    })
+
+    it('should reject tokens signed with another key', async () => {
+      const other = generateKeyPairSync('rsa', { modulusLength: 2048 })
+      const [header, payload] = createToken().slice('Bearer '.length).split('.')
+      const forged = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), other.privateKey).toString('base64url')
+
+      expect(await verifyBotFrameworkToken(`Bearer ${header}.${payload}.${forged}`, activity)).toBeNull()
+    })
+
+    it('should reject unknown key IDs after refreshing keys', async () => {
+      mockFetch.mockClear()
+
+      expect(await verifyBotFrameworkToken(createToken({}, { kid: 'rotated' }), activity)).toBeNull()
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reject wrong issuer', async () => {
+      expect(await verifyBotFrameworkToken(createToken({ iss: 'https://evil.example' }), activity)).toBeNull()
+    })
+
+    it('should reject expired tokens', async () => {
+      const past = Math.floor(Date.now() / 1000) - 3600
+
+      expect(await verifyBotFrameworkToken(createToken({ exp: past }), activity)).toBeNull()
+    })
+
+    it('should reject serviceUrl mismatch', async () => {
+      const claims = await verifyBotFrameworkToken(createToken(), {
+        ...activity,
+        serviceUrl: 'https://attacker.example/',
+      })
+
+      expect(claims).toBeNull()
+    })
+
+    it('should reject keys not endorsed for the channel', async () => {
+      expect(await verifyBotFrameworkToken(createToken(), { ...activity, channelId: 'skype' })).toBeNull()
+    })
+
+    it('should reject non-RS256 tokens', async () => {
+      expect(await verifyBotFrameworkToken(createToken({}, { alg: 'none' }), activity)).toBeNull()
+    })
+  })
+})
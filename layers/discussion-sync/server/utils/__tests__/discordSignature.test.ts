@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac, generateKeyPairSync, sign } from 'node:crypto'
+import { verifyDiscordRelaySignature, verifyDiscordSignature } from '../discordSignature'
+
+describe('discordSignature', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519')
+  const PUBLIC_KEY_HEX = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url').toString('hex')
+
+  const TEST_BODY = JSON.stringify({ type: 1, id: '1300000000000000000' })
+  const TEST_TIMESTAMP = '1762430000'
+
+  function signInteraction(body: string, timestamp: string, key = privateKey): string {
+    return sign(null, Buffer.from(timestamp + body), key).toString('hex')
+  }
+
+  describe('verifyDiscordSignature', () => {
+    it('should verify valid signature', () => {
+      const signature = signInteraction(TEST_BODY, TEST_TIMESTAMP)
+
+      expect(verifyDiscordSignature(TEST_BODY, signature, TEST_TIMESTAMP, PUBLIC_KEY_HEX)).toBe(true)
+    })
+
+    it('should reject signature from another key', () => {
+      const other = generateKeyPairSync('ed25519')
+      const signature = signInteraction(TEST_BODY, TEST_TIMESTAMP, other.privateKey)
+
+      expect(verifyDiscordSignature(TEST_BODY, signature, TEST_TIMESTAMP, PUBLIC_KEY_HEX)).toBe(false)
+    })
+
+    it('should reject tampered body', () => {
+      const signature = signInteraction(TEST_BODY, TEST_TIMESTAMP)
+
+      expect(verifyDiscordSignature('{"type":2}', signature, TEST_TIMESTAMP, PUBLIC_KEY_HEX)).toBe(false)
+    })
+
+    it('should reject changed timestamp', () => {
+      const signature = signInteraction(TEST_BODY, TEST_TIMESTAMP)
+
+      expect(verifyDiscordSignature(TEST_BODY, signature, '1762430001', PUBLIC_KEY_HEX)).toBe(false)
+    })
+
+    it('should reject malformed signature or key', () => {
+      expect(verifyDiscordSignature(TEST_BODY, 'abc', TEST_TIMESTAMP, PUBLIC_KEY_HEX)).toBe(false)
+      expect(verifyDiscordSignature(TEST_BODY, signInteraction(TEST_BODY, TEST_TIMESTAMP), TEST_TIMESTAMP, 'zz')).toBe(false)
+    })
+  })
+
+  describe('verifyDiscordRelaySignature', () => {
+    const SECRET = 'relay-secret'
+
+    it('should verify valid relay signature', () => {
+      const signature = `sha256=${createHmac('sha256', SECRET).update(TEST_BODY).digest('hex')}`
+
+      expect(verifyDiscordRelaySignature(TEST_BODY, signature, SECRET)).toBe(true)
+    })
+
+    it('should reject relay signature with wrong secret', () => {
+      const signature = `sha256=${createHmac('sha256', 'other').update(TEST_BODY).digest('hex')}`
+
+      expect(verifyDiscordRelaySignature(TEST_BODY, signature, SECRET)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EmailReplyParser,
+  htmlToText,
+  stripDisclaimers,
+  stripSignature,
+} from '../emailReplyParser'
+import forwardedConversation from '../../adapters/__tests__/fixtures/email/forwarded-conversation.mailgun.json'
+
+describe('EmailReplyParser', () => {
+  const parser = new EmailReplyParser()
+
+  describe('parse', () => {
+    it('should split a forwarded conversation into messages, oldest first', () => {
+      const result = parser.parse({
+        text: forwardedConversation['body-plain'],
+        from: forwardedConversation.from,
+      })
+
+      expect(result.messages.map(message => message.author.name)).toEqual([
+        'Jordan Reyes',
+        'Sam Okafor',
+        'Jordan Reyes',
+        'Sam Okafor',
+      ])
+      expect(result.messages.map(message => message.body)).toEqual([
+        'Hi Sam,\n\nWhen we export a report with more than 100 rows the CSV is missing the final row.',
+        'Thanks Jordan, does it happen with every report or only large ones?',
+        'Attached a sample export. The missing row is always the last one.\n\nJordan',
+        'FYI - feedback from Jordan at Northwind, can we pick this up?',
+      ])
+      expect(result.messages[0]?.author.email).toBe('jordan@northwind.example')
+      expect(result.messages[1]?.date).toBeInstanceOf(Date)
+      expect(result.strategies).toEqual(['ForwardedMessage', 'AttributionLine'])
+    })
+
+    it('should split Outlook replies', () => {
+      const result = parser.parse({
+        text: [
+          'Sounds good, I will file it today.',
+          '',
+          '________________________________',
+          'From: Jordan Reyes <jordan@northwind.example>',
+          'Sent: Tuesday, November 11, 2025 2:02 PM',
+          'To: Sam Okafor <sam@acme.com>',
+          'Subject: CSV export issue',
+          '',
+          'The CSV export drops the last row.',
+        ].join('\n'),
+        from: 'sam@acme.com',
+      })
+
+      expect(result.strategies).toEqual(['OutlookHeader'])
+      expect(result.messages).toMatchObject([
+        { author: { name: 'Jordan Reyes', email: 'jordan@northwind.example' }, body: 'The CSV export drops the last row.' },
+        { author: { email: 'sam@acme.com' }, body: 'Sounds good, I will file it today.' },
+      ])
+    })
+
+    it('should return a single message for emails without quotes', () => {
+      const date = new Date('2025-11-12T10:15:00Z')
+      const result = parser.parse({ text: 'The export is broken.', from: '"Jordan Reyes" <jordan@northwind.example>', date })
+
+      expect(result.messages).toEqual([
+        { author: { name: 'Jordan Reyes', email: 'jordan@northwind.example' }, date, body: 'The export is broken.' },
+      ])
+      expect(result.strategies).toEqual([])
+    })
+
+    it('should fall back to the HTML body', () => {
+      const result = parser.parse({
+        html: '<div>Can we fix this?</div><div class="gmail_quote"><div>On Tue, Nov 11, 2025 at 4:05 PM Jordan Reyes &lt;jordan@northwind.example&gt; wrote:</div><blockquote><p>The export drops the last row.</p></blockquote></div>',
+        from: 'Sam Okafor <sam@acme.com>',
+      })
+
+      expect(result.messages.map(message => message.body)).toEqual([
+        'The export drops the last row.',
+        'Can we fix this?',
+      ])
+    })
+  })
+
+  describe('htmlToText', () => {
+    it('should render nested blockquotes as quote levels', () => {
+      const text = htmlToText('<html><head><style>p { color: red }</style></head><body><p>Reply</p><blockquote>Outer<br><blockquote>Inner</blockquote></blockquote></body></html>')
+
+      expect(text).toBe('Reply\n\n> Outer\n>\n> > Inner')
+    })
+  })
+
+  describe('stripSignature', () => {
+    it('should cut at the signature delimiter and mobile signatures', () => {
+      expect(stripSignature('Looks good\n-- \nJordan Reyes\nNorthwind')).toBe('Looks good')
+      expect(stripSignature('Looks good\n\nSent from my iPhone')).toBe('Looks good')
+    })
+
+    it('should cut a sign-off followed by a short signature block', () => {
+      expect(stripSignature('Looks good\n\nBest regards,\nJordan Reyes\nHead of Operations')).toBe('Looks good')
+    })
+
+    it('should keep a sign-off followed by long content', () => {
+      const body = 'Thanks!\nWe also noticed that the totals row is rounded differently than in the web view, which is confusing.'
+
+      expect(stripSignature(body)).toBe(body)
+    })
+  })
+
+  describe('stripDisclaimers', () => {
+    it('should remove confidentiality notices', () => {
+      const body = 'The export is broken.\n\nCONFIDENTIALITY NOTICE: This email is intended only for the named recipient.\n\nIf you have received this email in error, please delete it.'
+
+      expect(stripDisclaimers(body)).toBe('The export is broken.')
+    })
+  })
+})
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { verifyFigmaPasscode } from '../figmaWebhook'
+
+describe('figmaWebhook', () => {
+  describe('verifyFigmaPasscode', () => {
+    it('should accept matching passcode', () => {
+      expect(verifyFigmaPasscode('figma-passcode-123', 'figma-passcode-123')).toBe(true)
+    })
+
+    it('should reject different passcode', () => {
+      expect(verifyFigmaPasscode('figma-passcode-124', 'figma-passcode-123')).toBe(false)
+    })
+
+    it('should reject passcode of different length', () => {
+      expect(verifyFigmaPasscode('short', 'figma-passcode-123')).toBe(false)
+    })
+
+    it('should reject missing passcode', () => {
+      expect(verifyFigmaPasscode(undefined, 'figma-passcode-123')).toBe(false)
+      expect(verifyFigmaPasscode('', '')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { verifyGitHubSignature } from '../githubSignature'
+
+describe('githubSignature', () => {
+  const TEST_SECRET = 'test-github-secret-123'
+  const TEST_BODY = JSON.stringify({ action: 'created', comment: { id: 1 } })
+
+  function sign(body: string, secret = TEST_SECRET): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+  }
+
+  describe('verifyGitHubSignature', () => {
+    it('should verify valid signature', () => {
+      expect(verifyGitHubSignature(TEST_BODY, sign(TEST_BODY), TEST_SECRET)).toBe(true)
+    })
+
+    it('should reject signature created with a different secret', () => {
+      expect(verifyGitHubSignature(TEST_BODY, sign(TEST_BODY, 'other-secret'), TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject tampered body', () => {
+      const signature = sign(TEST_BODY)
+      const tamperedBody = JSON.stringify({ action: 'deleted' })
+
+      expect(verifyGitHubSignature(tamperedBody, signature, TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject legacy sha1 signatures', () => {
+      const sha1 = `sha1=${createHmac('sha1', TEST_SECRET).update(TEST_BODY).digest('hex')}`
+
+      expect(verifyGitHubSignature(TEST_BODY, sha1, TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject signature with wrong length', () => {
+      expect(verifyGitHubSignature(TEST_BODY, 'sha256=abc', TEST_SECRET)).toBe(false)
+    })
+  })
+})
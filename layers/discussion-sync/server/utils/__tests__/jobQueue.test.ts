@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { claimDueJobs, recoverStaleJobs } from '../jobQueue'
+import { PROCESSOR_CONFIG, QUEUED_STATUSES } from '../../services/processor'
+
+vi.mock('../../services/ai')
+
+// Rows the due job query selects
+let dueRows: Array<{ id: string }>
+// Rows returned by each update ... returning(), in order
+let updateResults: any[][]
+// Every update the queue ran, in order
+let updates: Array<{ table: string, values: any, where: any }>
+
+const mockLimit = vi.fn(() => Promise.resolve(dueRows))
+
+const mockDb = {
+  select: vi.fn(() => ({
+    from: vi.fn(() => ({
+      where: vi.fn(() => ({
+        orderBy: vi.fn(() => ({ limit: mockLimit })),
+      })),
+    })),
+  })),
+  update: vi.fn((table: { name: string }) => {
+    const update = { table: table.name, values: undefined as any, where: undefined as any }
+    updates.push(update)
+
+    return {
+      set: vi.fn((values: any) => {
+        update.values = values
+
+        return {
+          where: vi.fn((where: any) => {
+            update.where = where
+
+            return Object.assign(Promise.resolve([]), {
+              returning: vi.fn(() => Promise.resolve(updateResults.shift() || [])),
+            })
+          }),
+        }
+      }),
+    }
+  }),
+}
+
+// Read lazily, vi.mock is hoisted above mockDb
+vi.mock('~~/server/database', () => ({
+  get db() {
+    return mockDb
+  },
+}))
+
+// Columns are referenced as "<table>.<column>"
+vi.mock('~~/server/database/schema', () => {
+  const table = (name: string) => new Proxy({ name }, {
+    get: (target, column) => column === 'name' ? target.name : `${name}.${String(column)}`,
+  })
+
+  return {
+    discussionSyncDiscussions: table('discussions'),
+    discussionSyncSyncjobs: table('syncjobs'),
+  }
+})
+
+// Conditions are plain objects so the queries can be asserted
+vi.mock('drizzle-orm', () => ({
+  and: (...conditions: unknown[]) => ({ and: conditions }),
+  asc: (column: unknown) => ({ asc: column }),
+  eq: (column: unknown, value: unknown) => ({ eq: [column, value] }),
+  gt: (column: unknown, value: unknown) => ({ gt: [column, value] }),
+  gte: (column: unknown, value: unknown) => ({ gte: [column, value] }),
+  inArray: (column: unknown, values: unknown) => ({ inArray: [column, values] }),
+  lt: (column: unknown, value: unknown) => ({ lt: [column, value] }),
+  lte: (column: unknown, value: unknown) => ({ lte: [column, value] }),
+  notExists: (query: unknown) => ({ notExists: query }),
+  sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({ sql: strings.join('?'), values }),
+}))
+
+describe('jobQueue', () => {
+  const now = new Date('2026-01-01T12:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(now)
+
+    dueRows = []
+    updateResults = []
+    updates = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('claimDueJobs', () => {
+    it('should lease the due jobs it claims', async () => {
+      dueRows = [{ id: 'job-1' }, { id: 'job-2' }]
+      updateResults = [[{ id: 'job-1' }], [{ id: 'job-2' }]]
+
+      expect(await claimDueJobs(2)).toEqual(['job-1', 'job-2'])
+
+      expect(mockLimit).toHaveBeenCalledWith(2)
+      expect(updates[0]!.values).toMatchObject({
+        status: 'processing',
+        attempts: { sql: '? + 1' },
+        leaseExpiresAt: new Date(now.getTime() + PROCESSOR_CONFIG.LEASE_DURATION_MS),
+        startedAt: now,
+      })
+    })
+
+    it('should only update jobs that are still queued', async () => {
+      dueRows = [{ id: 'job-1' }]
+      updateResults = [[{ id: 'job-1' }]]
+
+      await claimDueJobs()
+
+      expect(updates[0]!.where).toEqual({
+        and: [
+          { eq: ['syncjobs.id', 'job-1'] },
+          { inArray: ['syncjobs.status', QUEUED_STATUSES] },
+        ],
+      })
+    })
+
+    it('should skip jobs another worker claimed first', async () => {
+      dueRows = [{ id: 'job-1' }, { id: 'job-2' }]
+      updateResults = [[], [{ id: 'job-2' }]]
+
+      expect(await claimDueJobs()).toEqual(['job-2'])
+    })
+
+    it('should return nothing when no job is due', async () => {
+      expect(await claimDueJobs()).toEqual([])
+      expect(mockDb.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('recoverStaleJobs', () => {
+    it('should requeue stale jobs with attempts left and fail the others', async () => {
+      updateResults = [
+        [{ discussionId: 'discussion-1' }],
+        [{ discussionId: 'discussion-2' }],
+      ]
+
+      expect(await recoverStaleJobs()).toBe(2)
+
+      expect(updates[0]).toMatchObject({
+        table: 'syncjobs',
+        values: { status: 'retrying', nextAttemptAt: now, leaseExpiresAt: null },
+      })
+      expect(updates[0]!.where.and[1]).toEqual({ lt: ['syncjobs.attempts', 'syncjobs.maxAttempts'] })
+
+      expect(updates[1]).toMatchObject({
+        table: 'syncjobs',
+        values: { status: 'failed', leaseExpiresAt: null, completedAt: now },
+      })
+      expect(updates[1]!.where.and[1]).toEqual({ gte: ['syncjobs.attempts', 'syncjobs.maxAttempts'] })
+    })
+
+    it('should only recover jobs whose lease expired while processing', async () => {
+      await recoverStaleJobs()
+
+      expect(updates[0]!.where.and[0]).toEqual({
+        and: [
+          { eq: ['syncjobs.status', 'processing'] },
+          { lt: ['syncjobs.leaseExpiresAt', now] },
+        ],
+      })
+    })
+
+    it('should update the status of the recovered discussions', async () => {
+      updateResults = [
+        [{ discussionId: 'discussion-1' }],
+        [{ discussionId: 'discussion-2' }],
+      ]
+
+      await recoverStaleJobs()
+
+      expect(updates.slice(2)).toEqual([
+        {
+          table: 'discussions',
+          values: { status: 'pending', updatedAt: now },
+          where: { inArray: ['discussions.id', ['discussion-1']] },
+        },
+        {
+          table: 'discussions',
+          values: { status: 'failed', updatedAt: now },
+          where: { inArray: ['discussions.id', ['discussion-2']] },
+        },
+      ])
+    })
+
+    it('should leave discussions alone when no job is stale', async () => {
+      expect(await recoverStaleJobs()).toBe(0)
+      expect(updates.map(update => update.table)).toEqual(['syncjobs', 'syncjobs'])
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { isValidPath, parsePath, resolvePath, resolvePathAll } from '../jsonPath'
+
+describe('jsonPath', () => {
+  const data = {
+    message: { text: 'Hello', 'user-name': 'jordan' },
+    items: [{ id: 1 }, { id: 2 }, { id: 3 }],
+    tags: { a: 'x', b: 'y' },
+  }
+
+  describe('parsePath', () => {
+    it('should parse JSONPath and dot-path notation', () => {
+      expect(parsePath('$.items[0].id')).toEqual([
+        { type: 'key', key: 'items' },
+        { type: 'index', index: 0 },
+        { type: 'key', key: 'id' },
+      ])
+      expect(parsePath('items.0.id')).toEqual([
+        { type: 'key', key: 'items' },
+        { type: 'key', key: '0' },
+        { type: 'key', key: 'id' },
+      ])
+      expect(parsePath('$[\'user-name\']')).toEqual([{ type: 'key', key: 'user-name' }])
+      expect(parsePath('items[*]')).toEqual([{ type: 'key', key: 'items' }, { type: 'wildcard' }])
+    })
+
+    it('should reject malformed paths', () => {
+      expect(() => parsePath('')).toThrow('Path is empty')
+      expect(() => parsePath('$..items')).toThrow('Empty key')
+      expect(() => parsePath('$.items[0')).toThrow('Unterminated bracket')
+      expect(() => parsePath('$.items[?(@.id)]')).toThrow('Unsupported bracket expression')
+      expect(isValidPath('$.items[1:2]')).toBe(false)
+      expect(isValidPath('$.message.text')).toBe(true)
+    })
+  })
+
+  describe('resolvePath', () => {
+    it('should resolve keys and indexes', () => {
+      expect(resolvePath(data, '$.message.text')).toBe('Hello')
+      expect(resolvePath(data, 'message.text')).toBe('Hello')
+      expect(resolvePath(data, '$.message["user-name"]')).toBe('jordan')
+      expect(resolvePath(data, '$.items[1].id')).toBe(2)
+      expect(resolvePath(data, 'items.1.id')).toBe(2)
+      expect(resolvePath(data, '$.items[-1].id')).toBe(3)
+      expect(resolvePath(data, '$')).toBe(data)
+    })
+
+    it('should return undefined for missing values', () => {
+      expect(resolvePath(data, '$.message.missing')).toBeUndefined()
+      expect(resolvePath(data, '$.items[10].id')).toBeUndefined()
+      expect(resolvePath(data, '$.message.text.length')).toBeUndefined()
+    })
+  })
+
+  describe('resolvePathAll', () => {
+    it('should fan out over wildcards', () => {
+      expect(resolvePathAll(data, '$.items[*].id')).toEqual([1, 2, 3])
+      expect(resolvePathAll(data, 'tags.*')).toEqual(['x', 'y'])
+      expect(resolvePathAll(data, '$.missing[*]')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { verifyLinearSignature } from '../linearSignature'
+
+describe('linearSignature', () => {
+  const TEST_SECRET = 'lin_wh_test_secret'
+
+  function buildBody(webhookTimestamp: number): string {
+    return JSON.stringify({ action: 'create', type: 'Comment', webhookTimestamp })
+  }
+
+  function sign(body: string, secret = TEST_SECRET): string {
+    return createHmac('sha256', secret).update(body).digest('hex')
+  }
+
+  describe('verifyLinearSignature', () => {
+    it('should verify valid signature', () => {
+      const timestamp = Date.now()
+      const body = buildBody(timestamp)
+
+      expect(verifyLinearSignature(body, sign(body), timestamp, TEST_SECRET)).toBe(true)
+    })
+
+    it('should reject signature created with a different secret', () => {
+      const timestamp = Date.now()
+      const body = buildBody(timestamp)
+
+      expect(verifyLinearSignature(body, sign(body, 'other'), timestamp, TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject tampered body', () => {
+      const timestamp = Date.now()
+      const signature = sign(buildBody(timestamp))
+      const tamperedBody = JSON.stringify({ action: 'remove', webhookTimestamp: timestamp })
+
+      expect(verifyLinearSignature(tamperedBody, signature, timestamp, TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject deliveries older than one minute', () => {
+      const timestamp = Date.now() - 2 * 60 * 1000
+      const body = buildBody(timestamp)
+
+      expect(verifyLinearSignature(body, sign(body), timestamp, TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject missing timestamp', () => {
+      const body = buildBody(Date.now())
+
+      expect(verifyLinearSignature(body, sign(body), undefined, TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject signature with wrong length', () => {
+      const timestamp = Date.now()
+
+      expect(verifyLinearSignature(buildBody(timestamp), 'abc', timestamp, TEST_SECRET)).toBe(false)
+    })
+  })
+})
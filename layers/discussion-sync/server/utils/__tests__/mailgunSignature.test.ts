@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { verifyMailgunSignature } from '../mailgunSignature'
+
+describe('mailgunSignature', () => {
+  const SECRET = 'mailgun-signing-key'
+  const TOKEN = 'a8ce0edb2dd8301dee6c2405235584e45aa91d1e9f979f3de0'
+
+  function sign(timestamp: string, token = TOKEN, secret = SECRET): string {
+    return createHmac('sha256', secret).update(`${timestamp}${token}`).digest('hex')
+  }
+
+  const now = () => Math.floor(Date.now() / 1000).toString()
+
+  it('should verify valid signature', () => {
+    const timestamp = now()
+
+    expect(verifyMailgunSignature({ timestamp, token: TOKEN, signature: sign(timestamp) }, SECRET)).toBe(true)
+  })
+
+  it('should reject signature created with a different key', () => {
+    const timestamp = now()
+
+    expect(verifyMailgunSignature({ timestamp, token: TOKEN, signature: sign(timestamp, TOKEN, 'other') }, SECRET)).toBe(false)
+  })
+
+  it('should reject old timestamps', () => {
+    const timestamp = (Math.floor(Date.now() / 1000) - 16 * 60).toString()
+
+    expect(verifyMailgunSignature({ timestamp, token: TOKEN, signature: sign(timestamp) }, SECRET)).toBe(false)
+  })
+
+  it('should reject missing fields', () => {
+    expect(verifyMailgunSignature({ timestamp: now(), token: TOKEN }, SECRET)).toBe(false)
+  })
+})
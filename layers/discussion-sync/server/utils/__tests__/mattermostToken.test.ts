@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { verifyMattermostToken } from '../mattermostToken'
+
+describe('mattermostToken', () => {
+  describe('verifyMattermostToken', () => {
+    it('should accept matching token', () => {
+      expect(verifyMattermostToken('7x3kq9mhbjgdfp1ouyzo4tjs4r', '7x3kq9mhbjgdfp1ouyzo4tjs4r')).toBe(true)
+    })
+
+    it('should reject different token', () => {
+      expect(verifyMattermostToken('7x3kq9mhbjgdfp1ouyzo4tjs4x', '7x3kq9mhbjgdfp1ouyzo4tjs4r')).toBe(false)
+    })
+
+    it('should reject token of different length', () => {
+      expect(verifyMattermostToken('7x3kq9', '7x3kq9mhbjgdfp1ouyzo4tjs4r')).toBe(false)
+    })
+
+    it('should reject missing token', () => {
+      expect(verifyMattermostToken(undefined, '7x3kq9mhbjgdfp1ouyzo4tjs4r')).toBe(false)
+      expect(verifyMattermostToken('', '')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SLACK_APPROVAL_ACTIONS,
+  SLACK_EDIT_TASKS_CALLBACK_ID,
+  buildApprovalDecisionMessage,
+  buildApprovalMessage,
+  buildEditTasksView,
+  isSlackApprovalAction,
+  parseEditTasksSubmission,
+} from '../slackApproval'
+import type { SlackViewSubmission } from '../slackApproval'
+
+describe('slackApproval', () => {
+  const request = {
+    jobId: 'job-1',
+    summary: 'The export dialog needs better error handling.',
+    tasks: [
+      { title: 'Add retry button', description: 'Retry failed exports', priority: 'high' },
+      { title: 'Log export errors', priority: 'low' },
+    ],
+  }
+
+  describe('buildApprovalMessage', () => {
+    it('should list the tasks with approve, edit and discard buttons', () => {
+      const { text, blocks } = buildApprovalMessage(request)
+
+      expect(text).toContain('2 tasks')
+      expect(JSON.stringify(blocks)).toContain('*1. Add retry button*')
+      expect(JSON.stringify(blocks)).toContain('Retry failed exports')
+      expect(JSON.stringify(blocks)).toContain('The export dialog needs better error handling.')
+
+      const actions = blocks.find(block => block.type === 'actions') as any
+      expect(actions.elements.map((element: any) => element.action_id)).toEqual([
+        SLACK_APPROVAL_ACTIONS.APPROVE,
+        SLACK_APPROVAL_ACTIONS.EDIT,
+        SLACK_APPROVAL_ACTIONS.DISCARD,
+      ])
+      expect(actions.elements.every((element: any) => element.value === 'job-1')).toBe(true)
+    })
+
+    it('should truncate long descriptions', () => {
+      const { blocks } = buildApprovalMessage({
+        jobId: 'job-1',
+        tasks: [{ title: 'Long', description: 'x'.repeat(2000) }],
+      })
+
+      const section = blocks[1] as any
+      expect(section.text.text.length).toBeLessThan(600)
+      expect(section.text.text.endsWith('…')).toBe(true)
+    })
+
+    it('should name the task destination', () => {
+      const { blocks } = buildApprovalMessage({ ...request, destination: 'Linear' })
+
+      expect(JSON.stringify(blocks)).toContain('before they are created in Linear')
+    })
+  })
+
+  describe('buildApprovalDecisionMessage', () => {
+    it('should describe who decided', () => {
+      expect(buildApprovalDecisionMessage('approved', 'U123', 2).text).toContain('<@U123> approved 2 tasks')
+      expect(buildApprovalDecisionMessage('discarded', 'U123', 1).text).toContain('<@U123> discarded')
+    })
+  })
+
+  describe('isSlackApprovalAction', () => {
+    it('should only accept approval action IDs', () => {
+      expect(isSlackApprovalAction('discubot_approve')).toBe(true)
+      expect(isSlackApprovalAction('other_action')).toBe(false)
+      expect(isSlackApprovalAction(undefined)).toBe(false)
+    })
+  })
+
+  describe('edit tasks modal', () => {
+    it('should prefill an input per task field', () => {
+      const view = buildEditTasksView(request, 'https://hooks.slack.com/actions/1') as any
+
+      expect(view.callback_id).toBe(SLACK_EDIT_TASKS_CALLBACK_ID)
+      expect(JSON.parse(view.private_metadata)).toEqual({
+        jobId: 'job-1',
+        responseUrl: 'https://hooks.slack.com/actions/1',
+      })
+      expect(view.blocks.map((block: any) => block.block_id)).toEqual([
+        'task_0_title',
+        'task_0_description',
+        'task_1_title',
+        'task_1_description',
+      ])
+      expect(view.blocks[0].element.initial_value).toBe('Add retry button')
+      expect(view.blocks[3].element.initial_value).toBeUndefined()
+    })
+
+    it('should read edited tasks and drop cleared ones', () => {
+      const view: SlackViewSubmission = {
+        callback_id: SLACK_EDIT_TASKS_CALLBACK_ID,
+        private_metadata: JSON.stringify({ jobId: 'job-1', responseUrl: 'https://hooks.slack.com/actions/1' }),
+        state: {
+          values: {
+            task_0_title: { value: { type: 'plain_text_input', value: '' } },
+            task_0_description: { value: { type: 'plain_text_input', value: 'Retry failed exports' } },
+            task_1_title: { value: { type: 'plain_text_input', value: ' Log export errors to Sentry ' } },
+            task_1_description: { value: { type: 'plain_text_input', value: null } },
+          },
+        },
+      }
+
+      expect(parseEditTasksSubmission(view)).toEqual({
+        jobId: 'job-1',
+        responseUrl: 'https://hooks.slack.com/actions/1',
+        tasks: [{ index: 1, title: 'Log export errors to Sentry', description: '' }],
+      })
+    })
+
+    it('should throw without a job ID', () => {
+      expect(() => parseEditTasksSubmission({
+        callback_id: SLACK_EDIT_TASKS_CALLBACK_ID,
+        private_metadata: '',
+        state: { values: {} },
+      })).toThrow('no job ID')
+    })
+  })
+})
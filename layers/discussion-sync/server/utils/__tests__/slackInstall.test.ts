@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const mockFetch = vi.fn()
+const kvStore = new Map<string, unknown>()
+const mockKvSet = vi.fn(async (key: string, value: unknown) => {
+  kvStore.set(key, value)
+})
+
+vi.stubGlobal('$fetch', mockFetch)
+vi.stubGlobal('hubKV', () => ({
+  get: async (key: string) => kvStore.get(key) ?? null,
+  set: mockKvSet,
+  del: async (key: string) => {
+    kvStore.delete(key)
+  },
+}))
+
+const {
+  buildInstallationMetadata,
+  buildSlackAuthorizeUrl,
+  consumeInstallState,
+  createInstallState,
+  exchangeSlackOAuthCode,
+  isRevokedInstallation,
+} = await import('../slackInstall')
+
+const installation = {
+  ok: true,
+  access_token: 'xoxb-token',
+  token_type: 'bot',
+  scope: 'chat:write,commands',
+  bot_user_id: 'U0BOT',
+  app_id: 'A123',
+  team: { id: 'T123', name: 'Acme' },
+  enterprise: { id: 'E123', name: 'Acme Corp' },
+  is_enterprise_install: false,
+  authed_user: { id: 'U123' },
+}
+
+describe('slackInstall', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    kvStore.clear()
+  })
+
+  describe('buildSlackAuthorizeUrl', () => {
+    it('should request the bot scopes with the state', () => {
+      const url = new URL(buildSlackAuthorizeUrl({
+        clientId: '123.456',
+        redirectUri: 'https://app.example.com/api/oauth/slack/callback',
+        state: 'state-1',
+      }))
+
+      expect(url.origin + url.pathname).toBe('https://slack.com/oauth/v2/authorize')
+      expect(url.searchParams.get('client_id')).toBe('123.456')
+      expect(url.searchParams.get('redirect_uri')).toBe('https://app.example.com/api/oauth/slack/callback')
+      expect(url.searchParams.get('state')).toBe('state-1')
+      expect(url.searchParams.get('scope')?.split(',')).toContain('app_mentions:read')
+    })
+  })
+
+  describe('install state', () => {
+    it('should be consumed only once', async () => {
+      const state = { teamId: 'team-1', userId: 'user-1', redirectTo: '/dashboard' }
+      const key = await createInstallState(state)
+
+      expect(mockKvSet).toHaveBeenCalledWith(expect.stringContaining(key), state, { ttl: 600 })
+      expect(await consumeInstallState(key)).toEqual(state)
+      expect(await consumeInstallState(key)).toBeNull()
+    })
+
+    it('should return null without a key', async () => {
+      expect(await consumeInstallState(undefined)).toBeNull()
+    })
+  })
+
+  describe('exchangeSlackOAuthCode', () => {
+    const options = {
+      clientId: '123.456',
+      clientSecret: 'secret',
+      code: 'code-1',
+      redirectUri: 'https://app.example.com/api/oauth/slack/callback',
+    }
+
+    it('should exchange the code for a bot token', async () => {
+      mockFetch.mockResolvedValueOnce(installation)
+
+      await expect(exchangeSlackOAuthCode(options)).resolves.toEqual(installation)
+
+      const [url, request] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://slack.com/api/oauth.v2.access')
+      expect(new URLSearchParams(request.body).get('code')).toBe('code-1')
+    })
+
+    it('should throw on Slack errors', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, error: 'invalid_code' })
+
+      await expect(exchangeSlackOAuthCode(options)).rejects.toThrow('invalid_code')
+    })
+
+    it('should reject org-wide installs', async () => {
+      mockFetch.mockResolvedValueOnce({ ...installation, team: null, is_enterprise_install: true })
+
+      await expect(exchangeSlackOAuthCode(options)).rejects.toThrow('Org-wide installs')
+    })
+  })
+
+  describe('buildInstallationMetadata', () => {
+    it('should record the workspace and enterprise', () => {
+      const metadata = buildInstallationMetadata(installation, {
+        triggerEmoji: 'notion',
+        uninstalledAt: '2026-01-01T00:00:00.000Z',
+        uninstallReason: 'app_uninstalled',
+      })
+
+      expect(metadata).toMatchObject({
+        triggerEmoji: 'notion',
+        workspaceId: 'T123',
+        workspaceName: 'Acme',
+        enterpriseId: 'E123',
+        botUserId: 'U0BOT',
+        scopes: ['chat:write', 'commands'],
+        installedBy: 'U123',
+      })
+      expect(metadata).not.toHaveProperty('uninstalledAt')
+      expect(metadata).not.toHaveProperty('uninstallReason')
+    })
+
+    it('should store a null enterprise outside Enterprise Grid', () => {
+      expect(buildInstallationMetadata({ ...installation, enterprise: null }, null).enterpriseId).toBeNull()
+    })
+  })
+
+  describe('isRevokedInstallation', () => {
+    const config = { sourceMetadata: { workspaceId: 'T123', botUserId: 'U0BOT' } }
+
+    it('should always apply app_uninstalled', () => {
+      expect(isRevokedInstallation(config, 'app_uninstalled')).toBe(true)
+    })
+
+    it('should apply tokens_revoked only for the config bot user', () => {
+      expect(isRevokedInstallation(config, 'tokens_revoked', ['U0BOT'])).toBe(true)
+      expect(isRevokedInstallation(config, 'tokens_revoked', ['U0OTHER'])).toBe(false)
+      expect(isRevokedInstallation(config, 'tokens_revoked', [])).toBe(false)
+    })
+
+    it('should apply tokens_revoked to configs set up with a pasted token', () => {
+      expect(isRevokedInstallation({ sourceMetadata: { workspaceId: 'T123' } }, 'tokens_revoked', ['U0BOT'])).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getReactionTriggerSettings,
+  matchesReactionTrigger,
+  normalizeEmojiName,
+} from '../slackReactionTrigger'
+import type { SlackReactionAddedEvent } from '../slackReactionTrigger'
+
+describe('slackReactionTrigger', () => {
+  const reaction: SlackReactionAddedEvent = {
+    type: 'reaction_added',
+    user: 'U456REACTOR',
+    reaction: 'notion',
+    item_user: 'U123AUTHOR',
+    item: {
+      type: 'message',
+      channel: 'C123CHANNEL',
+      ts: '1700000123.000200',
+    },
+    event_ts: '1700000456.000100',
+  }
+
+  describe('normalizeEmojiName', () => {
+    it('should strip colons and skin tones', () => {
+      expect(normalizeEmojiName(':notion:')).toBe('notion')
+      expect(normalizeEmojiName('thumbsup::skin-tone-2')).toBe('thumbsup')
+      expect(normalizeEmojiName(' :Memo: ')).toBe('memo')
+    })
+  })
+
+  describe('getReactionTriggerSettings', () => {
+    it('should read emoji and channels from metadata', () => {
+      expect(getReactionTriggerSettings({
+        triggerEmoji: ':notion:',
+        triggerChannels: ['C123CHANNEL', '', 42],
+      })).toEqual({
+        emoji: 'notion',
+        channels: ['C123CHANNEL'],
+      })
+    })
+
+    it('should disable the trigger without an emoji', () => {
+      expect(getReactionTriggerSettings({})).toEqual({ emoji: null, channels: [] })
+      expect(getReactionTriggerSettings(null)).toEqual({ emoji: null, channels: [] })
+      expect(getReactionTriggerSettings({ triggerEmoji: '::' }).emoji).toBeNull()
+    })
+  })
+
+  describe('matchesReactionTrigger', () => {
+    it('should match the configured emoji in any channel', () => {
+      expect(matchesReactionTrigger(reaction, { emoji: 'notion', channels: [] })).toBe(true)
+    })
+
+    it('should match emoji with a skin tone', () => {
+      const event = { ...reaction, reaction: 'raised_hands::skin-tone-3' }
+      expect(matchesReactionTrigger(event, { emoji: 'raised_hands', channels: [] })).toBe(true)
+    })
+
+    it('should not match other emoji', () => {
+      const event = { ...reaction, reaction: 'eyes' }
+      expect(matchesReactionTrigger(event, { emoji: 'notion', channels: [] })).toBe(false)
+    })
+
+    it('should only match allowed channels', () => {
+      expect(matchesReactionTrigger(reaction, { emoji: 'notion', channels: ['C123CHANNEL'] })).toBe(true)
+      expect(matchesReactionTrigger(reaction, { emoji: 'notion', channels: ['C999OTHER'] })).toBe(false)
+    })
+
+    it('should not match when the trigger is disabled', () => {
+      expect(matchesReactionTrigger(reaction, { emoji: null, channels: [] })).toBe(false)
+    })
+
+    it('should not match reactions on files', () => {
+      const event = { ...reaction, item: { type: 'file' } }
+      expect(matchesReactionTrigger(event, { emoji: 'notion', channels: [] })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createHmac } from 'node:crypto'
+
+const mockParseIncoming = vi.fn()
+const mockWhere = vi.fn()
+const mockGet = vi.fn()
+const mockFindExistingDiscussion = vi.fn()
+const mockCreateDiscussionRecord = vi.fn()
+const mockQueueProcessing = vi.fn()
+
+vi.mock('../../adapters/base', () => ({
+  getAdapter: () => ({ parseIncoming: mockParseIncoming }),
+}))
+
+vi.mock('~~/server/database', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: (where: unknown) => {
+          mockWhere(where)
+          return { get: mockGet }
+        },
+      }),
+    }),
+  },
+}))
+
+// Columns are referenced as "sourceconfigs.<column>"
+vi.mock('~~/server/database/schema', () => ({
+  discussionSyncSourceconfigs: new Proxy({}, {
+    get: (_target, column) => `sourceconfigs.${String(column)}`,
+  }),
+}))
+
+vi.mock('drizzle-orm', () => ({
+  and: (...conditions: unknown[]) => ({ and: conditions }),
+  eq: (column: unknown, value: unknown) => ({ eq: [column, value] }),
+}))
+
+vi.mock('../discussionIngestion', () => ({
+  findExistingDiscussion: mockFindExistingDiscussion,
+  createDiscussionRecord: mockCreateDiscussionRecord,
+  queueProcessing: mockQueueProcessing,
+}))
+
+const {
+  createSlackDiscussion,
+  findSlackSourceConfig,
+  parseSlackPermalink,
+  readVerifiedSlackBody,
+  sendEphemeralResponse,
+} = await import('../slackRequest')
+
+const TEST_SECRET = 'test-signing-secret'
+
+function sign(body: string, timestamp: string): string {
+  return `v0=${createHmac('sha256', TEST_SECRET).update(`v0:${timestamp}:${body}`).digest('hex')}`
+}
+
+describe('slackRequest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubGlobal('useRuntimeConfig', () => ({ slackSigningSecret: TEST_SECRET, public: {} }))
+    vi.stubGlobal('createError', (error: any) => error)
+  })
+
+  describe('parseSlackPermalink', () => {
+    it('should parse a message link', () => {
+      expect(parseSlackPermalink('https://acme.slack.com/archives/C123ABC/p1700000123000200')).toEqual({
+        channelId: 'C123ABC',
+        messageTs: '1700000123.000200',
+      })
+    })
+
+    it('should parse a reply link escaped by Slack', () => {
+      const text = '<https://acme.slack.com/archives/C123ABC/p1700000123000200?thread_ts=1700000100.000100&cid=C123ABC|link>'
+      expect(parseSlackPermalink(text)).toEqual({
+        channelId: 'C123ABC',
+        messageTs: '1700000123.000200',
+      })
+    })
+
+    it('should return null for other text', () => {
+      expect(parseSlackPermalink('summarize please')).toBeNull()
+      expect(parseSlackPermalink('https://example.com/archives/foo')).toBeNull()
+    })
+  })
+
+  describe('readVerifiedSlackBody', () => {
+    const body = 'command=%2Fdiscubot&text=status'
+
+    function stubRequest(headers: Record<string, string>) {
+      vi.stubGlobal('getHeader', (_event: unknown, name: string) => headers[name])
+      vi.stubGlobal('readRawBody', vi.fn().mockResolvedValue(body))
+    }
+
+    it('should return the body when the signature is valid', async () => {
+      const timestamp = Math.floor(Date.now() / 1000).toString()
+      stubRequest({
+        'x-slack-request-timestamp': timestamp,
+        'x-slack-signature': sign(body, timestamp),
+      })
+
+      await expect(readVerifiedSlackBody({} as any, '[Test]')).resolves.toBe(body)
+    })
+
+    it('should reject invalid signatures', async () => {
+      stubRequest({
+        'x-slack-request-timestamp': Math.floor(Date.now() / 1000).toString(),
+        'x-slack-signature': 'v0=invalid',
+      })
+
+      await expect(readVerifiedSlackBody({} as any, '[Test]')).rejects.toMatchObject({ statusCode: 401 })
+    })
+
+    it('should reject requests without signature headers', async () => {
+      stubRequest({})
+
+      await expect(readVerifiedSlackBody({} as any, '[Test]')).rejects.toMatchObject({ statusCode: 401 })
+    })
+  })
+
+  describe('findSlackSourceConfig', () => {
+    it('should query the active config by its Slack team ID', async () => {
+      mockGet.mockResolvedValue({ id: 'config-2', slackTeamId: 'T123ABC' })
+
+      const config = await findSlackSourceConfig('T123ABC')
+
+      expect(config?.id).toBe('config-2')
+      expect(mockWhere).toHaveBeenCalledWith({
+        and: [
+          { eq: ['sourceconfigs.sourceId', 'slack'] },
+          { eq: ['sourceconfigs.active', true] },
+          { eq: ['sourceconfigs.slackTeamId', 'T123ABC'] },
+        ],
+      })
+    })
+  })
+
+  describe('createSlackDiscussion', () => {
+    const config = { id: 'config-1', teamId: 'team-1' } as any
+    const payload = {
+      type: 'message_action',
+      token: 'verification-token',
+      response_url: 'https://hooks.slack.com/app/1',
+      callback_id: 'send_to_notion',
+    } as any
+
+    beforeEach(() => {
+      mockParseIncoming.mockResolvedValue({ sourceThreadId: '1700000100.000100' })
+    })
+
+    it('should create the discussion and queue it for processing', async () => {
+      mockFindExistingDiscussion.mockResolvedValue(undefined)
+      mockCreateDiscussionRecord.mockResolvedValue({ id: 'discussion-1' })
+
+      const result = await createSlackDiscussion(payload, config, { createdBy: 'slack-shortcut', logPrefix: '[Test]' })
+
+      expect(result).toEqual({ discussion: { id: 'discussion-1' }, duplicate: false })
+      expect(mockFindExistingDiscussion).toHaveBeenCalledWith('team-1', 'slack', '1700000100.000100')
+      expect(mockCreateDiscussionRecord).toHaveBeenCalledWith(
+        { sourceThreadId: '1700000100.000100' },
+        config,
+        {
+          createdBy: 'slack-shortcut',
+          rawPayload: { type: 'message_action', callback_id: 'send_to_notion' },
+        },
+      )
+      expect(mockQueueProcessing).toHaveBeenCalledWith({ id: 'discussion-1' }, '[Test]')
+    })
+
+    it('should return the existing discussion for a thread already sent', async () => {
+      mockFindExistingDiscussion.mockResolvedValue({ id: 'existing-1' })
+
+      const result = await createSlackDiscussion(payload, config, { createdBy: 'slack-shortcut', logPrefix: '[Test]' })
+
+      expect(result).toEqual({ discussion: { id: 'existing-1' }, duplicate: true })
+      expect(mockCreateDiscussionRecord).not.toHaveBeenCalled()
+      expect(mockQueueProcessing).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('sendEphemeralResponse', () => {
+    it('should post an ephemeral message to the response URL', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({})
+      vi.stubGlobal('$fetch', mockFetch)
+
+      await sendEphemeralResponse('https://hooks.slack.com/app/1', 'Done', '[Test]')
+
+      expect(mockFetch).toHaveBeenCalledWith('https://hooks.slack.com/app/1', {
+        method: 'POST',
+        body: { response_type: 'ephemeral', replace_original: false, text: 'Done' },
+      })
+    })
+
+    it('should not throw when the response URL fails', async () => {
+      vi.stubGlobal('$fetch', vi.fn().mockRejectedValue(new Error('expired_url')))
+
+      await expect(sendEphemeralResponse('https://hooks.slack.com/app/1', 'Done', '[Test]')).resolves.toBeUndefined()
+    })
+  })
+})
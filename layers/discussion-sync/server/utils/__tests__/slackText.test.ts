@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  SlackNameResolver,
+  clearSlackNameCache,
+  extractSlackReferences,
+  formatSlackText,
+  getSlackDisplayName,
+} from '../slackText'
+
+const names = {
+  users: { U123: 'Jane Doe' },
+  channels: { C456: 'design' },
+}
+
+describe('slackText', () => {
+  describe('formatSlackText', () => {
+    it('should replace user mentions with display names', () => {
+      expect(formatSlackText('<@U123> and <@U999|jo>', names)).toBe('@Jane Doe and @jo')
+    })
+
+    it('should replace channel mentions with channel names', () => {
+      expect(formatSlackText('See <#C456> and <#C999|random>', names)).toBe('See #design and #random')
+    })
+
+    it('should format special mentions', () => {
+      expect(formatSlackText('<!here> <!channel> <!subteam^S123|@devs> <!date^1700000000^{date}|Nov 14>', names))
+        .toBe('@here @channel @devs Nov 14')
+    })
+
+    it('should turn links into Markdown links', () => {
+      expect(formatSlackText('<https://example.com|Example> <https://example.com/a>', names))
+        .toBe('[Example](https://example.com) https://example.com/a')
+    })
+
+    it('should unwrap mailto links', () => {
+      expect(formatSlackText('<mailto:jane@example.com|jane@example.com>', names)).toBe('jane@example.com')
+    })
+
+    it('should unescape HTML entities after formatting', () => {
+      expect(formatSlackText('a &lt;b&gt; &amp;amp; <@U123>', names)).toBe('a <b> &amp; @Jane Doe')
+    })
+  })
+
+  describe('extractSlackReferences', () => {
+    it('should collect unique user and channel IDs', () => {
+      expect(extractSlackReferences('<@U1> <@U1> <#C1|general> <https://example.com>')).toEqual({
+        userIds: ['U1'],
+        channelIds: ['C1'],
+      })
+    })
+  })
+
+  describe('getSlackDisplayName', () => {
+    it('should prefer the display name', () => {
+      expect(getSlackDisplayName({
+        id: 'U1',
+        name: 'jane',
+        real_name: 'Jane Doe',
+        profile: { display_name: 'jd', real_name: 'Jane Doe' },
+      })).toBe('jd')
+    })
+
+    it('should fall back to the real name', () => {
+      expect(getSlackDisplayName({
+        id: 'U1',
+        name: 'jane',
+        real_name: 'Jane Doe',
+        profile: { display_name: '', real_name: 'Jane Doe' },
+      })).toBe('Jane Doe')
+    })
+  })
+
+  describe('SlackNameResolver', () => {
+    const getUserInfo = vi.fn()
+    const getChannelInfo = vi.fn()
+    const service = { getUserInfo, getChannelInfo } as any
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      clearSlackNameCache()
+      getUserInfo.mockResolvedValue({ id: 'U1', name: 'jane', real_name: 'Jane Doe', profile: { display_name: '', real_name: 'Jane Doe' } })
+      getChannelInfo.mockResolvedValue({ id: 'C1', name: 'general' })
+    })
+
+    it('should cache names per workspace', async () => {
+      await new SlackNameResolver(service, 'T1').getUserName('U1')
+      await new SlackNameResolver(service, 'T1').getUserName('U1')
+      await new SlackNameResolver(service, 'T2').getUserName('U1')
+
+      expect(getUserInfo).toHaveBeenCalledTimes(2)
+    })
+
+    it('should resolve names for references', async () => {
+      const resolved = await new SlackNameResolver(service, 'T1').resolveNames({ userIds: ['U1'], channelIds: ['C1'] })
+
+      expect(resolved).toEqual({ users: { U1: 'Jane Doe' }, channels: { C1: 'general' } })
+    })
+
+    it('should not cache failed lookups', async () => {
+      getChannelInfo.mockRejectedValueOnce(new Error('channel_not_found'))
+      const resolver = new SlackNameResolver(service, 'T1')
+
+      expect(await resolver.getChannelName('C1')).toBe('C1')
+      expect(await resolver.getChannelName('C1')).toBe('general')
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { buildTaskAdf } from '../taskAdf'
+
+describe('buildTaskAdf', () => {
+  it('should include description, AI summary, attachments and the source link', () => {
+    const document = buildTaskAdf({
+      title: 'Rotate certificates',
+      description: 'Certificates expire Friday.\nAll regions.\n\nOwner: ops',
+      sourceUrl: 'https://acme.slack.com/archives/C1/p1',
+      aiSummary: {
+        summary: 'Certificates need rotating.',
+        keyPoints: ['Expires Friday'],
+        suggestedActions: ['Rotate in staging first'],
+        cached: false,
+      },
+      attachments: [
+        { id: 'f1', type: 'file', url: 'https://app.example.com/images/certs.txt', name: 'certs.txt' },
+      ],
+    })
+
+    expect(document).toEqual({
+      type: 'doc',
+      version: 1,
+      content: [
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Certificates expire Friday.' },
+            { type: 'hardBreak' },
+            { type: 'text', text: 'All regions.' },
+          ],
+        },
+        { type: 'paragraph', content: [{ type: 'text', text: 'Owner: ops' }] },
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: '🤖 AI Summary' }] },
+        { type: 'paragraph', content: [{ type: 'text', text: 'Certificates need rotating.' }] },
+        { type: 'paragraph', content: [{ type: 'text', text: 'Key points', marks: [{ type: 'strong' }] }] },
+        {
+          type: 'bulletList',
+          content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Expires Friday' }] }] }],
+        },
+        { type: 'paragraph', content: [{ type: 'text', text: 'Suggested actions', marks: [{ type: 'strong' }] }] },
+        {
+          type: 'bulletList',
+          content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Rotate in staging first' }] }] }],
+        },
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: '📎 Attachments' }] },
+        {
+          type: 'bulletList',
+          content: [{
+            type: 'listItem',
+            content: [{
+              type: 'paragraph',
+              content: [{
+                type: 'text',
+                text: 'certs.txt',
+                marks: [{ type: 'link', attrs: { href: 'https://app.example.com/images/certs.txt' } }],
+              }],
+            }],
+          }],
+        },
+        { type: 'rule' },
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: '🔗 ' },
+            {
+              type: 'text',
+              text: 'View source discussion',
+              marks: [{ type: 'link', attrs: { href: 'https://acme.slack.com/archives/C1/p1' } }],
+            },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('should return an empty document without content', () => {
+    expect(buildTaskAdf({ title: 'Only a title' })).toEqual({ type: 'doc', version: 1, content: [] })
+  })
+})
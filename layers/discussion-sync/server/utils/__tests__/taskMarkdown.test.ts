@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { buildTaskMarkdown } from '../taskMarkdown'
+
+describe('buildTaskMarkdown', () => {
+  it('should include description, AI summary, attachments and the source link', () => {
+    const markdown = buildTaskMarkdown({
+      title: 'Fix export',
+      description: 'Exports fail for large files.',
+      sourceUrl: 'https://acme.slack.com/archives/C1/p1',
+      sourceThreadId: 'C1:1',
+      aiSummary: {
+        summary: 'Large exports time out.',
+        keyPoints: ['Fails above 50 MB'],
+        suggestedActions: ['Stream the export'],
+        cached: false,
+      },
+      attachments: [
+        { id: 'f1', type: 'image', url: 'https://app.example.com/images/shot.png', name: 'shot.png' },
+        { id: 'f2', type: 'file', url: 'https://app.example.com/images/log.txt', name: 'log.txt' },
+      ],
+    })
+
+    expect(markdown).toBe([
+      'Exports fail for large files.',
+      '## 🤖 AI Summary\n\nLarge exports time out.\n\n**Key points**\n\n- Fails above 50 MB\n\n**Suggested actions**\n\n- Stream the export',
+      '## 📎 Attachments\n\n![shot.png](https://app.example.com/images/shot.png)\n- [log.txt](https://app.example.com/images/log.txt)',
+      '---\n\n🔗 [View source discussion](https://acme.slack.com/archives/C1/p1)',
+    ].join('\n\n'))
+  })
+
+  it('should skip empty sections', () => {
+    expect(buildTaskMarkdown({ title: 'Only a title' })).toBe('')
+  })
+
+  it('should add the transcript when asked for', () => {
+    const task = {
+      title: 'Fix export',
+      sourceUrl: 'https://acme.slack.com/archives/C1/p1',
+      transcript: [
+        { id: '1', authorHandle: 'ada', content: 'Exports fail.\nOnly large ones.', timestamp: new Date('2025-11-03T09:00:00Z') },
+        // Timestamps are strings after a JSON round trip
+        { id: '2', authorHandle: 'sam', content: 'Confirmed', timestamp: '2025-11-03T09:30:00.000Z' as unknown as Date },
+      ],
+    }
+
+    expect(buildTaskMarkdown(task)).not.toContain('Thread')
+    expect(buildTaskMarkdown(task, { transcript: true })).toBe([
+      '## 💬 Thread',
+      '<details>\n<summary>2 messages</summary>',
+      '**ada** · 2025-11-03 09:00 UTC\n\n> Exports fail.\n> Only large ones.',
+      '**sam** · 2025-11-03 09:30 UTC\n\n> Confirmed',
+      '</details>',
+      '---\n\n🔗 [View source discussion](https://acme.slack.com/archives/C1/p1)',
+    ].join('\n\n'))
+  })
+})
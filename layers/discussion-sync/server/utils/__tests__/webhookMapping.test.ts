@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import { applyWebhookMapping, validateWebhookMapping } from '../webhookMapping'
+import formSubmission from '../../adapters/__tests__/fixtures/generic-webhook/form-submission.json'
+
+describe('webhookMapping', () => {
+  const mapping = {
+    sourceThreadId: '$.submission.id',
+    content: ['$.submission.answers.message', '$.submission.answers.details'],
+    title: '$.submission.answers.summary',
+    authorHandle: '$.submission.respondent.name',
+    sourceUrl: '$.submission.url',
+    timestamp: '$.submission.submitted_at',
+    replies: {
+      path: '$.comments[*]',
+      id: 'id',
+      authorHandle: 'author',
+      content: 'body',
+      timestamp: 'created_at',
+    },
+    metadata: {
+      formId: '$.form.id',
+      severity: 'submission.answers.severity',
+    },
+  }
+
+  describe('validateWebhookMapping', () => {
+    it('should accept a complete mapping', () => {
+      expect(validateWebhookMapping(mapping)).toEqual([])
+    })
+
+    it('should require sourceThreadId and content', () => {
+      expect(validateWebhookMapping({ title: '$.title' })).toEqual([
+        'Field mapping for "sourceThreadId" is required',
+        'Field mapping for "content" is required',
+      ])
+    })
+
+    it('should report invalid paths and shapes', () => {
+      const errors = validateWebhookMapping({
+        sourceThreadId: '$..id',
+        content: 42,
+        replies: { content: 'body' },
+        metadata: { formId: '$.form[' },
+      })
+
+      expect(errors).toContain('Invalid path for "sourceThreadId": $..id')
+      expect(errors).toContain('Field mapping for "content" must be a path or a list of paths')
+      expect(errors).toContain('Field mapping for "replies.path" must be a single path')
+      expect(errors).toContain('Invalid path for "metadata.formId": $.form[')
+    })
+
+    it('should reject non-object mappings', () => {
+      expect(validateWebhookMapping(undefined)).toEqual(['Field mapping must be an object'])
+      expect(validateWebhookMapping(['$.id'])).toEqual(['Field mapping must be an object'])
+    })
+  })
+
+  describe('applyWebhookMapping', () => {
+    it('should map a payload onto discussion fields', () => {
+      const { mapped, errors } = applyWebhookMapping(formSubmission, mapping)
+
+      expect(errors).toEqual([])
+      expect(mapped).toMatchObject({
+        sourceThreadId: 'sub_8f3k2',
+        title: 'Export to CSV drops the last row',
+        content: 'When exporting a report with more than 100 rows, the CSV is missing the final row.',
+        authorHandle: 'Jordan Reyes',
+        sourceUrl: 'https://forms.acme.internal/frm_feedback/submissions/sub_8f3k2',
+        participants: ['Jordan Reyes', 'Sam Okafor'],
+        metadata: { formId: 'frm_feedback', severity: 'high' },
+      })
+      expect(mapped?.timestamp).toEqual(new Date(1762960800 * 1000))
+    })
+
+    it('should map replies and skip empty ones', () => {
+      const { mapped } = applyWebhookMapping(formSubmission, mapping)
+
+      expect(mapped?.replies).toEqual([
+        {
+          id: 'c1',
+          authorHandle: 'Sam Okafor',
+          content: 'Reproduced on the staging environment.',
+          timestamp: '2025-11-12T16:05:20.000Z',
+        },
+      ])
+    })
+
+    it('should accept a replies path pointing at the array itself', () => {
+      const { mapped } = applyWebhookMapping(formSubmission, {
+        ...mapping,
+        replies: { path: 'comments', content: 'body' },
+      })
+
+      expect(mapped?.replies[0]).toMatchObject({ id: 'sub_8f3k2-reply-1', authorHandle: 'webhook' })
+    })
+
+    it('should fall back to defaults for optional fields', () => {
+      const { mapped } = applyWebhookMapping(
+        { id: 42, text: `${'A very long first line '.repeat(5)}\nsecond line` },
+        { sourceThreadId: '$.id', content: '$.text' },
+      )
+
+      expect(mapped?.sourceThreadId).toBe('42')
+      expect(mapped?.authorHandle).toBe('webhook')
+      expect(mapped?.sourceUrl).toBe('')
+      expect(mapped?.title).toHaveLength(80)
+      expect(mapped?.title.endsWith('...')).toBe(true)
+      expect(mapped?.replies).toEqual([])
+    })
+
+    it('should report missing required values', () => {
+      const { mapped, errors } = applyWebhookMapping({ submission: {} }, mapping)
+
+      expect(mapped).toBeNull()
+      expect(errors).toEqual([
+        'No value found for "sourceThreadId" at $.submission.id',
+        'No value found for "content" at $.submission.answers.message, $.submission.answers.details',
+      ])
+    })
+
+    it('should report unparsable timestamps', () => {
+      const { errors } = applyWebhookMapping(
+        { id: '1', text: 'Hello', at: 'next tuesday' },
+        { sourceThreadId: '$.id', content: '$.text', timestamp: '$.at' },
+      )
+
+      expect(errors).toEqual(['Value at $.at is not a valid timestamp'])
+    })
+
+    it('should report invalid mappings', () => {
+      const { mapped, errors } = applyWebhookMapping(formSubmission, { content: '$.text' })
+
+      expect(mapped).toBeNull()
+      expect(errors).toEqual(['Field mapping for "sourceThreadId" is required'])
+    })
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { computeWebhookSignature, verifyWebhookSignature } from '../webhookSignature'
+
+describe('webhookSignature', () => {
+  const SECRET = 'generic-webhook-secret'
+  const TEST_BODY = JSON.stringify({ submission: { id: 'sub_1' } })
+  const hex = createHmac('sha256', SECRET).update(TEST_BODY).digest('hex')
+
+  it('should compute sha256= prefixed signature', () => {
+    expect(computeWebhookSignature(TEST_BODY, SECRET)).toBe(`sha256=${hex}`)
+  })
+
+  it('should accept prefixed and bare hex signatures', () => {
+    expect(verifyWebhookSignature(TEST_BODY, `sha256=${hex}`, SECRET)).toBe(true)
+    expect(verifyWebhookSignature(TEST_BODY, hex, SECRET)).toBe(true)
+    expect(verifyWebhookSignature(TEST_BODY, hex.toUpperCase(), SECRET)).toBe(true)
+  })
+
+  it('should reject signature created with a different secret', () => {
+    expect(verifyWebhookSignature(TEST_BODY, computeWebhookSignature(TEST_BODY, 'other-secret'), SECRET)).toBe(false)
+  })
+
+  it('should reject tampered body', () => {
+    expect(verifyWebhookSignature('{"submission":{"id":"sub_2"}}', `sha256=${hex}`, SECRET)).toBe(false)
+  })
+
+  it('should reject signature with wrong length', () => {
+    expect(verifyWebhookSignature(TEST_BODY, 'sha256=abc', SECRET)).toBe(false)
+  })
+})
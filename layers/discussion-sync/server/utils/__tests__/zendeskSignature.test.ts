@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { verifyZendeskSignature } from '../zendeskSignature'
+
+describe('zendeskSignature', () => {
+  const TEST_SECRET = 'dGhpc19zZWNyZXRfaXNfZm9yX3Rlc3Rpbmdfb25seQ=='
+  const TEST_TIMESTAMP = '2025-11-12T16:05:21Z'
+  const TEST_BODY = JSON.stringify({ ticket_id: '4521', comment: { value: 'Customer cannot apply promo code' } })
+
+  function sign(body: string, timestamp = TEST_TIMESTAMP, secret = TEST_SECRET): string {
+    return createHmac('sha256', secret).update(timestamp + body).digest('base64')
+  }
+
+  describe('verifyZendeskSignature', () => {
+    it('should verify valid signature', () => {
+      expect(verifyZendeskSignature(TEST_BODY, sign(TEST_BODY), TEST_TIMESTAMP, TEST_SECRET)).toBe(true)
+    })
+
+    it('should reject signature created with a different secret', () => {
+      expect(verifyZendeskSignature(TEST_BODY, sign(TEST_BODY, TEST_TIMESTAMP, 'other'), TEST_TIMESTAMP, TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject signature for a different timestamp', () => {
+      expect(verifyZendeskSignature(TEST_BODY, sign(TEST_BODY), '2025-11-12T16:05:22Z', TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject tampered body', () => {
+      const tamperedBody = JSON.stringify({ ticket_id: '4522' })
+
+      expect(verifyZendeskSignature(tamperedBody, sign(TEST_BODY), TEST_TIMESTAMP, TEST_SECRET)).toBe(false)
+    })
+
+    it('should reject missing timestamp', () => {
+      expect(verifyZendeskSignature(TEST_BODY, sign(TEST_BODY), '', TEST_SECRET)).toBe(false)
+    })
+  })
+})
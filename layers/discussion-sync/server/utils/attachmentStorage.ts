@@ -0,0 +1,127 @@
+/**
+ * Attachment Storage
+ *
+ * Copies thread attachments into NuxtHub blob storage, so Notion can embed
+ * them. Slack files are only reachable with the bot token and Figma image
+ * URLs are signed and expire, so linking to the originals doesn't work.
+ *
+ * Stored files are served by the /images/[pathname] route, like the
+ * attachments of inbound emails.
+ */
+
+import type { Attachment } from '../adapters/base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const ATTACHMENT_CONFIG = {
+  MAX_FILE_BYTES: 10 * 1024 * 1024, // 10 MB
+  MAX_PER_THREAD: 10,
+} as const
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Downloads an attachment, e.g. with the source's API token
+ */
+export type AttachmentDownloader = (attachment: Attachment) => Promise<Blob>
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * Public URL of a stored blob
+ */
+export function getBlobUrl(pathname: string): string {
+  const host = (useRuntimeConfig().public?.host as string | undefined) || ''
+  return `${host.replace(/\/$/, '')}/images/${pathname}`
+}
+
+/**
+ * Download an attachment and store it in blob storage
+ *
+ * @returns The attachment pointing at the stored copy
+ * @throws Error if the download fails or the file is too large
+ */
+export async function storeAttachment(
+  attachment: Attachment,
+  download: AttachmentDownloader,
+): Promise<Attachment> {
+  const file = await download(attachment)
+
+  if (file.size > ATTACHMENT_CONFIG.MAX_FILE_BYTES) {
+    throw new Error(`Attachment ${attachment.name || attachment.id} is too large (${file.size} bytes)`)
+  }
+
+  const mimeType = attachment.mimeType || file.type || undefined
+  const blob = await hubBlob().put(attachment.name || attachment.id, file, {
+    addRandomSuffix: true,
+    ...(mimeType && { contentType: mimeType }),
+  })
+
+  return {
+    ...attachment,
+    url: getBlobUrl(blob.pathname),
+    mimeType,
+  }
+}
+
+/**
+ * Store the attachments of a thread, up to ATTACHMENT_CONFIG.MAX_PER_THREAD
+ *
+ * Links are kept as they are. Attachments that can't be stored are
+ * replaced by `fallback` (e.g. a link to the source), or dropped.
+ */
+export async function storeAttachments(
+  attachments: Attachment[],
+  download: AttachmentDownloader,
+  options: {
+    logPrefix: string
+    fallback?: (attachment: Attachment) => Attachment | null
+  },
+): Promise<Attachment[]> {
+  const stored: Attachment[] = []
+
+  // Sequential on purpose, downloads go through the source's rate limits
+  for (const attachment of attachments.slice(0, ATTACHMENT_CONFIG.MAX_PER_THREAD)) {
+    if (attachment.type === 'link') {
+      stored.push(attachment)
+      continue
+    }
+
+    try {
+      stored.push(await storeAttachment(attachment, download))
+    }
+    catch (error) {
+      console.warn(`${options.logPrefix} Could not store attachment:`, attachment.name || attachment.id, error)
+
+      const fallback = options.fallback?.(attachment)
+      if (fallback) {
+        stored.push(fallback)
+      }
+    }
+  }
+
+  if (attachments.length > ATTACHMENT_CONFIG.MAX_PER_THREAD) {
+    console.log(`${options.logPrefix} Skipped ${attachments.length - ATTACHMENT_CONFIG.MAX_PER_THREAD} attachments over the limit`)
+  }
+
+  return stored
+}
+
+/**
+ * Download a public URL
+ */
+export async function downloadPublicAttachment(attachment: Attachment): Promise<Blob> {
+  const response = await fetch(attachment.url)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return await response.blob()
+}
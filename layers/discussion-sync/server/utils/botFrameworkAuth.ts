@@ -0,0 +1,174 @@
+/**
+ * Bot Framework Token Validation
+ *
+ * Verifies that requests to the Teams bot endpoint are actually sent by the
+ * Bot Connector service by validating the JWT bearer token in the
+ * Authorization header against Bot Framework's published signing keys.
+ *
+ * @see https://learn.microsoft.com/azure/bot-service/rest-api/bot-framework-rest-connector-authentication
+ */
+
+import { createPublicKey, verify } from 'node:crypto'
+import type { JsonWebKeyInput } from 'node:crypto'
+
+const BOT_FRAMEWORK_AUTH = {
+  OPENID_METADATA_URL: 'https://login.botframework.com/v1/.well-known/openidconfiguration',
+  ISSUER: 'https://api.botframework.com',
+  KEY_CACHE_TTL_MS: 24 * 60 * 60 * 1000, // Microsoft recommends refreshing keys daily
+  CLOCK_SKEW_SECONDS: 5 * 60,
+} as const
+
+type BotFrameworkSigningKey = JsonWebKeyInput['key'] & {
+  kid: string
+  endorsements?: string[]
+}
+
+export interface BotFrameworkClaims {
+  iss: string
+  aud: string
+  exp: number
+  nbf?: number
+  serviceurl?: string
+  [key: string]: unknown
+}
+
+let keyCache: { keys: BotFrameworkSigningKey[], expiresAt: number } | null = null
+
+/**
+ * Fetch Bot Framework signing keys (cached)
+ */
+async function getSigningKeys(forceRefresh = false): Promise<BotFrameworkSigningKey[]> {
+  if (!forceRefresh && keyCache && keyCache.expiresAt > Date.now()) {
+    return keyCache.keys
+  }
+
+  const metadataResponse = await fetch(BOT_FRAMEWORK_AUTH.OPENID_METADATA_URL)
+  if (!metadataResponse.ok) {
+    throw new Error(`Failed to load Bot Framework OpenID metadata: ${metadataResponse.status}`)
+  }
+
+  const metadata = await metadataResponse.json() as { jwks_uri: string }
+
+  const keysResponse = await fetch(metadata.jwks_uri)
+  if (!keysResponse.ok) {
+    throw new Error(`Failed to load Bot Framework signing keys: ${keysResponse.status}`)
+  }
+
+  const { keys } = await keysResponse.json() as { keys: BotFrameworkSigningKey[] }
+
+  keyCache = {
+    keys,
+    expiresAt: Date.now() + BOT_FRAMEWORK_AUTH.KEY_CACHE_TTL_MS,
+  }
+
+  return keys
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T
+}
+
+/**
+ * Verify a Bot Framework JWT bearer token
+ *
+ * The audience (the bot's Microsoft App ID) is returned in the claims so the
+ * caller can match it against a source config.
+ *
+ * @param authorization - Value of the Authorization header (Bearer <jwt>)
+ * @param activity - The incoming activity (serviceUrl and channelId are checked against the token)
+ * @returns Token claims if valid, null otherwise
+ */
+export async function verifyBotFrameworkToken(
+  authorization: string | undefined,
+  activity: { serviceUrl?: string, channelId?: string }
+): Promise<BotFrameworkClaims | null> {
+  try {
+    if (!authorization?.startsWith('Bearer ')) {
+      console.warn('[Bot Framework Auth] Missing bearer token')
+      return null
+    }
+
+    const token = authorization.slice('Bearer '.length).trim()
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.')
+
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+      console.warn('[Bot Framework Auth] Malformed token')
+      return null
+    }
+
+    // 1. Find the signing key
+    const header = decodeSegment<{ alg: string, kid: string }>(encodedHeader)
+
+    if (header.alg !== 'RS256') {
+      console.warn('[Bot Framework Auth] Unsupported algorithm:', header.alg)
+      return null
+    }
+
+    let key = (await getSigningKeys()).find(k => k.kid === header.kid)
+
+    // Keys may have rolled over since they were cached
+    if (!key) {
+      key = (await getSigningKeys(true)).find(k => k.kid === header.kid)
+    }
+
+    if (!key) {
+      console.warn('[Bot Framework Auth] Unknown signing key:', header.kid)
+      return null
+    }
+
+    if (activity.channelId && key.endorsements && !key.endorsements.includes(activity.channelId)) {
+      console.warn('[Bot Framework Auth] Signing key not endorsed for channel:', activity.channelId)
+      return null
+    }
+
+    // 2. Verify the signature
+    const { endorsements, ...jwk } = key
+    const publicKey: JsonWebKeyInput = { key: jwk, format: 'jwk' }
+    const isValid = verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      createPublicKey(publicKey),
+      Buffer.from(encodedSignature, 'base64url'),
+    )
+
+    if (!isValid) {
+      console.warn('[Bot Framework Auth] Signature verification failed')
+      return null
+    }
+
+    // 3. Validate claims
+    const claims = decodeSegment<BotFrameworkClaims>(encodedPayload)
+    const now = Math.floor(Date.now() / 1000)
+
+    if (claims.iss !== BOT_FRAMEWORK_AUTH.ISSUER) {
+      console.warn('[Bot Framework Auth] Invalid issuer:', claims.iss)
+      return null
+    }
+
+    if (!claims.exp || claims.exp + BOT_FRAMEWORK_AUTH.CLOCK_SKEW_SECONDS < now) {
+      console.warn('[Bot Framework Auth] Token expired')
+      return null
+    }
+
+    if (claims.nbf && claims.nbf - BOT_FRAMEWORK_AUTH.CLOCK_SKEW_SECONDS > now) {
+      console.warn('[Bot Framework Auth] Token not yet valid')
+      return null
+    }
+
+    if (!claims.aud) {
+      console.warn('[Bot Framework Auth] Token has no audience')
+      return null
+    }
+
+    if (activity.serviceUrl && claims.serviceurl && claims.serviceurl !== activity.serviceUrl) {
+      console.warn('[Bot Framework Auth] serviceUrl claim does not match activity')
+      return null
+    }
+
+    return claims
+  }
+  catch (error) {
+    console.error('[Bot Framework Auth] Verification error:', error)
+    return null
+  }
+}
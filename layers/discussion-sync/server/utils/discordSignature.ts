@@ -0,0 +1,88 @@
+/**
+ * Discord Signature Verification
+ *
+ * Verifies that interaction requests are actually from Discord using the
+ * Ed25519 X-Signature-Ed25519 / X-Signature-Timestamp headers and the
+ * application's public key.
+ *
+ * Discord only delivers channel messages (and therefore @mentions) over the
+ * Gateway. A gateway relay forwards MESSAGE_CREATE dispatches to the webhook
+ * and signs them with HMAC SHA256 using the source config's webhook secret.
+ * The relay contract is described in api/webhook/discord.post.ts.
+ *
+ * @see https://discord.com/developers/docs/interactions/overview#setting-up-an-endpoint-validating-security-request-headers
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify } from 'node:crypto'
+
+/**
+ * Verify Discord interaction signature
+ *
+ * @param body - Raw request body as string
+ * @param signature - Hex signature from X-Signature-Ed25519 header
+ * @param timestamp - Timestamp from X-Signature-Timestamp header
+ * @param publicKey - Hex encoded application public key
+ * @returns True if signature is valid, false otherwise
+ */
+export function verifyDiscordSignature(
+  body: string,
+  signature: string,
+  timestamp: string,
+  publicKey: string
+): boolean {
+  try {
+    const keyBytes = Buffer.from(publicKey, 'hex')
+    const signatureBytes = Buffer.from(signature, 'hex')
+
+    if (keyBytes.length !== 32 || signatureBytes.length !== 64) {
+      console.warn('[Discord Signature] Invalid key or signature length')
+      return false
+    }
+
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: keyBytes.toString('base64url') },
+      format: 'jwk',
+    })
+
+    const isValid = verify(null, Buffer.from(timestamp + body, 'utf8'), key, signatureBytes)
+
+    if (!isValid) {
+      console.warn('[Discord Signature] Signature verification failed')
+    }
+
+    return isValid
+  }
+  catch (error) {
+    console.error('[Discord Signature] Verification error:', error)
+    return false
+  }
+}
+
+/**
+ * Verify a gateway event forwarded by the relay
+ *
+ * @param body - Raw request body as string
+ * @param signature - Signature from X-Discubot-Signature header (sha256=<hex>)
+ * @param secret - Webhook secret of the source config
+ * @returns True if signature is valid, false otherwise
+ */
+export function verifyDiscordRelaySignature(
+  body: string,
+  signature: string,
+  secret: string
+): boolean {
+  try {
+    const computedSignature = `sha256=${createHmac('sha256', secret).update(body, 'utf8').digest('hex')}`
+
+    if (signature.length !== computedSignature.length) {
+      console.warn('[Discord Signature] Relay signature length mismatch')
+      return false
+    }
+
+    return timingSafeEqual(Buffer.from(signature, 'utf8'), Buffer.from(computedSignature, 'utf8'))
+  }
+  catch (error) {
+    console.error('[Discord Signature] Relay verification error:', error)
+    return false
+  }
+}
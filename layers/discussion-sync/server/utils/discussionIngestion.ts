@@ -0,0 +1,143 @@
+/**
+ * Discussion Ingestion Helpers
+ *
+ * Shared steps used by webhook handlers once an adapter has parsed a payload:
+ * looking up source configs, duplicate detection, creating the discussion
+ * record and queueing it for processing.
+ */
+
+import { db } from '~~/server/database'
+import { discussionSyncDiscussions, discussionSyncSourceconfigs } from '~~/server/database/schema'
+import { and, desc, eq } from 'drizzle-orm'
+import { enqueueDiscussion, startJobWorker } from './jobQueue'
+import type { ParsedDiscussion } from '../adapters/base'
+
+export type SourceConfigRecord = typeof discussionSyncSourceconfigs.$inferSelect
+export type DiscussionRecord = typeof discussionSyncDiscussions.$inferSelect
+
+/**
+ * Load all active source configs for a source type
+ */
+export async function findActiveSourceConfigs(sourceId: string): Promise<SourceConfigRecord[]> {
+  return db
+    .select()
+    .from(discussionSyncSourceconfigs)
+    .where(
+      and(
+        eq(discussionSyncSourceconfigs.sourceId, sourceId),
+        eq(discussionSyncSourceconfigs.active, true),
+      ),
+    )
+    .all()
+}
+
+/**
+ * Find a discussion that was already created for the same source thread
+ */
+export async function findExistingDiscussion(
+  teamId: string,
+  sourceType: string,
+  sourceThreadId: string,
+): Promise<DiscussionRecord | undefined> {
+  return db
+    .select()
+    .from(discussionSyncDiscussions)
+    .where(
+      and(
+        eq(discussionSyncDiscussions.teamId, teamId),
+        eq(discussionSyncDiscussions.sourceType, sourceType),
+        eq(discussionSyncDiscussions.sourceThreadId, sourceThreadId),
+      ),
+    )
+    .get()
+}
+
+/**
+ * Find the discussion a source config created for a source thread
+ *
+ * Used by sources without a remote API, whose thread is rebuilt from
+ * the stored discussion.
+ */
+export async function findSourceConfigDiscussion(
+  sourceConfigId: string,
+  sourceType: string,
+  sourceThreadId: string,
+): Promise<DiscussionRecord | undefined> {
+  return db
+    .select()
+    .from(discussionSyncDiscussions)
+    .where(
+      and(
+        eq(discussionSyncDiscussions.sourceConfigId, sourceConfigId),
+        eq(discussionSyncDiscussions.sourceType, sourceType),
+        eq(discussionSyncDiscussions.sourceThreadId, sourceThreadId),
+      ),
+    )
+    .get()
+}
+
+/**
+ * Most recent discussions created through a source config, newest first
+ */
+export async function findRecentSourceConfigDiscussions(
+  sourceConfigId: string,
+  limit: number,
+): Promise<DiscussionRecord[]> {
+  return db
+    .select()
+    .from(discussionSyncDiscussions)
+    .where(eq(discussionSyncDiscussions.sourceConfigId, sourceConfigId))
+    .orderBy(desc(discussionSyncDiscussions.createdAt))
+    .limit(limit)
+    .all()
+}
+
+/**
+ * Create a pending discussion record for a parsed discussion
+ */
+export async function createDiscussionRecord(
+  parsed: ParsedDiscussion,
+  config: SourceConfigRecord,
+  options: {
+    createdBy: string
+    rawPayload?: Record<string, unknown>
+  },
+): Promise<DiscussionRecord> {
+  return db
+    .insert(discussionSyncDiscussions)
+    .values({
+      teamId: config.teamId,
+      owner: config.owner,
+      sourceType: parsed.sourceType,
+      sourceThreadId: parsed.sourceThreadId,
+      sourceUrl: parsed.sourceUrl,
+      sourceConfigId: config.id,
+      title: parsed.title,
+      content: parsed.content,
+      authorHandle: parsed.authorHandle,
+      participants: parsed.participants,
+      status: 'pending',
+      rawPayload: options.rawPayload,
+      metadata: parsed.metadata,
+      createdBy: options.createdBy,
+      updatedBy: options.createdBy,
+    })
+    .returning()
+    .get()
+}
+
+/**
+ * Queue a discussion for processing and start the job worker
+ *
+ * Failures are logged but never thrown - the discussion stays pending
+ * and the worker queues it on its next run.
+ */
+export async function queueProcessing(discussion: DiscussionRecord, logPrefix: string): Promise<void> {
+  try {
+    await enqueueDiscussion(discussion)
+    startJobWorker(logPrefix)
+  }
+  catch (error) {
+    console.error(`${logPrefix} Failed to queue processing:`, error)
+  }
+}
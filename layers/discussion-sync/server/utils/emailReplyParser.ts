@@ -0,0 +1,412 @@
+/**
+ * Email Reply Parser Utility - Splits email conversations into messages
+ *
+ * Source-agnostic counterpart of EmailParser: instead of extracting a single
+ * Figma comment, it walks a forwarded or replied-to email and splits the
+ * quoted reply chain into individual messages, stripping signatures and
+ * legal disclaimers along the way.
+ *
+ * Reply boundaries ("On ... wrote:", Outlook headers, forwarded message
+ * headers) are detected by strategies; at each step the earliest boundary
+ * found by any strategy wins.
+ */
+
+import * as cheerio from 'cheerio'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const REPLY_PATTERNS = {
+  // Gmail / Apple Mail / Thunderbird, plus German and French clients
+  ATTRIBUTION_LINE: /^[ \t]*(?:On|Am|Le)[ \t]+((?:(?!\n[ \t]*\n)[\s\S]){1,300}?)[ \t\n]+(?:wrote|schrieb|a écrit)[ \t]?:[ \t]*$/m,
+  OUTLOOK_HEADER: /^[ \t]*(?:-{2,}[ \t]*Original Message[ \t]*-{2,}[ \t]*\n|_{10,}[ \t]*\n)?[ \t]*\*?From:\*?[ \t]*(.+)\n(?:.*\n){0,3}?[ \t]*\*?(?:Sent|Date):\*?[ \t]*(.+)\n(?:.*\n){0,3}?[ \t]*\*?Subject:\*?.*(?:\n|$)/m,
+  FORWARDED_HEADER: /^[ \t]*(?:-{3,}[ \t]*Forwarded message[ \t]*-{3,}|Begin forwarded message:)[ \t]*\n((?:[ \t]*\*?[A-Za-z-]+:\*?.*(?:\n|$)){0,6})/m,
+  TIME: /\d{1,2}:\d{2}(?::\d{2})?(?:[ \t]?[AP]M)?/gi,
+  EMAIL_ADDRESS: /<?([^\s<>"]+@[^\s<>"]+\.[^\s<>"]+)>?/,
+} as const
+
+const SIGNATURE_PATTERNS = {
+  DELIMITER: /^--[ \t]*$/,
+  MOBILE: /^(?:Sent from my .+|Sent from (?:Mail|Outlook) for .+|Get Outlook for .+|Sent via .+)$/i,
+  SIGN_OFF: /^(?:(?:best|kind|warm|many)[ \t]+)?(?:regards|thanks|thank you|cheers|best|sincerely|greetings|mit freundlichen grüßen|cordialement)[ \t]*[,!.]?$/i,
+} as const
+
+const DISCLAIMER_PATTERNS = [
+  /^[ \t]*(?:disclaimer|confidentiality notice|legal notice)\b/i,
+  /\bconfidential(?:ity)?\b[\s\S]*\b(?:intended|recipient|privileged)\b/i,
+  /if you (?:have )?received this (?:e-?mail|message|communication) in error/i,
+  /this (?:e-?mail|message)(?: and any (?:attachments|files)[^.]*?)? (?:is|are|may be|contains?) (?:confidential|privileged|intended)/i,
+  /please consider the environment before printing/i,
+] as const
+
+const PARSER_CONFIG = {
+  MAX_MESSAGES: 50,
+  SIGN_OFF_WINDOW_LINES: 7,
+  SIGNATURE_MAX_LINES: 5,
+  SIGNATURE_MAX_LINE_LENGTH: 60,
+  QUOTED_LINE_RATIO: 0.5,
+} as const
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EmailAuthor {
+  name?: string
+  email?: string
+}
+
+export interface EmailMessagePart {
+  author: EmailAuthor
+  date?: Date
+  body: string
+}
+
+export interface ReplyChainResult {
+  messages: EmailMessagePart[] // Oldest first
+  strategies: string[] // Which boundary strategies matched
+}
+
+export interface ReplyChainInput {
+  text?: string
+  html?: string
+  from: string // Sender of the email, author of the newest message
+  date?: Date
+}
+
+interface ReplyBoundary {
+  index: number // Start of the quote header
+  end: number // Start of the quoted message
+  author: EmailAuthor
+  date?: Date
+}
+
+// ============================================
+// BOUNDARY STRATEGIES
+// ============================================
+
+/**
+ * Abstract base class for reply boundary strategies
+ */
+abstract class ReplyBoundaryStrategy {
+  abstract readonly name: string
+
+  abstract find(text: string): ReplyBoundary | null
+
+  /**
+   * Parse "Name <email>", "email" or "Name" into an author
+   */
+  protected parseAuthor(value: string): EmailAuthor {
+    const cleaned = value.replace(/\*/g, '').replace(/\[mailto:[^\]]*\]/gi, '').trim()
+    const emailMatch = cleaned.match(REPLY_PATTERNS.EMAIL_ADDRESS)
+    const email = emailMatch?.[1]
+    const name = (emailMatch ? cleaned.replace(emailMatch[0], '') : cleaned)
+      .replace(/^["'\s]+|["'\s,]+$/g, '')
+      .trim()
+
+    return {
+      name: name || undefined,
+      email: email || undefined,
+    }
+  }
+
+  /**
+   * Parse a date as written by mail clients, e.g. "Tue, Nov 12, 2025 at 4:05 PM"
+   */
+  protected parseDate(value: string | undefined): Date | undefined {
+    if (!value) {
+      return undefined
+    }
+
+    const date = new Date(value.replace(/\*/g, '').replace(/\bat\b/g, ' ').replace(/[ \t]+/g, ' ').replace(/,\s*$/, '').trim())
+    return Number.isNaN(date.getTime()) ? undefined : date
+  }
+}
+
+/**
+ * Strategy 1: "On <date>, <name> <email> wrote:" attribution lines
+ */
+class AttributionLineStrategy extends ReplyBoundaryStrategy {
+  readonly name = 'AttributionLine'
+
+  find(text: string): ReplyBoundary | null {
+    const match = text.match(REPLY_PATTERNS.ATTRIBUTION_LINE)
+
+    if (!match || match.index === undefined || !match[1]) {
+      return null
+    }
+
+    const attribution = match[1].replace(/\s+/g, ' ').trim()
+
+    // Split "<date> <time> <name>" after the last time, or "<date>, <name>" at the last comma
+    const times = Array.from(attribution.matchAll(REPLY_PATTERNS.TIME))
+    const lastTime = times[times.length - 1]
+    const splitAt = lastTime?.index !== undefined
+      ? lastTime.index + lastTime[0].length
+      : attribution.lastIndexOf(',')
+
+    const dateText = splitAt > 0 ? attribution.slice(0, splitAt) : ''
+    const authorText = splitAt > 0 ? attribution.slice(splitAt).replace(/^[,\s]+/, '') : attribution
+
+    return {
+      index: match.index,
+      end: match.index + match[0].length,
+      author: this.parseAuthor(authorText),
+      date: this.parseDate(dateText),
+    }
+  }
+}
+
+/**
+ * Strategy 2: Forwarded message headers (Gmail and Apple Mail)
+ */
+class ForwardedMessageStrategy extends ReplyBoundaryStrategy {
+  readonly name = 'ForwardedMessage'
+
+  find(text: string): ReplyBoundary | null {
+    const match = text.match(REPLY_PATTERNS.FORWARDED_HEADER)
+
+    if (!match || match.index === undefined) {
+      return null
+    }
+
+    const headers = match[1] || ''
+    const from = headers.match(/^[ \t]*\*?From:\*?[ \t]*(.+)$/im)?.[1]
+    const date = headers.match(/^[ \t]*\*?(?:Date|Sent):\*?[ \t]*(.+)$/im)?.[1]
+
+    return {
+      index: match.index,
+      end: match.index + match[0].length,
+      author: from ? this.parseAuthor(from) : {},
+      date: this.parseDate(date),
+    }
+  }
+}
+
+/**
+ * Strategy 3: Outlook "From: / Sent: / To: / Subject:" headers
+ */
+class OutlookHeaderStrategy extends ReplyBoundaryStrategy {
+  readonly name = 'OutlookHeader'
+
+  find(text: string): ReplyBoundary | null {
+    const match = text.match(REPLY_PATTERNS.OUTLOOK_HEADER)
+
+    if (!match || match.index === undefined || !match[1]) {
+      return null
+    }
+
+    return {
+      index: match.index,
+      end: match.index + match[0].length,
+      author: this.parseAuthor(match[1]),
+      date: this.parseDate(match[2]),
+    }
+  }
+}
+
+// ============================================
+// EMAIL REPLY PARSER CLASS
+// ============================================
+
+export class EmailReplyParser {
+  private strategies: ReplyBoundaryStrategy[]
+
+  constructor() {
+    // On a tie, strategies earlier in the list win
+    this.strategies = [
+      new ForwardedMessageStrategy(),
+      new AttributionLineStrategy(),
+      new OutlookHeaderStrategy(),
+    ]
+  }
+
+  /**
+   * Split an email into the messages of its reply chain
+   */
+  parse(input: ReplyChainInput): ReplyChainResult {
+    const text = input.text?.trim() ? normalizeText(input.text) : htmlToText(input.html || '')
+    const strategies = new Set<string>()
+    const newestFirst: EmailMessagePart[] = []
+
+    let remaining = text
+    let author: EmailAuthor = this.parseSender(input.from)
+    let date = input.date
+
+    for (let i = 0; i < PARSER_CONFIG.MAX_MESSAGES; i++) {
+      const found = this.findBoundary(remaining)
+
+      if (!found) {
+        newestFirst.push({ author, date, body: remaining })
+        break
+      }
+
+      strategies.add(found.strategy)
+      newestFirst.push({ author, date, body: remaining.slice(0, found.boundary.index) })
+
+      author = found.boundary.author
+      date = found.boundary.date
+      remaining = unquote(remaining.slice(found.boundary.end))
+    }
+
+    const messages = newestFirst
+      .map(message => ({ ...message, body: cleanMessageBody(message.body) }))
+      .filter(message => message.body)
+      .reverse()
+
+    console.log('[Email Reply Parser] Split email into messages:', {
+      count: messages.length,
+      strategies: Array.from(strategies),
+    })
+
+    return {
+      messages,
+      strategies: Array.from(strategies),
+    }
+  }
+
+  /**
+   * Find the earliest reply boundary across all strategies
+   */
+  private findBoundary(text: string): { boundary: ReplyBoundary, strategy: string } | null {
+    let earliest: { boundary: ReplyBoundary, strategy: string } | null = null
+
+    for (const strategy of this.strategies) {
+      try {
+        const boundary = strategy.find(text)
+
+        if (boundary && (!earliest || boundary.index < earliest.boundary.index)) {
+          earliest = { boundary, strategy: strategy.name }
+        }
+      }
+      catch (error) {
+        console.error(`[Email Reply Parser] Strategy ${strategy.name} failed:`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+        // Continue with the other strategies
+      }
+    }
+
+    return earliest
+  }
+
+  private parseSender(from: string): EmailAuthor {
+    const emailMatch = from.match(REPLY_PATTERNS.EMAIL_ADDRESS)
+    const name = from.match(/^\s*"?([^"<]+?)"?\s*</)?.[1]?.trim()
+
+    return {
+      name: name || undefined,
+      email: emailMatch?.[1] || undefined,
+    }
+  }
+}
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+/**
+ * Convert an HTML email body to plain text, rendering blockquotes as "> " quotes
+ */
+export function htmlToText(html: string): string {
+  // Source formatting whitespace is insignificant; line breaks come from the markup
+  const $ = cheerio.load(html.replace(/\s+/g, ' '))
+
+  $('head, style, script').remove()
+  $('br').replaceWith('\n')
+  $('p, div, tr, li, h1, h2, h3, h4, h5, h6, table').append('\n')
+
+  // Innermost quotes first, so nested quotes get one ">" per level
+  $('blockquote').toArray().reverse().forEach((element) => {
+    const quoted = normalizeText($(element).text())
+      .split('\n')
+      .map(line => line ? `> ${line}` : '>')
+      .join('\n')
+
+    $(element).replaceWith(`\n${quoted}\n`)
+  })
+
+  return normalizeText($.root().text())
+}
+
+/**
+ * Strip signatures and disclaimers from a single message
+ */
+export function cleanMessageBody(body: string): string {
+  return stripSignature(stripDisclaimers(body)).trim()
+}
+
+/**
+ * Remove the signature: everything after "-- " or a mobile signature, or a
+ * sign-off near the end that is only followed by a few short lines
+ */
+export function stripSignature(body: string): string {
+  const lines = body.split('\n')
+
+  const delimiterIndex = lines.findIndex(line =>
+    SIGNATURE_PATTERNS.DELIMITER.test(line) || SIGNATURE_PATTERNS.MOBILE.test(line.trim()),
+  )
+
+  if (delimiterIndex !== -1) {
+    lines.length = delimiterIndex
+  }
+
+  const windowStart = Math.max(0, lines.length - PARSER_CONFIG.SIGN_OFF_WINDOW_LINES)
+
+  for (let i = windowStart; i < lines.length; i++) {
+    if (!SIGNATURE_PATTERNS.SIGN_OFF.test(lines[i]!.trim())) {
+      continue
+    }
+
+    const trailing = lines.slice(i + 1).filter(line => line.trim())
+    const looksLikeSignature = trailing.length <= PARSER_CONFIG.SIGNATURE_MAX_LINES
+      && trailing.every(line => line.trim().length <= PARSER_CONFIG.SIGNATURE_MAX_LINE_LENGTH)
+
+    if (looksLikeSignature && i > 0) {
+      lines.length = i
+      break
+    }
+  }
+
+  return lines.join('\n').trim()
+}
+
+/**
+ * Remove paragraphs that look like legal disclaimers
+ */
+export function stripDisclaimers(body: string): string {
+  return body
+    .split(/\n[ \t]*\n/)
+    .filter(paragraph => !DISCLAIMER_PATTERNS.some(pattern => pattern.test(paragraph)))
+    .join('\n\n')
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00A0/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Remove one level of "> " quoting when most lines are quoted
+ */
+function unquote(text: string): string {
+  const lines = text.split('\n')
+  const nonEmpty = lines.filter(line => line.trim())
+  const quoted = nonEmpty.filter(line => line.startsWith('>'))
+
+  if (nonEmpty.length === 0 || quoted.length / nonEmpty.length < PARSER_CONFIG.QUOTED_LINE_RATIO) {
+    return text.trim()
+  }
+
+  return lines
+    .map(line => line.replace(/^>[ \t]?/, ''))
+    .join('\n')
+    .trim()
+}
@@ -14,6 +14,7 @@ import type { SourceConfig } from '../adapters/base'
 const ENCRYPTED_FIELDS = [
   'apiToken',
   'notionToken',
+  'destinationToken',
   'anthropicApiKey',
 ] as const
 
@@ -137,6 +138,34 @@ export async function getDecryptedNotionToken(
   return token
 }
 
+/**
+ * Decrypt only the destination token from a config
+ *
+ * @param config - Source config
+ * @returns Decrypted destination token or undefined
+ */
+export async function getDecryptedDestinationToken(
+  config: Partial<SourceConfig>
+): Promise<string | undefined> {
+  const token = config.destinationToken
+
+  if (!token) {
+    return undefined
+  }
+
+  if (isEncrypted(token)) {
+    try {
+      return await decryptToken(token)
+    }
+    catch (error) {
+      console.error('[Encrypted Config] Failed to decrypt destination token:', error)
+      return undefined
+    }
+  }
+
+  return token
+}
+
 /**
  * Check if a config has all required encrypted fields
  *
@@ -0,0 +1,43 @@
+/**
+ * Figma Webhook Verification
+ *
+ * Figma Webhooks V2 do not sign requests. Instead, every delivery carries the
+ * `passcode` that was chosen when the webhook was created, which we compare
+ * against the source config's webhook secret.
+ *
+ * @see https://www.figma.com/developers/api#webhooks-v2-security
+ */
+
+import { timingSafeEqual } from 'node:crypto'
+
+/**
+ * Verify the passcode of a Figma webhook delivery
+ *
+ * @param passcode - `passcode` field of the payload
+ * @param expected - Passcode configured for the webhook
+ * @returns True if the passcodes match, false otherwise
+ */
+export function verifyFigmaPasscode(
+  passcode: string | undefined,
+  expected: string
+): boolean {
+  try {
+    if (!passcode || !expected) {
+      console.warn('[Figma Webhook] Missing passcode')
+      return false
+    }
+
+    const received = Buffer.from(passcode, 'utf8')
+    const configured = Buffer.from(expected, 'utf8')
+
+    if (received.length !== configured.length) {
+      return false
+    }
+
+    return timingSafeEqual(received, configured)
+  }
+  catch (error) {
+    console.error('[Figma Webhook] Verification error:', error)
+    return false
+  }
+}
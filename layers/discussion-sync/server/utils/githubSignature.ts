@@ -0,0 +1,60 @@
+/**
+ * GitHub Signature Verification
+ *
+ * Verifies that webhook requests are actually from GitHub using the
+ * X-Hub-Signature-256 HMAC SHA256 header.
+ *
+ * @see https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/**
+ * Verify GitHub webhook signature
+ *
+ * @param body - Raw request body as string
+ * @param signature - Request signature from X-Hub-Signature-256 header (sha256=<hex>)
+ * @param secret - Webhook secret configured on the GitHub App or repository
+ * @returns True if signature is valid, false otherwise
+ */
+export function verifyGitHubSignature(
+  body: string,
+  signature: string,
+  secret: string
+): boolean {
+  try {
+    if (!signature.startsWith('sha256=')) {
+      console.warn('[GitHub Signature] Unsupported signature format')
+      return false
+    }
+
+    // 1. Compute the expected signature using HMAC SHA256
+    const hmac = createHmac('sha256', secret)
+    hmac.update(body, 'utf8')
+    const computedSignature = `sha256=${hmac.digest('hex')}`
+
+    // 2. Compare signatures using timing-safe comparison
+    if (signature.length !== computedSignature.length) {
+      console.warn('[GitHub Signature] Signature length mismatch')
+      return false
+    }
+
+    const isValid = timingSafeEqual(
+      Buffer.from(signature, 'utf8'),
+      Buffer.from(computedSignature, 'utf8'),
+    )
+
+    if (!isValid) {
+      console.warn('[GitHub Signature] Signature verification failed:', {
+        expected: computedSignature.substring(0, 20) + '...',
+        received: signature.substring(0, 20) + '...',
+      })
+    }
+
+    return isValid
+  }
+  catch (error) {
+    console.error('[GitHub Signature] Verification error:', error)
+    return false
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Job Queue
+ *
+ * Discussion processing is queued as discussionSyncSyncjobs rows instead of
+ * being triggered with a request. Webhooks enqueue a job, the
+ * discussion-sync:process-jobs task claims due jobs and runs them through
+ * the processor.
+ *
+ * Job status: pending -> processing -> completed / partial, or retrying
+ * until nextAttemptAt while attempts remain, then failed. A claimed job
+ * holds a lease; when it expires while the job is still processing
+ * (server restart, timeout) the job goes back to the queue.
+ */
+
+import { db } from '~~/server/database'
+import { discussionSyncDiscussions, discussionSyncSyncjobs } from '~~/server/database/schema'
+import { and, asc, eq, gt, gte, inArray, lt, lte, notExists, sql } from 'drizzle-orm'
+import { PROCESSOR_CONFIG, QUEUED_STATUSES } from '../services/processor'
+import type { DiscussionRecord } from './discussionIngestion'
+
+export type SyncJobRecord = typeof discussionSyncSyncjobs.$inferSelect
+
+export const JOB_WORKER_TASK = 'discussion-sync:process-jobs'
+
+export const JOB_QUEUE_CONFIG = {
+  BATCH_SIZE: 5,
+  // Time a webhook has to enqueue its discussion before it counts as lost
+  ORPHAN_GRACE_MS: 2 * 60 * 1000,
+  // Older discussions without a job are left alone
+  ORPHAN_MAX_AGE_MS: 24 * 60 * 60 * 1000,
+} as const
+
+/**
+ * Queue a discussion for processing, due right away
+ */
+export async function enqueueDiscussion(discussion: DiscussionRecord): Promise<SyncJobRecord> {
+  const job = await db
+    .insert(discussionSyncSyncjobs)
+    .values({
+      teamId: discussion.teamId,
+      owner: discussion.owner,
+      discussionId: discussion.id,
+      sourceConfigId: discussion.sourceConfigId,
+      status: 'pending',
+      stage: 'pending',
+      attempts: 0,
+      maxAttempts: PROCESSOR_CONFIG.MAX_RETRY_ATTEMPTS,
+      nextAttemptAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+      createdBy: discussion.createdBy,
+      updatedBy: discussion.createdBy,
+    })
+    .returning()
+    .get()
+
+  await db
+    .update(discussionSyncDiscussions)
+    .set({ syncJobId: job.id, updatedAt: new Date() })
+    .where(eq(discussionSyncDiscussions.id, discussion.id))
+
+  console.log('[Job Queue] Discussion queued:', { discussionId: discussion.id, jobId: job.id })
+
+  return job
+}
+
+/**
+ * Claim due jobs for this worker: processing, one more attempt, leased
+ *
+ * @returns IDs of the claimed jobs, oldest due first
+ */
+export async function claimDueJobs(limit: number = JOB_QUEUE_CONFIG.BATCH_SIZE): Promise<string[]> {
+  const now = new Date()
+
+  const dueJobs = await db
+    .select({ id: discussionSyncSyncjobs.id })
+    .from(discussionSyncSyncjobs)
+    .where(
+      and(
+        inArray(discussionSyncSyncjobs.status, QUEUED_STATUSES),
+        lte(discussionSyncSyncjobs.nextAttemptAt, now),
+      ),
+    )
+    .orderBy(asc(discussionSyncSyncjobs.nextAttemptAt))
+    .limit(limit)
+
+  const claimed: string[] = []
+
+  for (const job of dueJobs) {
+    // The status condition makes this a compare-and-set, another worker
+    // may have claimed the job since it was selected
+    const updated = await db
+      .update(discussionSyncSyncjobs)
+      .set({
+        status: 'processing',
+        attempts: sql`${discussionSyncSyncjobs.attempts} + 1`,
+        leaseExpiresAt: new Date(now.getTime() + PROCESSOR_CONFIG.LEASE_DURATION_MS),
+        startedAt: now,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(discussionSyncSyncjobs.id, job.id),
+          inArray(discussionSyncSyncjobs.status, QUEUED_STATUSES),
+        ),
+      )
+      .returning({ id: discussionSyncSyncjobs.id })
+
+    if (updated.length > 0) {
+      claimed.push(job.id)
+    }
+  }
+
+  if (claimed.length > 0) {
+    console.log('[Job Queue] Claimed jobs:', claimed)
+  }
+
+  return claimed
+}
+
+/**
+ * Put jobs whose lease expired while processing back in the queue
+ *
+ * Jobs out of attempts fail instead. Jobs awaiting approval hold no lease
+ * and are left alone.
+ *
+ * @returns number of jobs recovered
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const now = new Date()
+  const error = 'Lease expired while processing, the worker stopped'
+
+  const stale = and(
+    eq(discussionSyncSyncjobs.status, 'processing'),
+    lt(discussionSyncSyncjobs.leaseExpiresAt, now),
+  )
+
+  const requeued = await db
+    .update(discussionSyncSyncjobs)
+    .set({
+      status: 'retrying',
+      error,
+      nextAttemptAt: now,
+      leaseExpiresAt: null,
+      updatedAt: now,
+    })
+    .where(and(stale, lt(discussionSyncSyncjobs.attempts, discussionSyncSyncjobs.maxAttempts)))
+    .returning({ discussionId: discussionSyncSyncjobs.discussionId })
+
+  const failed = await db
+    .update(discussionSyncSyncjobs)
+    .set({
+      status: 'failed',
+      error,
+      leaseExpiresAt: null,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(and(stale, gte(discussionSyncSyncjobs.attempts, discussionSyncSyncjobs.maxAttempts)))
+    .returning({ discussionId: discussionSyncSyncjobs.discussionId })
+
+  await setDiscussionStatus(requeued.map((job: { discussionId: string }) => job.discussionId), 'pending')
+  await setDiscussionStatus(failed.map((job: { discussionId: string }) => job.discussionId), 'failed')
+
+  if (requeued.length + failed.length > 0) {
+    console.warn('[Job Queue] Recovered stale jobs:', {
+      requeued: requeued.length,
+      failed: failed.length,
+    })
+  }
+
+  return requeued.length + failed.length
+}
+
+/**
+ * Queue recent pending discussions that never got a job
+ *
+ * Covers webhooks that created the discussion but failed to enqueue it.
+ *
+ * @returns number of discussions queued
+ */
+export async function enqueueOrphanedDiscussions(): Promise<number> {
+  const now = Date.now()
+
+  const orphaned = await db
+    .select()
+    .from(discussionSyncDiscussions)
+    .where(
+      and(
+        eq(discussionSyncDiscussions.status, 'pending'),
+        lt(discussionSyncDiscussions.createdAt, new Date(now - JOB_QUEUE_CONFIG.ORPHAN_GRACE_MS)),
+        gt(discussionSyncDiscussions.createdAt, new Date(now - JOB_QUEUE_CONFIG.ORPHAN_MAX_AGE_MS)),
+        notExists(
+          db
+            .select({ id: discussionSyncSyncjobs.id })
+            .from(discussionSyncSyncjobs)
+            .where(eq(discussionSyncSyncjobs.discussionId, discussionSyncDiscussions.id)),
+        ),
+      ),
+    )
+    .all()
+
+  for (const discussion of orphaned) {
+    await enqueueDiscussion(discussion)
+  }
+
+  if (orphaned.length > 0) {
+    console.warn('[Job Queue] Queued orphaned discussions:', orphaned.map((discussion: DiscussionRecord) => discussion.id))
+  }
+
+  return orphaned.length
+}
+
+/**
+ * Run the worker now instead of at its next scheduled run (fire-and-forget)
+ *
+ * A run already in progress is reused, it keeps claiming until the queue
+ * is empty.
+ */
+export function startJobWorker(logPrefix: string): void {
+  runTask(JOB_WORKER_TASK).catch((error: unknown) => {
+    console.error(`${logPrefix} Failed to start the job worker:`, error)
+  })
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function setDiscussionStatus(discussionIds: string[], status: string): Promise<void> {
+  if (discussionIds.length === 0) {
+    return
+  }
+
+  await db
+    .update(discussionSyncDiscussions)
+    .set({ status, updatedAt: new Date() })
+    .where(inArray(discussionSyncDiscussions.id, discussionIds))
+}
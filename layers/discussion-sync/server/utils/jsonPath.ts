@@ -0,0 +1,187 @@
+/**
+ * JSON Path Resolution
+ *
+ * Resolves the small subset of JSONPath used by webhook field mappings.
+ * Both JSONPath and dot-path notation are accepted:
+ *
+ * - `$.message.text` / `message.text` - object keys
+ * - `$.items[0].id` / `items.0.id` - array indexes (negative indexes count from the end)
+ * - `$['user-name']` - bracket notation for keys with special characters
+ * - `$.comments[*].body` / `comments.*.body` - wildcards over arrays and objects
+ *
+ * Filters, recursive descent and slices are not supported.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+type PathSegment =
+  | { type: 'key', key: string }
+  | { type: 'index', index: number }
+  | { type: 'wildcard' }
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Parse a path expression into segments
+ *
+ * @throws Error when the expression is malformed
+ */
+export function parsePath(path: string): PathSegment[] {
+  const expression = path.trim()
+
+  if (!expression) {
+    throw new Error('Path is empty')
+  }
+
+  const segments: PathSegment[] = []
+  let i = expression.startsWith('$') ? 1 : 0
+
+  // Dot-paths start with a key directly, e.g. "message.text"
+  if (i === 0 && expression[0] !== '[') {
+    i = readDotSegment(expression, 0, segments)
+  }
+
+  while (i < expression.length) {
+    const char = expression[i]
+
+    if (char === '.') {
+      i = readDotSegment(expression, i + 1, segments)
+    }
+    else if (char === '[') {
+      i = readBracketSegment(expression, i, segments)
+    }
+    else {
+      throw new Error(`Unexpected character "${char}" at position ${i} in path: ${path}`)
+    }
+  }
+
+  return segments
+}
+
+/**
+ * Check whether a path expression is valid
+ */
+export function isValidPath(path: string): boolean {
+  try {
+    parsePath(path)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Resolve all values matched by a path
+ *
+ * Wildcards fan out, so the result can hold several values.
+ * Missing keys and out-of-range indexes match nothing.
+ */
+export function resolvePathAll(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data]
+
+  for (const segment of parsePath(path)) {
+    const next: unknown[] = []
+
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') {
+        continue
+      }
+
+      if (segment.type === 'wildcard') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)))
+      }
+      else if (segment.type === 'index') {
+        if (Array.isArray(value)) {
+          const item = value.at(segment.index)
+          if (item !== undefined) {
+            next.push(item)
+          }
+        }
+      }
+      else {
+        const item = Array.isArray(value) && /^-?\d+$/.test(segment.key)
+          ? value.at(Number(segment.key))
+          : (value as Record<string, unknown>)[segment.key]
+
+        if (item !== undefined) {
+          next.push(item)
+        }
+      }
+    }
+
+    current = next
+  }
+
+  return current
+}
+
+/**
+ * Resolve the first value matched by a path, or undefined
+ */
+export function resolvePath(data: unknown, path: string): unknown {
+  return resolvePathAll(data, path)[0]
+}
+
+// ============================================
+// INTERNAL HELPERS
+// ============================================
+
+function readDotSegment(expression: string, start: number, segments: PathSegment[]): number {
+  let end = start
+  while (end < expression.length && expression[end] !== '.' && expression[end] !== '[') {
+    end++
+  }
+
+  const key = expression.slice(start, end)
+
+  if (!key) {
+    throw new Error(`Empty key at position ${start} in path: ${expression}`)
+  }
+
+  segments.push(key === '*' ? { type: 'wildcard' } : { type: 'key', key })
+  return end
+}
+
+function readBracketSegment(expression: string, start: number, segments: PathSegment[]): number {
+  const quote = expression[start + 1]
+
+  if (quote === '\'' || quote === '"') {
+    const close = expression.indexOf(`${quote}]`, start + 2)
+
+    if (close === -1) {
+      throw new Error(`Unterminated quoted key at position ${start} in path: ${expression}`)
+    }
+
+    segments.push({ type: 'key', key: expression.slice(start + 2, close) })
+    return close + 2
+  }
+
+  const close = expression.indexOf(']', start)
+
+  if (close === -1) {
+    throw new Error(`Unterminated bracket at position ${start} in path: ${expression}`)
+  }
+
+  const content = expression.slice(start + 1, close).trim()
+
+  if (content === '*') {
+    segments.push({ type: 'wildcard' })
+  }
+  else if (/^-?\d+$/.test(content)) {
+    segments.push({ type: 'index', index: Number(content) })
+  }
+  else {
+    throw new Error(`Unsupported bracket expression "[${content}]" in path: ${expression}`)
+  }
+
+  return close + 1
+}
@@ -0,0 +1,44 @@
+/**
+ * Mattermost Token Verification
+ *
+ * Mattermost outgoing webhooks don't sign requests; every request carries
+ * the webhook's `token`, which is compared against the source config's
+ * webhook secret. Mention events forwarded from the WebSocket API by a relay
+ * carry the same token.
+ *
+ * @see https://developers.mattermost.com/integrate/webhooks/outgoing/
+ */
+
+import { timingSafeEqual } from 'node:crypto'
+
+/**
+ * Verify the token of a Mattermost outgoing webhook request
+ *
+ * @param token - `token` field of the payload
+ * @param expected - Token of the outgoing webhook
+ * @returns True if the tokens match, false otherwise
+ */
+export function verifyMattermostToken(
+  token: string | undefined,
+  expected: string
+): boolean {
+  try {
+    if (!token || !expected) {
+      console.warn('[Mattermost Token] Missing token')
+      return false
+    }
+
+    const received = Buffer.from(token, 'utf8')
+    const configured = Buffer.from(expected, 'utf8')
+
+    if (received.length !== configured.length) {
+      return false
+    }
+
+    return timingSafeEqual(received, configured)
+  }
+  catch (error) {
+    console.error('[Mattermost Token] Verification error:', error)
+    return false
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Slack Approval Messages
+ *
+ * Block Kit payloads for the optional approval step: the message listing
+ * detected tasks with Approve / Edit / Discard buttons, the modal used to
+ * edit tasks before approving, and the message shown once decided.
+ *
+ * Button clicks and modal submissions arrive at the Slack interactivity
+ * endpoint, which resumes the paused sync job.
+ */
+
+import type { ApprovalRequest } from '../adapters/base'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SLACK_APPROVAL_ACTIONS = {
+  APPROVE: 'discubot_approve',
+  EDIT: 'discubot_edit',
+  DISCARD: 'discubot_discard',
+} as const
+
+export const SLACK_EDIT_TASKS_CALLBACK_ID = 'discubot_edit_tasks'
+
+const APPROVAL_CONFIG = {
+  MAX_DESCRIPTION_LENGTH: 500, // In the approval message, the modal shows everything
+  MAX_INPUT_LENGTH: 3000, // Slack's limit for plain_text_input values
+  MAX_EDITABLE_TASKS: 20, // Two inputs per task, modals allow 100 blocks
+} as const
+
+const PRIORITY_EMOJIS: Record<string, string> = {
+  high: ':red_circle:',
+  medium: ':large_orange_circle:',
+  low: ':white_circle:',
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SlackApprovalAction = typeof SLACK_APPROVAL_ACTIONS[keyof typeof SLACK_APPROVAL_ACTIONS]
+
+export interface SlackMessageContent {
+  text: string // Notification fallback
+  blocks: Record<string, unknown>[]
+}
+
+export interface EditedTask {
+  index: number // Position in the approval request
+  title: string
+  description: string
+}
+
+export interface EditTasksSubmission {
+  jobId: string
+  responseUrl?: string
+  tasks: EditedTask[]
+}
+
+/**
+ * view_submission payload fields used by the edit modal
+ */
+export interface SlackViewSubmission {
+  callback_id: string
+  private_metadata: string
+  state: {
+    values: Record<string, Record<string, { type: string, value?: string | null }>>
+  }
+}
+
+// ============================================
+// MESSAGES
+// ============================================
+
+export function isSlackApprovalAction(actionId: string | undefined): actionId is SlackApprovalAction {
+  return Object.values(SLACK_APPROVAL_ACTIONS).includes(actionId as SlackApprovalAction)
+}
+
+/**
+ * Message listing the detected tasks with Approve / Edit / Discard buttons
+ */
+export function buildApprovalMessage(request: ApprovalRequest): SlackMessageContent {
+  const count = request.tasks.length
+  const taskWord = count === 1 ? 'task' : 'tasks'
+
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `:mag: I found *${count} ${taskWord}* in this thread. Review before they are created in ${request.destination || 'Notion'}:`,
+      },
+    },
+  ]
+
+  if (request.summary) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: truncate(request.summary, APPROVAL_CONFIG.MAX_DESCRIPTION_LENGTH) }],
+    })
+  }
+
+  request.tasks.forEach((task, index) => {
+    const priority = task.priority ? `${PRIORITY_EMOJIS[task.priority] || ''} ${task.priority}`.trim() : ''
+    const description = task.description ? `\n${truncate(task.description, APPROVAL_CONFIG.MAX_DESCRIPTION_LENGTH)}` : ''
+
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${index + 1}. ${task.title}*${priority ? `  ${priority}` : ''}${description}`,
+      },
+    })
+  })
+
+  blocks.push({
+    type: 'actions',
+    block_id: 'discubot_approval',
+    elements: [
+      {
+        type: 'button',
+        action_id: SLACK_APPROVAL_ACTIONS.APPROVE,
+        text: { type: 'plain_text', text: 'Approve' },
+        style: 'primary',
+        value: request.jobId,
+      },
+      {
+        type: 'button',
+        action_id: SLACK_APPROVAL_ACTIONS.EDIT,
+        text: { type: 'plain_text', text: 'Edit' },
+        value: request.jobId,
+      },
+      {
+        type: 'button',
+        action_id: SLACK_APPROVAL_ACTIONS.DISCARD,
+        text: { type: 'plain_text', text: 'Discard' },
+        style: 'danger',
+        value: request.jobId,
+        confirm: {
+          title: { type: 'plain_text', text: 'Discard tasks?' },
+          text: { type: 'plain_text', text: 'No tasks will be created for this thread.' },
+          confirm: { type: 'plain_text', text: 'Discard' },
+          deny: { type: 'plain_text', text: 'Cancel' },
+        },
+      },
+    ],
+  })
+
+  return {
+    text: `I found ${count} ${taskWord} in this thread, waiting for approval`,
+    blocks,
+  }
+}
+
+/**
+ * Replacement for the approval message once someone decided
+ */
+export function buildApprovalDecisionMessage(
+  decision: 'approved' | 'discarded',
+  userId: string,
+  taskCount: number,
+): SlackMessageContent {
+  const taskWord = taskCount === 1 ? 'task' : 'tasks'
+  const text = decision === 'approved'
+    ? `:white_check_mark: <@${userId}> approved ${taskCount} ${taskWord}`
+    : `:wastebasket: <@${userId}> discarded the detected ${taskWord}`
+
+  return {
+    text,
+    blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }],
+  }
+}
+
+// ============================================
+// EDIT MODAL
+// ============================================
+
+/**
+ * Modal with a title and description input per task
+ *
+ * The job ID and the approval message's response_url travel in
+ * private_metadata, so the submission can resume the job and update
+ * the message.
+ */
+export function buildEditTasksView(request: ApprovalRequest, responseUrl?: string): Record<string, unknown> {
+  const tasks = request.tasks.slice(0, APPROVAL_CONFIG.MAX_EDITABLE_TASKS)
+
+  const blocks = tasks.flatMap((task, index) => [
+    {
+      type: 'input',
+      block_id: `task_${index}_title`,
+      label: { type: 'plain_text', text: `Task ${index + 1}` },
+      hint: { type: 'plain_text', text: 'Clear the title to drop this task.' },
+      optional: true,
+      element: {
+        type: 'plain_text_input',
+        action_id: 'value',
+        initial_value: truncate(task.title, APPROVAL_CONFIG.MAX_INPUT_LENGTH),
+        max_length: APPROVAL_CONFIG.MAX_INPUT_LENGTH,
+      },
+    },
+    {
+      type: 'input',
+      block_id: `task_${index}_description`,
+      label: { type: 'plain_text', text: 'Description' },
+      optional: true,
+      element: {
+        type: 'plain_text_input',
+        action_id: 'value',
+        multiline: true,
+        ...(task.description && { initial_value: truncate(task.description, APPROVAL_CONFIG.MAX_INPUT_LENGTH) }),
+        max_length: APPROVAL_CONFIG.MAX_INPUT_LENGTH,
+      },
+    },
+  ])
+
+  return {
+    type: 'modal',
+    callback_id: SLACK_EDIT_TASKS_CALLBACK_ID,
+    private_metadata: JSON.stringify({ jobId: request.jobId, responseUrl }),
+    title: { type: 'plain_text', text: 'Edit tasks' },
+    submit: { type: 'plain_text', text: 'Approve' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks,
+  }
+}
+
+/**
+ * Read the edited tasks from an edit modal submission
+ *
+ * Tasks whose title was cleared are dropped.
+ */
+export function parseEditTasksSubmission(view: SlackViewSubmission): EditTasksSubmission {
+  const { jobId, responseUrl } = JSON.parse(view.private_metadata || '{}') as { jobId?: string, responseUrl?: string }
+
+  if (!jobId) {
+    throw new Error('Edit tasks submission has no job ID')
+  }
+
+  const values = view.state?.values || {}
+  const tasks: EditedTask[] = []
+
+  for (let index = 0; values[`task_${index}_title`]; index++) {
+    const title = values[`task_${index}_title`]?.value?.value?.trim() || ''
+    const description = values[`task_${index}_description`]?.value?.value?.trim() || ''
+
+    if (title) {
+      tasks.push({ index, title, description })
+    }
+  }
+
+  return { jobId, responseUrl, tasks }
+}
+
+// ============================================
+// INTERNAL HELPERS
+// ============================================
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text
+}
@@ -0,0 +1,214 @@
+/**
+ * Slack App Installation
+ *
+ * "Add to Slack" OAuth v2 flow for distributing the app to many workspaces:
+ *
+ * 1. A team member starts the install, which stores a one-time state in KV
+ *    and redirects to Slack's authorize page
+ * 2. Slack redirects back to the callback with a code, which is exchanged
+ *    for a bot token (oauth.v2.access)
+ * 3. The bot token is encrypted and saved on the team's Slack source config,
+ *    together with the workspace (team.id) and Enterprise Grid org
+ *    (enterprise.id) it was installed in
+ *
+ * When the app is uninstalled or its bot token is revoked, the Events API
+ * sends `app_uninstalled` / `tokens_revoked` and the config is deactivated.
+ * The source config writes live in slackInstallations.ts.
+ */
+
+import type { SourceConfigRecord } from './discussionIngestion'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SLACK_BOT_SCOPES = [
+  'app_mentions:read',
+  'channels:history',
+  'channels:read',
+  'chat:write',
+  'commands',
+  'files:read',
+  'reactions:read',
+  'reactions:write',
+  'users:read',
+] as const
+
+export const SLACK_OAUTH_CALLBACK_PATH = '/api/oauth/slack/callback'
+
+const SLACK_AUTHORIZE_URL = 'https://slack.com/oauth/v2/authorize'
+const SLACK_OAUTH_ACCESS_URL = 'https://slack.com/api/oauth.v2.access'
+
+const INSTALL_STATE_KEY_PREFIX = 'discussion-sync:slack-install'
+const INSTALL_STATE_TTL = 10 * 60 // Seconds to complete the install
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * What the callback needs to know about who started the install
+ */
+export interface SlackInstallState {
+  teamId: string // App team the config belongs to
+  userId: string
+  sourceConfigId?: string // Reinstall into an existing config
+  redirectTo: string
+}
+
+/**
+ * oauth.v2.access response
+ */
+export interface SlackOAuthAccessResponse {
+  ok: boolean
+  error?: string
+  access_token?: string
+  token_type?: string
+  scope?: string
+  bot_user_id?: string
+  app_id?: string
+  team?: { id: string, name?: string } | null
+  enterprise?: { id: string, name?: string } | null
+  is_enterprise_install?: boolean
+  authed_user?: { id: string }
+}
+
+export type SlackRevocationReason = 'app_uninstalled' | 'tokens_revoked'
+
+// ============================================
+// OAUTH
+// ============================================
+
+/**
+ * URL of Slack's "Add to Slack" authorize page
+ */
+export function buildSlackAuthorizeUrl(options: {
+  clientId: string
+  redirectUri: string
+  state: string
+}): string {
+  const params = new URLSearchParams({
+    client_id: options.clientId,
+    scope: SLACK_BOT_SCOPES.join(','),
+    redirect_uri: options.redirectUri,
+    state: options.state,
+  })
+
+  return `${SLACK_AUTHORIZE_URL}?${params.toString()}`
+}
+
+/**
+ * Store the install state and return its one-time key for the `state` param
+ */
+export async function createInstallState(state: SlackInstallState): Promise<string> {
+  const key = crypto.randomUUID()
+  await hubKV().set(`${INSTALL_STATE_KEY_PREFIX}:${key}`, state, { ttl: INSTALL_STATE_TTL })
+  return key
+}
+
+/**
+ * Look up and delete an install state, so a callback URL can't be replayed
+ */
+export async function consumeInstallState(key: string | undefined): Promise<SlackInstallState | null> {
+  if (!key) {
+    return null
+  }
+
+  const storageKey = `${INSTALL_STATE_KEY_PREFIX}:${key}`
+  const state = await hubKV().get<SlackInstallState>(storageKey)
+
+  if (state) {
+    await hubKV().del(storageKey)
+  }
+
+  return state ?? null
+}
+
+/**
+ * Exchange the callback's code for a bot token
+ *
+ * @throws Error if Slack rejects the code or the install has no bot token
+ */
+export async function exchangeSlackOAuthCode(options: {
+  clientId: string
+  clientSecret: string
+  code: string
+  redirectUri: string
+}): Promise<SlackOAuthAccessResponse> {
+  const response = await $fetch<SlackOAuthAccessResponse>(SLACK_OAUTH_ACCESS_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      code: options.code,
+      redirect_uri: options.redirectUri,
+    }).toString(),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Slack OAuth error: ${response.error || 'unknown_error'}`)
+  }
+
+  if (!response.access_token || response.token_type !== 'bot') {
+    throw new Error('Slack OAuth response has no bot token')
+  }
+
+  if (response.is_enterprise_install || !response.team?.id) {
+    throw new Error('Org-wide installs are not supported, install the app in a workspace')
+  }
+
+  return response
+}
+
+/**
+ * Source config metadata describing an installation
+ */
+export function buildInstallationMetadata(
+  installation: SlackOAuthAccessResponse,
+  existing: Record<string, unknown> | null | undefined,
+): Record<string, unknown> {
+  const { uninstalledAt: _uninstalledAt, uninstallReason: _uninstallReason, ...metadata } = existing || {}
+
+  return {
+    ...metadata,
+    workspaceId: installation.team?.id,
+    workspaceName: installation.team?.name,
+    enterpriseId: installation.enterprise?.id ?? null,
+    enterpriseName: installation.enterprise?.name ?? null,
+    appId: installation.app_id,
+    botUserId: installation.bot_user_id,
+    scopes: installation.scope?.split(',') ?? [],
+    installedBy: installation.authed_user?.id,
+    installedAt: new Date().toISOString(),
+  }
+}
+
+// ============================================
+// UNINSTALL
+// ============================================
+
+/**
+ * Whether an uninstall event applies to a config
+ *
+ * tokens_revoked lists the revoked bot users; configs only use bot tokens,
+ * so user token revocations are ignored.
+ */
+export function isRevokedInstallation(
+  config: Pick<SourceConfigRecord, 'sourceMetadata'>,
+  reason: SlackRevocationReason,
+  revokedBotUserIds: string[] = [],
+): boolean {
+  if (reason === 'app_uninstalled') {
+    return true
+  }
+
+  if (revokedBotUserIds.length === 0) {
+    return false
+  }
+
+  const botUserId = config.sourceMetadata?.botUserId
+  return !botUserId || revokedBotUserIds.includes(botUserId)
+}
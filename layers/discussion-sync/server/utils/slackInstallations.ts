@@ -0,0 +1,137 @@
+/**
+ * Slack Installations
+ *
+ * Source config writes for the "Add to Slack" flow: saving the bot token
+ * and workspace of an installation, and deactivating configs when the app
+ * is uninstalled or its token revoked.
+ */
+
+import { db } from '~~/server/database'
+import { discussionSyncSourceconfigs } from '~~/server/database/schema'
+import { and, eq } from 'drizzle-orm'
+import { getDestinationType } from '../destinations/base'
+import { prepareConfigForStorage } from './encryptedConfig'
+import type { SourceConfigRecord } from './discussionIngestion'
+import { buildInstallationMetadata, isRevokedInstallation } from './slackInstall'
+import type { SlackInstallState, SlackOAuthAccessResponse, SlackRevocationReason } from './slackInstall'
+
+// ============================================
+// SOURCE CONFIGS
+// ============================================
+
+/**
+ * Save an installation on the team's Slack source config
+ *
+ * Updates the config the install was started from, or the team's config
+ * for the same workspace. Otherwise a new config is created, which stays
+ * inactive until a Notion database is set.
+ */
+export async function saveSlackInstallation(
+  installation: SlackOAuthAccessResponse,
+  state: SlackInstallState,
+): Promise<SourceConfigRecord> {
+  const { apiToken } = await prepareConfigForStorage({ apiToken: installation.access_token })
+
+  const workspaceId = installation.team?.id
+  const match = state.sourceConfigId
+    ? eq(discussionSyncSourceconfigs.id, state.sourceConfigId)
+    : workspaceId ? eq(discussionSyncSourceconfigs.slackTeamId, workspaceId) : undefined
+
+  const existing: SourceConfigRecord | undefined = match
+    ? await db
+      .select()
+      .from(discussionSyncSourceconfigs)
+      .where(
+        and(
+          eq(discussionSyncSourceconfigs.teamId, state.teamId),
+          eq(discussionSyncSourceconfigs.sourceId, 'slack'),
+          match,
+        ),
+      )
+      .get()
+    : undefined
+
+  if (existing) {
+    console.log('[Slack Install] Updating source config:', existing.id)
+
+    return db
+      .update(discussionSyncSourceconfigs)
+      .set({
+        apiToken,
+        slackTeamId: workspaceId,
+        sourceMetadata: buildInstallationMetadata(installation, existing.sourceMetadata),
+        active: getDestinationType(existing) !== 'notion' || !!existing.notionDatabaseId,
+        updatedBy: state.userId,
+      })
+      .where(eq(discussionSyncSourceconfigs.id, existing.id))
+      .returning()
+      .get()
+  }
+
+  console.log('[Slack Install] Creating source config for workspace:', workspaceId)
+
+  return db
+    .insert(discussionSyncSourceconfigs)
+    .values({
+      teamId: state.teamId,
+      owner: state.userId,
+      sourceId: 'slack',
+      name: `Slack – ${installation.team?.name || installation.team?.id}`,
+      apiToken,
+      slackTeamId: workspaceId,
+      active: false,
+      onboardingComplete: false,
+      sourceMetadata: buildInstallationMetadata(installation, {}),
+      createdBy: state.userId,
+      updatedBy: state.userId,
+    })
+    .returning()
+    .get()
+}
+
+/**
+ * Deactivate a workspace's Slack configs and drop their bot token
+ *
+ * @returns Number of deactivated configs
+ */
+export async function deactivateSlackInstallation(
+  workspaceId: string,
+  reason: SlackRevocationReason,
+  revokedBotUserIds: string[] = [],
+): Promise<number> {
+  const configs = await db
+    .select()
+    .from(discussionSyncSourceconfigs)
+    .where(
+      and(
+        eq(discussionSyncSourceconfigs.sourceId, 'slack'),
+        eq(discussionSyncSourceconfigs.active, true),
+        eq(discussionSyncSourceconfigs.slackTeamId, workspaceId),
+      ),
+    )
+    .all()
+
+  const revoked = configs.filter((config: SourceConfigRecord) =>
+    isRevokedInstallation(config, reason, revokedBotUserIds),
+  )
+
+  for (const config of revoked) {
+    await db
+      .update(discussionSyncSourceconfigs)
+      .set({
+        active: false,
+        apiToken: null,
+        sourceMetadata: {
+          ...config.sourceMetadata,
+          uninstalledAt: new Date().toISOString(),
+          uninstallReason: reason,
+        },
+        updatedBy: 'slack-webhook',
+      })
+      .where(eq(discussionSyncSourceconfigs.id, config.id))
+
+    console.log('[Slack Install] Deactivated source config:', config.id, reason)
+  }
+
+  return revoked.length
+}
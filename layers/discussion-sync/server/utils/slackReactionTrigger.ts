@@ -0,0 +1,98 @@
+/**
+ * Slack Reaction Trigger
+ *
+ * Decides whether a `reaction_added` event should create a discussion.
+ * The trigger is configured per source config in its metadata:
+ *
+ * {
+ *   "workspaceId": "T123ABC",
+ *   "triggerEmoji": "notion",
+ *   "triggerChannels": ["C123ABC", "C456DEF"]
+ * }
+ *
+ * Without triggerEmoji, reactions are ignored. An empty or missing
+ * triggerChannels list allows every channel the bot is a member of.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SlackReactionTriggerSettings {
+  emoji: string | null
+  channels: string[]
+}
+
+/**
+ * reaction_added event as sent by the Slack Events API
+ */
+export interface SlackReactionAddedEvent {
+  type: 'reaction_added'
+  user: string // Who reacted
+  reaction: string
+  item_user?: string // Author of the reacted message
+  item: {
+    type: string // 'message' | 'file' | 'file_comment'
+    channel?: string
+    ts?: string
+  }
+  event_ts: string
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Normalize an emoji name: ":notion:" and "thumbsup::skin-tone-2" become
+ * "notion" and "thumbsup"
+ */
+export function normalizeEmojiName(emoji: string): string {
+  return emoji
+    .trim()
+    .replace(/^:+|:+$/g, '')
+    .split('::')[0]!
+    .toLowerCase()
+}
+
+/**
+ * Read the reaction trigger settings from a source config's metadata
+ */
+export function getReactionTriggerSettings(
+  sourceMetadata: Record<string, unknown> | null | undefined,
+): SlackReactionTriggerSettings {
+  const emoji = typeof sourceMetadata?.triggerEmoji === 'string'
+    ? normalizeEmojiName(sourceMetadata.triggerEmoji)
+    : ''
+
+  const channels = Array.isArray(sourceMetadata?.triggerChannels)
+    ? (sourceMetadata.triggerChannels as unknown[]).filter((channel): channel is string => typeof channel === 'string' && channel.length > 0)
+    : []
+
+  return {
+    emoji: emoji || null,
+    channels,
+  }
+}
+
+/**
+ * Check whether a reaction matches the configured trigger
+ */
+export function matchesReactionTrigger(
+  event: SlackReactionAddedEvent,
+  settings: SlackReactionTriggerSettings,
+): boolean {
+  if (!settings.emoji) {
+    return false
+  }
+
+  if (event.item?.type !== 'message' || !event.item.channel || !event.item.ts) {
+    return false
+  }
+
+  if (normalizeEmojiName(event.reaction || '') !== settings.emoji) {
+    return false
+  }
+
+  return settings.channels.length === 0 || settings.channels.includes(event.item.channel)
+}
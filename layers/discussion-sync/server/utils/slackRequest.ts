@@ -0,0 +1,229 @@
+/**
+ * Slack Request Helpers
+ *
+ * Shared steps for the Slack slash command and interactivity endpoints:
+ * reading and verifying the signed request body, resolving the source
+ * config for a workspace, creating discussions through the Slack adapter
+ * and answering with ephemeral messages through `response_url`.
+ */
+
+import type { H3Event } from 'h3'
+import { db } from '~~/server/database'
+import { discussionSyncSourceconfigs } from '~~/server/database/schema'
+import { and, eq } from 'drizzle-orm'
+import { getAdapter } from '../adapters/base'
+import type { SlackIncomingPayload } from '../adapters/slack'
+import { verifySlackSignature } from './slackSignature'
+import {
+  createDiscussionRecord,
+  findExistingDiscussion,
+  queueProcessing,
+} from './discussionIngestion'
+import type { DiscussionRecord, SourceConfigRecord } from './discussionIngestion'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PERMALINK_PATTERN = /\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})/i
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SlackMessageReference {
+  channelId: string
+  messageTs: string
+}
+
+export interface SlackDiscussionResult {
+  discussion: DiscussionRecord
+  duplicate: boolean
+}
+
+// ============================================
+// REQUESTS
+// ============================================
+
+/**
+ * Read the raw request body and verify the Slack signature
+ *
+ * Signature verification is skipped in development, like the events endpoint.
+ *
+ * @throws 400/401/500 errors when the body is missing or can't be verified
+ */
+export async function readVerifiedSlackBody(event: H3Event, logPrefix: string): Promise<string> {
+  const config = useRuntimeConfig()
+  const signingSecret = (config.slackSigningSecret || config.public?.slackSigningSecret) as string | undefined
+
+  if (!signingSecret) {
+    console.error(`${logPrefix} No signing secret configured`)
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal Server Error',
+      message: 'Slack signing secret not configured',
+    })
+  }
+
+  const timestamp = getHeader(event, 'x-slack-request-timestamp')
+  const signature = getHeader(event, 'x-slack-signature')
+
+  if (!timestamp || !signature) {
+    console.warn(`${logPrefix} Missing signature headers`)
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized',
+      message: 'Missing signature headers',
+    })
+  }
+
+  const rawBody = await readRawBody(event, 'utf-8')
+
+  if (!rawBody) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Bad Request',
+      message: 'No request body',
+    })
+  }
+
+  if (process.env.NODE_ENV === 'development') {
+    console.warn(`${logPrefix} ⚠️  Signature verification skipped (development mode)`)
+    return rawBody
+  }
+
+  if (!verifySlackSignature(rawBody, timestamp, signature, signingSecret)) {
+    console.warn(`${logPrefix} Invalid signature`)
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized',
+      message: 'Invalid signature',
+    })
+  }
+
+  return rawBody
+}
+
+/**
+ * Find the active Slack source config installed in a workspace
+ */
+export async function findSlackSourceConfig(workspaceId: string): Promise<SourceConfigRecord | undefined> {
+  return db
+    .select()
+    .from(discussionSyncSourceconfigs)
+    .where(
+      and(
+        eq(discussionSyncSourceconfigs.sourceId, 'slack'),
+        eq(discussionSyncSourceconfigs.active, true),
+        eq(discussionSyncSourceconfigs.slackTeamId, workspaceId),
+      ),
+    )
+    .get()
+}
+
+/**
+ * Reply to a slash command or shortcut with a message only the user sees
+ *
+ * Failures are logged but never thrown; the discussion was already handled.
+ */
+export async function sendEphemeralResponse(responseUrl: string, text: string, logPrefix: string): Promise<void> {
+  try {
+    await $fetch(responseUrl, {
+      method: 'POST',
+      body: {
+        response_type: 'ephemeral',
+        replace_original: false,
+        text,
+      },
+    })
+  }
+  catch (error) {
+    console.error(`${logPrefix} Failed to send ephemeral response:`, error)
+  }
+}
+
+/**
+ * Replace the message an interaction came from, e.g. to remove its buttons
+ *
+ * Failures are logged but never thrown.
+ */
+export async function replaceOriginalMessage(
+  responseUrl: string,
+  content: { text: string, blocks?: Record<string, unknown>[] },
+  logPrefix: string,
+): Promise<void> {
+  try {
+    await $fetch(responseUrl, {
+      method: 'POST',
+      body: {
+        replace_original: true,
+        ...content,
+      },
+    })
+  }
+  catch (error) {
+    console.error(`${logPrefix} Failed to replace original message:`, error)
+  }
+}
+
+// ============================================
+// DISCUSSIONS
+// ============================================
+
+/**
+ * Parse a Slack payload with the Slack adapter and create its discussion
+ *
+ * Returns the existing discussion instead when the thread was already sent.
+ */
+export async function createSlackDiscussion(
+  payload: SlackIncomingPayload,
+  config: SourceConfigRecord,
+  options: { createdBy: string, logPrefix: string },
+): Promise<SlackDiscussionResult> {
+  const adapter = getAdapter('slack')
+  const parsedDiscussion = await adapter.parseIncoming(payload)
+
+  const existing = await findExistingDiscussion(config.teamId, 'slack', parsedDiscussion.sourceThreadId)
+
+  if (existing) {
+    console.log(`${options.logPrefix} Discussion already exists:`, existing.id)
+    return { discussion: existing, duplicate: true }
+  }
+
+  // Keep verification tokens and response URLs out of the stored payload
+  const { token: _token, response_url: _responseUrl, ...rawPayload } = payload as unknown as Record<string, unknown>
+
+  const discussion = await createDiscussionRecord(parsedDiscussion, config, {
+    createdBy: options.createdBy,
+    rawPayload,
+  })
+
+  console.log(`${options.logPrefix} Discussion created:`, discussion.id)
+
+  await queueProcessing(discussion, options.logPrefix)
+
+  return { discussion, duplicate: false }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Extract the channel and message ts from a Slack message link
+ *
+ * Accepts links as typed (https://acme.slack.com/archives/C123/p1700000123000200)
+ * or as escaped by Slack in command text (<https://...|label>).
+ */
+export function parseSlackPermalink(text: string): SlackMessageReference | null {
+  const match = text.match(PERMALINK_PATTERN)
+
+  if (!match) {
+    return null
+  }
+
+  return {
+    channelId: match[1]!,
+    messageTs: `${match[2]}.${match[3]}`,
+  }
+}
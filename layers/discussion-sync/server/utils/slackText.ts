@@ -0,0 +1,227 @@
+/**
+ * Slack Text Formatting
+ *
+ * Slack message text encodes mentions and links as tokens:
+ * `<@U123ABC>`, `<#C123ABC|general>`, `<!here>`, `<https://example.com|label>`.
+ * These are turned into text people and the AI model can read: display
+ * names, channel names and Markdown links.
+ *
+ * User and channel names are looked up through the Slack API. Lookups are
+ * cached per workspace across requests, as the same people and channels
+ * show up in every thread.
+ */
+
+import { LRUCache } from './lru-cache'
+import type { SlackService, SlackUser } from '../services/slack'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SLACK_TEXT_CONFIG = {
+  CACHE_MAX_SIZE: 5000,
+  CACHE_TTL_MS: 60 * 60 * 1000, // 1 hour, display names rarely change
+} as const
+
+const TOKEN_PATTERN = /<([^<>\s][^<>]*)>/g
+
+const SPECIAL_MENTIONS: Record<string, string> = {
+  here: '@here',
+  channel: '@channel',
+  everyone: '@everyone',
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SlackNames {
+  users: Record<string, string> // User ID -> display name
+  channels: Record<string, string> // Channel ID -> channel name
+}
+
+export interface SlackTextReferences {
+  userIds: string[]
+  channelIds: string[]
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+/**
+ * Best human readable name of a Slack user
+ */
+export function getSlackDisplayName(user: SlackUser): string {
+  return user.profile?.display_name
+    || user.profile?.real_name
+    || user.real_name
+    || user.name
+    || user.id
+}
+
+/**
+ * Collect the user and channel IDs mentioned in a message
+ */
+export function extractSlackReferences(text: string): SlackTextReferences {
+  const userIds = new Set<string>()
+  const channelIds = new Set<string>()
+
+  for (const [, token] of text.matchAll(TOKEN_PATTERN)) {
+    const [target] = token!.split('|')
+
+    if (target!.startsWith('@')) {
+      userIds.add(target!.slice(1))
+    }
+    else if (target!.startsWith('#')) {
+      channelIds.add(target!.slice(1))
+    }
+  }
+
+  return {
+    userIds: [...userIds],
+    channelIds: [...channelIds],
+  }
+}
+
+/**
+ * Replace Slack tokens with readable text
+ *
+ * Unknown users and channels fall back to the token's label, then to the ID.
+ */
+export function formatSlackText(text: string, names: SlackNames): string {
+  const formatted = text.replace(TOKEN_PATTERN, (_match, token: string) => {
+    const separator = token.indexOf('|')
+    const target = separator === -1 ? token : token.slice(0, separator)
+    const label = separator === -1 ? '' : token.slice(separator + 1)
+
+    // <@U123> user mention
+    if (target.startsWith('@')) {
+      const userId = target.slice(1)
+      return `@${names.users[userId] || label || userId}`
+    }
+
+    // <#C123|general> channel mention
+    if (target.startsWith('#')) {
+      const channelId = target.slice(1)
+      return `#${names.channels[channelId] || label || channelId}`
+    }
+
+    // <!here>, <!subteam^S123|@design>, <!date^1700000000^{date}|Nov 14>
+    if (target.startsWith('!')) {
+      const command = target.slice(1).split('^')[0]!
+      return SPECIAL_MENTIONS[command] || label || `@${command}`
+    }
+
+    // <mailto:jane@example.com|jane@example.com>
+    if (target.startsWith('mailto:')) {
+      return label || target.slice('mailto:'.length)
+    }
+
+    // <https://example.com|label> and <https://example.com>
+    return label && label !== target ? `[${label}](${target})` : target
+  })
+
+  return unescapeSlackText(formatted)
+}
+
+/**
+ * Slack escapes &, < and > in message text
+ */
+export function unescapeSlackText(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+// ============================================
+// NAME RESOLVER
+// ============================================
+
+let nameCache: LRUCache<string> | null = null
+
+/**
+ * Shared across requests, keys are prefixed with the workspace ID.
+ * Created lazily, as the cache starts a cleanup timer.
+ */
+function getNameCache(): LRUCache<string> {
+  if (!nameCache) {
+    nameCache = new LRUCache<string>({
+      maxSize: SLACK_TEXT_CONFIG.CACHE_MAX_SIZE,
+      ttl: SLACK_TEXT_CONFIG.CACHE_TTL_MS,
+    })
+  }
+
+  return nameCache
+}
+
+/**
+ * Resolves user and channel names of one workspace
+ */
+export class SlackNameResolver {
+  constructor(
+    private readonly service: SlackService,
+    private readonly workspaceId: string,
+  ) {}
+
+  /**
+   * Display name of a user, or the user ID if it can't be looked up
+   */
+  async getUserName(userId: string): Promise<string> {
+    return this.lookup('user', userId, async () => getSlackDisplayName(await this.service.getUserInfo(userId)))
+  }
+
+  /**
+   * Name of a channel, or the channel ID if it can't be looked up
+   */
+  async getChannelName(channelId: string): Promise<string> {
+    return this.lookup('channel', channelId, async () => (await this.service.getChannelInfo(channelId)).name)
+  }
+
+  /**
+   * Look up the names for a set of messages at once
+   */
+  async resolveNames(references: SlackTextReferences): Promise<SlackNames> {
+    const names: SlackNames = { users: {}, channels: {} }
+
+    // Sequential on purpose, lookups go through the service's rate limiter
+    for (const userId of references.userIds) {
+      names.users[userId] = await this.getUserName(userId)
+    }
+
+    for (const channelId of references.channelIds) {
+      names.channels[channelId] = await this.getChannelName(channelId)
+    }
+
+    return names
+  }
+
+  private async lookup(kind: 'user' | 'channel', id: string, fetchName: () => Promise<string>): Promise<string> {
+    const cache = getNameCache()
+    const cacheKey = `${this.workspaceId}:${kind}:${id}`
+
+    const cached = cache.get(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    try {
+      const name = await fetchName()
+      cache.set(cacheKey, name)
+      return name
+    }
+    catch (error) {
+      // Not cached, the next thread retries the lookup
+      console.warn(`[Slack Text] Could not resolve ${kind} ${id}:`, error)
+      return id
+    }
+  }
+}
+
+/**
+ * Clear the shared name cache (for tests)
+ */
+export function clearSlackNameCache(): void {
+  nameCache?.clear()
+}
@@ -0,0 +1,85 @@
+/**
+ * Task ADF
+ *
+ * Atlassian Document Format body for Jira issues: the description, the AI
+ * summary, attachments and a link back to the source discussion. Same
+ * sections as the Markdown body in taskMarkdown.
+ */
+
+import type { AdfNode } from '../services/jira'
+import type { TaskData } from '../destinations/base'
+
+/**
+ * Build the ADF document of a task
+ */
+export function buildTaskAdf(task: Partial<TaskData>): AdfNode {
+  const content: AdfNode[] = []
+
+  if (task.description?.trim()) {
+    // Keep the line structure, ADF has no soft line breaks in text nodes
+    for (const block of task.description.trim().split(/\n{2,}/)) {
+      content.push(paragraph(withLineBreaks(block)))
+    }
+  }
+
+  if (task.aiSummary?.summary) {
+    content.push(heading('🤖 AI Summary'))
+    content.push(paragraph([text(task.aiSummary.summary)]))
+
+    if (task.aiSummary.keyPoints?.length) {
+      content.push(paragraph([text('Key points', [{ type: 'strong' }])]))
+      content.push(bulletList(task.aiSummary.keyPoints.map(point => [text(point)])))
+    }
+
+    if (task.aiSummary.suggestedActions?.length) {
+      content.push(paragraph([text('Suggested actions', [{ type: 'strong' }])]))
+      content.push(bulletList(task.aiSummary.suggestedActions.map(action => [text(action)])))
+    }
+  }
+
+  if (task.attachments?.length) {
+    content.push(heading('📎 Attachments'))
+    content.push(bulletList(task.attachments.map(attachment => [link(attachment.name || attachment.url, attachment.url)])))
+  }
+
+  if (task.sourceUrl) {
+    content.push({ type: 'rule' })
+    content.push(paragraph([text('🔗 '), link('View source discussion', task.sourceUrl)]))
+  }
+
+  return { type: 'doc', version: 1, content }
+}
+
+// ============================================
+// NODE HELPERS
+// ============================================
+
+function text(value: string, marks?: AdfNode['marks']): AdfNode {
+  return marks ? { type: 'text', text: value, marks } : { type: 'text', text: value }
+}
+
+function link(value: string, href: string): AdfNode {
+  return text(value, [{ type: 'link', attrs: { href } }])
+}
+
+function paragraph(content: AdfNode[]): AdfNode {
+  return { type: 'paragraph', content }
+}
+
+function heading(value: string): AdfNode {
+  return { type: 'heading', attrs: { level: 2 }, content: [text(value)] }
+}
+
+function bulletList(items: AdfNode[][]): AdfNode {
+  return {
+    type: 'bulletList',
+    content: items.map(item => ({ type: 'listItem', content: [paragraph(item)] })),
+  }
+}
+
+function withLineBreaks(value: string): AdfNode[] {
+  return value
+    .split('\n')
+    .flatMap((line, index) => index === 0 ? [text(line)] : [{ type: 'hardBreak' }, text(line)])
+    .filter(node => node.type !== 'text' || node.text)
+}
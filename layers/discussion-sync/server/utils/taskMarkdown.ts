@@ -0,0 +1,79 @@
+/**
+ * Task Markdown
+ *
+ * Markdown body for destinations whose tasks take Markdown (Linear,
+ * GitHub): the description, the AI summary, attachments, optionally the
+ * thread transcript and a link back to the source discussion. The Notion
+ * equivalent is built from blocks in NotionService.
+ */
+
+import type { ThreadMessage } from '../adapters/base'
+import type { TaskData } from '../destinations/base'
+
+export interface TaskMarkdownOptions {
+  transcript?: boolean // Add the thread's messages in a collapsed section
+}
+
+/**
+ * Build the Markdown body of a task
+ */
+export function buildTaskMarkdown(task: Partial<TaskData>, options: TaskMarkdownOptions = {}): string {
+  const sections: string[] = []
+
+  if (task.description?.trim()) {
+    sections.push(task.description.trim())
+  }
+
+  if (task.aiSummary?.summary) {
+    let summary = `## 🤖 AI Summary\n\n${task.aiSummary.summary}`
+
+    if (task.aiSummary.keyPoints?.length) {
+      summary += `\n\n**Key points**\n\n${toList(task.aiSummary.keyPoints)}`
+    }
+
+    if (task.aiSummary.suggestedActions?.length) {
+      summary += `\n\n**Suggested actions**\n\n${toList(task.aiSummary.suggestedActions)}`
+    }
+
+    sections.push(summary)
+  }
+
+  if (task.attachments?.length) {
+    const attachments = task.attachments.map((attachment) => {
+      const name = attachment.name || attachment.url
+      return attachment.type === 'image' ? `![${name}](${attachment.url})` : `- [${name}](${attachment.url})`
+    })
+
+    sections.push(`## 📎 Attachments\n\n${attachments.join('\n')}`)
+  }
+
+  if (options.transcript && task.transcript?.length) {
+    sections.push(`## 💬 Thread\n\n${toTranscript(task.transcript)}`)
+  }
+
+  if (task.sourceUrl) {
+    sections.push(`---\n\n🔗 [View source discussion](${task.sourceUrl})`)
+  }
+
+  return sections.join('\n\n')
+}
+
+/**
+ * Messages as quotes in a <details> block, which GitHub renders collapsed
+ *
+ * Timestamps may be strings once tasks went through JSON (approval).
+ */
+function toTranscript(messages: ThreadMessage[]): string {
+  const quotes = messages.map((message) => {
+    const timestamp = new Date(message.timestamp).toISOString().slice(0, 16).replace('T', ' ')
+    const quote = message.content.split('\n').map(line => `> ${line}`).join('\n')
+    return `**${message.authorHandle}** · ${timestamp} UTC\n\n${quote}`
+  })
+
+  const count = messages.length === 1 ? '1 message' : `${messages.length} messages`
+  return `<details>\n<summary>${count}</summary>\n\n${quotes.join('\n\n')}\n\n</details>`
+}
+
+function toList(items: string[]): string {
+  return items.map(item => `- ${item}`).join('\n')
+}
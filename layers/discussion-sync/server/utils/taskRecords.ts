@@ -0,0 +1,81 @@
+/**
+ * Task Records
+ *
+ * Reads and writes on discussionSyncTasks, the record the processor keeps
+ * of every task it created, whatever the destination. For the built-in
+ * task board the record is the task itself.
+ */
+
+import { db } from '~~/server/database'
+import { discussionSyncTasks, teams } from '~~/server/database/schema'
+import { and, desc, eq } from 'drizzle-orm'
+
+export type TaskRecord = typeof discussionSyncTasks.$inferSelect
+
+export type TaskRecordUpdates = Partial<Pick<TaskRecord, 'title' | 'description' | 'priority' | 'summary' | 'status'>>
+
+/**
+ * Latest task a team created in a destination for a source discussion
+ */
+export async function findTaskRecord(
+  teamId: string,
+  destinationType: string,
+  sourceUrl: string,
+): Promise<TaskRecord | null> {
+  const records = await db
+    .select()
+    .from(discussionSyncTasks)
+    .where(
+      and(
+        eq(discussionSyncTasks.teamId, teamId),
+        eq(discussionSyncTasks.destinationType, destinationType),
+        eq(discussionSyncTasks.sourceUrl, sourceUrl),
+      ),
+    )
+    .orderBy(desc(discussionSyncTasks.createdAt))
+    .limit(1)
+
+  return records[0] || null
+}
+
+/**
+ * Update fields of a team's task record
+ */
+export async function updateTaskRecord(
+  teamId: string,
+  taskId: string,
+  updates: TaskRecordUpdates,
+): Promise<void> {
+  const records = await db
+    .update(discussionSyncTasks)
+    .set(updates)
+    .where(
+      and(
+        eq(discussionSyncTasks.id, taskId),
+        eq(discussionSyncTasks.teamId, teamId),
+      ),
+    )
+    .returning({ id: discussionSyncTasks.id })
+
+  if (records.length === 0) {
+    throw new Error(`Task not found: ${taskId}`)
+  }
+}
+
+/**
+ * Link to a task on the team's task board
+ */
+export async function getTaskBoardUrl(teamId: string, taskId: string): Promise<string> {
+  const [team] = await db
+    .select({ slug: teams.slug })
+    .from(teams)
+    .where(eq(teams.id, teamId))
+    .limit(1)
+
+  if (!team) {
+    throw new Error(`Team not found: ${teamId}`)
+  }
+
+  const host = (useRuntimeConfig().public?.host as string | undefined) || ''
+  return `${host.replace(/\/$/, '')}/dashboard/${team.slug}/tasks?task=${taskId}`
+}
@@ -0,0 +1,351 @@
+/**
+ * Webhook Field Mapping
+ *
+ * Maps arbitrary JSON webhook payloads onto discussion fields using path
+ * expressions (see jsonPath.ts) stored in the source config's metadata:
+ *
+ * {
+ *   "mapping": {
+ *     "sourceThreadId": "$.submission.id",
+ *     "content": ["$.submission.message", "$.submission.description"],
+ *     "title": "$.form.name",
+ *     "authorHandle": "$.submission.email",
+ *     "replies": { "path": "$.comments[*]", "content": "body", "authorHandle": "author" },
+ *     "metadata": { "formId": "$.form.id" }
+ *   }
+ * }
+ *
+ * A field can list several paths; the first one that matches wins. Only
+ * sourceThreadId and content are required. Shared by the generic webhook
+ * adapter and the mapping preview endpoint.
+ */
+
+import { isValidPath, resolvePathAll } from './jsonPath'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const WEBHOOK_MAPPING_CONFIG = {
+  TITLE_MAX_LENGTH: 80,
+  MAX_REPLIES: 100,
+  DEFAULT_AUTHOR: 'webhook',
+} as const
+
+const REQUIRED_FIELDS = ['sourceThreadId', 'content'] as const
+const OPTIONAL_FIELDS = ['title', 'authorHandle', 'sourceUrl', 'timestamp', 'participants'] as const
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * One path, or several paths tried in order
+ */
+export type MappingPath = string | string[]
+
+export interface WebhookReplyMapping {
+  path: string // Array of reply items; the fields below are relative to each item
+  content: MappingPath
+  id?: MappingPath
+  authorHandle?: MappingPath
+  timestamp?: MappingPath
+}
+
+export interface WebhookFieldMapping {
+  sourceThreadId: MappingPath
+  content: MappingPath
+  title?: MappingPath
+  authorHandle?: MappingPath
+  sourceUrl?: MappingPath
+  timestamp?: MappingPath
+  participants?: MappingPath
+  replies?: WebhookReplyMapping
+  metadata?: Record<string, MappingPath>
+}
+
+export interface MappedWebhookReply {
+  id: string
+  authorHandle: string
+  content: string
+  timestamp: string // ISO string, so the reply survives JSON storage
+}
+
+export interface MappedWebhookPayload {
+  sourceThreadId: string
+  title: string
+  content: string
+  authorHandle: string
+  sourceUrl: string
+  timestamp: Date
+  participants: string[]
+  replies: MappedWebhookReply[]
+  metadata: Record<string, unknown>
+}
+
+export interface WebhookMappingResult {
+  mapped: MappedWebhookPayload | null
+  errors: string[]
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Validate a field mapping without a payload
+ *
+ * @returns List of problems, empty when the mapping is usable
+ */
+export function validateWebhookMapping(mapping: unknown): string[] {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return ['Field mapping must be an object']
+  }
+
+  const errors: string[] = []
+  const fields = mapping as Record<string, unknown>
+
+  for (const field of REQUIRED_FIELDS) {
+    if (fields[field] === undefined) {
+      errors.push(`Field mapping for "${field}" is required`)
+    }
+    else {
+      errors.push(...validateMappingPath(fields[field], field))
+    }
+  }
+
+  for (const field of OPTIONAL_FIELDS) {
+    if (fields[field] !== undefined) {
+      errors.push(...validateMappingPath(fields[field], field))
+    }
+  }
+
+  if (fields.replies !== undefined) {
+    const replies = fields.replies as Record<string, unknown> | null
+
+    if (!replies || typeof replies !== 'object' || Array.isArray(replies)) {
+      errors.push('Field mapping for "replies" must be an object')
+    }
+    else {
+      if (typeof replies.path !== 'string') {
+        errors.push('Field mapping for "replies.path" must be a single path')
+      }
+      else {
+        errors.push(...validateMappingPath(replies.path, 'replies.path'))
+      }
+
+      if (replies.content === undefined) {
+        errors.push('Field mapping for "replies.content" is required')
+      }
+
+      for (const field of ['content', 'id', 'authorHandle', 'timestamp']) {
+        if (replies[field] !== undefined) {
+          errors.push(...validateMappingPath(replies[field], `replies.${field}`))
+        }
+      }
+    }
+  }
+
+  if (fields.metadata !== undefined) {
+    const metadata = fields.metadata as Record<string, unknown> | null
+
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      errors.push('Field mapping for "metadata" must be an object')
+    }
+    else {
+      for (const [key, path] of Object.entries(metadata)) {
+        errors.push(...validateMappingPath(path, `metadata.${key}`))
+      }
+    }
+  }
+
+  return errors
+}
+
+// ============================================
+// MAPPING
+// ============================================
+
+/**
+ * Apply a field mapping to a webhook payload
+ *
+ * Never throws; invalid mappings and missing required values are
+ * reported in `errors` and leave `mapped` null.
+ */
+export function applyWebhookMapping(payload: unknown, mapping: unknown): WebhookMappingResult {
+  const mappingErrors = validateWebhookMapping(mapping)
+
+  if (mappingErrors.length > 0) {
+    return { mapped: null, errors: mappingErrors }
+  }
+
+  const fields = mapping as WebhookFieldMapping
+  const errors: string[] = []
+
+  const sourceThreadId = toText(resolveFirst(payload, fields.sourceThreadId))
+  const content = toText(resolveFirst(payload, fields.content)).trim()
+
+  if (!sourceThreadId) {
+    errors.push(`No value found for "sourceThreadId" at ${describePath(fields.sourceThreadId)}`)
+  }
+
+  if (!content) {
+    errors.push(`No value found for "content" at ${describePath(fields.content)}`)
+  }
+
+  // Missing timestamps default to now, unparsable ones are reported
+  const rawTimestamp = resolveFirst(payload, fields.timestamp)
+  const timestamp = rawTimestamp === undefined ? new Date() : toDate(rawTimestamp)
+
+  if (!timestamp) {
+    errors.push(`Value at ${describePath(fields.timestamp!)} is not a valid timestamp`)
+  }
+
+  if (errors.length > 0) {
+    return { mapped: null, errors }
+  }
+
+  const authorHandle = toText(resolveFirst(payload, fields.authorHandle)) || WEBHOOK_MAPPING_CONFIG.DEFAULT_AUTHOR
+  const title = toText(resolveFirst(payload, fields.title)).trim() || excerpt(content)
+  const replies = fields.replies ? mapReplies(payload, fields.replies, sourceThreadId, timestamp!) : []
+
+  const participants = Array.from(new Set([
+    authorHandle,
+    ...resolveAll(payload, fields.participants).map(toText),
+    ...replies.map(reply => reply.authorHandle),
+  ].filter(Boolean)))
+
+  const metadata: Record<string, unknown> = {}
+  for (const [key, path] of Object.entries(fields.metadata || {})) {
+    metadata[key] = resolveFirst(payload, path)
+  }
+
+  return {
+    mapped: {
+      sourceThreadId,
+      title,
+      content,
+      authorHandle,
+      sourceUrl: toText(resolveFirst(payload, fields.sourceUrl)),
+      timestamp: timestamp!,
+      participants,
+      replies,
+      metadata,
+    },
+    errors: [],
+  }
+}
+
+// ============================================
+// INTERNAL HELPERS
+// ============================================
+
+function validateMappingPath(value: unknown, field: string): string[] {
+  const paths = Array.isArray(value) ? value : [value]
+
+  if (paths.length === 0 || paths.some(path => typeof path !== 'string')) {
+    return [`Field mapping for "${field}" must be a path or a list of paths`]
+  }
+
+  return (paths as string[])
+    .filter(path => !isValidPath(path))
+    .map(path => `Invalid path for "${field}": ${path}`)
+}
+
+function describePath(path: MappingPath): string {
+  return Array.isArray(path) ? path.join(', ') : path
+}
+
+/**
+ * First non-empty value of the first path that matches
+ */
+function resolveFirst(data: unknown, path: MappingPath | undefined): unknown {
+  for (const candidate of toPaths(path)) {
+    const value = resolvePathAll(data, candidate).find(v => v !== null && v !== '')
+    if (value !== undefined) {
+      return value
+    }
+  }
+  return undefined
+}
+
+/**
+ * All values matched by every path, with arrays flattened
+ */
+function resolveAll(data: unknown, path: MappingPath | undefined): unknown[] {
+  return toPaths(path)
+    .flatMap(candidate => resolvePathAll(data, candidate))
+    .flatMap(value => Array.isArray(value) ? value : [value])
+    .filter(value => value !== null && value !== undefined)
+}
+
+function toPaths(path: MappingPath | undefined): string[] {
+  if (!path) {
+    return []
+  }
+  return Array.isArray(path) ? path : [path]
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  if (typeof value === 'string') {
+    return value
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toText).filter(Boolean).join('\n')
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+
+  return String(value)
+}
+
+/**
+ * Parse ISO strings and unix timestamps (seconds or milliseconds)
+ */
+function toDate(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') {
+    return null
+  }
+
+  const numeric = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(String(value)) ? Number(value) : null
+  const date = numeric !== null
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(String(value))
+
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function excerpt(content: string): string {
+  const firstLine = content.split('\n')[0]!.trim()
+
+  return firstLine.length > WEBHOOK_MAPPING_CONFIG.TITLE_MAX_LENGTH
+    ? `${firstLine.substring(0, WEBHOOK_MAPPING_CONFIG.TITLE_MAX_LENGTH - 3)}...`
+    : firstLine
+}
+
+function mapReplies(
+  payload: unknown,
+  mapping: WebhookReplyMapping,
+  sourceThreadId: string,
+  fallbackTimestamp: Date,
+): MappedWebhookReply[] {
+  const matches = resolvePathAll(payload, mapping.path)
+  const items = matches.length === 1 && Array.isArray(matches[0]) ? matches[0] : matches
+
+  return items
+    .slice(0, WEBHOOK_MAPPING_CONFIG.MAX_REPLIES)
+    .map((item, index) => ({
+      id: toText(resolveFirst(item, mapping.id)) || `${sourceThreadId}-reply-${index + 1}`,
+      authorHandle: toText(resolveFirst(item, mapping.authorHandle)) || WEBHOOK_MAPPING_CONFIG.DEFAULT_AUTHOR,
+      content: toText(resolveFirst(item, mapping.content)).trim(),
+      timestamp: (toDate(resolveFirst(item, mapping.timestamp)) || fallbackTimestamp).toISOString(),
+    }))
+    .filter(reply => reply.content)
+}
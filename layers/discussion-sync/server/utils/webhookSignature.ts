@@ -0,0 +1,56 @@
+/**
+ * Generic Webhook Signature Verification
+ *
+ * Verifies requests sent to the generic webhook endpoint using the
+ * X-Discubot-Signature header: a hex HMAC SHA256 of the raw body, keyed
+ * with the source config's webhook secret. Both "sha256=<hex>" (the format
+ * GitHub and most form builders use) and a bare hex digest are accepted.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/**
+ * Compute the signature a sender should put in the X-Discubot-Signature header
+ */
+export function computeWebhookSignature(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body, 'utf8').digest('hex')}`
+}
+
+/**
+ * Verify generic webhook signature
+ *
+ * @param body - Raw request body as string
+ * @param signature - Signature from X-Discubot-Signature header
+ * @param secret - Webhook secret of the source config
+ * @returns True if signature is valid, false otherwise
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string,
+  secret: string
+): boolean {
+  try {
+    const normalizedSignature = signature.trim().toLowerCase().replace(/^sha256=/, '')
+    const computedSignature = computeWebhookSignature(body, secret).replace(/^sha256=/, '')
+
+    if (normalizedSignature.length !== computedSignature.length) {
+      console.warn('[Webhook Signature] Signature length mismatch')
+      return false
+    }
+
+    const isValid = timingSafeEqual(
+      Buffer.from(normalizedSignature, 'utf8'),
+      Buffer.from(computedSignature, 'utf8'),
+    )
+
+    if (!isValid) {
+      console.warn('[Webhook Signature] Signature verification failed')
+    }
+
+    return isValid
+  }
+  catch (error) {
+    console.error('[Webhook Signature] Verification error:', error)
+    return false
+  }
+}
@@ -33,6 +33,10 @@ export default defineNuxtConfig({
     slackClientId: process.env.SLACK_CLIENT_ID,
     slackClientSecret: process.env.SLACK_CLIENT_SECRET,
     slackSigningSecret: process.env.SLACK_SIGNING_SECRET,
+    githubWebhookSecret: process.env.GITHUB_WEBHOOK_SECRET,
+    linearWebhookSecret: process.env.LINEAR_WEBHOOK_SECRET,
+    discordApplicationId: process.env.DISCORD_APPLICATION_ID,
+    discordPublicKey: process.env.DISCORD_PUBLIC_KEY,
     // Token encryption
     encryptionKey: process.env.ENCRYPTION_KEY,
     // @ts-expect-error - We're just extending the type
@@ -1,7 +1,7 @@
 /**
  * Database seeding for Discussion Sync Sources
  *
- * This file contains seed data for the initial discussion sync sources (Figma and Slack).
+ * This file contains seed data for the discussion sync sources (one entry per adapter).
  * Run this to populate the sources table with base configurations.
  */
 
@@ -37,20 +37,21 @@ export const sourceSeedData: SourceSeed[] = [
     owner: 'system',
     sourceType: 'figma',
     name: 'Figma',
-    description: 'Sync Figma comments to Notion via email forwarding',
+    description: 'Sync Figma comments to Notion via webhooks or email forwarding',
     adapterClass: 'FigmaAdapter',
     icon: '🎨',
-    webhookPath: '/api/webhook/mailgun/figma',
-    requiresEmail: true,
+    webhookPath: '/api/webhook/figma',
+    requiresEmail: false,
     requiresWebhook: true,
     requiresApiToken: true,
     active: true,
     metadata: {
       supportsThreads: true,
       supportsReactions: true,
-      requiresEmail: true,
+      events: ['FILE_COMMENT'],
       emailProvider: 'mailgun',
-      version: '1.0.0',
+      emailWebhookPath: '/api/webhook/mailgun/figma',
+      version: '1.1.0',
     },
     createdBy: 'system',
     updatedBy: 'system',
@@ -61,7 +62,7 @@ export const sourceSeedData: SourceSeed[] = [
     owner: 'system',
     sourceType: 'slack',
     name: 'Slack',
-    description: 'Sync Slack threads to Notion using bot mentions',
+    description: 'Sync Slack threads to Notion using bot mentions or emoji reactions',
     adapterClass: 'SlackAdapter',
     icon: '💬',
     webhookPath: '/api/webhook/slack/events',
@@ -73,10 +74,18 @@ export const sourceSeedData: SourceSeed[] = [
       supportsThreads: true,
       supportsReactions: true,
       requiresOAuth: true,
+      triggers: ['app_mention', 'reaction', 'command', 'shortcut'],
+      commandsPath: '/api/webhook/slack/commands',
+      interactivityPath: '/api/webhook/slack/interactivity',
+      oauthCallbackPath: '/api/oauth/slack/callback',
+      events: ['app_mention', 'reaction_added', 'app_uninstalled', 'tokens_revoked'],
       scopes: [
         'channels:history',
         'channels:read',
         'chat:write',
+        'commands',
+        'files:read',
+        'reactions:read',
         'reactions:write',
         'users:read',
         'app_mentions:read',
@@ -86,6 +95,196 @@ export const sourceSeedData: SourceSeed[] = [
     createdBy: 'system',
     updatedBy: 'system',
   },
+  {
+    id: 'github',
+    teamId: 'system',
+    owner: 'system',
+    sourceType: 'github',
+    name: 'GitHub',
+    description: 'Sync GitHub issue and pull request comment threads to Notion',
+    adapterClass: 'GitHubAdapter',
+    icon: '🐙',
+    webhookPath: '/api/webhook/github',
+    requiresEmail: false,
+    requiresWebhook: true,
+    requiresApiToken: true,
+    active: true,
+    metadata: {
+      supportsThreads: true,
+      supportsReactions: true,
+      events: ['issue_comment', 'pull_request_review_comment'],
+      version: '1.0.0',
+    },
+    createdBy: 'system',
+    updatedBy: 'system',
+  },
+  {
+    id: 'linear',
+    teamId: 'system',
+    owner: 'system',
+    sourceType: 'linear',
+    name: 'Linear',
+    description: 'Sync Linear issue comment threads to Notion',
+    adapterClass: 'LinearAdapter',
+    icon: '📐',
+    webhookPath: '/api/webhook/linear',
+    requiresEmail: false,
+    requiresWebhook: true,
+    requiresApiToken: true,
+    active: true,
+    metadata: {
+      supportsThreads: true,
+      supportsReactions: true,
+      events: ['Comment'],
+      version: '1.0.0',
+    },
+    createdBy: 'system',
+    updatedBy: 'system',
+  },
+  {
+    id: 'teams',
+    teamId: 'system',
+    owner: 'system',
+    sourceType: 'teams',
+    name: 'Microsoft Teams',
+    description: 'Sync Microsoft Teams channel reply chains to Notion using bot mentions',
+    adapterClass: 'TeamsAdapter',
+    icon: '👥',
+    webhookPath: '/api/webhook/teams',
+    requiresEmail: false,
+    requiresWebhook: true,
+    requiresApiToken: true,
+    active: true,
+    metadata: {
+      supportsThreads: true,
+      supportsReactions: false,
+      requiresAppRegistration: true,
+      graphPermissions: ['ChannelMessage.Read.All'],
+      version: '1.0.0',
+    },
+    createdBy: 'system',
+    updatedBy: 'system',
+  },
+  {
+    id: 'discord',
+    teamId: 'system',
+    owner: 'system',
+    sourceType: 'discord',
+    name: 'Discord',
+    description: 'Sync Discord threads and forum posts to Notion using mentions or the "Send to Notion" command',
+    adapterClass: 'DiscordAdapter',
+    icon: '🎮',
+    webhookPath: '/api/webhook/discord',
+    requiresEmail: false,
+    requiresWebhook: true,
+    requiresApiToken: true,
+    active: true,
+    metadata: {
+      supportsThreads: true,
+      supportsReactions: true,
+      commands: ['Send to Notion'],
+      permissions: ['VIEW_CHANNEL', 'READ_MESSAGE_HISTORY', 'SEND_MESSAGES_IN_THREADS', 'ADD_REACTIONS'],
+      version: '1.0.0',
+    },
+    createdBy: 'system',
+    updatedBy: 'system',
+  },
+  {
+    id: 'mattermost',
+    teamId: 'system',
+    owner: 'system',
+    sourceType: 'mattermost',
+    name: 'Mattermost',
+    description: 'Sync self-hosted Mattermost threads to Notion',
+    adapterClass: 'MattermostAdapter',
+    icon: '💬',
+    webhookPath: '/api/webhook/mattermost',
+    requiresEmail: false,
+    requiresWebhook: true,
+    requiresApiToken: true,
+    active: true,
+    metadata: {
+      supportsThreads: true,
+      supportsReactions: true,
+      selfHosted: true,
+      triggers: ['outgoing_webhook', 'mention'],
+      version: '1.0.0',
+    },
+    createdBy: 'system',
+    updatedBy: 'system',
+  },
+  {
+    id: 'zendesk',
+    teamId: 'system',
+    owner: 'system',
+    sourceType: 'zendesk',
+    name: 'Zendesk',
+    description: 'Sync Zendesk ticket conversations to Notion',
+    adapterClass: 'ZendeskAdapter',
+    icon: '🎧',
+    webhookPath: '/api/webhook/zendesk',
+    requiresEmail: false,
+    requiresWebhook: true,
+    requiresApiToken: true,
+    active: true,
+    metadata: {
+      supportsThreads: true,
+      supportsReactions: false,
+      statusIndicator: 'tags',
+      events: ['ticket_comment_added'],
+      version: '1.0.0',
+    },
+    createdBy: 'system',
+    updatedBy: 'system',
+  },
+  {
+    id: 'generic-webhook',
+    teamId: 'system',
+    owner: 'system',
+    sourceType: 'generic-webhook',
+    name: 'Generic Webhook',
+    description: 'Sync discussions from any tool that can send JSON webhooks',
+    adapterClass: 'GenericWebhookAdapter',
+    icon: '🔗',
+    webhookPath: '/api/webhook/generic/:sourceConfigId',
+    requiresEmail: false,
+    requiresWebhook: true,
+    requiresApiToken: false,
+    active: true,
+    metadata: {
+      supportsThreads: true,
+      supportsReactions: false,
+      statusIndicator: 'none',
+      signatureHeader: 'x-discubot-signature',
+      version: '1.0.0',
+    },
+    createdBy: 'system',
+    updatedBy: 'system',
+  },
+  {
+    id: 'email',
+    teamId: 'system',
+    owner: 'system',
+    sourceType: 'email',
+    name: 'Email',
+    description: 'Sync forwarded email conversations to Notion',
+    adapterClass: 'EmailAdapter',
+    icon: '✉️',
+    webhookPath: '/api/webhook/mailgun/email',
+    requiresEmail: true,
+    requiresWebhook: false,
+    requiresApiToken: false,
+    active: true,
+    metadata: {
+      supportsThreads: true,
+      supportsReactions: false,
+      statusIndicator: 'none',
+      emailProvider: 'mailgun',
+      version: '1.0.0',
+    },
+    createdBy: 'system',
+    updatedBy: 'system',
+  },
 ]
 
 /**